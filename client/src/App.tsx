@@ -6,12 +6,14 @@ import { ThemeProvider } from "@/components/ThemeProvider";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import Challenges from "@/pages/Challenges";
+import ChallengeStudio from "@/pages/ChallengeStudio";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/challenges" component={Challenges} />
+      <Route path="/challenges/studio" component={ChallengeStudio} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
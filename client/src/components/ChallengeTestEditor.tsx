@@ -0,0 +1,378 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  challengeTestSchema,
+  comparisonModes,
+  isPageTest,
+  type ChallengeTest,
+  type ComparisonMode
+} from "@shared/challenge";
+
+// A test as the editor holds it. Values are JSON text until the test is
+// read back, so half-typed JSON never gets lost.
+export interface TestDraft {
+  kind: "function" | "page";
+  description: string;
+  hidden: boolean;
+  message: string;
+  // Function tests
+  call: string;
+  args: string;
+  outcome: "returns" | "throws";
+  expected: string;
+  throwsName: string;
+  throwsMessage: string;
+  compare: ComparisonMode;
+  tolerance: string;
+  predicate: string;
+  // Page tests
+  actions: string;
+  dom: string;
+}
+
+export type TestDraftResult = { ok: true; test: ChallengeTest } | { ok: false; error: string };
+
+const compareLabels: Record<ComparisonMode, string> = {
+  "deep-equal": "Equal",
+  "approximate": "Approximately equal",
+  "unordered": "Equal in any order",
+  "predicate": "Predicate"
+};
+
+const json = (value: unknown): string => value === undefined ? "" : JSON.stringify(value, null, 2);
+
+export function emptyTestDraft(kind: TestDraft["kind"] = "function"): TestDraft {
+  return {
+    kind,
+    description: "",
+    hidden: false,
+    message: "",
+    call: "",
+    args: "[]",
+    outcome: "returns",
+    expected: "",
+    throwsName: "",
+    throwsMessage: "",
+    compare: "deep-equal",
+    tolerance: "",
+    predicate: "",
+    actions: "",
+    dom: kind === "page" ? json([{ selector: "#app", text: "" }]) : ""
+  };
+}
+
+export function toTestDraft(test: ChallengeTest): TestDraft {
+  const shown = {
+    description: test.description ?? "",
+    hidden: test.hidden ?? false,
+    message: test.message ?? ""
+  };
+  if (isPageTest(test)) {
+    return { ...emptyTestDraft("page"), ...shown, actions: json(test.actions), dom: json(test.dom) };
+  }
+  return {
+    ...emptyTestDraft("function"),
+    ...shown,
+    call: test.call,
+    args: json(test.args),
+    outcome: test.throws ? "throws" : "returns",
+    expected: json(test.expected),
+    throwsName: test.throws?.name ?? "",
+    throwsMessage: test.throws?.message ?? "",
+    compare: test.compare,
+    tolerance: test.tolerance === undefined ? "" : String(test.tolerance),
+    predicate: test.predicate ?? ""
+  };
+}
+
+// JSON of a field, or undefined when the field is empty
+function parseField(text: string, field: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  if (!text.trim()) return { ok: true, value: undefined };
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch (e) {
+    return { ok: false, error: `${field} is not valid JSON: ${(e as Error).message}` };
+  }
+}
+
+/**
+ * Read a test back from the editor, checked against the test schema
+ */
+export function fromTestDraft(draft: TestDraft): TestDraftResult {
+  const shown = {
+    description: draft.description.trim() || undefined,
+    hidden: draft.hidden || undefined,
+    message: draft.message.trim() || undefined
+  };
+
+  let test: unknown;
+  if (draft.kind === "page") {
+    const actions = parseField(draft.actions, "Actions");
+    if (!actions.ok) return actions;
+    const dom = parseField(draft.dom, "Checks");
+    if (!dom.ok) return dom;
+    test = { ...shown, actions: actions.value, dom: dom.value ?? [] };
+  } else {
+    const args = parseField(draft.args, "Arguments");
+    if (!args.ok) return args;
+    const expected = parseField(draft.expected, "Expected value");
+    if (!expected.ok) return expected;
+    const throws = draft.outcome === "throws";
+    const compare = throws ? "deep-equal" : draft.compare;
+    test = {
+      ...shown,
+      call: draft.call.trim(),
+      args: args.value ?? [],
+      expected: throws || compare === "predicate" ? undefined : expected.value,
+      throws: throws
+        ? { name: draft.throwsName.trim() || undefined, message: draft.throwsMessage || undefined }
+        : undefined,
+      compare,
+      tolerance: compare === "approximate" && draft.tolerance.trim() ? Number(draft.tolerance) : undefined,
+      predicate: compare === "predicate" ? draft.predicate : undefined
+    };
+  }
+
+  const parsed = challengeTestSchema.safeParse(test);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    return { ok: false, error: `${issue.path.join(".") || "Test"}: ${issue.message}` };
+  }
+  return { ok: true, test: parsed.data };
+}
+
+interface ChallengeTestEditorProps {
+  tests: TestDraft[];
+  onChange: (tests: TestDraft[]) => void;
+  // Page tests need the challenge to run against a virtual DOM
+  hasPage: boolean;
+}
+
+/**
+ * The tests of a challenge, edited one field at a time. Function tests call
+ * an export of the solution; page tests check the virtual DOM.
+ */
+export default function ChallengeTestEditor({ tests, onChange, hasPage }: ChallengeTestEditorProps) {
+  const update = (index: number, changes: Partial<TestDraft>) => {
+    onChange(tests.map((test, i) => i === index ? { ...test, ...changes } : test));
+  };
+
+  const remove = (index: number) => {
+    onChange(tests.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {tests.map((test, index) => {
+        const id = `test-${index}`;
+        return (
+          <div key={index} className="border rounded-md p-3 space-y-3">
+            <div className="flex items-center gap-3">
+              <span className="font-medium text-sm">Test {index + 1}</span>
+              <Select
+                value={test.kind}
+                onValueChange={(value) => update(index, { ...emptyTestDraft(value as TestDraft["kind"]), description: test.description, hidden: test.hidden, message: test.message })}
+              >
+                <SelectTrigger className="w-44 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="function">Calls a function</SelectItem>
+                  <SelectItem value="page" disabled={!hasPage}>Checks the page</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch id={`${id}-hidden`} checked={test.hidden} onCheckedChange={(hidden) => update(index, { hidden })} />
+                <Label htmlFor={`${id}-hidden`} className="text-sm">Hidden</Label>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => remove(index)} title="Delete test">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {test.kind === "function" ? (
+              <>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor={`${id}-call`}>Function</Label>
+                    <Input
+                      id={`${id}-call`}
+                      value={test.call}
+                      onChange={(e) => update(index, { call: e.target.value })}
+                      placeholder="fizzBuzz"
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="space-y-1 col-span-2">
+                    <Label htmlFor={`${id}-args`}>Arguments (JSON array)</Label>
+                    <Input
+                      id={`${id}-args`}
+                      value={test.args}
+                      onChange={(e) => update(index, { args: e.target.value })}
+                      placeholder="[15]"
+                      className="font-mono"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label>Outcome</Label>
+                    <Select value={test.outcome} onValueChange={(value) => update(index, { outcome: value as TestDraft["outcome"] })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="returns">Returns</SelectItem>
+                        <SelectItem value="throws">Throws</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {test.outcome === "returns" ? (
+                    <div className="space-y-1 col-span-2">
+                      <Label>Comparison</Label>
+                      <Select value={test.compare} onValueChange={(value) => update(index, { compare: value as ComparisonMode })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {comparisonModes.map(mode => (
+                            <SelectItem key={mode} value={mode}>{compareLabels[mode]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="space-y-1">
+                        <Label htmlFor={`${id}-throws-name`}>Error name</Label>
+                        <Input
+                          id={`${id}-throws-name`}
+                          value={test.throwsName}
+                          onChange={(e) => update(index, { throwsName: e.target.value })}
+                          placeholder="Any error"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor={`${id}-throws-message`}>Message contains</Label>
+                        <Input
+                          id={`${id}-throws-message`}
+                          value={test.throwsMessage}
+                          onChange={(e) => update(index, { throwsMessage: e.target.value })}
+                          placeholder="Any message"
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                {test.outcome === "returns" && test.compare !== "predicate" && (
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className={`space-y-1 ${test.compare === "approximate" ? "col-span-2" : "col-span-3"}`}>
+                      <Label htmlFor={`${id}-expected`}>Expected value (JSON; empty expects undefined)</Label>
+                      <Textarea
+                        id={`${id}-expected`}
+                        value={test.expected}
+                        onChange={(e) => update(index, { expected: e.target.value })}
+                        placeholder={'"FizzBuzz"'}
+                        className="font-mono text-xs min-h-[60px]"
+                      />
+                    </div>
+                    {test.compare === "approximate" && (
+                      <div className="space-y-1">
+                        <Label htmlFor={`${id}-tolerance`}>Tolerance</Label>
+                        <Input
+                          id={`${id}-tolerance`}
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={test.tolerance}
+                          onChange={(e) => update(index, { tolerance: e.target.value })}
+                          placeholder="1e-9"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {test.outcome === "returns" && test.compare === "predicate" && (
+                  <div className="space-y-1">
+                    <Label htmlFor={`${id}-predicate`}>Predicate: body of a function of (actual, ...args) returning whether it passes</Label>
+                    <Textarea
+                      id={`${id}-predicate`}
+                      value={test.predicate}
+                      onChange={(e) => update(index, { predicate: e.target.value })}
+                      placeholder={"return typeof actual === 'function' && actual() === 1;"}
+                      className="font-mono text-xs min-h-[80px]"
+                    />
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`${id}-actions`}>Actions (JSON, optional)</Label>
+                  <Textarea
+                    id={`${id}-actions`}
+                    value={test.actions}
+                    onChange={(e) => update(index, { actions: e.target.value })}
+                    placeholder={'[{ "selector": "#name", "event": "input", "value": "Ada" }]'}
+                    className="font-mono text-xs min-h-[100px]"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`${id}-dom`}>Checks (JSON)</Label>
+                  <Textarea
+                    id={`${id}-dom`}
+                    value={test.dom}
+                    onChange={(e) => update(index, { dom: e.target.value })}
+                    placeholder={'[{ "selector": "#greeting", "text": "Hello, Ada!" }]'}
+                    className="font-mono text-xs min-h-[100px]"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`${id}-description`}>Description</Label>
+                <Input
+                  id={`${id}-description`}
+                  value={test.description}
+                  onChange={(e) => update(index, { description: e.target.value })}
+                  placeholder="Shown with the result"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`${id}-message`}>Failure message</Label>
+                <Input
+                  id={`${id}-message`}
+                  value={test.message}
+                  onChange={(e) => update(index, { message: e.target.value })}
+                  placeholder={test.hidden ? "Hidden tests only say they failed" : "Shown when the test fails"}
+                  disabled={test.hidden}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button variant="outline" size="sm" className="gap-2" onClick={() => onChange([...tests, emptyTestDraft()])}>
+        <Plus size={16} />
+        Add test
+      </Button>
+    </div>
+  );
+}
@@ -14,7 +14,12 @@ import {
   RefreshCw,
   SkipForward,
   SkipBack,
-  Bug
+  Bug,
+  ChevronDown,
+  Check,
+  Repeat,
+  Square,
+  Dices
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Editor } from "@monaco-editor/react";
@@ -34,25 +39,102 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { apiRequest } from "@/lib/queryClient";
+import { languages, type Language } from "@shared/schema";
+import type { NetworkPolicy } from "@shared/network";
+import { ValueNode } from "@/components/ObjectInspector";
+import EventLoopPanel from "@/components/EventLoopPanel";
+import DebugPanel, { type DebugRunState } from "@/components/DebugPanel";
+import NetworkPolicyDialog from "@/components/NetworkPolicyDialog";
+import DomFixtureDialog from "@/components/DomFixtureDialog";
+import { startDebugSession, type DebugSession } from "@/lib/debugSocket";
+import type { DeterministicSetting } from "@/lib/executeCode";
+import {
+  formatExecutionError,
+  type EventLoopTraceResult,
+  type ExecutionStep,
+  type StackFrame,
+  type VisualExecutionResult
+} from "@shared/execution";
+
+const languageLabels: Record<Language, string> = {
+  javascript: "JavaScript",
+  typescript: "TypeScript"
+};
+
+// Error reported by the server for a location in the code (1-based)
+export interface EditorDiagnostic {
+  line: number;
+  column?: number;
+  message: string;
+  // File of a multi-file snippet the error is in; the entry when left out
+  file?: string;
+}
+
+// Monaco language of a file other than the entry, by its extension
+const fileLanguage = (path: string, language: Language) => {
+  if (path.endsWith(".json")) return "json";
+  if (path.endsWith(".ts")) return "typescript";
+  return path.endsWith(".js") || path.endsWith(".mjs") ? "javascript" : language;
+};
 
 interface CodeEditorProps {
   code: string;
   setCode: (code: string) => void;
   onRun: () => void;
+  // Cancels the run in flight; while code executes, Stop takes the place of Run
+  onStop?: () => void;
   onFormat: () => void;
   onClear: () => void;
   isExecuting: boolean;
   isSimple?: boolean;
+  diagnostics?: EditorDiagnostic[];
+  // Scrolls to and places the cursor at this location whenever it changes
+  revealLocation?: { line: number; column?: number } | null;
+  language?: Language;
+  // Lets the user switch languages; without it the language is only shown
+  onLanguageChange?: (language: Language) => void;
+  // Whether Run is deterministic; the picker is shown when it can be changed
+  deterministic?: DeterministicSetting;
+  onDeterministicChange?: (setting: DeterministicSetting) => void;
+  // Seed reported by the last deterministic run, offered for replay
+  lastSeed?: number | null;
+  // What fetch may reach; the policy editor is shown when it can be changed
+  networkPolicy?: NetworkPolicy | null;
+  onNetworkPolicyChange?: (policy: NetworkPolicy | null) => void;
+  // Starting HTML of the virtual DOM; the editor is shown when it can be changed
+  domFixture?: string | null;
+  onDomFixtureChange?: (fixture: string | null) => void;
+  // Files of a multi-file snippet, shown as tabs; code is the active one's
+  files?: string[];
+  entryFile?: string;
+  activeFile?: string;
+  onSelectFile?: (path: string) => void;
 }
 
 export default function CodeEditor({ 
   code, 
   setCode, 
   onRun, 
+  onStop,
   onFormat, 
   onClear,
   isExecuting,
-  isSimple = false
+  isSimple = false,
+  diagnostics = [],
+  revealLocation = null,
+  language = "javascript",
+  onLanguageChange,
+  deterministic = false,
+  onDeterministicChange,
+  lastSeed = null,
+  networkPolicy = null,
+  onNetworkPolicyChange,
+  domFixture = null,
+  onDomFixtureChange,
+  files = [],
+  entryFile,
+  activeFile,
+  onSelectFile
 }: CodeEditorProps) {
   const editorRef = useRef<any>(null);
   const { toast } = useToast();
@@ -64,13 +146,51 @@ export default function CodeEditor({
   
   // Visual execution state
   const [isVisualExecutionMode, setIsVisualExecutionMode] = useState(false);
-  const [executionSteps, setExecutionSteps] = useState<any[]>([]);
+  const [executionSteps, setExecutionSteps] = useState<ExecutionStep[]>([]);
+  // Console output and outcome of the traced run
+  const [visualRun, setVisualRun] = useState<Omit<VisualExecutionResult, 'steps'> | null>(null);
+  // Set while the event loop visualization is shown instead of statements
+  const [eventLoopTrace, setEventLoopTrace] = useState<EventLoopTraceResult | null>(null);
+  const stepDecorationsRef = useRef<string[]>([]);
   const [currentStep, setCurrentStep] = useState(0);
+  const stepCount = eventLoopTrace ? eventLoopTrace.steps.length : executionSteps.length;
   const [isLoadingSteps, setIsLoadingSteps] = useState(false);
   
+  // Debugger state: breakpoint lines set in the gutter, the running session
+  // and what it last reported
+  const [breakpoints, setBreakpoints] = useState<number[]>([]);
+  const breakpointDecorationsRef = useRef<string[]>([]);
+  const [debugSession, setDebugSession] = useState<DebugSession | null>(null);
+  const [debugState, setDebugState] = useState<DebugRunState | null>(null);
+  const [selectedFrame, setSelectedFrame] = useState(0);
+  const [watchExpressions, setWatchExpressions] = useState<string[]>([]);
+  const isDebugging = debugState !== null && debugState.status !== 'finished';
+  // Stepping, tracing and debugging run the editor's code on its own, which
+  // leaves out the other files of a project
+  const isProject = files.length > 1;
+  const editorLanguage = activeFile && activeFile !== entryFile ? fileLanguage(activeFile, language) : language;
+  
   // Store monaco instance for later use
   const monacoRef = useRef<any>(null);
   
+  // Report type errors for TypeScript. Imports are resolved by the server,
+  // so "cannot find module" errors for package URLs are left out.
+  const handleEditorWillMount = (monaco: any) => {
+    const typescript = monaco.languages.typescript;
+    typescript.typescriptDefaults.setCompilerOptions({
+      target: typescript.ScriptTarget.ESNext,
+      module: typescript.ModuleKind.ESNext,
+      moduleResolution: typescript.ModuleResolutionKind.NodeJs,
+      allowNonTsExtensions: true,
+      strict: true
+    });
+    typescript.typescriptDefaults.setDiagnosticsOptions({
+      noSemanticValidation: false,
+      noSyntaxValidation: false,
+      diagnosticCodesToIgnore: [2307, 2792]
+    });
+  };
+  
   const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
     monacoRef.current = monaco;
@@ -79,8 +199,79 @@ export default function CodeEditor({
     editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => {
       onRun();
     });
+    
+    // Clicking the gutter next to a line toggles a breakpoint on it
+    if (!isSimple) {
+      editor.onMouseDown((event: any) => {
+        if (event.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN) return;
+        const line = event.target.position?.lineNumber;
+        if (!line) return;
+        setBreakpoints(lines => lines.includes(line)
+          ? lines.filter(item => item !== line)
+          : [...lines, line].sort((a, b) => a - b));
+      });
+    }
   };
   
+  // Show breakpoints in the gutter and hand changes to a running debug session
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    if (!editor || !monaco) return;
+    
+    breakpointDecorationsRef.current = editor.deltaDecorations(
+      breakpointDecorationsRef.current,
+      breakpoints.map(line => ({
+        range: new monaco.Range(line, 1, line, 1),
+        options: {
+          glyphMarginClassName: 'debug-breakpoint-glyph',
+          glyphMarginHoverMessage: { value: 'Breakpoint' },
+          stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+        }
+      }))
+    );
+    debugSession?.setBreakpoints(breakpoints);
+  }, [breakpoints]);
+  
+  // Show execution errors as markers (red squiggles) in the editor
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    const model = editor?.getModel();
+    if (!model || !monaco) return;
+    
+    const markers = diagnostics
+      .filter(diagnostic => !activeFile || (diagnostic.file ?? entryFile) === activeFile)
+      .filter(diagnostic => diagnostic.line >= 1 && diagnostic.line <= model.getLineCount())
+      .map(diagnostic => {
+        const startColumn = diagnostic.column ?? model.getLineFirstNonWhitespaceColumn(diagnostic.line);
+        const word = model.getWordAtPosition({ lineNumber: diagnostic.line, column: startColumn });
+        return {
+          startLineNumber: diagnostic.line,
+          startColumn,
+          endLineNumber: diagnostic.line,
+          endColumn: diagnostic.column
+            ? (word ? word.endColumn : startColumn + 1)
+            : model.getLineMaxColumn(diagnostic.line),
+          message: diagnostic.message,
+          severity: monaco.MarkerSeverity.Error
+        };
+      });
+    
+    monaco.editor.setModelMarkers(model, "execution", markers);
+  }, [diagnostics, activeFile]);
+  
+  // Jump to a location picked outside the editor, such as a stack frame
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !revealLocation) return;
+    
+    const position = { lineNumber: revealLocation.line, column: revealLocation.column ?? 1 };
+    editor.setPosition(position);
+    editor.revealPositionInCenter(position);
+    editor.focus();
+  }, [revealLocation]);
+  
   // Add auto-run debounce timer
   const autoRunTimerRef = useRef<NodeJS.Timeout | null>(null);
   
@@ -93,6 +284,18 @@ export default function CodeEditor({
     if (value !== undefined) {
       setCode(value);
       
+      // Breakpoints move with the lines they were set on
+      const model = editorRef.current?.getModel();
+      if (model && breakpointDecorationsRef.current.length > 0) {
+        const lines = breakpointDecorationsRef.current
+          .map(id => model.getDecorationRange(id)?.startLineNumber)
+          .filter((line): line is number => line !== undefined);
+        const moved = Array.from(new Set(lines)).sort((a, b) => a - b);
+        if (moved.join() !== breakpoints.join()) {
+          setBreakpoints(moved);
+        }
+      }
+      
       // Auto-run the code after a short delay (debounce), but only if autoRunEnabled is true
       if (autoRunEnabled) {
         if (autoRunTimerRef.current) {
@@ -116,11 +319,12 @@ export default function CodeEditor({
   };
   
   const downloadCode = () => {
-    const blob = new Blob([code], { type: 'text/javascript' });
+    const isTypeScript = language === 'typescript';
+    const blob = new Blob([code], { type: isTypeScript ? 'text/typescript' : 'text/javascript' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'jsrunner-code.js';
+    a.download = isTypeScript ? 'jsrunner-code.ts' : 'jsrunner-code.js';
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -128,7 +332,7 @@ export default function CodeEditor({
     
     toast({
       title: "Code downloaded",
-      description: "Your JavaScript code has been downloaded",
+      description: `Your ${languageLabels[language]} code has been downloaded`,
       duration: 2000
     });
   };
@@ -141,26 +345,30 @@ export default function CodeEditor({
       setExecutionSteps([]);
       setCurrentStep(0);
       
-      // Request the execution steps from the server
+      // The server runs instrumented code and records every statement reached
       const response = await apiRequest("POST", "/api/execute-visual", {
-        code
+        code,
+        language
       });
       
-      const result = await response.json();
-      if (result.steps && result.steps.length > 0) {
-        setExecutionSteps(result.steps);
+      const { steps, ...run }: VisualExecutionResult = await response.json();
+      if (steps.length > 0) {
+        setExecutionSteps(steps);
+        setVisualRun(run);
         // Highlight first step
-        highlightStep(result.steps[0], 0);
+        highlightStep(steps[0]);
         
         toast({
           title: "Visual execution ready",
-          description: `${result.steps.length} steps prepared. Use the controls to walk through execution.`,
+          description: `${steps.length} steps recorded${run.truncated ? " (limit reached)" : ""}. Use the controls to walk through execution.`,
           duration: 3000
         });
       } else {
         toast({
           title: "No steps to display",
-          description: "The code execution did not generate any visual steps.",
+          description: run.error
+            ? `${run.error.name}: ${run.error.message}`
+            : "The code execution did not generate any visual steps.",
           variant: "destructive"
         });
         setIsVisualExecutionMode(false);
@@ -177,24 +385,71 @@ export default function CodeEditor({
     }
   };
   
+  // Start the event loop visualization, which steps through the changes to
+  // the call stack and the task queues instead of statements
+  const startEventLoopTrace = async () => {
+    try {
+      setIsVisualExecutionMode(true);
+      setIsLoadingSteps(true);
+      setCurrentStep(0);
+      
+      const response = await apiRequest("POST", "/api/execute-event-loop", {
+        code,
+        language
+      });
+      
+      const trace: EventLoopTraceResult = await response.json();
+      if (trace.steps.length > 0) {
+        setEventLoopTrace(trace);
+        highlightStep(trace.steps[0]);
+        
+        toast({
+          title: "Event loop ready",
+          description: `${trace.steps.length} events recorded${trace.truncated ? " (limit reached)" : ""}. Use the controls to follow the queues.`,
+          duration: 3000
+        });
+      } else {
+        toast({
+          title: "No events to display",
+          description: trace.error
+            ? `${trace.error.name}: ${trace.error.message}`
+            : "The code did not run anything on the event loop.",
+          variant: "destructive"
+        });
+        setIsVisualExecutionMode(false);
+      }
+    } catch (error) {
+      toast({
+        title: "Event loop error",
+        description: "Failed to trace the event loop.",
+        variant: "destructive"
+      });
+      setIsVisualExecutionMode(false);
+    } finally {
+      setIsLoadingSteps(false);
+    }
+  };
+  
   // Stop visual execution mode
   const stopVisualExecution = () => {
     setIsVisualExecutionMode(false);
     setExecutionSteps([]);
+    setVisualRun(null);
+    setEventLoopTrace(null);
     setCurrentStep(0);
     
     // Clear any decorations
-    if (editorRef.current && monacoRef.current) {
-      editorRef.current.deltaDecorations([], []);
+    if (editorRef.current) {
+      stepDecorationsRef.current = editorRef.current.deltaDecorations(stepDecorationsRef.current, []);
     }
   };
   
   // Move to next step in visual execution
   const nextStep = () => {
-    if (currentStep < executionSteps.length - 1) {
+    if (currentStep < stepCount - 1) {
       const nextStepIndex = currentStep + 1;
       setCurrentStep(nextStepIndex);
-      highlightStep(executionSteps[nextStepIndex], nextStepIndex);
+      highlightStep((eventLoopTrace?.steps ?? executionSteps)[nextStepIndex]);
     } else {
       toast({
         title: "End of execution",
@@ -208,69 +463,238 @@ export default function CodeEditor({
     if (currentStep > 0) {
       const prevStepIndex = currentStep - 1;
       setCurrentStep(prevStepIndex);
-      highlightStep(executionSteps[prevStepIndex], prevStepIndex);
+      highlightStep((eventLoopTrace?.steps ?? executionSteps)[prevStepIndex]);
     }
   };
   
-  // Highlight the current step in the editor
-  const highlightStep = (step: any, stepIndex: number) => {
+  // Highlight the current step in the editor: its line, and the statement
+  // start within the line when it is known
+  const highlightStep = (step: { line: number | null; column?: number }) => {
     if (!editorRef.current || !monacoRef.current) return;
     
-    // Clear existing decorations
-    editorRef.current.deltaDecorations([], []);
+    const { line, column } = step;
+    if (line === null) {
+      stepDecorationsRef.current = editorRef.current.deltaDecorations(stepDecorationsRef.current, []);
+      return;
+    }
     
-    // Add decoration for current line
-    if (step.lineNumber && step.lineNumber > 0) {
-      const lineNumber = step.lineNumber;
-      const decorations = [{
-        range: new monacoRef.current.Range(lineNumber, 1, lineNumber, 1),
+    const stickiness = monacoRef.current.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges;
+    const decorations: any[] = [
+      {
+        range: new monacoRef.current.Range(line, 1, line, 1),
         options: {
           isWholeLine: true,
           className: 'visual-execution-highlight',
           glyphMarginClassName: 'visual-execution-glyph',
-          stickiness: monacoRef.current.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges
+          stickiness
         }
-      }];
-      
-      editorRef.current.deltaDecorations([], decorations);
-      
-      // Reveal the highlighted line
-      editorRef.current.revealLineInCenter(lineNumber);
+      }
+    ];
+    if (column !== undefined) {
+      decorations.push({
+        range: new monacoRef.current.Range(line, column, line, column + 1),
+        options: { inlineClassName: 'visual-execution-column', stickiness }
+      });
     }
+    
+    // Replace the previous step's decorations
+    stepDecorationsRef.current = editorRef.current.deltaDecorations(stepDecorationsRef.current, decorations);
+    
+    // Reveal the highlighted line
+    editorRef.current.revealLineInCenter(line);
   };
   
+  // Run the code under the debugger, pausing at the breakpoints in the gutter
+  const startDebugging = () => {
+    setSelectedFrame(0);
+    setDebugState({ status: 'starting', paused: null, console: [], outcome: null, failed: false });
+    
+    const update = (changes: Partial<DebugRunState>) =>
+      setDebugState(state => state && { ...state, ...changes });
+    
+    const session = startDebugSession(code, { language, breakpoints }, {
+      onStart: () => update({ status: 'running' }),
+      onConsole: (entry) => setDebugState(state => state && { ...state, console: [...state.console, entry] }),
+      onPause: (paused) => {
+        update({ status: 'paused', paused });
+        setSelectedFrame(0);
+        highlightStep(paused.callFrames[0]);
+      },
+      onResume: () => {
+        update({ status: 'running', paused: null });
+        highlightStep({ line: null });
+      },
+      onFinish: (summary) => {
+        let outcome = `Finished in ${summary.executionTime}ms`;
+        if (summary.error) {
+          outcome = formatExecutionError(summary.error);
+        } else if (summary.cancelled) {
+          outcome = "Stopped";
+        } else if (!summary.completed) {
+          outcome = "Stopped with timers or requests still pending";
+        }
+        update({ status: 'finished', paused: null, outcome, failed: summary.error !== null });
+        highlightStep({ line: null });
+      },
+      onError: (message) => {
+        update({ status: 'finished', paused: null, outcome: message, failed: true });
+        highlightStep({ line: null });
+      }
+    });
+    setDebugSession(session);
+  };
+  
+  // Stop the debugged program and close the debug panel
+  const stopDebugging = () => {
+    setDebugSession(null);
+    setDebugState(null);
+    highlightStep({ line: null });
+  };
+  
+  // A replaced or abandoned session is stopped, so its program does not run
+  // on until the server's timeout
+  useEffect(() => () => debugSession?.stop(), [debugSession]);
+  
+  // Show another frame of the paused call stack
+  const selectFrame = (index: number) => {
+    setSelectedFrame(index);
+    const frame = debugState?.paused?.callFrames[index];
+    if (frame) highlightStep(frame);
+  };
+  
+  // A pinned seed stays on offer, otherwise the last run's seed can be replayed
+  const replaySeed = typeof deterministic === "number" ? deterministic : lastSeed;
+  const deterministicChoices: { setting: DeterministicSetting; label: string }[] = [
+    { setting: false, label: "Real time and random numbers" },
+    { setting: true, label: "Deterministic, new seed every run" },
+    ...(replaySeed !== null ? [{ setting: replaySeed, label: `Replay seed ${replaySeed}` }] : [])
+  ];
+
+  // Name shown for a call stack frame; V8 leaves the top level unnamed
+  const frameLabel = (frame: StackFrame, index: number, frames: StackFrame[]) =>
+    frame.functionName ?? (index === frames.length - 1 ? '(global)' : '(anonymous)');
+  
   return (
     <div className="flex-1 flex flex-col h-full border-r border-border">
       <div className="bg-card p-2 flex justify-between items-center border-b border-border">
         <div className="flex items-center">
           <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
+            {isExecuting && onStop ? (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    className="flex items-center"
+                    onClick={onStop}
+                  >
+                    <Square className="mr-2 h-4 w-4" />
+                    <span>Stop</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Cancel the running code</p>
+                </TooltipContent>
+              </Tooltip>
+            ) : (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="default"
+                    size="sm"
+                    className="flex items-center bg-gradient-to-r from-primary to-blue-600 hover:from-primary/90 hover:to-blue-700"
+                    onClick={onRun}
+                    disabled={isExecuting}
+                  >
+                    {isExecuting ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Play className="mr-2 h-4 w-4" />
+                    )}
+                    <span>Run</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Execute code (Ctrl+Enter)</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+          </TooltipProvider>
+          
+          {onLanguageChange ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
                 <Button
-                  variant="default"
+                  variant="ghost"
                   size="sm"
-                  className="flex items-center bg-gradient-to-r from-primary to-blue-600 hover:from-primary/90 hover:to-blue-700"
-                  onClick={onRun}
-                  disabled={isExecuting}
+                  className="ml-2 text-muted-foreground text-sm hidden md:flex items-center px-2"
                 >
-                  {isExecuting ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <Play className="mr-2 h-4 w-4" />
-                  )}
-                  <span>Run</span>
+                  <FileCode className="h-4 w-4 mr-1 text-primary" />
+                  <span>{languageLabels[language]}</span>
+                  <ChevronDown className="h-3 w-3 ml-1" />
                 </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Execute code (Ctrl+Enter)</p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
-          
-          <div className="ml-2 text-muted-foreground text-sm hidden md:flex items-center">
-            <FileCode className="h-4 w-4 mr-1 text-primary" />
-            <span>JavaScript</span>
-          </div>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel>Language</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {languages.map(option => (
+                  <DropdownMenuItem
+                    key={option}
+                    onClick={() => onLanguageChange(option)}
+                    className="flex items-center justify-between"
+                  >
+                    {languageLabels[option]}
+                    {option === language && <Check className="h-4 w-4 ml-2" />}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : (
+            <div className="ml-2 text-muted-foreground text-sm hidden md:flex items-center">
+              <FileCode className="h-4 w-4 mr-1 text-primary" />
+              <span>{languageLabels[language]}</span>
+            </div>
+          )}
+
+          {onDeterministicChange && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={`ml-1 text-sm hidden md:flex items-center px-2 ${deterministic === false ? "text-muted-foreground" : "text-primary"}`}
+                >
+                  <Dices className="h-4 w-4 mr-1" />
+                  <span>
+                    {deterministic === false ? "Random" : deterministic === true ? "Deterministic" : `Seed ${deterministic}`}
+                  </span>
+                  <ChevronDown className="h-3 w-3 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel>Randomness and time</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {deterministicChoices.map(({ setting, label }) => (
+                  <DropdownMenuItem
+                    key={String(setting)}
+                    onClick={() => onDeterministicChange(setting)}
+                    className="flex items-center justify-between"
+                  >
+                    {label}
+                    {setting === deterministic && <Check className="h-4 w-4 ml-2" />}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {onNetworkPolicyChange && (
+            <NetworkPolicyDialog policy={networkPolicy} onChange={onNetworkPolicyChange} />
+          )}
+
+          {onDomFixtureChange && (
+            <DomFixtureDialog fixture={domFixture} onChange={onDomFixtureChange} />
+          )}
         </div>
         
         <div className="flex space-x-1">
@@ -283,7 +707,7 @@ export default function CodeEditor({
                     size="sm"
                     className="flex items-center gap-1 text-xs"
                     onClick={startVisualExecution}
-                    disabled={isLoadingSteps || isExecuting}
+                    disabled={isLoadingSteps || isExecuting || isDebugging || isProject}
                   >
                     {isLoadingSteps ? (
                       <RefreshCw className="h-3 w-3 animate-spin" />
@@ -294,7 +718,55 @@ export default function CodeEditor({
                   </Button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>Step through code execution</p>
+                  <p>{isProject ? "Only available for single-file snippets" : "Step through code execution"}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+          
+          {!isSimple && !isVisualExecutionMode && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center gap-1 text-xs"
+                    onClick={startEventLoopTrace}
+                    disabled={isLoadingSteps || isExecuting || isDebugging || isProject}
+                  >
+                    {isLoadingSteps ? (
+                      <RefreshCw className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Repeat className="h-3 w-3" />
+                    )}
+                    <span>Event Loop</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{isProject ? "Only available for single-file snippets" : "Follow the call stack, task queues and timers of async code"}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
+          
+          {!isSimple && !isVisualExecutionMode && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center gap-1 text-xs"
+                    onClick={startDebugging}
+                    disabled={isDebugging || isLoadingSteps || isProject}
+                  >
+                    <Bug className="h-3 w-3" />
+                    <span>Debug</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{isProject ? "Only available for single-file snippets" : "Run with breakpoints; click the gutter next to a line to set one"}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -318,13 +790,13 @@ export default function CodeEditor({
                 variant="outline"
                 size="icon"
                 onClick={nextStep}
-                disabled={currentStep === executionSteps.length - 1}
+                disabled={currentStep === stepCount - 1}
                 className="h-8 w-8"
               >
                 <StepForward className="h-4 w-4" />
               </Button>
               <span className="text-xs text-muted-foreground mx-1">
-                Step {currentStep + 1}/{executionSteps.length}
+                Step {currentStep + 1}/{stepCount}
               </span>
               <Button
                 variant="outline"
@@ -372,7 +844,7 @@ export default function CodeEditor({
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>Download as .js file</p>
+                      <p>Download as {language === 'typescript' ? '.ts' : '.js'} file</p>
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
@@ -451,10 +923,26 @@ export default function CodeEditor({
         </div>
       </div>
       
+      {isProject && (
+        <div className="flex items-center overflow-x-auto bg-card border-b border-border">
+          {files.map(file => (
+            <button
+              key={file}
+              className={`px-3 py-1.5 text-xs whitespace-nowrap border-r border-border ${file === activeFile ? "bg-background text-foreground" : "text-muted-foreground hover:text-foreground"}`}
+              onClick={() => onSelectFile?.(file)}
+            >
+              {file}
+            </button>
+          ))}
+        </div>
+      )}
+      
       <div className="flex-1 overflow-hidden relative">
         <Editor
           height="100%"
-          defaultLanguage="javascript"
+          // Each file gets its own model, and with it its own undo history
+          path={activeFile}
+          language={editorLanguage}
           value={code}
           onChange={handleEditorChange}
           theme={editorTheme}
@@ -466,6 +954,8 @@ export default function CodeEditor({
             automaticLayout: true,
             lineNumbers: "on",
             lineNumbersMinChars: 1, // Minimum possible width for line numbers
+            glyphMargin: !isSimple, // Room for breakpoints
+            readOnly: isDebugging, // The debugged program cannot change under the debugger
             folding: true,
             wordWrap: "on",
             tabSize: 2,
@@ -474,10 +964,33 @@ export default function CodeEditor({
             smoothScrolling: true,
             cursorSmoothCaretAnimation: "on",
           }}
+          beforeMount={handleEditorWillMount}
           onMount={handleEditorDidMount}
         />
         
-        {isVisualExecutionMode && currentStep < executionSteps.length && (
+        {debugState && debugSession && !isVisualExecutionMode && (
+          <DebugPanel
+            state={debugState}
+            session={debugSession}
+            selectedFrame={selectedFrame}
+            onSelectFrame={selectFrame}
+            watches={watchExpressions}
+            onWatchesChange={setWatchExpressions}
+            onClose={stopDebugging}
+          />
+        )}
+        
+        {isVisualExecutionMode && eventLoopTrace && currentStep < eventLoopTrace.steps.length && (
+          <EventLoopPanel
+            trace={eventLoopTrace}
+            currentStep={currentStep}
+            onPrevious={prevStep}
+            onNext={nextStep}
+            onClose={stopVisualExecution}
+          />
+        )}
+        
+        {isVisualExecutionMode && !eventLoopTrace && currentStep < executionSteps.length && (
           <div className="execution-step-panel">
             <div className="flex justify-between items-center mb-2">
               <h3 className="font-bold text-sm">
@@ -496,32 +1009,62 @@ export default function CodeEditor({
               </Button>
             </div>
             
-            {executionSteps[currentStep].variables && (
-              <div className="mt-2">
+            <div className="text-xs text-muted-foreground mb-2">
+              Line {executionSteps[currentStep].line}, column {executionSteps[currentStep].column}
+            </div>
+            
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="md:col-span-2">
                 <h4 className="text-xs font-semibold text-muted-foreground mb-1">Variables:</h4>
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                  {Object.entries(executionSteps[currentStep].variables || {}).map(([name, value]) => (
-                    <div key={name} className="bg-card p-1 rounded border border-border">
-                      <div className="text-xs font-medium">{name}</div>
-                      <div className="variable-value">
-                        {typeof value === 'object' 
-                          ? JSON.stringify(value) 
-                          : String(value)}
-                      </div>
+                {executionSteps[currentStep].scopes.length === 0 ? (
+                  <div className="text-xs text-muted-foreground italic">No variables in scope</div>
+                ) : executionSteps[currentStep].scopes.map((scope, index) => (
+                  <div key={index} className="mb-2">
+                    <div className="text-xs font-medium mb-0.5">
+                      {scope.kind === 'function' ? `Local: ${scope.name}` : scope.name}
                     </div>
-                  ))}
-                </div>
+                    <div className="bg-card p-1 rounded border border-border font-mono text-xs">
+                      {scope.variables.map(variable => variable.value ? (
+                        <ValueNode
+                          key={variable.name}
+                          name={variable.name}
+                          value={variable.value}
+                          objects={executionSteps[currentStep].objects}
+                        />
+                      ) : (
+                        <div key={variable.name} className="pl-4 text-muted-foreground">
+                          {variable.name}: &lt;uninitialized&gt;
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
               </div>
-            )}
-            
-            {executionSteps[currentStep].console && (
-              <div className="mt-2">
-                <h4 className="text-xs font-semibold text-muted-foreground mb-1">Console Output:</h4>
-                <div className="bg-black text-white p-2 rounded font-mono text-xs">
-                  {executionSteps[currentStep].console}
+              
+              <div>
+                <h4 className="text-xs font-semibold text-muted-foreground mb-1">Call Stack:</h4>
+                <div className="bg-card p-1 rounded border border-border font-mono text-xs mb-2">
+                  {executionSteps[currentStep].callStack.map((frame, index, frames) => (
+                    <div key={index} className={index === 0 ? 'font-semibold' : 'text-muted-foreground'}>
+                      {frameLabel(frame, index, frames)}
+                      <span className="text-muted-foreground"> {frame.file}:{frame.line}</span>
+                    </div>
+                  ))}
                 </div>
+                
+                {visualRun && executionSteps[currentStep].consoleLength > 0 && (
+                  <>
+                    <h4 className="text-xs font-semibold text-muted-foreground mb-1">Console Output:</h4>
+                    <div className="bg-black text-white p-2 rounded font-mono text-xs whitespace-pre-wrap">
+                      {visualRun.console
+                        .slice(0, executionSteps[currentStep].consoleLength)
+                        .map(entry => entry.content)
+                        .join('\n')}
+                    </div>
+                  </>
+                )}
               </div>
-            )}
+            </div>
             
             {executionSteps[currentStep].explanation && (
               <div className="mt-2">
@@ -530,6 +1073,14 @@ export default function CodeEditor({
               </div>
             )}
             
+            {visualRun && currentStep === executionSteps.length - 1 && (visualRun.error || visualRun.truncated) && (
+              <div className="mt-2 text-sm text-destructive">
+                {visualRun.error
+                  ? `Execution ended with ${visualRun.error.name}: ${visualRun.error.message}`
+                  : `Only the first ${executionSteps.length} steps were recorded.`}
+              </div>
+            )}
+            
             <div className="flex justify-between mt-3">
               <Button
                 variant="outline"
@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { InlineValue } from "@/components/ObjectInspector";
+import type { SerializedTable, SerializedTableRow, SerializedValue } from "@shared/inspect";
+
+type SortKey = number | string | null;
+
+interface Column {
+  label: string;
+  cell: (row: SerializedTableRow) => SerializedValue | undefined;
+}
+
+/**
+ * Value used to order a cell. Numbers sort numerically, everything else by
+ * its text; empty cells go last in either direction.
+ */
+function sortKey(value: SerializedValue | undefined): SortKey {
+  if (!value) return null;
+  switch (value.type) {
+    case 'number':
+      return typeof value.value === 'number' ? value.value : Number(value.value);
+    case 'bigint':
+      return Number(value.value);
+    case 'boolean':
+      return Number(value.value);
+    case 'string':
+      return value.value;
+    case 'object':
+      // Objects keep their original order relative to each other
+      return '';
+    default:
+      return value.type;
+  }
+}
+
+function compareKeys(a: SortKey, b: SortKey): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+/**
+ * console.table() output. Clicking a header sorts by that column, clicking it
+ * again reverses the order, and a third click restores the original order.
+ */
+export default function ConsoleTable({ table }: { table: SerializedTable }) {
+  const [sort, setSort] = useState<{ column: number; ascending: boolean } | null>(null);
+
+  const columns = useMemo<Column[]>(() => [
+    { label: table.indexLabel, cell: row => ({ type: 'string', value: row.index }) },
+    ...table.columns.map(name => ({ label: name, cell: (row: SerializedTableRow) => row.cells[name] })),
+    ...(table.hasValues ? [{ label: 'Values', cell: (row: SerializedTableRow) => row.value }] : [])
+  ], [table]);
+
+  const rows = useMemo(() => {
+    if (!sort) return table.rows;
+
+    const { cell } = columns[sort.column];
+    return [...table.rows].sort((a, b) => {
+      const left = sortKey(cell(a));
+      const right = sortKey(cell(b));
+      if (left === null || right === null) {
+        return (left === null ? 1 : 0) - (right === null ? 1 : 0);
+      }
+      return sort.ascending ? compareKeys(left, right) : compareKeys(right, left);
+    });
+  }, [table, columns, sort]);
+
+  const toggleSort = (column: number) => {
+    if (sort?.column !== column) {
+      setSort({ column, ascending: true });
+    } else if (sort.ascending) {
+      setSort({ column, ascending: false });
+    } else {
+      setSort(null);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-border overflow-hidden">
+      <Table className="font-mono text-xs">
+        <TableHeader>
+          <TableRow className="bg-muted/50 hover:bg-muted/50">
+            {columns.map((column, index) => (
+              <TableHead key={index} className="h-8 px-3 border-r border-border last:border-r-0">
+                <button
+                  type="button"
+                  className="flex items-center gap-1 font-semibold text-foreground whitespace-nowrap"
+                  onClick={() => toggleSort(index)}
+                >
+                  {column.label}
+                  {sort?.column === index && (
+                    sort.ascending
+                      ? <ArrowUp className="h-3 w-3" />
+                      : <ArrowDown className="h-3 w-3" />
+                  )}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.index}>
+              {columns.map((column, index) => {
+                const value = column.cell(row);
+                return (
+                  <TableCell key={index} className="px-3 py-1.5 border-r border-border last:border-r-0 align-top">
+                    {value && (index === 0
+                      ? <span className="text-muted-foreground">{row.index}</span>
+                      : <InlineValue value={value} objects={table.objects} />)}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {table.truncated !== undefined && (
+        <div className="px-3 py-1.5 text-xs text-muted-foreground border-t border-border">
+          … {table.truncated} more rows
+        </div>
+      )}
+    </div>
+  );
+}
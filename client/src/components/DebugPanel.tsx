@@ -0,0 +1,363 @@
+import { useEffect, useState } from "react";
+import {
+  ChevronRight,
+  CornerDownRight,
+  CornerUpLeft,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  Redo,
+  Square,
+  X
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { ConsoleMessage } from "@shared/execution";
+import type { DebugPausedState, DebugPauseReason, DebugValue, DebugVariable } from "@shared/debug";
+import type { DebugEvaluation, DebugSession } from "@/lib/debugSocket";
+
+// Progress of a debug session as the editor follows it
+export interface DebugRunState {
+  status: 'starting' | 'running' | 'paused' | 'finished';
+  paused: DebugPausedState | null;
+  console: ConsoleMessage[];
+  // How the program ended, or why the session failed
+  outcome: string | null;
+  failed: boolean;
+}
+
+const pauseReasons: Record<DebugPauseReason, string> = {
+  breakpoint: "Paused on breakpoint",
+  step: "Paused after step",
+  pause: "Paused",
+  debugger: "Paused on debugger statement"
+};
+
+const valueStyles: Record<string, string> = {
+  string: "text-orange-600 dark:text-orange-400",
+  number: "text-blue-600 dark:text-blue-400",
+  bigint: "text-blue-600 dark:text-blue-400",
+  boolean: "text-purple-600 dark:text-purple-400",
+  symbol: "text-pink-600 dark:text-pink-400",
+  function: "italic",
+  object: "italic"
+};
+
+interface DebugValueNodeProps {
+  name: string;
+  value: DebugValue;
+  session: DebugSession;
+}
+
+/**
+ * A variable of the paused program. Objects load their properties from the
+ * server the first time they are opened.
+ */
+function DebugValueNode({ name, value, session }: DebugValueNodeProps) {
+  const [open, setOpen] = useState(false);
+  const [properties, setProperties] = useState<DebugVariable[] | null>(null);
+  const expandable = value.objectId !== undefined;
+
+  const toggle = async () => {
+    if (!open && properties === null && value.objectId) {
+      setProperties(await session.getProperties(value.objectId));
+    }
+    setOpen(!open);
+  };
+
+  return (
+    <div>
+      <button
+        type="button"
+        className="flex items-start text-left w-full hover:bg-accent/30 rounded-sm disabled:cursor-default"
+        onClick={toggle}
+        disabled={!expandable}
+      >
+        <ChevronRight
+          className={`h-3 w-3 mt-1 mr-1 flex-shrink-0 transition-transform ${open ? 'rotate-90' : ''} ${expandable ? '' : 'invisible'}`}
+        />
+        <span className="break-all">
+          <span className="text-purple-700 dark:text-purple-300">{name}</span>
+          <span>: </span>
+          <span className={valueStyles[value.type] ?? "text-muted-foreground"}>{value.description}</span>
+        </span>
+      </button>
+      {open && properties && (
+        <div className="pl-4 border-l border-border/50 ml-1.5">
+          {properties.length === 0 ? (
+            <div className="pl-4 text-muted-foreground italic">No properties</div>
+          ) : properties.map(property => (
+            <DebugValueNode key={property.name} name={property.name} value={property.value} session={session} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface WatchListProps {
+  expressions: string[];
+  onChange: (expressions: string[]) => void;
+  session: DebugSession;
+  // Frame the expressions are evaluated in; null while running
+  callFrameId: string | null;
+}
+
+function WatchList({ expressions, onChange, session, callFrameId }: WatchListProps) {
+  const [draft, setDraft] = useState("");
+  const [results, setResults] = useState<Record<string, DebugEvaluation>>({});
+
+  // Re-evaluate every expression whenever the program pauses in another frame
+  useEffect(() => {
+    setResults({});
+    if (!callFrameId) return;
+
+    let stale = false;
+    expressions.forEach(async expression => {
+      const result = await session.evaluate(callFrameId, expression);
+      if (!stale) setResults(previous => ({ ...previous, [expression]: result }));
+    });
+    return () => {
+      stale = true;
+    };
+  }, [callFrameId, expressions, session]);
+
+  const addExpression = () => {
+    const expression = draft.trim();
+    if (expression && !expressions.includes(expression)) {
+      onChange([...expressions, expression]);
+    }
+    setDraft("");
+  };
+
+  return (
+    <div>
+      <form
+        className="flex gap-1 mb-1"
+        onSubmit={(event) => {
+          event.preventDefault();
+          addExpression();
+        }}
+      >
+        <Input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Add expression"
+          className="h-7 text-xs font-mono"
+        />
+        <Button type="submit" variant="outline" size="icon" className="h-7 w-7 flex-shrink-0" disabled={!draft.trim()}>
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </form>
+      <div className="bg-card p-1 rounded border border-border font-mono text-xs min-h-[2rem]">
+        {expressions.length === 0 && (
+          <div className="text-muted-foreground italic px-1">No watch expressions</div>
+        )}
+        {expressions.map(expression => {
+          const result = results[expression];
+          return (
+            <div key={expression} className="flex items-start gap-1 group">
+              <div className="flex-1 min-w-0">
+                {result?.value ? (
+                  <DebugValueNode key={callFrameId} name={expression} value={result.value} session={session} />
+                ) : (
+                  <div className="pl-4 break-all">
+                    <span className="text-purple-700 dark:text-purple-300">{expression}</span>
+                    <span>: </span>
+                    <span className={result?.error ? "text-destructive" : "text-muted-foreground"}>
+                      {result?.error ?? "<not available>"}
+                    </span>
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                onClick={() => onChange(expressions.filter(item => item !== expression))}
+                aria-label={`Remove ${expression}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface DebugPanelProps {
+  state: DebugRunState;
+  session: DebugSession;
+  // Call frame the variables and watch expressions belong to
+  selectedFrame: number;
+  onSelectFrame: (index: number) => void;
+  watches: string[];
+  onWatchesChange: (expressions: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Controls and state of a program running under the debugger: step buttons,
+ * the scopes and call stack of the paused frame, watch expressions and the
+ * program's console output
+ */
+export default function DebugPanel({
+  state,
+  session,
+  selectedFrame,
+  onSelectFrame,
+  watches,
+  onWatchesChange,
+  onClose
+}: DebugPanelProps) {
+  const { status, paused } = state;
+  const frame = paused?.callFrames[selectedFrame] ?? null;
+  const isPaused = status === 'paused';
+  const isActive = status !== 'finished';
+
+  const controls = [
+    { label: "Step over", icon: Redo, action: session.stepOver },
+    { label: "Step into", icon: CornerDownRight, action: session.stepInto },
+    { label: "Step out", icon: CornerUpLeft, action: session.stepOut }
+  ];
+
+  let heading: string;
+  switch (status) {
+    case 'starting':
+      heading = "Starting debugger…";
+      break;
+    case 'running':
+      heading = "Running";
+      break;
+    case 'paused':
+      heading = `${pauseReasons[paused!.reason]}${frame ? ` at line ${frame.line}` : ''}`;
+      break;
+    case 'finished':
+      heading = state.outcome ?? "Finished";
+      break;
+  }
+
+  return (
+    <div className="execution-step-panel">
+      <div className="flex justify-between items-center mb-2 gap-2">
+        <h3 className={`font-bold text-sm flex items-center gap-2 ${state.failed ? 'text-destructive' : ''}`}>
+          {(status === 'starting' || status === 'running') && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+          {heading}
+        </h3>
+        <div className="flex items-center gap-1">
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={isPaused ? session.resume : session.pause}
+                  disabled={status !== 'paused' && status !== 'running'}
+                >
+                  {isPaused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{isPaused ? "Continue" : "Pause"}</p>
+              </TooltipContent>
+            </Tooltip>
+            {controls.map(({ label, icon: Icon, action }) => (
+              <Tooltip key={label}>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" size="icon" className="h-7 w-7" onClick={action} disabled={!isPaused}>
+                    <Icon className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{label}</p>
+                </TooltipContent>
+              </Tooltip>
+            ))}
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="outline" size="icon" className="h-7 w-7" onClick={session.stop} disabled={!isActive}>
+                  <Square className="h-3.5 w-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Stop</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+          <Button variant="ghost" size="icon" className="h-6 w-6 ml-1" onClick={onClose}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="md:col-span-2">
+          <h4 className="text-xs font-semibold text-muted-foreground mb-1">Variables:</h4>
+          {!frame ? (
+            <div className="text-xs text-muted-foreground italic">
+              {isActive ? "Variables are shown while the program is paused" : "The program is not running"}
+            </div>
+          ) : frame.scopes.map(scope => (
+            <div key={`${frame.id}-${scope.name}`} className="mb-2">
+              <div className="text-xs font-medium mb-0.5">{scope.name}</div>
+              <div className="bg-card p-1 rounded border border-border font-mono text-xs">
+                {scope.variables.length === 0 ? (
+                  <div className="pl-4 text-muted-foreground italic">No variables</div>
+                ) : scope.variables.map(variable => (
+                  <DebugValueNode key={variable.name} name={variable.name} value={variable.value} session={session} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="text-xs font-semibold text-muted-foreground mb-1">Call Stack:</h4>
+          <div className="bg-card p-1 rounded border border-border font-mono text-xs mb-2 min-h-[2rem]">
+            {paused?.callFrames.map((callFrame, index, frames) => (
+              <button
+                type="button"
+                key={callFrame.id}
+                className={`block w-full text-left px-1 rounded-sm hover:bg-accent/30 ${index === selectedFrame ? 'bg-accent/50 font-semibold' : ''}`}
+                onClick={() => onSelectFrame(index)}
+              >
+                {callFrame.functionName ?? (index === frames.length - 1 ? '(global)' : '(anonymous)')}
+                <span className="text-muted-foreground"> :{callFrame.line}</span>
+              </button>
+            )) ?? <div className="text-muted-foreground italic px-1">Not paused</div>}
+          </div>
+
+          <h4 className="text-xs font-semibold text-muted-foreground mb-1">Watch:</h4>
+          <WatchList
+            expressions={watches}
+            onChange={onWatchesChange}
+            session={session}
+            callFrameId={frame?.id ?? null}
+          />
+        </div>
+      </div>
+
+      {state.console.length > 0 && (
+        <div className="mt-2">
+          <h4 className="text-xs font-semibold text-muted-foreground mb-1">Console Output:</h4>
+          <div className="bg-black text-white p-2 rounded font-mono text-xs whitespace-pre-wrap max-h-32 overflow-auto">
+            {state.console.map((entry, index) => (
+              <div key={index} className={entry.type === 'error' ? 'text-red-400' : entry.type === 'warn' ? 'text-yellow-300' : undefined}>
+                {'  '.repeat(entry.depth ?? 0)}{entry.content}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
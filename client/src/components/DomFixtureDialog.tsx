@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { LayoutTemplate, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { MAX_DOM_FIXTURE_LENGTH } from "@shared/dom";
+
+const defaultFixture = `<h1>Hello</h1>
+<div id="app"></div>`;
+
+interface DomFixtureDialogProps {
+  // Starting HTML of the page; null runs without a DOM
+  fixture: string | null;
+  onChange: (fixture: string | null) => void;
+}
+
+/**
+ * Toolbar button telling whether code runs against a virtual page, opening
+ * an editor for the HTML the page starts with
+ */
+export default function DomFixtureDialog({ fixture, onChange }: DomFixtureDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [html, setHtml] = useState("");
+
+  // Start from the current fixture every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setEnabled(fixture !== null);
+    setHtml(fixture ?? defaultFixture);
+  }, [open, fixture]);
+
+  const apply = () => {
+    onChange(enabled ? html : null);
+    setOpen(false);
+  };
+
+  const tooLong = enabled && html.length > MAX_DOM_FIXTURE_LENGTH;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`ml-1 text-sm hidden md:flex items-center px-2 ${fixture === null ? "text-muted-foreground" : "text-primary"}`}
+        >
+          <LayoutTemplate className="h-4 w-4 mr-1" />
+          <span>{fixture === null ? "No DOM" : "DOM"}</span>
+          <ChevronDown className="h-3 w-3 ml-1" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Virtual DOM</DialogTitle>
+          <DialogDescription>
+            Gives the code a document and window built from this HTML. The page after the run shows in the Preview tab. Save the snippet to keep it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="dom-enabled">Run with a virtual DOM</Label>
+            <Switch id="dom-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          {enabled && (
+            <div className="space-y-2">
+              <Label htmlFor="dom-fixture">Starting HTML</Label>
+              <Textarea
+                id="dom-fixture"
+                value={html}
+                onChange={(e) => setHtml(e.target.value)}
+                className="font-mono text-xs h-56"
+              />
+              <p className="text-xs text-muted-foreground">
+                A fragment goes into the body of an empty page; a full document is used as it is.
+              </p>
+            </div>
+          )}
+
+          {tooLong && (
+            <p className="text-sm text-destructive">
+              The HTML may be at most {MAX_DOM_FIXTURE_LENGTH.toLocaleString()} characters long.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={apply} disabled={tooLong}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
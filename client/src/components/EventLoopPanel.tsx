@@ -0,0 +1,135 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { EventLoopTask, EventLoopTaskKind, EventLoopTraceResult } from "@shared/execution";
+
+const kindStyles: Record<EventLoopTaskKind, string> = {
+  script: "border-primary/50 bg-primary/10",
+  timeout: "border-amber-500/50 bg-amber-500/10",
+  interval: "border-amber-500/50 bg-amber-500/10",
+  request: "border-sky-500/50 bg-sky-500/10",
+  promise: "border-purple-500/50 bg-purple-500/10",
+  await: "border-purple-500/50 bg-purple-500/10",
+  microtask: "border-purple-500/50 bg-purple-500/10"
+};
+
+interface TaskChipProps {
+  label: string;
+  kind: EventLoopTaskKind;
+  line: number | null;
+  // The task the current step is about
+  active?: boolean;
+}
+
+function TaskChip({ label, kind, line, active }: TaskChipProps) {
+  return (
+    <div
+      className={`rounded border px-2 py-1 font-mono text-xs flex justify-between gap-2 ${kindStyles[kind]} ${active ? 'ring-2 ring-primary' : ''}`}
+    >
+      <span className="truncate">{label}</span>
+      {line !== null && <span className="text-muted-foreground flex-shrink-0">:{line}</span>}
+    </div>
+  );
+}
+
+interface LaneProps {
+  title: string;
+  tasks: EventLoopTask[];
+  activeId?: number;
+  empty: string;
+}
+
+function Lane({ title, tasks, activeId, empty }: LaneProps) {
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-muted-foreground mb-1">{title}</h4>
+      <div className="bg-card p-1 rounded border border-border min-h-[2.5rem] space-y-1">
+        {tasks.length === 0 ? (
+          <div className="text-xs text-muted-foreground italic px-1">{empty}</div>
+        ) : tasks.map(task => (
+          <TaskChip key={task.id} {...task} active={task.id === activeId} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface EventLoopPanelProps {
+  trace: EventLoopTraceResult;
+  currentStep: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  onClose: () => void;
+}
+
+/**
+ * One step of the event loop visualization: what runs on the call stack and
+ * what waits in the Web APIs, the macrotask queue and the microtask queue
+ */
+export default function EventLoopPanel({ trace, currentStep, onPrevious, onNext, onClose }: EventLoopPanelProps) {
+  const step = trace.steps[currentStep];
+  const isLastStep = currentStep === trace.steps.length - 1;
+
+  return (
+    <div className="execution-step-panel">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-bold text-sm">
+          Step {currentStep + 1}: {step.description}
+        </h3>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <h4 className="text-xs font-semibold text-muted-foreground mb-1">Call Stack:</h4>
+          <div className="bg-card p-1 rounded border border-border min-h-[2.5rem] space-y-1">
+            {step.callStack.map((frame, index) => (
+              <div key={index} className="rounded border border-border px-2 py-1 font-mono text-xs flex justify-between gap-2">
+                <span className="truncate">{frame.functionName ?? '(anonymous)'}</span>
+                <span className="text-muted-foreground flex-shrink-0">:{frame.line}</span>
+              </div>
+            ))}
+            {step.running ? (
+              <TaskChip {...step.running} active={step.running.id === step.task?.id} />
+            ) : (
+              <div className="text-xs text-muted-foreground italic px-1">Empty</div>
+            )}
+          </div>
+        </div>
+        <Lane title="Web APIs:" tasks={step.webApis} activeId={step.task?.id} empty="No timers or requests" />
+        <Lane title="Macrotask Queue:" tasks={step.macrotasks} activeId={step.task?.id} empty="Empty" />
+        <Lane title="Microtask Queue:" tasks={step.microtasks} activeId={step.task?.id} empty="Empty" />
+      </div>
+
+      {step.consoleLength > 0 && (
+        <div className="mt-2">
+          <h4 className="text-xs font-semibold text-muted-foreground mb-1">Console Output:</h4>
+          <div className="bg-black text-white p-2 rounded font-mono text-xs whitespace-pre-wrap">
+            {trace.console
+              .slice(0, step.consoleLength)
+              .map(entry => entry.content)
+              .join('\n')}
+          </div>
+        </div>
+      )}
+
+      {isLastStep && (trace.error || trace.truncated) && (
+        <div className="mt-2 text-sm text-destructive">
+          {trace.error
+            ? `Execution ended with ${trace.error.name}: ${trace.error.message}`
+            : `Only the first ${trace.steps.length} events were recorded.`}
+        </div>
+      )}
+
+      <div className="flex justify-between mt-3">
+        <Button variant="outline" size="sm" onClick={onPrevious} disabled={currentStep === 0} className="text-xs">
+          Previous Step
+        </Button>
+        <Button variant="outline" size="sm" onClick={onNext} disabled={isLastStep} className="text-xs">
+          Next Step
+        </Button>
+      </div>
+    </div>
+  );
+}
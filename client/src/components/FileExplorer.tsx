@@ -0,0 +1,155 @@
+import { FilePlus, FileCode, FileJson, Folder, MoreHorizontal, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_PROJECT_FILES, projectFileSchema } from "@shared/project";
+
+export interface FileExplorerProps {
+  // Paths of all files, the entry included
+  files: string[];
+  entry: string;
+  activeFile: string;
+  onOpen: (path: string) => void;
+  onCreate: (path: string) => void;
+  onRename: (from: string, to: string) => void;
+  onDelete: (path: string) => void;
+  onSetEntry: (path: string) => void;
+}
+
+interface Row {
+  type: "folder" | "file";
+  path: string;
+  name: string;
+  depth: number;
+}
+
+// Sorted files with a row for each folder before its first file
+const toRows = (files: string[]): Row[] => {
+  const rows: Row[] = [];
+  const folders = new Set<string>();
+  [...files].sort().forEach(path => {
+    const segments = path.split("/");
+    segments.slice(0, -1).forEach((name, depth) => {
+      const folder = segments.slice(0, depth + 1).join("/");
+      if (folders.has(folder)) return;
+      folders.add(folder);
+      rows.push({ type: "folder", path: folder, name, depth });
+    });
+    rows.push({ type: "file", path, name: segments[segments.length - 1], depth: segments.length - 1 });
+  });
+  return rows;
+};
+
+/**
+ * The files of a snippet, shown in the sidebar. The entry is the file that
+ * runs; the others are loaded when it imports them.
+ */
+export default function FileExplorer({ files, entry, activeFile, onOpen, onCreate, onRename, onDelete, onSetEntry }: FileExplorerProps) {
+  const { toast } = useToast();
+
+  // Ask for a path until the user gives a valid one or cancels
+  const promptPath = (message: string, initial: string, current?: string): string | null => {
+    let value = initial;
+    for (;;) {
+      const input = prompt(message, value);
+      if (input === null) return null;
+      const path = input.trim();
+      if (path === current) return null;
+
+      const parsed = projectFileSchema.shape.path.safeParse(path);
+      if (!parsed.success) {
+        toast({ title: "Invalid file name", description: parsed.error.errors[0].message, variant: "destructive" });
+      } else if (files.includes(path)) {
+        toast({ title: "File already exists", description: `The snippet already has ${path}.`, variant: "destructive" });
+      } else {
+        return path;
+      }
+      value = path;
+    }
+  };
+
+  const createFile = () => {
+    if (files.length >= MAX_PROJECT_FILES) {
+      toast({ title: "Too many files", description: `A snippet can have up to ${MAX_PROJECT_FILES} files.`, variant: "destructive" });
+      return;
+    }
+    const path = promptPath("Name of the new file:", "utils.js");
+    if (path) onCreate(path);
+  };
+
+  const renameFile = (file: string) => {
+    const path = promptPath(`Rename ${file} to:`, file, file);
+    if (!path) return;
+    if (file === entry && path.endsWith(".json")) {
+      toast({ title: "Invalid file name", description: "The entry has to be a script.", variant: "destructive" });
+      return;
+    }
+    onRename(file, path);
+  };
+
+  const deleteFile = (file: string) => {
+    if (confirm(`Delete ${file}?`)) onDelete(file);
+  };
+
+  return (
+    <div className="border-b border-border">
+      <div className="flex items-center justify-between px-3 py-2">
+        <h2 className="font-semibold text-sm text-foreground">Files</h2>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={createFile} title="New file">
+          <FilePlus className="h-4 w-4" />
+        </Button>
+      </div>
+      <ul className="pb-2 max-h-56 overflow-y-auto">
+        {toRows(files).map(row => (
+          <li key={`${row.type}:${row.path}`} style={{ paddingLeft: `${row.depth * 12 + 8}px` }} className="pr-2">
+            {row.type === "folder" ? (
+              <div className="flex items-center py-1 text-xs text-muted-foreground">
+                <Folder className="h-3.5 w-3.5 mr-1.5" />
+                {row.name}
+              </div>
+            ) : (
+              <div className={`group flex items-center rounded ${row.path === activeFile ? "bg-accent/20" : "hover:bg-accent/10"}`}>
+                <button className="flex-1 flex items-center py-1 px-1 text-xs text-left min-w-0" onClick={() => onOpen(row.path)}>
+                  {row.path.endsWith(".json")
+                    ? <FileJson className="h-3.5 w-3.5 mr-1.5 flex-shrink-0 text-orange-400" />
+                    : <FileCode className="h-3.5 w-3.5 mr-1.5 flex-shrink-0 text-blue-400" />}
+                  <span className="truncate">{row.name}</span>
+                  {row.path === entry && (
+                    <span className="ml-2 flex items-center text-[10px] text-green-500" title="Runs first">
+                      <Play className="h-2.5 w-2.5 mr-0.5" />
+                      entry
+                    </span>
+                  )}
+                </button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-5 w-5 opacity-0 group-hover:opacity-100 focus:opacity-100">
+                      <MoreHorizontal className="h-3.5 w-3.5" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem disabled={row.path === entry || row.path.endsWith(".json")} onClick={() => onSetEntry(row.path)}>
+                      Set as entry
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => renameFile(row.path)}>
+                      Rename
+                    </DropdownMenuItem>
+                    {/* The entry stays until another file takes its place */}
+                    <DropdownMenuItem disabled={row.path === entry} onClick={() => deleteFile(row.path)}>
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
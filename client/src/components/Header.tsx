@@ -10,7 +10,8 @@ import {
   HelpCircle,
   InfoIcon,
   Home as HomeIcon,
-  BookOpenCheck
+  BookOpenCheck,
+  Square
 } from "lucide-react";
 import {
   Tooltip,
@@ -31,12 +32,23 @@ import { Link, useLocation } from "wouter";
 interface HeaderProps {
   onSave: () => void;
   onRun: () => void;
+  // Cancels the run in flight; while code executes, Stop takes the place of Run
+  onStop?: () => void;
+  isExecuting?: boolean;
   toggleMobileMenu: () => void;
   isMobileMenuOpen: boolean;
   hideActions?: boolean;
 }
 
-export default function Header({ onSave, onRun, toggleMobileMenu, isMobileMenuOpen, hideActions = false }: HeaderProps) {
+export default function Header({
+  onSave,
+  onRun,
+  onStop,
+  isExecuting = false,
+  toggleMobileMenu,
+  isMobileMenuOpen,
+  hideActions = false
+}: HeaderProps) {
   const [location] = useLocation();
   
   return (
@@ -108,22 +120,41 @@ export default function Header({ onSave, onRun, toggleMobileMenu, isMobileMenuOp
               </TooltipProvider>
               
               <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="default"
-                      size="sm"
-                      className="flex items-center bg-gradient-to-r from-primary to-blue-600 hover:from-primary/90 hover:to-blue-700"
-                      onClick={onRun}
-                    >
-                      <PlayCircle className="mr-2 h-4 w-4" />
-                      <span>Run</span>
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Execute your JavaScript code (Ctrl+Enter)</p>
-                  </TooltipContent>
-                </Tooltip>
+                {isExecuting && onStop ? (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="flex items-center"
+                        onClick={onStop}
+                      >
+                        <Square className="mr-2 h-4 w-4" />
+                        <span>Stop</span>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Cancel the running code</p>
+                    </TooltipContent>
+                  </Tooltip>
+                ) : (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="default"
+                        size="sm"
+                        className="flex items-center bg-gradient-to-r from-primary to-blue-600 hover:from-primary/90 hover:to-blue-700"
+                        onClick={onRun}
+                      >
+                        <PlayCircle className="mr-2 h-4 w-4" />
+                        <span>Run</span>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Execute your JavaScript code (Ctrl+Enter)</p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
               </TooltipProvider>
             </>
           )}
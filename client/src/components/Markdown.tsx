@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { renderMarkdown } from "@/lib/markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Markdown written by challenge authors, rendered as prose
+ */
+export default function Markdown({ text, className }: MarkdownProps) {
+  const html = useMemo(() => renderMarkdown(text), [text]);
+  return (
+    <div
+      className={cn("prose prose-sm dark:prose-invert max-w-none", className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { Globe, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { defaultNetworkPolicy, networkModes, networkPolicySchema, type NetworkMode, type NetworkPolicy } from "@shared/network";
+
+const modeLabels: Record<NetworkMode, string> = {
+  open: "Open",
+  deny: "Offline",
+  allowlist: "Allowlist",
+  mock: "Mocked"
+};
+
+const modeDescriptions: Record<NetworkMode, string> = {
+  open: "fetch reaches any public URL; local and private addresses stay blocked.",
+  deny: "Every request fails with a network error.",
+  allowlist: "Only URLs matching a pattern below can be fetched.",
+  mock: "Requests are answered by the mocks below, nothing reaches the network."
+};
+
+const exampleMocks = `[
+  {
+    "method": "GET",
+    "url": "https://api.example.com/users/*",
+    "status": 200,
+    "headers": { "x-example": "yes" },
+    "body": { "id": 1, "name": "Ada" },
+    "latency": 200
+  }
+]`;
+
+interface NetworkPolicyDialogProps {
+  // null runs with defaultNetworkPolicy, which reaches only the placeholder API
+  policy: NetworkPolicy | null;
+  onChange: (policy: NetworkPolicy | null) => void;
+}
+
+/**
+ * Toolbar button showing what the snippet's code may fetch, opening an editor
+ * for the policy. Allowed URLs are edited one per line, mocks as JSON.
+ */
+export default function NetworkPolicyDialog({ policy, onChange }: NetworkPolicyDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<NetworkMode>("open");
+  const [allow, setAllow] = useState("");
+  const [mocks, setMocks] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the current policy every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const current = policy ?? defaultNetworkPolicy;
+    setMode(current.mode);
+    setAllow((current.allow ?? []).join("\n"));
+    setMocks(current.mocks ? JSON.stringify(current.mocks, null, 2) : "");
+    setError(null);
+  }, [open, policy]);
+
+  const apply = () => {
+    let parsedMocks: unknown = undefined;
+    if (mode === "mock") {
+      try {
+        parsedMocks = mocks.trim() ? JSON.parse(mocks) : [];
+      } catch (e) {
+        setError(`Mocks are not valid JSON: ${(e as Error).message}`);
+        return;
+      }
+    }
+
+    const result = networkPolicySchema.safeParse({
+      mode,
+      allow: mode === "allowlist" ? allow.split("\n").map(line => line.trim()).filter(Boolean) : undefined,
+      mocks: parsedMocks
+    });
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      setError(`${issue.path.join(".") || "Policy"}: ${issue.message}`);
+      return;
+    }
+
+    onChange(result.data);
+    setOpen(false);
+  };
+
+  const current = (policy ?? defaultNetworkPolicy).mode;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`ml-1 text-sm hidden md:flex items-center px-2 ${policy ? "text-primary" : "text-muted-foreground"}`}
+        >
+          <Globe className="h-4 w-4 mr-1" />
+          <span>{modeLabels[current]}</span>
+          <ChevronDown className="h-3 w-3 ml-1" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Network access</DialogTitle>
+          <DialogDescription>
+            What fetch may reach when this snippet runs. Save the snippet to keep the policy.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Mode</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as NetworkMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {networkModes.map(option => (
+                  <SelectItem key={option} value={option}>{modeLabels[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{modeDescriptions[mode]}</p>
+          </div>
+
+          {mode === "allowlist" && (
+            <div className="space-y-2">
+              <Label htmlFor="network-allow">Allowed URLs</Label>
+              <Textarea
+                id="network-allow"
+                value={allow}
+                onChange={(e) => setAllow(e.target.value)}
+                placeholder={"api.github.com\n*.example.com\nhttps://jsonplaceholder.typicode.com/todos/*"}
+                className="font-mono text-xs h-28"
+              />
+              <p className="text-xs text-muted-foreground">
+                One pattern per line; * matches anything. Patterns without a scheme match the host name.
+              </p>
+            </div>
+          )}
+
+          {mode === "mock" && (
+            <div className="space-y-2">
+              <Label htmlFor="network-mocks">Mocked responses</Label>
+              <Textarea
+                id="network-mocks"
+                value={mocks}
+                onChange={(e) => setMocks(e.target.value)}
+                placeholder={exampleMocks}
+                className="font-mono text-xs h-56"
+              />
+              <p className="text-xs text-muted-foreground">
+                The first mock matching the method and URL answers; unmatched requests fail.
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={apply}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { ChevronRight } from "lucide-react";
+import type {
+  SerializedArguments,
+  SerializedObject,
+  SerializedValue
+} from "@shared/inspect";
+
+type ObjectTable = SerializedArguments["objects"];
+
+// Number of properties shown in a one-line preview before "…"
+const PREVIEW_ITEMS = 5;
+
+function formatString(value: string, quoted: boolean): string {
+  return quoted ? `'${value.replace(/'/g, "\\'")}'` : value;
+}
+
+function formatFunction(value: Extract<SerializedValue, { type: 'function' }>): string {
+  switch (value.kind) {
+    case 'class':
+      return `class ${value.name}`;
+    case 'async':
+      return `async ƒ ${value.name}()`;
+    case 'generator':
+      return `ƒ* ${value.name}()`;
+    default:
+      return `ƒ ${value.name}()`;
+  }
+}
+
+// Short label for an object nested inside another preview
+function objectLabel(object: SerializedObject): string {
+  switch (object.subtype) {
+    case 'array':
+      return `Array(${object.size})`;
+    case 'typedarray':
+    case 'map':
+    case 'set':
+      return `${object.className}(${object.size})`;
+    case 'error':
+    case 'date':
+    case 'regexp':
+    case 'promise':
+    case 'boxed':
+      return object.description?.split("\n")[0] ?? object.className;
+    case 'object':
+      return object.className === 'Object' ? '{…}' : object.className;
+    default:
+      return object.className;
+  }
+}
+
+/**
+ * One-line text preview of a value, the way devtools summarizes objects next
+ * to their expand arrow
+ */
+function previewValue(value: SerializedValue, objects: ObjectTable, nested = false): string {
+  switch (value.type) {
+    case 'undefined':
+    case 'null':
+      return value.type;
+    case 'boolean':
+      return String(value.value);
+    case 'number':
+      return String(value.value);
+    case 'string':
+      return formatString(value.value, true);
+    case 'bigint':
+      return `${value.value}n`;
+    case 'symbol':
+      return `Symbol(${value.description})`;
+    case 'function':
+      return formatFunction(value);
+    case 'object':
+      break;
+  }
+
+  const object = objects[value.id];
+  if (!object) return '{…}';
+  if (nested) return objectLabel(object);
+
+  const more = (shown: number, total: number) => total > shown ? ', …' : '';
+
+  switch (object.subtype) {
+    case 'array':
+    case 'typedarray': {
+      const items = object.properties.slice(0, PREVIEW_ITEMS)
+        .map(property => previewValue(property.value, objects, true));
+      const prefix = object.subtype === 'array' ? `(${object.size})` : `${object.className}(${object.size})`;
+      return `${prefix} [${items.join(', ')}${more(items.length, object.size ?? 0)}]`;
+    }
+    case 'map':
+    case 'set': {
+      const items = (object.entries ?? []).slice(0, PREVIEW_ITEMS).map(entry =>
+        entry.key
+          ? `${previewValue(entry.key, objects, true)} => ${previewValue(entry.value, objects, true)}`
+          : previewValue(entry.value, objects, true)
+      );
+      return `${object.className}(${object.size}) {${items.join(', ')}${more(items.length, object.size ?? 0)}}`;
+    }
+    case 'object': {
+      const items = object.properties.slice(0, PREVIEW_ITEMS).map(property =>
+        `${property.key}: ${property.accessor ? '(...)' : previewValue(property.value, objects, true)}`
+      );
+      const total = object.properties.length + (object.truncated ?? 0);
+      const prefix = object.className === 'Object' ? '' : `${object.className} `;
+      return object.expanded
+        ? `${prefix}{${items.join(', ')}${more(items.length, total)}}`
+        : `${prefix}{…}`;
+    }
+    default:
+      return objectLabel(object);
+  }
+}
+
+function Primitive({ value, quoted }: { value: SerializedValue; quoted: boolean }) {
+  switch (value.type) {
+    case 'string':
+      return (
+        <span className={quoted ? "text-orange-600 dark:text-orange-400" : undefined}>
+          {formatString(value.value, quoted)}
+          {value.length !== undefined && (
+            <span className="text-muted-foreground">… ({value.length} characters)</span>
+          )}
+        </span>
+      );
+    case 'number':
+    case 'bigint':
+      return <span className="text-blue-600 dark:text-blue-400">{previewValue(value, {})}</span>;
+    case 'boolean':
+      return <span className="text-purple-600 dark:text-purple-400">{String(value.value)}</span>;
+    case 'symbol':
+      return <span className="text-pink-600 dark:text-pink-400">{previewValue(value, {})}</span>;
+    case 'function':
+      return <span className="italic">{formatFunction(value)}</span>;
+    default:
+      return <span className="text-muted-foreground">{previewValue(value, {})}</span>;
+  }
+}
+
+function PropertyName({ name, dimmed }: { name: string; dimmed?: boolean }) {
+  return (
+    <span className={dimmed ? "text-muted-foreground" : "text-purple-700 dark:text-purple-300"}>
+      {name}
+      <span className="text-foreground">: </span>
+    </span>
+  );
+}
+
+/**
+ * A value on a single line, without the expand arrow. Used where a tree would
+ * not fit, such as table cells.
+ */
+export function InlineValue({ value, objects }: { value: SerializedValue; objects: ObjectTable }) {
+  if (value.type !== 'object') {
+    return <Primitive value={value} quoted={true} />;
+  }
+  return <span className="italic">{previewValue(value, objects)}</span>;
+}
+
+interface ValueNodeProps {
+  value: SerializedValue;
+  objects: ObjectTable;
+  name?: string;
+}
+
+/**
+ * A value with an optional property name. Objects get an arrow and render
+ * their children only once opened, so large structures stay cheap.
+ */
+export function ValueNode({ value, objects, name }: ValueNodeProps) {
+  const [open, setOpen] = useState(false);
+
+  if (value.type !== 'object') {
+    return (
+      <div className="pl-4">
+        {name !== undefined && <PropertyName name={name} />}
+        <Primitive value={value} quoted={true} />
+      </div>
+    );
+  }
+
+  const object = objects[value.id];
+  const expandable = object && object.subtype !== 'proxy' && (
+    !object.expanded ||
+    object.properties.length > 0 ||
+    (object.entries?.length ?? 0) > 0 ||
+    object.subtype === 'error'
+  );
+
+  return (
+    <div>
+      <button
+        type="button"
+        className="flex items-start text-left w-full hover:bg-accent/30 rounded-sm disabled:cursor-default"
+        onClick={() => setOpen(!open)}
+        disabled={!expandable}
+      >
+        <ChevronRight
+          className={`h-3 w-3 mt-1 mr-1 flex-shrink-0 transition-transform ${open ? 'rotate-90' : ''} ${expandable ? '' : 'invisible'}`}
+        />
+        <span className="break-all">
+          {name !== undefined && <PropertyName name={name} />}
+          <span className="italic">{previewValue(value, objects)}</span>
+        </span>
+      </button>
+      {open && object && <ObjectChildren object={object} objects={objects} />}
+    </div>
+  );
+}
+
+function ObjectChildren({ object, objects }: { object: SerializedObject; objects: ObjectTable }) {
+  return (
+    <div className="pl-4 border-l border-border/50 ml-1.5">
+      {object.subtype === 'error' && object.description && (
+        <pre className="pl-4 text-xs text-muted-foreground whitespace-pre-wrap">{object.description}</pre>
+      )}
+      {!object.expanded && (
+        <div className="pl-4 text-muted-foreground italic">Contents not captured, the logged value is too large</div>
+      )}
+      {object.entries?.map((entry, index) => (
+        entry.key ? (
+          <div key={`entry-${index}`} className="pl-4">
+            <span className="text-muted-foreground">{index}: </span>
+            <ValueNode value={entry.key} objects={objects} name="key" />
+            <ValueNode value={entry.value} objects={objects} name="value" />
+          </div>
+        ) : (
+          <ValueNode key={`entry-${index}`} value={entry.value} objects={objects} name={String(index)} />
+        )
+      ))}
+      {object.properties.map(property => (
+        property.accessor ? (
+          <div key={property.key} className="pl-4" title="Accessors are not invoked">
+            <PropertyName name={property.key} dimmed={property.symbol} />
+            <span className="text-muted-foreground">(...)</span>
+          </div>
+        ) : (
+          <ValueNode key={property.key} value={property.value} objects={objects} name={property.key} />
+        )
+      ))}
+      {object.truncated !== undefined && (
+        <div className="pl-4 text-muted-foreground">… {object.truncated} more</div>
+      )}
+    </div>
+  );
+}
+
+interface ConsoleArgumentsProps {
+  args: SerializedArguments;
+  // console.dir() shows strings as values, with quotes
+  quoteStrings?: boolean;
+}
+
+/**
+ * Render the arguments of a console call. Top-level strings are shown as
+ * plain text and every object gets a collapsible tree, as in browser devtools.
+ */
+export function ConsoleArguments({ args, quoteStrings = false }: ConsoleArgumentsProps) {
+  return (
+    <div className="flex flex-wrap items-start gap-x-2 min-w-0">
+      {args.values.map((value, index) => (
+        value.type === 'object' ? (
+          <div key={index} className="min-w-0">
+            <ValueNode value={value} objects={args.objects} />
+          </div>
+        ) : (
+          <span key={index} className="whitespace-pre-wrap break-words">
+            <Primitive value={value} quoted={quoteStrings} />
+          </span>
+        )
+      ))}
+    </div>
+  );
+}
@@ -12,9 +12,20 @@ import {
   Download, 
   FileCode,
   ArrowDown,
-  ChevronDown
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  Table2,
+  Bug
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { ConsoleArguments } from "@/components/ObjectInspector";
+import ConsoleTable from "@/components/ConsoleTable";
+import ReplConsole from "@/components/ReplConsole";
+import type { ReplState } from "@/hooks/useRepl";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import type { SerializedArguments, SerializedTable } from "@shared/inspect";
+import type { ConsoleMethod, StackFrame } from "@shared/execution";
 import { useToast } from "@/hooks/use-toast";
 import {
   Tooltip,
@@ -30,19 +41,108 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-type OutputType = 'log' | 'error' | 'warn' | 'info';
+type OutputType = 'log' | 'error' | 'warn' | 'info' | 'debug' | 'table';
 
-interface ConsoleOutput {
+export interface ConsoleOutput {
   type: OutputType;
   content: string;
+  // Structured values, rendered with the object inspector when present
+  args?: SerializedArguments;
+  method?: ConsoleMethod;
+  // console.group() nesting level
+  depth?: number;
+  // Stack printed by console.trace() or attached to an error
+  stack?: string;
+  frames?: StackFrame[];
+  // Rows and columns of a console.table() call
+  table?: SerializedTable;
+}
+
+const isGroupHeader = (output: ConsoleOutput) =>
+  output.method === 'group' || output.method === 'groupCollapsed';
+
+/**
+ * Drop the entries hidden inside collapsed groups. Everything after a group
+ * header with a greater depth belongs to that group.
+ * @param isCollapsed Tells whether the group header at an index is collapsed
+ */
+function visibleEntries(outputs: ConsoleOutput[], isCollapsed: (index: number) => boolean) {
+  const visible: { output: ConsoleOutput; index: number }[] = [];
+  let hiddenBelow: number | null = null;
+
+  outputs.forEach((output, index) => {
+    const depth = output.depth ?? 0;
+    if (hiddenBelow !== null && depth > hiddenBelow) return;
+    hiddenBelow = null;
+
+    visible.push({ output, index });
+    if (isGroupHeader(output) && isCollapsed(index)) {
+      hiddenBelow = depth;
+    }
+  });
+
+  return visible;
+}
+
+// Text rendering of an entry for copying, indented like Node's grouped output
+function entryText(output: ConsoleOutput): string {
+  const stack = output.frames?.map(frame => {
+    const location = `${frame.file}:${frame.line}:${frame.column}`;
+    return frame.functionName ? `    at ${frame.functionName} (${location})` : `    at ${location}`;
+  }).join('\n') ?? output.stack;
+  const text = stack ? `${output.content}\n${stack}` : output.content;
+  return text.replace(/^/gm, '  '.repeat(output.depth ?? 0));
 }
 
 interface OutputPaneProps {
   outputs: ConsoleOutput[];
+  // Output is still streaming in from a running program
+  isRunning?: boolean;
+  // Called when a stack frame in the user's code is clicked
+  onFrameClick?: (frame: StackFrame, output: ConsoleOutput) => void;
+  // Session for the REPL shown below the output
+  repl?: ReplState;
+  // Code in the editor, which the REPL can load
+  editorCode?: string;
+  // Final HTML of the last run with a virtual DOM, shown in the Preview tab
+  page?: string | null;
+}
+
+/**
+ * Stack frames, one per line. Frames in the user's code link to the editor;
+ * frames inside packages are shown as plain text.
+ */
+function StackFrames({ frames, onSelect }: { frames: StackFrame[]; onSelect?: (frame: StackFrame) => void }) {
+  return (
+    <div className="mt-1 font-mono text-xs text-muted-foreground">
+      {frames.map((frame, index) => {
+        const location = `${frame.file}:${frame.line}:${frame.column}`;
+        return (
+          <div key={index} className="pl-4 whitespace-pre-wrap break-words">
+            at {frame.functionName && `${frame.functionName} `}
+            {frame.functionName && '('}
+            {frame.userCode && onSelect ? (
+              <button
+                type="button"
+                className="underline decoration-dotted underline-offset-2 hover:text-primary"
+                onClick={() => onSelect(frame)}
+              >
+                {location}
+              </button>
+            ) : location}
+            {frame.functionName && ')'}
+          </div>
+        );
+      })}
+    </div>
+  );
 }
 
-export default function OutputPane({ outputs }: OutputPaneProps) {
+export default function OutputPane({ outputs, isRunning = false, onFrameClick, repl, editorCode, page = null }: OutputPaneProps) {
   const [activeTab, setActiveTab] = useState("console");
+  // The preview shows the rendered page or its HTML
+  const [previewMode, setPreviewMode] = useState<'page' | 'html'>('page');
+  const [isReplOpen, setIsReplOpen] = useLocalStorage("jsrunner-repl-open", true);
   const [filter, setFilter] = useState<OutputType | 'all'>('all');
   const { toast } = useToast();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -51,10 +151,24 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
   const [scrollPosition, setScrollPosition] = useState(0);
   const lastOutputLengthRef = useRef(outputs.length);
   const scrollTimeout = useRef<number>();
+  // Group headers the user opened or closed, by index in outputs
+  const [toggledGroups, setToggledGroups] = useState<Set<number>>(new Set());
+  
+  const isGroupCollapsed = (index: number) =>
+    (outputs[index].method === 'groupCollapsed') !== toggledGroups.has(index);
   
-  const filteredOutputs = filter === 'all' 
-    ? outputs 
-    : outputs.filter(output => output.type === filter);
+  const toggleGroup = (index: number) => {
+    setToggledGroups(prev => {
+      const next = new Set(prev);
+      if (!next.delete(index)) next.add(index);
+      return next;
+    });
+  };
+  
+  // Tables are console.log style output, so the Logs filter keeps them
+  const filteredOutputs = visibleEntries(outputs, isGroupCollapsed).filter(({ output }) =>
+    filter === 'all' || output.type === filter || (filter === 'log' && output.type === 'table')
+  );
     
   // Scroll position detection hook with performance optimization
   useEffect(() => {
@@ -88,6 +202,10 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
   // Auto-scroll to the bottom when new output is added ONLY if already at the bottom
   useEffect(() => {
     const outputsAdded = outputs.length > lastOutputLengthRef.current;
+    // A shorter list means the console was cleared for a new run
+    if (outputs.length < lastOutputLengthRef.current) {
+      setToggledGroups(new Set());
+    }
     lastOutputLengthRef.current = outputs.length;
     
     if (!outputsAdded) return;
@@ -145,6 +263,10 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
         return <Info className="h-4 w-4 text-blue-500" />;
       case 'log':
         return <Terminal className="h-4 w-4 text-green-500" />;
+      case 'table':
+        return <Table2 className="h-4 w-4 text-green-500" />;
+      case 'debug':
+        return <Bug className="h-4 w-4 text-muted-foreground" />;
       default:
         return null;
     }
@@ -158,6 +280,8 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
         return 'text-amber-500 border-l-2 border-amber-500 pl-2';
       case 'info':
         return 'text-blue-500 border-l-2 border-blue-500 pl-2';
+      case 'debug':
+        return 'text-muted-foreground';
       default:
         return 'text-foreground';
     }
@@ -177,7 +301,7 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
   };
     
   const copyOutputsToClipboard = () => {
-    const text = outputs.map(output => output.content).join('\n');
+    const text = outputs.map(entryText).join('\n');
     navigator.clipboard.writeText(text);
     toast({
       title: "Output copied!",
@@ -187,7 +311,7 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
   };
   
   const downloadOutputs = () => {
-    const text = outputs.map(output => output.content).join('\n');
+    const text = outputs.map(entryText).join('\n');
     const blob = new Blob([text], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -305,6 +429,7 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
                     <SelectItem value="all">All Outputs</SelectItem>
                     <SelectItem value="log">Logs</SelectItem>
                     <SelectItem value="info">Info</SelectItem>
+                    <SelectItem value="debug">Debug</SelectItem>
                     <SelectItem value="warn">Warnings</SelectItem>
                     <SelectItem value="error">Errors</SelectItem>
                   </SelectContent>
@@ -326,7 +451,10 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
           )}
           
           <div className="relative flex-1 overflow-hidden">
-            <ScrollArea className="h-[calc(100vh-10rem)] p-3 font-mono text-sm" ref={scrollAreaRef}>
+            <ScrollArea
+              className={`${!repl ? 'h-[calc(100vh-10rem)]' : isReplOpen ? 'h-[calc(100vh-30rem)]' : 'h-[calc(100vh-12rem)]'} p-3 font-mono text-sm`}
+              ref={scrollAreaRef}
+            >
               {filteredOutputs.length === 0 ? (
                 <div className="text-muted-foreground italic flex flex-col items-center justify-center h-32 text-center">
                   <Terminal className="h-8 w-8 text-muted-foreground/50 mb-2" />
@@ -335,29 +463,66 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
                     : "No output matches the selected filter type."}
                 </div>
               ) : (
-                filteredOutputs.map((output, index) => (
+                filteredOutputs.map(({ output, index }) => (
                   <div 
                     key={index} 
                     className={`mb-2 rounded-md p-2 flex items-start ${getBgClassForOutputType(output.type)} transition-opacity duration-300 animate-in fade-in`}
+                    style={{ marginLeft: `${(output.depth ?? 0) * 1.25}rem` }}
                   >
-                    {getIconForOutputType(output.type) && (
+                    {isGroupHeader(output) ? (
+                      <button
+                        type="button"
+                        className="mr-2 mt-0.5 flex-shrink-0 text-muted-foreground hover:text-foreground"
+                        onClick={() => toggleGroup(index)}
+                        aria-label={isGroupCollapsed(index) ? "Expand group" : "Collapse group"}
+                      >
+                        <ChevronRight className={`h-4 w-4 transition-transform ${isGroupCollapsed(index) ? '' : 'rotate-90'}`} />
+                      </button>
+                    ) : getIconForOutputType(output.type) && (
                       <span className="mr-2 mt-0.5 flex-shrink-0">
                         {getIconForOutputType(output.type)}
                       </span>
                     )}
-                    <pre 
-                      className={`whitespace-pre-wrap break-words font-mono tracking-tight leading-relaxed ${getClassForOutputType(output.type)}`}
-                      style={{ 
-                        textRendering: 'optimizeLegibility',
-                        WebkitFontSmoothing: 'antialiased',
-                        MozOsxFontSmoothing: 'grayscale'
-                      }}
-                    >
-                      {output.content}
-                    </pre>
+                    <div className={`flex-1 min-w-0 ${isGroupHeader(output) ? 'font-semibold' : ''}`}>
+                      {output.table ? (
+                        <ConsoleTable table={output.table} />
+                      ) : output.args ? (
+                        <div className={`flex items-start font-mono tracking-tight leading-relaxed ${getClassForOutputType(output.type)}`}>
+                          {output.method === 'trace' && <span className="mr-2">Trace:</span>}
+                          <ConsoleArguments args={output.args} quoteStrings={output.method === 'dir'} />
+                        </div>
+                      ) : (
+                        <pre 
+                          className={`whitespace-pre-wrap break-words font-mono tracking-tight leading-relaxed ${getClassForOutputType(output.type)}`}
+                          style={{ 
+                            textRendering: 'optimizeLegibility',
+                            WebkitFontSmoothing: 'antialiased',
+                            MozOsxFontSmoothing: 'grayscale'
+                          }}
+                        >
+                          {output.content}
+                        </pre>
+                      )}
+                      {output.frames ? (
+                        <StackFrames
+                          frames={output.frames}
+                          onSelect={onFrameClick && (frame => onFrameClick(frame, output))}
+                        />
+                      ) : output.stack && (
+                        <pre className="mt-1 whitespace-pre-wrap break-words font-mono text-xs text-muted-foreground">
+                          {output.stack}
+                        </pre>
+                      )}
+                    </div>
                   </div>
                 ))
               )}
+              {isRunning && (
+                <div className="mb-2 p-2 flex items-center text-xs text-muted-foreground">
+                  <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                  Running…
+                </div>
+              )}
             </ScrollArea>
             
             {/* Scroll to bottom button with smooth transition */}
@@ -387,9 +552,59 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
               </TooltipProvider>
             </div>
           </div>
+
+          {repl && (
+            <>
+              <button
+                type="button"
+                className="flex items-center gap-1 px-2 h-8 text-xs font-medium border-t border-border bg-card text-muted-foreground hover:text-foreground"
+                onClick={() => setIsReplOpen(!isReplOpen)}
+              >
+                <ChevronRight className={`h-3.5 w-3.5 transition-transform ${isReplOpen ? 'rotate-90' : ''}`} />
+                REPL
+              </button>
+              {isReplOpen && <ReplConsole repl={repl} editorCode={editorCode} />}
+            </>
+          )}
         </TabsContent>
         
         <TabsContent value="output" className="flex-1 p-0 m-0 flex flex-col">
+          {page !== null ? (
+            <div className="flex-1 flex flex-col">
+              <div className="flex items-center gap-1 px-2 py-1 border-b border-border bg-card">
+                <Button
+                  variant={previewMode === 'page' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setPreviewMode('page')}
+                >
+                  Page
+                </Button>
+                <Button
+                  variant={previewMode === 'html' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setPreviewMode('html')}
+                >
+                  HTML
+                </Button>
+                <span className="ml-auto text-xs text-muted-foreground">Virtual DOM after the last run</span>
+              </div>
+              {previewMode === 'page' ? (
+                // No scripts run in the preview; handlers were already run on the server
+                <iframe
+                  title="Page preview"
+                  sandbox=""
+                  srcDoc={page}
+                  className="flex-1 w-full bg-white"
+                />
+              ) : (
+                <ScrollArea className="flex-1">
+                  <pre className="p-4 font-mono text-xs whitespace-pre-wrap break-words">{page}</pre>
+                </ScrollArea>
+              )}
+            </div>
+          ) : (
           <div className="flex-1 p-4 bg-background/50">
             <div className="max-w-lg mx-auto p-6 border border-border rounded-md bg-card shadow-sm">
               <h3 className="text-lg font-medium mb-2 flex items-center">
@@ -408,6 +623,7 @@ export default function OutputPane({ outputs }: OutputPaneProps) {
               </div>
             </div>
           </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import { ChevronRight, FileInput, Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { ConsoleArguments } from "@/components/ObjectInspector";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import type { ReplEntry, ReplState } from "@/hooks/useRepl";
+
+// Inputs remembered for the up and down arrow keys
+const MAX_HISTORY = 100;
+
+/**
+ * Tell whether an input still has brackets, a template literal or a block
+ * comment open, so Enter continues it on a new line instead of running it
+ */
+function isIncomplete(code: string): boolean {
+  let depth = 0;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    const next = code[i + 1];
+
+    if (char === '/' && next === '/') {
+      const end = code.indexOf('\n', i);
+      if (end === -1) break;
+      i = end;
+    } else if (char === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      if (end === -1) return true;
+      i = end + 1;
+    } else if (char === '"' || char === "'" || char === '`') {
+      let end = i + 1;
+      while (end < code.length && code[end] !== char) {
+        // Quoted strings cannot span lines; the error is reported when it runs
+        if (char !== '`' && code[end] === '\n') break;
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      if (end >= code.length && char === '`') return true;
+      i = end;
+    } else if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+    }
+  }
+
+  return depth > 0;
+}
+
+const consoleClasses: Record<string, string> = {
+  error: "text-destructive",
+  warn: "text-amber-500",
+  info: "text-blue-500",
+  debug: "text-muted-foreground"
+};
+
+function TranscriptEntry({ entry }: { entry: ReplEntry }) {
+  switch (entry.kind) {
+    case 'input':
+      return (
+        <div className="flex items-start gap-2 text-foreground">
+          <ChevronRight className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-primary" />
+          <pre className="whitespace-pre-wrap break-words">{entry.code}</pre>
+        </div>
+      );
+    case 'result':
+      return (
+        <div className="flex items-start gap-2 pl-0.5">
+          <span className="text-muted-foreground flex-shrink-0">←</span>
+          <ConsoleArguments args={entry.value} quoteStrings />
+        </div>
+      );
+    case 'error':
+      return (
+        <div className="pl-5 text-destructive">
+          <pre className="whitespace-pre-wrap break-words">Uncaught {entry.error.name}: {entry.error.message}</pre>
+          {entry.error.frames && entry.error.frames.length > 0 && (
+            <pre className="whitespace-pre-wrap break-words text-xs text-muted-foreground">
+              {entry.error.frames.map(frame =>
+                `    at ${frame.functionName ? `${frame.functionName} ` : ''}(${frame.file}:${frame.line}:${frame.column})`
+              ).join('\n')}
+            </pre>
+          )}
+        </div>
+      );
+    case 'console':
+      return (
+        <div
+          className={`pl-5 ${consoleClasses[entry.entry.type] ?? "text-foreground"}`}
+          style={{ marginLeft: `${(entry.entry.depth ?? 0) * 1.25}rem` }}
+        >
+          {entry.entry.args ? (
+            <ConsoleArguments args={entry.entry.args} quoteStrings={entry.entry.method === 'dir'} />
+          ) : (
+            <pre className="whitespace-pre-wrap break-words">{entry.entry.content}</pre>
+          )}
+        </div>
+      );
+    case 'info':
+      return <div className="pl-5 text-muted-foreground italic">// {entry.text}</div>;
+  }
+}
+
+interface ReplConsoleProps {
+  repl: ReplState;
+  // Code in the editor, which can be loaded into the session
+  editorCode?: string;
+}
+
+/**
+ * Interactive console below the program output. Inputs run one after the
+ * other in a session that keeps its variables, so the result of one line can
+ * be used by the next; the last value is available as _.
+ */
+export default function ReplConsole({ repl, editorCode }: ReplConsoleProps) {
+  const [input, setInput] = useState("");
+  const [history, setHistory] = useLocalStorage<string[]>("jsrunner-repl-history", []);
+  // Position in history while browsing it, null while editing a new input
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const { entries, busy, pending } = repl;
+
+  useEffect(() => {
+    const transcript = transcriptRef.current;
+    if (transcript) transcript.scrollTop = transcript.scrollHeight;
+  }, [entries.length]);
+
+  const submit = () => {
+    const code = input.trim();
+    if (!code || busy) return;
+
+    if (history[history.length - 1] !== code) {
+      setHistory([...history, code].slice(-MAX_HISTORY));
+    }
+    setHistoryIndex(null);
+    setDraft("");
+    setInput("");
+    repl.evaluate(code);
+  };
+
+  const browseHistory = (index: number | null) => {
+    if (historyIndex === null) setDraft(input);
+    setHistoryIndex(index);
+    setInput(index === null ? draft : history[index]);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = event.currentTarget;
+    const beforeCursor = input.slice(0, textarea.selectionStart);
+    const afterCursor = input.slice(textarea.selectionEnd);
+
+    if (event.key === 'Enter' && !event.shiftKey) {
+      if (isIncomplete(input)) return;
+      event.preventDefault();
+      submit();
+    } else if (event.key === 'ArrowUp' && !beforeCursor.includes('\n') && history.length > 0) {
+      // Only on the first line, so the cursor can still move through multi-line inputs
+      event.preventDefault();
+      browseHistory(historyIndex === null ? history.length - 1 : Math.max(historyIndex - 1, 0));
+    } else if (event.key === 'ArrowDown' && !afterCursor.includes('\n') && historyIndex !== null) {
+      event.preventDefault();
+      browseHistory(historyIndex < history.length - 1 ? historyIndex + 1 : null);
+    }
+  };
+
+  const pendingWork = pending && pending.timers + pending.requests > 0
+    ? [
+        pending.timers > 0 && `${pending.timers} timer${pending.timers === 1 ? '' : 's'}`,
+        pending.requests > 0 && `${pending.requests} request${pending.requests === 1 ? '' : 's'}`
+      ].filter(Boolean).join(' and ')
+    : null;
+
+  const actions = [
+    {
+      label: "Load editor code into the session",
+      icon: FileInput,
+      onClick: () => editorCode && repl.evaluate(editorCode, "Loaded the editor code"),
+      disabled: busy || !editorCode?.trim()
+    },
+    { label: "Reset session", icon: RotateCcw, onClick: repl.reset, disabled: busy },
+    { label: "Clear transcript", icon: Trash2, onClick: repl.clear, disabled: entries.length === 0 }
+  ];
+
+  return (
+    <div className="flex flex-col border-t border-border bg-card/50">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-border">
+        <span className="text-xs text-muted-foreground">
+          {pendingWork ? `${pendingWork} still running` : "Declarations are kept between inputs; _ holds the last result"}
+        </span>
+        <div className="flex items-center gap-1">
+          <TooltipProvider>
+            {actions.map(({ label, icon: Icon, onClick, disabled }) => (
+              <Tooltip key={label}>
+                <TooltipTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClick} disabled={disabled}>
+                    <Icon className="h-3.5 w-3.5" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{label}</p>
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </TooltipProvider>
+        </div>
+      </div>
+
+      <div
+        ref={transcriptRef}
+        className="max-h-48 overflow-auto px-3 py-1 font-mono text-xs space-y-1"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {entries.map((entry, index) => (
+          <TranscriptEntry key={index} entry={entry} />
+        ))}
+      </div>
+
+      <div className="flex items-start gap-2 px-3 py-2 font-mono text-xs">
+        {busy ? (
+          <Loader2 className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 animate-spin text-muted-foreground" />
+        ) : (
+          <ChevronRight className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-primary" />
+        )}
+        <textarea
+          ref={inputRef}
+          value={input}
+          onChange={(event) => {
+            setInput(event.target.value);
+            setHistoryIndex(null);
+          }}
+          onKeyDown={handleKeyDown}
+          rows={Math.min(input.split('\n').length, 8)}
+          placeholder="Evaluate an expression (Shift+Enter for a new line)"
+          spellCheck={false}
+          className="flex-1 resize-none bg-transparent outline-none placeholder:text-muted-foreground/60"
+        />
+      </div>
+    </div>
+  );
+}
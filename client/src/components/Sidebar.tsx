@@ -13,7 +13,8 @@ import {
   Network,
   FileText,
   AlertTriangle,
-  BookOpen
+  BookOpen,
+  Globe
 } from "lucide-react";
 import { 
   Accordion,
@@ -22,12 +23,16 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Snippet } from "@shared/schema";
+import FileExplorer, { type FileExplorerProps } from "@/components/FileExplorer";
 
 interface SidebarProps {
   onSelectExample: (example: Snippet) => void;
   onNewScript: () => void;
+  onNewWebPage: () => void;
   currentSnippetId: number | undefined;
   isOpen: boolean;
+  // Files of the open script; web pages have none to show
+  explorer?: FileExplorerProps;
 }
 
 // Helper to get icon for a snippet based on its title
@@ -40,6 +45,7 @@ const getSnippetIcon = (title: string) => {
   if (titleLower.includes('async') || titleLower.includes('promise')) return <Clock className="h-4 w-4 text-purple-400" />;
   if (titleLower.includes('json')) return <FileJson className="h-4 w-4 text-orange-400" />;
   if (titleLower.includes('fetch') || titleLower.includes('api')) return <Network className="h-4 w-4 text-sky-400" />;
+  if (titleLower.includes('web')) return <Globe className="h-4 w-4 text-teal-400" />;
   if (titleLower.includes('dom')) return <FileText className="h-4 w-4 text-pink-400" />;
   if (titleLower.includes('error')) return <AlertTriangle className="h-4 w-4 text-red-400" />;
   if (titleLower.includes('class')) return <BookOpen className="h-4 w-4 text-indigo-400" />;
@@ -66,7 +72,7 @@ const categorizeExamples = (examples: Snippet[]) => {
       categories["Data Structures"].push(example);
     } else if (title.includes('async') || title.includes('promise') || title.includes('fetch')) {
       categories["Async & Promises"].push(example);
-    } else if (title.includes('dom') || title.includes('manipulation')) {
+    } else if (example.kind === 'web' || title.includes('dom') || title.includes('manipulation')) {
       categories["DOM & Browser"].push(example);
     } else {
       categories["Advanced Concepts"].push(example);
@@ -76,7 +82,7 @@ const categorizeExamples = (examples: Snippet[]) => {
   return categories;
 };
 
-export default function Sidebar({ onSelectExample, onNewScript, currentSnippetId, isOpen }: SidebarProps) {
+export default function Sidebar({ onSelectExample, onNewScript, onNewWebPage, currentSnippetId, isOpen, explorer }: SidebarProps) {
   const { data: examples = [] } = useQuery({
     queryKey: ["/api/examples"],
   });
@@ -105,6 +111,8 @@ export default function Sidebar({ onSelectExample, onNewScript, currentSnippetId
         <p className="text-xs text-muted-foreground">Explore pre-made code examples</p>
       </div>
       
+      {explorer && <FileExplorer {...explorer} />}
+      
       <ScrollArea className="flex-1">
         <Accordion type="multiple" defaultValue={["Fundamentals"]} className="px-1">
           {Object.entries(exampleCategories).map(([category, categoryExamples]) => (
@@ -157,7 +165,9 @@ export default function Sidebar({ onSelectExample, onNewScript, currentSnippetId
                     onClick={() => onSelectExample(snippet)}
                   >
                     <div className="font-medium text-foreground flex items-center">
-                      <FileCode className="h-4 w-4 text-blue-400 mr-2" />
+                      {snippet.kind === 'web'
+                        ? <Globe className="h-4 w-4 text-teal-400 mr-2" />
+                        : <FileCode className="h-4 w-4 text-blue-400 mr-2" />}
                       {snippet.title}
                     </div>
                     {snippet.description && (
@@ -180,6 +190,14 @@ export default function Sidebar({ onSelectExample, onNewScript, currentSnippetId
           <Plus className="mr-2 h-4 w-4" />
           <span>Create New Script</span>
         </Button>
+        <Button 
+          className="w-full flex items-center justify-center mt-2"
+          variant="outline"
+          onClick={onNewWebPage}
+        >
+          <Globe className="mr-2 h-4 w-4" />
+          <span>Create New Web Page</span>
+        </Button>
       </div>
     </aside>
   );
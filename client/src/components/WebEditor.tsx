@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from "react";
+import { Editor } from "@monaco-editor/react";
+import { Play, AlignLeft, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useTheme } from "@/components/ThemeProvider";
+import { formatCode } from "@/lib/lintingService";
+import type { WebSources } from "@/lib/webPreview";
+
+type Buffer = keyof WebSources;
+
+// Monaco language, Prettier parser and model path of each buffer. Separate
+// paths give every buffer its own model, so undo history stays per buffer.
+const buffers: { id: Buffer; label: string; language: string; parser: string; path: string }[] = [
+  { id: "html", label: "HTML", language: "html", parser: "html", path: "index.html" },
+  { id: "css", label: "CSS", language: "css", parser: "css", path: "styles.css" },
+  { id: "js", label: "JavaScript", language: "javascript", parser: "babel", path: "script.js" }
+];
+
+interface WebEditorProps {
+  sources: WebSources;
+  onChange: (sources: WebSources) => void;
+  // Reloads the preview right away
+  onRun: () => void;
+}
+
+/**
+ * Editor for a web snippet: one tab each for its HTML, CSS and JavaScript
+ */
+export default function WebEditor({ sources, onChange, onRun }: WebEditorProps) {
+  const { currentTheme } = useTheme();
+  const [active, setActive] = useState<Buffer>("js");
+  const [isFormatting, setIsFormatting] = useState(false);
+  // Latest props for the Ctrl+Enter command, which Monaco keeps from mount
+  const runRef = useRef(onRun);
+  runRef.current = onRun;
+
+  // Start on the markup of a page without any script
+  useEffect(() => {
+    if (!sources.js.trim() && sources.html.trim()) setActive("html");
+  }, []);
+
+  const buffer = buffers.find(option => option.id === active)!;
+
+  const format = async () => {
+    setIsFormatting(true);
+    try {
+      const formatted = await formatCode(sources[active], buffer.parser);
+      onChange({ ...sources, [active]: formatted });
+    } finally {
+      setIsFormatting(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col h-full border-r border-border">
+      <div className="bg-card p-2 flex justify-between items-center border-b border-border">
+        <TooltipProvider>
+          <div className="flex items-center space-x-2">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="default"
+                  size="sm"
+                  className="flex items-center bg-gradient-to-r from-primary to-blue-600 hover:from-primary/90 hover:to-blue-700"
+                  onClick={onRun}
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  <span>Run</span>
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Reload the preview (Ctrl+Enter)</p>
+              </TooltipContent>
+            </Tooltip>
+
+            <div className="flex items-center rounded-md border border-border p-0.5">
+              {buffers.map(option => (
+                <button
+                  key={option.id}
+                  className={`px-3 py-1 text-xs rounded ${active === option.id ? "bg-accent text-foreground" : "text-muted-foreground hover:text-foreground"}`}
+                  onClick={() => setActive(option.id)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button variant="ghost" size="icon" onClick={format} disabled={isFormatting}>
+                {isFormatting ? <Loader2 className="h-4 w-4 animate-spin" /> : <AlignLeft className="h-4 w-4" />}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>Format the {buffer.label} with Prettier</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </div>
+
+      <div className="flex-1 overflow-hidden relative">
+        <Editor
+          height="100%"
+          path={buffer.path}
+          language={buffer.language}
+          value={sources[active]}
+          onChange={(value) => {
+            if (value !== undefined) onChange({ ...sources, [active]: value });
+          }}
+          theme={currentTheme.editorTheme}
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            fontFamily: "'Fira Code', monospace",
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            lineNumbers: "on",
+            lineNumbersMinChars: 1,
+            folding: true,
+            wordWrap: "on",
+            tabSize: 2,
+            cursorBlinking: "smooth",
+            contextmenu: true,
+            smoothScrolling: true,
+          }}
+          onMount={(editor, monaco) => {
+            editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, () => runRef.current());
+          }}
+        />
+      </div>
+    </div>
+  );
+}
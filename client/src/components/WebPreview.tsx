@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ConsoleOutput } from "@/components/OutputPane";
+import type { ConsoleMethod } from "@shared/execution";
+import { buildPreviewDocument, isPreviewMessage, type WebSources } from "@/lib/webPreview";
+
+// How long editing has to pause before the preview reloads
+const RELOAD_DELAY = 500;
+
+// Methods the console shows specially, such as group headers
+const consoleMethods = new Set<string>([
+  'log', 'error', 'warn', 'info', 'debug', 'table', 'dir', 'trace', 'group', 'groupCollapsed',
+  'time', 'timeLog', 'timeEnd', 'count', 'countReset', 'assert'
+]);
+
+interface WebPreviewProps {
+  sources: WebSources;
+  // Hidden previews keep running so their console output still arrives
+  visible: boolean;
+  // Changing it reloads the page even when the sources are the same
+  reloadKey: number;
+  // Called before a new version of the page starts
+  onReload: () => void;
+  onConsole: (output: ConsoleOutput) => void;
+  // The page called console.clear()
+  onClear: () => void;
+}
+
+/**
+ * Renders a web snippet in a sandboxed iframe and reloads it shortly after
+ * the sources change. Scripts run without access to the app: the frame has a
+ * unique origin, and console output comes back through postMessage.
+ */
+export default function WebPreview({ sources, visible, reloadKey, onReload, onConsole, onClear }: WebPreviewProps) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [page, setPage] = useState(() => buildPreviewDocument(sources));
+  // Bumped to remount the iframe, which reloads it even with the same document
+  const [generation, setGeneration] = useState(0);
+
+  // Kept in refs so the message listener does not need to be replaced
+  const handlers = useRef({ onReload, onConsole, onClear });
+  handlers.current = { onReload, onConsole, onClear };
+
+  // The first render already shows the current sources
+  const mounted = useRef(false);
+
+  const reload = () => {
+    handlers.current.onReload();
+    setPage(buildPreviewDocument(sources));
+    setGeneration(generation => generation + 1);
+  };
+
+  useEffect(() => {
+    if (!mounted.current) return;
+    const timer = setTimeout(reload, RELOAD_DELAY);
+    return () => clearTimeout(timer);
+  }, [sources.html, sources.css, sources.js]);
+
+  // An explicit reload happens right away
+  useEffect(() => {
+    if (mounted.current) reload();
+  }, [reloadKey]);
+
+  useEffect(() => {
+    mounted.current = true;
+  }, []);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      // Only the current frame counts; other windows could post lookalikes
+      if (event.source !== iframeRef.current?.contentWindow || !isPreviewMessage(event.data)) return;
+
+      const message = event.data;
+      if (message.type === "clear") {
+        handlers.current.onClear();
+        return;
+      }
+      handlers.current.onConsole({
+        type: message.level,
+        content: message.content,
+        method: consoleMethods.has(message.method) ? message.method as ConsoleMethod : undefined,
+        depth: message.depth,
+        stack: message.stack
+      });
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  return (
+    <div className={`flex-1 flex flex-col bg-background ${visible ? "" : "hidden"}`}>
+      <div className="flex items-center justify-between px-2 py-1 border-b border-border bg-card">
+        <span className="text-xs text-muted-foreground">Reloads as you edit</span>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={reload} title="Reload">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+      <iframe
+        key={generation}
+        ref={iframeRef}
+        title="Web preview"
+        // No allow-same-origin: the page must not reach the app's storage or cookies
+        sandbox="allow-scripts allow-modals allow-forms allow-popups"
+        srcDoc={page}
+        className="flex-1 w-full bg-white border-0"
+      />
+    </div>
+  );
+}
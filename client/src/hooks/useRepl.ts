@@ -0,0 +1,140 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  createReplSession,
+  deleteReplSession,
+  evaluateInRepl,
+  fetchReplOutput,
+  isReplSessionExpired,
+  resetReplSession
+} from "@/lib/replService";
+import type { ConsoleMessage, ExecutionError, PendingWork } from "@shared/execution";
+import type { SerializedArguments } from "@shared/inspect";
+import type { Language } from "@shared/schema";
+
+// How often output of timers and requests left running is collected
+const OUTPUT_POLL_INTERVAL = 500;
+
+export type ReplEntry =
+  | { kind: 'input'; code: string }
+  | { kind: 'result'; value: SerializedArguments }
+  | { kind: 'error'; error: ExecutionError }
+  | { kind: 'console'; entry: ConsoleMessage }
+  // Notes from the REPL itself, such as a reset session
+  | { kind: 'info'; text: string };
+
+export interface ReplState {
+  entries: ReplEntry[];
+  // An input is being evaluated
+  busy: boolean;
+  // Timers and requests of earlier inputs still outstanding
+  pending: PendingWork | null;
+  // label replaces the echoed input in the transcript, e.g. for the editor's code
+  evaluate: (code: string, label?: string) => Promise<void>;
+  reset: () => Promise<void>;
+  clear: () => void;
+}
+
+const hasPendingWork = (pending: PendingWork | null) =>
+  pending !== null && pending.timers + pending.requests > 0;
+
+/**
+ * A REPL session on the server and the transcript of what was typed into it.
+ * The session is started by the first input, started again when it expired
+ * while idle, and ended when the component using it unmounts.
+ * @param language The language inputs are written in
+ */
+export function useRepl(language: Language): ReplState {
+  const [entries, setEntries] = useState<ReplEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [pending, setPending] = useState<PendingWork | null>(null);
+  const sessionRef = useRef<string | null>(null);
+
+  const append = (...added: ReplEntry[]) => {
+    if (added.length > 0) setEntries(previous => [...previous, ...added]);
+  };
+
+  const appendConsole = (console: ConsoleMessage[]) => {
+    append(...console.map(entry => ({ kind: 'console' as const, entry })));
+  };
+
+  // Run a request against the session, replacing a session that expired
+  const withSession = async <T,>(request: (sessionId: string) => Promise<T>): Promise<T> => {
+    if (!sessionRef.current) {
+      sessionRef.current = await createReplSession();
+    }
+    try {
+      return await request(sessionRef.current);
+    } catch (error) {
+      if (!isReplSessionExpired(error)) throw error;
+      sessionRef.current = await createReplSession();
+      append({ kind: 'info', text: "The session expired; earlier declarations are gone" });
+      return request(sessionRef.current);
+    }
+  };
+
+  const evaluate = async (code: string, label?: string) => {
+    append(label ? { kind: 'info', text: label } : { kind: 'input', code });
+    setBusy(true);
+    try {
+      const evaluation = await withSession(sessionId => evaluateInRepl(sessionId, code, language));
+      appendConsole(evaluation.console);
+      append(evaluation.error
+        ? { kind: 'error', error: evaluation.error }
+        : { kind: 'result', value: evaluation.value! });
+      setPending(evaluation.pending);
+    } catch (error) {
+      console.error("Error evaluating REPL input:", error);
+      append({ kind: 'error', error: { name: 'Error', message: "Failed to reach the REPL session" } });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const reset = async () => {
+    setPending(null);
+    try {
+      if (sessionRef.current) {
+        await withSession(resetReplSession);
+      }
+      append({ kind: 'info', text: "Session reset; all declarations were cleared" });
+    } catch (error) {
+      console.error("Error resetting REPL session:", error);
+      append({ kind: 'error', error: { name: 'Error', message: "Failed to reset the REPL session" } });
+    }
+  };
+
+  // Keep collecting output while timers or requests of earlier inputs are running
+  useEffect(() => {
+    if (busy || !hasPendingWork(pending) || !sessionRef.current) return;
+    const sessionId = sessionRef.current;
+
+    const interval = setInterval(async () => {
+      try {
+        const output = await fetchReplOutput(sessionId);
+        appendConsole(output.console);
+        setPending(output.pending);
+      } catch {
+        setPending(null);
+      }
+    }, OUTPUT_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [busy, pending]);
+
+  // The worker behind the session is not needed once the page is left
+  useEffect(() => {
+    return () => {
+      if (sessionRef.current) {
+        deleteReplSession(sessionRef.current).catch(() => {});
+      }
+    };
+  }, []);
+
+  return {
+    entries,
+    busy,
+    pending,
+    evaluate,
+    reset,
+    clear: () => setEntries([])
+  };
+}
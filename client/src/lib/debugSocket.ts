@@ -0,0 +1,156 @@
+import type { ConsoleMessage } from "@shared/execution";
+import type {
+  DebugClientFrame,
+  DebugPausedState,
+  DebugServerFrame,
+  DebugValue,
+  DebugVariable
+} from "@shared/debug";
+import type { Language } from "@shared/schema";
+
+export type DebugSummary = Extract<DebugServerFrame, { type: 'finished' }>;
+
+export interface DebugHandlers {
+  // Breakpoints are set and the program starts running
+  onStart?: () => void;
+  onConsole?: (entry: ConsoleMessage) => void;
+  onPause?: (state: DebugPausedState) => void;
+  onResume?: () => void;
+  onFinish?: (summary: DebugSummary) => void;
+  // The server rejected the session or the connection dropped
+  onError?: (message: string) => void;
+}
+
+export interface DebugEvaluation {
+  value: DebugValue | null;
+  error: string | null;
+}
+
+export interface DebugSession {
+  resume: () => void;
+  stepOver: () => void;
+  stepInto: () => void;
+  stepOut: () => void;
+  pause: () => void;
+  stop: () => void;
+  setBreakpoints: (lines: number[]) => void;
+  // Evaluate an expression in a frame of the paused program
+  evaluate: (callFrameId: string, expression: string) => Promise<DebugEvaluation>;
+  getProperties: (objectId: string) => Promise<DebugVariable[]>;
+}
+
+/**
+ * Debug code on the server. Each session has a socket of its own, which is
+ * closed once the program has finished or is stopped.
+ * @param code The JavaScript or TypeScript code to debug
+ * @param options Source language and the lines to break on
+ * @param handlers Callbacks for the progress of the program
+ * @returns Controls for the paused program
+ */
+export function startDebugSession(
+  code: string,
+  options: { language?: Language; breakpoints: number[] },
+  handlers: DebugHandlers
+): DebugSession {
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  const ws = new WebSocket(`${protocol}://${window.location.host}/ws/debug`);
+  let queuedFrames: string[] = [];
+  let finished = false;
+  let nextRequestId = 1;
+  const evaluations = new Map<number, (evaluation: DebugEvaluation) => void>();
+  const propertyRequests = new Map<number, (properties: DebugVariable[]) => void>();
+
+  const sendFrame = (frame: DebugClientFrame) => {
+    const data = JSON.stringify(frame);
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(data);
+    } else if (ws.readyState === WebSocket.CONNECTING) {
+      queuedFrames.push(data);
+    }
+  };
+
+  const handleFrame = (frame: DebugServerFrame) => {
+    switch (frame.type) {
+      case 'started':
+        handlers.onStart?.();
+        break;
+      case 'console':
+        handlers.onConsole?.(frame.entry);
+        break;
+      case 'paused':
+        handlers.onPause?.(frame.state);
+        break;
+      case 'resumed':
+        handlers.onResume?.();
+        break;
+      case 'evaluation':
+        evaluations.get(frame.requestId)?.({ value: frame.value, error: frame.error });
+        evaluations.delete(frame.requestId);
+        break;
+      case 'properties':
+        propertyRequests.get(frame.requestId)?.(frame.properties);
+        propertyRequests.delete(frame.requestId);
+        break;
+      case 'finished':
+        finished = true;
+        handlers.onFinish?.(frame);
+        ws.close();
+        break;
+      case 'error':
+        handlers.onError?.(frame.message);
+        break;
+    }
+  };
+
+  ws.onopen = () => {
+    queuedFrames.forEach(frame => ws.send(frame));
+    queuedFrames = [];
+  };
+
+  ws.onmessage = (event) => {
+    try {
+      handleFrame(JSON.parse(event.data));
+    } catch (error) {
+      console.error("Invalid debug frame:", error);
+    }
+  };
+
+  ws.onclose = () => {
+    // Requests still waiting cannot be answered anymore
+    evaluations.forEach(resolve => resolve({ value: null, error: "Debug session ended" }));
+    evaluations.clear();
+    propertyRequests.forEach(resolve => resolve([]));
+    propertyRequests.clear();
+
+    if (!finished) {
+      handlers.onError?.("Lost connection to the debugger");
+    }
+  };
+
+  sendFrame({ type: 'start', code, ...options });
+
+  return {
+    resume: () => sendFrame({ type: 'resume' }),
+    stepOver: () => sendFrame({ type: 'stepOver' }),
+    stepInto: () => sendFrame({ type: 'stepInto' }),
+    stepOut: () => sendFrame({ type: 'stepOut' }),
+    pause: () => sendFrame({ type: 'pause' }),
+    // The server still reports the stopped program as finished
+    stop: () => sendFrame({ type: 'stop' }),
+    setBreakpoints: (lines) => sendFrame({ type: 'setBreakpoints', breakpoints: lines }),
+    evaluate: (callFrameId, expression) => {
+      if (ws.readyState > WebSocket.OPEN) {
+        return Promise.resolve({ value: null, error: "Debug session ended" });
+      }
+      const requestId = nextRequestId++;
+      sendFrame({ type: 'evaluate', requestId, callFrameId, expression });
+      return new Promise(resolve => evaluations.set(requestId, resolve));
+    },
+    getProperties: (objectId) => {
+      if (ws.readyState > WebSocket.OPEN) return Promise.resolve([]);
+      const requestId = nextRequestId++;
+      sendFrame({ type: 'properties', requestId, objectId });
+      return new Promise(resolve => propertyRequests.set(requestId, resolve));
+    }
+  };
+}
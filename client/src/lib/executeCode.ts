@@ -1,27 +1,57 @@
 import { apiRequest } from "./queryClient";
+import type { DeterministicOptions, ExecutionError } from "@shared/execution";
+import type { Language } from "@shared/schema";
+import type { NetworkPolicy } from "@shared/network";
+import type { SnippetProject } from "@shared/project";
 
 export interface ExecutionResult {
+  // Id the server issued for the run, which cancelExecution takes
+  runId: string;
   result: any;
   logs: string[];
   errors: string[];
   warnings: string[];
   infos: string[];
-  error: {
-    name: string;
-    message: string;
-    stack?: string;
+  error: ExecutionError | null;
+  // False when the deadline passed with timers or requests still pending
+  completed: boolean;
+  // Set when the run was cancelled; the output is what was written until then
+  cancelled: boolean;
+  pending: {
+    timers: number;
+    requests: number;
   } | null;
   executionTime: number;
+  // Seed of a deterministic run, null otherwise
+  seed: number | null;
+  // Final HTML of the page when the run had a virtual DOM
+  dom: string | null;
+}
+
+// How the editor's code runs: normally (false), deterministically with a new
+// seed every run (true), or replaying the run with this seed
+export type DeterministicSetting = boolean | number;
+
+/**
+ * The deterministic option to send with a run for a setting
+ */
+export function toDeterministicOption(setting: DeterministicSetting): DeterministicOptions | boolean | undefined {
+  if (setting === false) return undefined;
+  return setting === true ? true : { seed: setting };
 }
 
 export const executeCode = async (
   code: string, 
-  snippetId?: number
+  snippetId?: number,
+  timeout?: number,
+  language?: Language
 ): Promise<ExecutionResult> => {
   try {
     const response = await apiRequest("POST", "/api/execute", {
       code,
-      snippetId
+      snippetId,
+      timeout,
+      language
     });
     
     const result = await response.json();
@@ -31,3 +61,43 @@ export const executeCode = async (
     throw new Error("Failed to execute code");
   }
 };
+
+export interface PendingExecution {
+  result: Promise<ExecutionResult>;
+  // Ask the server to stop the run; result then settles with cancelled set
+  cancel: () => void;
+}
+
+/**
+ * Execute code with a plain request that can be cancelled while it runs.
+ * The server sends the run id in the X-Run-Id header as soon as the run
+ * starts, long before the result.
+ * @param code The JavaScript or TypeScript code to execute
+ * @param options Snippet to record output against, execution deadline,
+ * source language, whether the run is deterministic, the network policy, the
+ * starting HTML of a virtual DOM and the files of a multi-file snippet
+ */
+export function startExecution(
+  code: string,
+  options: { snippetId?: number; timeout?: number; language?: Language; deterministic?: DeterministicOptions | boolean; network?: NetworkPolicy | null; dom?: string | null; project?: SnippetProject | null }
+): PendingExecution {
+  let runId: string | null = null;
+  let cancelRequested = false;
+
+  const cancel = () => {
+    cancelRequested = true;
+    if (runId) {
+      // The run may have just finished, in which case there is nothing to stop
+      apiRequest("POST", `/api/execute/${runId}/cancel`).catch(() => {});
+    }
+  };
+
+  const result = (async () => {
+    const response = await apiRequest("POST", "/api/execute", { code, ...options });
+    runId = response.headers.get("X-Run-Id");
+    if (cancelRequested) cancel();
+    return response.json();
+  })();
+
+  return { result, cancel };
+}
@@ -0,0 +1,144 @@
+import type {
+  ConsoleMessage,
+  DeterministicOptions,
+  ExecutionError,
+  ExecutionServerFrame
+} from "@shared/execution";
+import type { Language } from "@shared/schema";
+import type { NetworkPolicy } from "@shared/network";
+import type { SnippetProject } from "@shared/project";
+
+export type ExecutionSummary = Extract<ExecutionServerFrame, { type: 'finish' }>;
+
+export interface ExecutionHandlers {
+  onStart?: () => void;
+  onConsole?: (entry: ConsoleMessage) => void;
+  onError?: (error: ExecutionError) => void;
+  onFinish?: (summary: ExecutionSummary) => void;
+  // The connection dropped; started tells whether the server had begun the run
+  onDisconnect?: (started: boolean) => void;
+}
+
+export interface ExecutionHandle {
+  runId: string;
+  cancel: () => void;
+}
+
+interface ActiveRun {
+  handlers: ExecutionHandlers;
+  started: boolean;
+}
+
+// One socket is shared by every run; frames are routed by runId
+let socket: WebSocket | null = null;
+let queuedFrames: string[] = [];
+const activeRuns = new Map<string, ActiveRun>();
+
+const createRunId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+function handleFrame(frame: ExecutionServerFrame) {
+  if (frame.runId === null) {
+    console.warn("Execution channel error:", frame.type === 'error' ? frame.error.message : frame);
+    return;
+  }
+
+  const run = activeRuns.get(frame.runId);
+  if (!run) return;
+
+  switch (frame.type) {
+    case 'start':
+      run.started = true;
+      run.handlers.onStart?.();
+      break;
+    case 'console':
+      run.handlers.onConsole?.(frame.entry);
+      break;
+    case 'error':
+      run.handlers.onError?.(frame.error);
+      break;
+    case 'finish':
+      activeRuns.delete(frame.runId);
+      run.handlers.onFinish?.(frame);
+      break;
+  }
+}
+
+function getSocket(): WebSocket {
+  if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+    return socket;
+  }
+
+  const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+  const ws = new WebSocket(`${protocol}://${window.location.host}/ws/execute`);
+
+  ws.onopen = () => {
+    queuedFrames.forEach(frame => ws.send(frame));
+    queuedFrames = [];
+  };
+
+  ws.onmessage = (event) => {
+    try {
+      handleFrame(JSON.parse(event.data));
+    } catch (error) {
+      console.error("Invalid execution frame:", error);
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket === ws) {
+      socket = null;
+    }
+    queuedFrames = [];
+
+    // Runs in flight cannot report back anymore
+    const runs = Array.from(activeRuns.values());
+    activeRuns.clear();
+    runs.forEach(run => run.handlers.onDisconnect?.(run.started));
+  };
+
+  socket = ws;
+  return ws;
+}
+
+function sendFrame(frame: object) {
+  const ws = getSocket();
+  const data = JSON.stringify(frame);
+
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(data);
+  } else {
+    queuedFrames.push(data);
+  }
+}
+
+/**
+ * Run code on the server and receive console output as it is produced
+ * @param code The JavaScript code to execute
+ * @param options Snippet to record output against, source language, the
+ * execution deadline, whether the run is deterministic, the network policy, the
+ * starting HTML of a virtual DOM and the files of a multi-file snippet
+ * @param handlers Callbacks for each frame of the run
+ * @returns A handle that can cancel the run. Callers that start another run
+ * should ignore frames of the one they replaced.
+ */
+export function streamExecution(
+  code: string,
+  options: { snippetId?: number; timeout?: number; language?: Language; deterministic?: DeterministicOptions | boolean; network?: NetworkPolicy | null; dom?: string | null; project?: SnippetProject | null },
+  handlers: ExecutionHandlers
+): ExecutionHandle {
+  const runId = createRunId();
+  activeRuns.set(runId, { handlers, started: false });
+
+  sendFrame({ type: 'run', runId, code, ...options });
+
+  return {
+    runId,
+    // The run still reports its finish frame, with cancelled set
+    cancel: () => {
+      if (activeRuns.has(runId)) {
+        sendFrame({ type: 'cancel', runId });
+      }
+    }
+  };
+}
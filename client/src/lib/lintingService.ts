@@ -1,5 +1,13 @@
 // Import necessary libraries for code linting and formatting
 import * as prettier from 'prettier';
+import * as babelPlugin from 'prettier/plugins/babel';
+import * as estreePluginModule from 'prettier/plugins/estree';
+import * as typescriptPlugin from 'prettier/plugins/typescript';
+import * as htmlPlugin from 'prettier/plugins/html';
+import * as postcssPlugin from 'prettier/plugins/postcss';
+
+// The estree printer plugin ships without type declarations
+const estreePlugin = estreePluginModule as prettier.Plugin;
 import * as jsBeautify from 'js-beautify';
 
 // Define interfaces for our linting results
@@ -100,11 +108,15 @@ export async function lintCode(code: string): Promise<LintingResult> {
 
 /**
  * Format code using Prettier
+ * @param parser 'babel' for JavaScript, 'typescript' for TypeScript, 'html'
+ * and 'css' for the markup and styles of web pages
  */
 export async function formatCode(code: string, parser = 'babel'): Promise<string> {
   try {
     const formattedCode = await prettier.format(code, {
       parser,
+      // The browser build of Prettier ships without parsers
+      plugins: [babelPlugin, estreePlugin, typescriptPlugin, htmlPlugin, postcssPlugin],
       semi: true,
       singleQuote: true,
       trailingComma: 'es5',
@@ -117,6 +129,8 @@ export async function formatCode(code: string, parser = 'babel'): Promise<string
     
     // Fallback to js-beautify if prettier fails
     try {
+      if (parser === 'html') return jsBeautify.html_beautify(code, { indent_size: 2 });
+      if (parser === 'css') return jsBeautify.css_beautify(code, { indent_size: 2 });
       return jsBeautify.js_beautify(code, {
         indent_size: 2,
         space_in_empty_paren: true,
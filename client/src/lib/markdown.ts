@@ -0,0 +1,35 @@
+// Renders the markdown challenge descriptions are written in. Descriptions
+// come from whoever authored the challenge and end up in the page as HTML, so
+// raw HTML is shown as text and links cannot run scripts.
+import { Marked } from "marked";
+
+// Schemes that run code or embed content instead of pointing somewhere
+const UNSAFE_URL = /^\s*(javascript|vbscript|data):/i;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      if (UNSAFE_URL.test(href)) return text;
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : "";
+      return `<a href="${escapeHtml(href)}"${titleAttribute} target="_blank" rel="noopener noreferrer">${text}</a>`;
+    },
+    image({ href, text }) {
+      return UNSAFE_URL.test(href) ? escapeHtml(text) : false;
+    }
+  }
+});
+
+/**
+ * Turn markdown into HTML that is safe to put in the page
+ */
+export function renderMarkdown(text: string): string {
+  return markdown.parse(text, { async: false });
+}
@@ -1,13 +1,7 @@
 // Package service for handling external npm packages via ESM.sh
+import { commonPackages, type PackageInfo } from "@shared/packages";
 
-export interface PackageInfo {
-  name: string;
-  version: string;
-  description: string;
-  importStatement: string;
-  cdnUrl: string;
-  homepage?: string;
-}
+export { commonPackages, type PackageInfo };
 
 export interface ImportedPackage {
   name: string;
@@ -60,76 +54,6 @@ export function getImportStatement(packageName: string, version = 'latest'): str
   return `import packageName from 'https://esm.sh/${packageName}${versionString}';`;
 }
 
-/**
- * Common npm packages for quick access
- */
-export const commonPackages: PackageInfo[] = [
-  {
-    name: 'lodash',
-    version: 'latest',
-    description: 'A modern JavaScript utility library delivering modularity, performance & extras.',
-    importStatement: "import _ from 'https://esm.sh/lodash';",
-    cdnUrl: 'https://esm.sh/lodash',
-    homepage: 'https://lodash.com/'
-  },
-  {
-    name: 'axios',
-    version: 'latest',
-    description: 'Promise based HTTP client for the browser and node.js',
-    importStatement: "import axios from 'https://esm.sh/axios';",
-    cdnUrl: 'https://esm.sh/axios',
-    homepage: 'https://axios-http.com/'
-  },
-  {
-    name: 'date-fns',
-    version: 'latest',
-    description: 'Modern JavaScript date utility library',
-    importStatement: "import { format, addDays } from 'https://esm.sh/date-fns';",
-    cdnUrl: 'https://esm.sh/date-fns',
-    homepage: 'https://date-fns.org/'
-  },
-  {
-    name: 'uuid',
-    version: 'latest',
-    description: 'RFC-compliant UUID generator',
-    importStatement: "import { v4 as uuidv4 } from 'https://esm.sh/uuid';",
-    cdnUrl: 'https://esm.sh/uuid',
-    homepage: 'https://github.com/uuidjs/uuid'
-  },
-  {
-    name: 'zod',
-    version: 'latest',
-    description: 'TypeScript-first schema validation with static type inference',
-    importStatement: "import { z } from 'https://esm.sh/zod';", 
-    cdnUrl: 'https://esm.sh/zod',
-    homepage: 'https://zod.dev/'
-  },
-  {
-    name: 'chart.js',
-    version: 'latest',
-    description: 'Simple yet flexible JavaScript charting for designers & developers',
-    importStatement: "import Chart from 'https://esm.sh/chart.js';",
-    cdnUrl: 'https://esm.sh/chart.js',
-    homepage: 'https://www.chartjs.org/'
-  },
-  {
-    name: 'marked',
-    version: 'latest',
-    description: 'A markdown parser and compiler. Built for speed.',
-    importStatement: "import { marked } from 'https://esm.sh/marked';",
-    cdnUrl: 'https://esm.sh/marked',
-    homepage: 'https://marked.js.org/'
-  },
-  {
-    name: 'd3',
-    version: 'latest',
-    description: 'Data visualization library for web browsers',
-    importStatement: "import * as d3 from 'https://esm.sh/d3';",
-    cdnUrl: 'https://esm.sh/d3',
-    homepage: 'https://d3js.org/'
-  }
-];
-
 /**
  * Inject imports into code
  * @param code Original code
@@ -165,7 +89,7 @@ export function getPackageExample(packageName: string): string {
       return `import { v4 as uuidv4 } from 'https://esm.sh/uuid';\n\n// Generate random UUIDs\nconst id1 = uuidv4();\nconst id2 = uuidv4();\n\nconsole.log('UUID 1:', id1);\nconsole.log('UUID 2:', id2);\nconsole.log('UUIDs are different:', id1 !== id2);`;
     
     case 'zod':
-      return `import { z } from 'https://esm.sh/zod';\n\n// Define a schema for a person\nconst PersonSchema = z.object({\n  name: z.string().min(2),\n  age: z.number().int().positive(),\n  email: z.string().email(),\n  isActive: z.boolean().default(true)\n});\n\n// Type is inferred from the schema\ntype Person = z.infer<typeof PersonSchema>;\n\n// Create and validate a person object\ntry {\n  const person = PersonSchema.parse({\n    name: 'John Doe',\n    age: 30,\n    email: 'john@example.com'\n  });\n  console.log('Valid person:', person);\n} catch (error) {\n  console.error('Validation error:', error);\n}\n\n// This will throw an error\ntry {\n  const invalidPerson = PersonSchema.parse({\n    name: 'J', // Too short\n    age: -5, // Negative number\n    email: 'not-an-email'\n  });\n} catch (error) {\n  console.error('Invalid person errors:', error.errors);\n}`;
+      return `import { z } from 'https://esm.sh/zod';\n\n// Define a schema for a person\nconst PersonSchema = z.object({\n  name: z.string().min(2),\n  age: z.number().int().positive(),\n  email: z.string().email(),\n  isActive: z.boolean().default(true)\n});\n\n// In TypeScript the type can be inferred from the schema:\n// type Person = z.infer<typeof PersonSchema>;\n\n// Create and validate a person object\ntry {\n  const person = PersonSchema.parse({\n    name: 'John Doe',\n    age: 30,\n    email: 'john@example.com'\n  });\n  console.log('Valid person:', person);\n} catch (error) {\n  console.error('Validation error:', error);\n}\n\n// This will throw an error\ntry {\n  const invalidPerson = PersonSchema.parse({\n    name: 'J', // Too short\n    age: -5, // Negative number\n    email: 'not-an-email'\n  });\n} catch (error) {\n  console.error('Invalid person errors:', error.errors);\n}`;
     
     case 'chart.js':
       return `import Chart from 'https://esm.sh/chart.js';\n\n// Chart.js needs a canvas element\n// This code would work in a browser where you have a canvas with id='myChart'\n// For demonstration purposes only\n\n// Sample data for a chart\nconst data = {\n  labels: ['Red', 'Blue', 'Yellow', 'Green', 'Purple', 'Orange'],\n  datasets: [{\n    label: '# of Votes',\n    data: [12, 19, 3, 5, 2, 3],\n    backgroundColor: [\n      'rgba(255, 99, 132, 0.2)',\n      'rgba(54, 162, 235, 0.2)',\n      'rgba(255, 206, 86, 0.2)',\n      'rgba(75, 192, 192, 0.2)',\n      'rgba(153, 102, 255, 0.2)',\n      'rgba(255, 159, 64, 0.2)'\n    ],\n    borderWidth: 1\n  }]\n};\n\n// Chart configuration\nconst config = {\n  type: 'bar',\n  data: data,\n  options: {\n    scales: {\n      y: {\n        beginAtZero: true\n      }\n    }\n  }\n};\n\n// In a browser, you would create the chart like this:\n// const myChart = new Chart(document.getElementById('myChart'), config);\n\nconsole.log('Chart configuration prepared:', config);\n`;
@@ -0,0 +1,52 @@
+import { apiRequest } from "./queryClient";
+import type { ReplEvaluation, ReplOutput } from "@shared/execution";
+import type { Language } from "@shared/schema";
+
+export type { ReplEvaluation, ReplOutput };
+
+/**
+ * Tell whether a REPL request failed because the session expired on the
+ * server or was never there, in which case a new session has to be started
+ */
+export function isReplSessionExpired(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("404:");
+}
+
+/**
+ * Start a REPL session on the server
+ * @returns The id of the new session
+ */
+export async function createReplSession(): Promise<string> {
+  const response = await apiRequest("POST", "/api/repl");
+  const { sessionId } = await response.json();
+  return sessionId;
+}
+
+/**
+ * Evaluate one input in a REPL session. Declarations made by earlier inputs
+ * are visible to it.
+ * @param sessionId The session to evaluate in
+ * @param code The input, which may span several lines
+ * @param language The language the input is written in
+ */
+export async function evaluateInRepl(sessionId: string, code: string, language?: Language): Promise<ReplEvaluation> {
+  const response = await apiRequest("POST", `/api/repl/${sessionId}/evaluate`, { code, language });
+  return response.json();
+}
+
+/**
+ * Collect console output timers and requests of a session wrote since the
+ * last response
+ */
+export async function fetchReplOutput(sessionId: string): Promise<ReplOutput> {
+  const response = await apiRequest("GET", `/api/repl/${sessionId}/output`);
+  return response.json();
+}
+
+export async function resetReplSession(sessionId: string): Promise<void> {
+  await apiRequest("POST", `/api/repl/${sessionId}/reset`);
+}
+
+export async function deleteReplSession(sessionId: string): Promise<void> {
+  await apiRequest("DELETE", `/api/repl/${sessionId}`);
+}
@@ -0,0 +1,20 @@
+import { apiRequest } from "./queryClient";
+
+// Where the studio token is kept between visits
+export const STUDIO_TOKEN_KEY = "jsrunner-studio-token";
+
+/**
+ * Tell whether a studio request was refused because the token is missing or
+ * wrong, in which case the author has to enter it again
+ */
+export function isStudioTokenRejected(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith("401:");
+}
+
+/**
+ * Make a request to a route reserved for challenge authors
+ * @param token The studio token the server was started with
+ */
+export function studioRequest(token: string, method: string, url: string, data?: unknown): Promise<Response> {
+  return apiRequest(method, url, data, { Authorization: `Bearer ${token}` });
+}
@@ -0,0 +1,186 @@
+// Builds the document a web snippet renders in. The page runs in an iframe
+// without allow-same-origin, so the only way out is postMessage: a bridge
+// script at the top of the page forwards console calls and uncaught errors
+// to the app.
+
+export interface WebSources {
+  html: string;
+  css: string;
+  js: string;
+}
+
+// Marks messages posted by the bridge, which are the only ones the app reads
+export const PREVIEW_MESSAGE_SOURCE = "jsrunner-preview";
+
+export type PreviewLevel = "log" | "info" | "warn" | "error" | "debug";
+
+export type PreviewMessage =
+  | {
+      source: typeof PREVIEW_MESSAGE_SOURCE;
+      type: "console";
+      level: PreviewLevel;
+      // Console method called, e.g. 'group' or 'uncaught' for errors
+      method: string;
+      content: string;
+      // console.group() nesting level
+      depth: number;
+      stack?: string;
+    }
+  | { source: typeof PREVIEW_MESSAGE_SOURCE; type: "clear" };
+
+/**
+ * Tell messages of the bridge apart from anything else posted to the window
+ */
+export function isPreviewMessage(data: unknown): data is PreviewMessage {
+  return typeof data === "object" && data !== null && (data as { source?: unknown }).source === PREVIEW_MESSAGE_SOURCE;
+}
+
+// Runs first in the page. Values are turned into text inside the frame, since
+// most of them (DOM nodes, functions) cannot be posted as they are. Line
+// numbers of errors are made relative to the JavaScript tab with LINE_OFFSET.
+const bridgeScript = `(function () {
+  var LINE_OFFSET = __LINE_OFFSET__;
+  var MAX_LENGTH = 10000;
+  var original = window.console;
+  var depth = 0;
+  var counts = {};
+  var timers = {};
+
+  function send(message) {
+    message.source = ${JSON.stringify(PREVIEW_MESSAGE_SOURCE)};
+    try {
+      parent.postMessage(message, '*');
+    } catch (e) {}
+  }
+
+  function describe(value, level, seen) {
+    if (typeof value === 'string') return level === 0 ? value : JSON.stringify(value);
+    if (typeof value === 'bigint') return value + 'n';
+    if (typeof value === 'symbol') return value.toString();
+    if (typeof value === 'function') return '[Function: ' + (value.name || 'anonymous') + ']';
+    if (value === null || typeof value !== 'object') return String(value);
+    if (value instanceof Error) return level === 0 && value.stack ? value.stack : '[' + value.name + ': ' + value.message + ']';
+    if (typeof Node !== 'undefined' && value instanceof Node) {
+      var markup = value.outerHTML || value.nodeName;
+      return markup.length > 200 ? markup.slice(0, 200) + '…' : markup;
+    }
+    if (seen.indexOf(value) !== -1) return '[Circular]';
+    if (level > 2) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+    seen = seen.concat([value]);
+    if (Array.isArray(value)) {
+      return '[ ' + value.map(function (item) { return describe(item, level + 1, seen); }).join(', ') + ' ]';
+    }
+    var keys = Object.keys(value);
+    var name = value.constructor && value.constructor.name !== 'Object' ? value.constructor.name + ' ' : '';
+    if (keys.length === 0) return name + '{}';
+    return name + '{ ' + keys.map(function (key) {
+      return key + ': ' + describe(value[key], level + 1, seen);
+    }).join(', ') + ' }';
+  }
+
+  function format(args) {
+    var text = Array.prototype.map.call(args, function (arg) { return describe(arg, 0, []); }).join(' ');
+    return text.length > MAX_LENGTH ? text.slice(0, MAX_LENGTH) + '…' : text;
+  }
+
+  function emit(level, method, content, stack) {
+    send({ type: 'console', level: level, method: method, content: content, depth: depth, stack: stack });
+  }
+
+  function wrap(method, handler) {
+    var native = original[method];
+    console[method] = function () {
+      handler.apply(null, arguments);
+      if (typeof native === 'function') native.apply(original, arguments);
+    };
+  }
+
+  var levels = { log: 'log', info: 'info', warn: 'warn', error: 'error', debug: 'debug', dir: 'log', table: 'log' };
+  Object.keys(levels).forEach(function (method) {
+    wrap(method, function () { emit(levels[method], method, format(arguments)); });
+  });
+  wrap('trace', function () {
+    var stack = (new Error().stack || '').split('\\n').slice(2).join('\\n');
+    emit('log', 'trace', 'Trace' + (arguments.length ? ': ' + format(arguments) : ''), stack);
+  });
+  wrap('assert', function (condition) {
+    if (condition) return;
+    var rest = Array.prototype.slice.call(arguments, 1);
+    emit('error', 'assert', 'Assertion failed' + (rest.length ? ': ' + format(rest) : ''));
+  });
+  wrap('group', function () { emit('log', 'group', format(arguments) || 'console.group'); depth++; });
+  wrap('groupCollapsed', function () { emit('log', 'groupCollapsed', format(arguments) || 'console.group'); depth++; });
+  wrap('groupEnd', function () { if (depth > 0) depth--; });
+  wrap('count', function (label) {
+    label = label === undefined ? 'default' : String(label);
+    counts[label] = (counts[label] || 0) + 1;
+    emit('log', 'count', label + ': ' + counts[label]);
+  });
+  wrap('countReset', function (label) { counts[label === undefined ? 'default' : String(label)] = 0; });
+  wrap('time', function (label) { timers[label === undefined ? 'default' : String(label)] = performance.now(); });
+  ['timeLog', 'timeEnd'].forEach(function (method) {
+    wrap(method, function (label) {
+      label = label === undefined ? 'default' : String(label);
+      if (!(label in timers)) {
+        emit('warn', method, "Timer '" + label + "' does not exist");
+        return;
+      }
+      emit('log', method, label + ': ' + (performance.now() - timers[label]).toFixed(3) + 'ms');
+      if (method === 'timeEnd') delete timers[label];
+    });
+  });
+  wrap('clear', function () { depth = 0; send({ type: 'clear' }); });
+
+  window.addEventListener('error', function (event) {
+    var error = event.error;
+    var message = error && typeof error === 'object' && 'message' in error
+      ? error.name + ': ' + error.message
+      : String(event.message);
+    var where = event.lineno > LINE_OFFSET && /srcdoc/.test(event.filename)
+      ? ' (line ' + (event.lineno - LINE_OFFSET) + ')'
+      : '';
+    emit('error', 'uncaught', 'Uncaught ' + message.replace(/^Uncaught /, '') + where);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    emit('error', 'uncaught', 'Uncaught (in promise) ' + describe(event.reason, 1, []));
+  });
+})();`;
+
+// Imports and exports only work in a module script; everything else runs as
+// a classic one, so functions stay reachable from onclick attributes
+const moduleSyntax = /^\s*(import\s*[\w{*'"]|export\s)/m;
+
+/**
+ * Put the buffers of a web snippet together into one page. The HTML goes
+ * into the body, the CSS into a style element in the head and the
+ * JavaScript into a script at the end of the body.
+ */
+export function buildPreviewDocument({ html, css, js }: WebSources): string {
+  // Markup closing the element early would end the style or script there
+  const style = css.replace(/<\/style/gi, "<\\/style");
+  const script = js.replace(/<\/script/gi, "<\\/script");
+  const scriptType = moduleSyntax.test(js) ? ' type="module"' : "";
+
+  const head = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<script>${bridgeScript}</script>
+<style>
+${style}
+</style>
+</head>
+<body>
+${html}
+<script${scriptType}>
+`;
+  // The offset is a number on one line, so filling it in keeps the count right
+  const lineOffset = head.split("\n").length - 1;
+
+  return `${head.replace("__LINE_OFFSET__", String(lineOffset))}${script}
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,621 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { CheckCircle2, FilePlus, Home, KeyRound, Plus, RefreshCw, Save, ShieldCheck, Trash2, Upload, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { queryClient } from "@/lib/queryClient";
+import { isStudioTokenRejected, studioRequest, STUDIO_TOKEN_KEY } from "@/lib/studioService";
+import Header from "@/components/Header";
+import CodeEditor from "@/components/CodeEditor";
+import Markdown from "@/components/Markdown";
+import DomFixtureDialog from "@/components/DomFixtureDialog";
+import NetworkPolicyDialog from "@/components/NetworkPolicyDialog";
+import ChallengeTestEditor, { emptyTestDraft, fromTestDraft, toTestDraft, type TestDraft } from "@/components/ChallengeTestEditor";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  challengeDifficulties,
+  languages,
+  type Challenge,
+  type ChallengeCategory,
+  type ChallengeDifficulty,
+  type ChallengeStatus,
+  type InsertChallenge,
+  type Language
+} from "@shared/schema";
+import type { ChallengeTestResult } from "@shared/challenge";
+import type { NetworkPolicy } from "@shared/network";
+
+// A challenge as the studio edits it; id is null until it is first saved
+interface ChallengeForm {
+  id: number | null;
+  status: ChallengeStatus;
+  title: string;
+  categoryId: number | null;
+  difficulty: ChallengeDifficulty;
+  language: Language;
+  description: string;
+  starterCode: string;
+  solutionCode: string;
+  hints: string[];
+  tests: TestDraft[];
+  domFixture: string | null;
+  networkPolicy: NetworkPolicy | null;
+  order: number;
+}
+
+interface ValidationResults {
+  success: boolean;
+  results: ChallengeTestResult[];
+  message: string;
+}
+
+const newForm = (categoryId: number | null): ChallengeForm => ({
+  id: null,
+  status: "draft",
+  title: "",
+  categoryId,
+  difficulty: "easy",
+  language: "javascript",
+  description: "",
+  starterCode: "export function solve(input) {\n  // Your code here\n}",
+  solutionCode: "export function solve(input) {\n  return input;\n}",
+  hints: [],
+  tests: [{ ...emptyTestDraft(), call: "solve" }],
+  domFixture: null,
+  networkPolicy: null,
+  order: 0
+});
+
+const toForm = (challenge: Challenge): ChallengeForm => ({
+  id: challenge.id,
+  status: challenge.status as ChallengeStatus,
+  title: challenge.title,
+  categoryId: challenge.categoryId,
+  difficulty: challenge.difficulty as ChallengeDifficulty,
+  language: challenge.language as Language,
+  description: challenge.description,
+  starterCode: challenge.starterCode,
+  solutionCode: challenge.solutionCode,
+  hints: challenge.hints ?? [],
+  tests: challenge.testCases.map(toTestDraft),
+  domFixture: challenge.domFixture,
+  networkPolicy: challenge.networkPolicy,
+  order: challenge.order
+});
+
+// The challenge to send, or what has to be fixed first
+function toChallengeData(form: ChallengeForm): { ok: true; data: Omit<InsertChallenge, "status"> } | { ok: false; error: string } {
+  if (!form.title.trim()) return { ok: false, error: "The challenge needs a title" };
+  if (form.categoryId === null) return { ok: false, error: "Pick a category" };
+  if (!form.description.trim()) return { ok: false, error: "The challenge needs a description" };
+  if (form.tests.length === 0) return { ok: false, error: "Add at least one test" };
+
+  const testCases = [];
+  for (let index = 0; index < form.tests.length; index++) {
+    const result = fromTestDraft(form.tests[index]);
+    if (!result.ok) return { ok: false, error: `Test ${index + 1}: ${result.error}` };
+    testCases.push(result.test);
+  }
+
+  return {
+    ok: true,
+    data: {
+      title: form.title.trim(),
+      categoryId: form.categoryId,
+      difficulty: form.difficulty,
+      language: form.language,
+      description: form.description,
+      starterCode: form.starterCode,
+      solutionCode: form.solutionCode,
+      hints: form.hints.map(hint => hint.trim()).filter(Boolean),
+      testCases,
+      domFixture: form.domFixture,
+      networkPolicy: form.networkPolicy,
+      order: form.order
+    }
+  };
+}
+
+// The message of a failed request, as the server words it
+const errorMessage = (error: unknown): string => {
+  const text = error instanceof Error ? error.message.replace(/^\d+: /, "") : String(error);
+  try {
+    return JSON.parse(text).message ?? text;
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Where challenges are written: the description in markdown, the code the
+ * learner starts from, the solution, hints and tests. A challenge stays a
+ * draft until its solution passes its tests and it is published.
+ */
+export default function ChallengeStudio() {
+  const [form, setForm] = useState<ChallengeForm | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [validation, setValidation] = useState<ValidationResults | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [token, setToken] = useLocalStorage<string | null>(STUDIO_TOKEN_KEY, null);
+  const [tokenInput, setTokenInput] = useState("");
+  const { toast } = useToast();
+
+  const { data: categories = [] } = useQuery<ChallengeCategory[]>({
+    queryKey: ['/api/challenge-categories'],
+    refetchOnWindowFocus: false
+  });
+
+  // The full challenges, solutions included, are only sent for the studio token
+  const { data: challenges = [], isLoading: challengesLoading, error: challengesError } = useQuery<Challenge[]>({
+    queryKey: ['/api/studio/challenges', token],
+    queryFn: async () => (await studioRequest(token!, "GET", "/api/studio/challenges")).json(),
+    enabled: token !== null,
+    refetchOnWindowFocus: false
+  });
+  const locked = token === null || isStudioTokenRejected(challengesError);
+
+  const unlock = () => {
+    if (!tokenInput.trim()) return;
+    setToken(tokenInput.trim());
+    setTokenInput("");
+  };
+
+  const edit = (changes: Partial<ChallengeForm>) => {
+    setForm(current => current && { ...current, ...changes });
+    setIsDirty(true);
+  };
+
+  const open = (next: ChallengeForm) => {
+    if (isDirty && !confirm("Discard your changes to this challenge?")) return;
+    setForm(next);
+    setIsDirty(false);
+    setValidation(null);
+  };
+
+  const showError = (title: string, description: string) => {
+    toast({ title, description, variant: "destructive" });
+  };
+
+  // Run the solution against the tests as they are in the form
+  const validate = async () => {
+    if (!form) return;
+    const challenge = toChallengeData(form);
+    if (!challenge.ok) {
+      showError("Cannot validate", challenge.error);
+      return;
+    }
+
+    setIsValidating(true);
+    setValidation(null);
+    try {
+      const response = await studioRequest(token!, "POST", "/api/studio/validate", challenge.data);
+      setValidation(await response.json());
+    } catch (error) {
+      showError("Validation failed", errorMessage(error));
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  // Publishing is refused by the server unless the solution passes every test
+  const save = async (status: ChallengeStatus) => {
+    if (!form) return;
+    const challenge = toChallengeData(form);
+    if (!challenge.ok) {
+      showError("Cannot save", challenge.error);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const data = { ...challenge.data, status };
+      const response = form.id === null
+        ? await studioRequest(token!, "POST", "/api/challenges", data)
+        : await studioRequest(token!, "PUT", `/api/challenges/${form.id}`, data);
+      const saved = await response.json();
+
+      setForm(current => current && { ...current, id: saved.id, status });
+      setIsDirty(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/studio/challenges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/challenges'] });
+      toast({
+        title: status === "published" ? "Challenge published" : "Draft saved",
+        description: status === "published"
+          ? "Learners can now take this challenge."
+          : "Only the studio shows drafts."
+      });
+    } catch (error) {
+      showError(status === "published" ? "Cannot publish" : "Cannot save", errorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async () => {
+    if (!form || form.id === null) return;
+    if (!confirm(`Delete "${form.title}"? Learners' progress on it is deleted too.`)) return;
+
+    try {
+      await studioRequest(token!, "DELETE", `/api/challenges/${form.id}`);
+      setForm(null);
+      setIsDirty(false);
+      setValidation(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/studio/challenges'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/challenges'] });
+    } catch (error) {
+      showError("Cannot delete", errorMessage(error));
+    }
+  };
+
+  const categoryName = (id: number) => categories.find(category => category.id === id)?.name ?? "Uncategorized";
+
+  return (
+    <div className="flex flex-col h-screen overflow-hidden">
+      <Header
+        onSave={() => {}}
+        onRun={() => {}}
+        toggleMobileMenu={() => {}}
+        isMobileMenuOpen={false}
+        hideActions={true}
+      />
+
+      <div className="flex-1 container mx-auto py-4 overflow-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-3xl font-bold">Challenge Studio</h1>
+            <p className="text-muted-foreground">
+              Write challenges, check their solutions and publish them
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Link href="/challenges">
+              <Button variant="outline" className="gap-2">
+                <Home size={16} />
+                Back to Challenges
+              </Button>
+            </Link>
+            <Button className="gap-2" disabled={locked} onClick={() => open(newForm(categories[0]?.id ?? null))}>
+              <FilePlus size={16} />
+              New Challenge
+            </Button>
+          </div>
+        </div>
+
+        {locked ? (
+          <Card className="max-w-md mx-auto">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <KeyRound size={18} />
+                Studio token
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {token !== null
+                  ? "That token was not accepted. Enter the studio token the server was started with."
+                  : "Writing challenges needs the studio token the server was started with."}
+              </p>
+              <form
+                className="flex gap-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  unlock();
+                }}
+              >
+                <Input
+                  type="password"
+                  value={tokenInput}
+                  onChange={(event) => setTokenInput(event.target.value)}
+                  placeholder="Studio token"
+                  autoFocus
+                />
+                <Button type="submit" disabled={!tokenInput.trim()}>Unlock</Button>
+              </form>
+            </CardContent>
+          </Card>
+        ) : challengesError ? (
+          <Card className="max-w-md mx-auto">
+            <CardContent className="py-12 text-center text-muted-foreground">
+              {errorMessage(challengesError)}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[18rem_1fr] gap-6">
+            <Card className="h-fit">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">Challenges</CardTitle>
+              </CardHeader>
+              <CardContent className="p-2">
+                <ScrollArea className="h-[70vh]">
+                  {challengesLoading && <p className="text-sm text-muted-foreground p-2">Loading...</p>}
+                  {challenges.map(challenge => (
+                    <button
+                      key={challenge.id}
+                      className={`w-full text-left rounded px-2 py-1.5 mb-1 ${form?.id === challenge.id ? "bg-accent/20" : "hover:bg-accent/10"}`}
+                      onClick={() => open(toForm(challenge))}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm truncate">{challenge.title}</span>
+                        {challenge.status === "draft" && <Badge variant="outline" className="text-[10px]">Draft</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {categoryName(challenge.categoryId)} · {challenge.difficulty}
+                      </div>
+                    </button>
+                  ))}
+                </ScrollArea>
+              </CardContent>
+            </Card>
+
+            {form ? (
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <CardTitle className="flex items-center gap-2">
+                        {form.id === null ? "New challenge" : form.title || "Untitled challenge"}
+                        <Badge variant={form.status === "published" ? "default" : "outline"}>
+                          {form.status === "published" ? "Published" : "Draft"}
+                        </Badge>
+                        {isDirty && <span className="text-xs font-normal text-muted-foreground">Unsaved changes</span>}
+                      </CardTitle>
+                      <div className="flex gap-2">
+                        {form.id !== null && (
+                          <Button variant="ghost" size="icon" onClick={remove} title="Delete challenge">
+                            <Trash2 size={16} />
+                          </Button>
+                        )}
+                        <Button variant="outline" className="gap-2" onClick={validate} disabled={isValidating}>
+                          {isValidating ? <RefreshCw className="animate-spin" size={16} /> : <ShieldCheck size={16} />}
+                          Validate Solution
+                        </Button>
+                        <Button variant="outline" className="gap-2" onClick={() => save("draft")} disabled={isSaving}>
+                          <Save size={16} />
+                          Save as Draft
+                        </Button>
+                        <Button className="gap-2" onClick={() => save("published")} disabled={isSaving}>
+                          <Upload size={16} />
+                          Publish
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-[1fr_12rem_9rem_9rem_5rem] gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="challenge-title">Title</Label>
+                        <Input id="challenge-title" value={form.title} onChange={(e) => edit({ title: e.target.value })} />
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Category</Label>
+                        <Select
+                          value={form.categoryId === null ? undefined : String(form.categoryId)}
+                          onValueChange={(value) => edit({ categoryId: Number(value) })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Pick a category" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categories.map(category => (
+                              <SelectItem key={category.id} value={String(category.id)}>{category.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Difficulty</Label>
+                        <Select value={form.difficulty} onValueChange={(value) => edit({ difficulty: value as ChallengeDifficulty })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {challengeDifficulties.map(difficulty => (
+                              <SelectItem key={difficulty} value={difficulty}>
+                                {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label>Language</Label>
+                        <Select value={form.language} onValueChange={(value) => edit({ language: value as Language })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {languages.map(language => (
+                              <SelectItem key={language} value={language}>
+                                {language === "typescript" ? "TypeScript" : "JavaScript"}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="challenge-order">Order</Label>
+                        <Input
+                          id="challenge-order"
+                          type="number"
+                          value={form.order}
+                          onChange={(e) => edit({ order: Number(e.target.value) || 0 })}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm text-muted-foreground">Tests run with:</span>
+                      <NetworkPolicyDialog policy={form.networkPolicy} onChange={(networkPolicy) => edit({ networkPolicy })} />
+                      <DomFixtureDialog fixture={form.domFixture} onChange={(domFixture) => edit({ domFixture })} />
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label htmlFor="challenge-description">Description</Label>
+                      <Tabs defaultValue="write">
+                        <TabsList>
+                          <TabsTrigger value="write">Write</TabsTrigger>
+                          <TabsTrigger value="preview">Preview</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="write">
+                          <Textarea
+                            id="challenge-description"
+                            value={form.description}
+                            onChange={(e) => edit({ description: e.target.value })}
+                            placeholder={"Write a function `solve` that...\n\nMarkdown works: **bold**, `code`, lists and code blocks."}
+                            className="min-h-[160px] font-mono text-sm"
+                          />
+                        </TabsContent>
+                        <TabsContent value="preview">
+                          <div className="border rounded-md p-3 min-h-[160px]">
+                            {form.description.trim()
+                              ? <Markdown text={form.description} />
+                              : <p className="text-sm text-muted-foreground">Nothing to preview</p>}
+                          </div>
+                        </TabsContent>
+                      </Tabs>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Hints</Label>
+                      {form.hints.map((hint, index) => (
+                        <div key={index} className="flex gap-2">
+                          <Input
+                            value={hint}
+                            onChange={(e) => edit({ hints: form.hints.map((h, i) => i === index ? e.target.value : h) })}
+                            placeholder={`Hint ${index + 1}`}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => edit({ hints: form.hints.filter((_, i) => i !== index) })}
+                            title="Delete hint"
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button variant="outline" size="sm" className="gap-2" onClick={() => edit({ hints: [...form.hints, ""] })}>
+                        <Plus size={16} />
+                        Add hint
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardContent className="p-0">
+                    {/* Running from the editors would validate on every pause in typing */}
+                    <Tabs defaultValue="starter">
+                      <TabsList className="m-3">
+                        <TabsTrigger value="starter">Starter Code</TabsTrigger>
+                        <TabsTrigger value="solution">Solution</TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="starter" className="h-[360px] mt-0">
+                        <CodeEditor
+                          code={form.starterCode}
+                          setCode={(starterCode) => edit({ starterCode })}
+                          onRun={() => {}}
+                          onFormat={() => {}}
+                          onClear={() => {}}
+                          isExecuting={isValidating}
+                          isSimple={true}
+                          language={form.language}
+                        />
+                      </TabsContent>
+                      <TabsContent value="solution" className="h-[360px] mt-0">
+                        <CodeEditor
+                          code={form.solutionCode}
+                          setCode={(solutionCode) => edit({ solutionCode })}
+                          onRun={() => {}}
+                          onFormat={() => {}}
+                          onClear={() => {}}
+                          isExecuting={isValidating}
+                          isSimple={true}
+                          language={form.language}
+                        />
+                      </TabsContent>
+                    </Tabs>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Tests</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Learners see visible tests as examples; hidden tests only say whether they passed.
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <ChallengeTestEditor
+                      tests={form.tests}
+                      onChange={(tests) => edit({ tests })}
+                      hasPage={form.domFixture !== null}
+                    />
+                  </CardContent>
+                </Card>
+
+                {validation && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="flex items-center gap-2 text-lg">
+                        {validation.success
+                          ? <CheckCircle2 className="text-green-500" size={20} />
+                          : <XCircle className="text-red-500" size={20} />}
+                        {validation.message}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {validation.results.map((result, i) => (
+                        <div key={i} className="border rounded-md p-2 text-sm">
+                          <div className="flex items-center gap-2 font-medium">
+                            {result.pass
+                              ? <CheckCircle2 className="text-green-500" size={16} />
+                              : <XCircle className="text-red-500" size={16} />}
+                            Test {i + 1}
+                            {result.hidden && <Badge variant="outline" className="text-[10px]">Hidden</Badge>}
+                            {result.description && (
+                              <span className="font-normal text-muted-foreground">: {result.description}</span>
+                            )}
+                          </div>
+                          {!result.pass && (
+                            <pre className="font-mono text-xs whitespace-pre-wrap mt-1 text-muted-foreground">
+                              {result.error
+                                ? `${result.error.name}: ${result.error.message}`
+                                : `Expected ${typeof result.expected === "string" ? result.expected : JSON.stringify(result.expected)}, got ${typeof result.actual === "string" ? result.actual : JSON.stringify(result.actual)}`}
+                            </pre>
+                          )}
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  Pick a challenge to edit, or start a new one.
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
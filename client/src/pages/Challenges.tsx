@@ -8,28 +8,28 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import CodeEditor from "@/components/CodeEditor";
-import { ChallengeCategory, Challenge, UserChallengeProgress } from "@shared/schema";
+import Markdown from "@/components/Markdown";
+import { ChallengeCategory, UserChallengeProgress, type Language } from "@shared/schema";
+import {
+  describeCall,
+  describeExpectation,
+  isPageTest,
+  type ChallengeTestResult,
+  type PublicChallenge
+} from "@shared/challenge";
 import Header from "@/components/Header";
 import { Link } from "wouter";
-import { Check, ChevronRight, Play, Home, RefreshCw, RotateCcw, CheckCircle2, XCircle, ArrowLeftCircle } from "lucide-react";
-
-interface TestResult {
-  pass: boolean;
-  input: any;
-  expected: any;
-  actual: any;
-  error: { name: string; message: string } | null;
-}
+import { Check, ChevronRight, Play, Home, RefreshCw, RotateCcw, CheckCircle2, XCircle, ArrowLeftCircle, PenSquare } from "lucide-react";
 
 interface TestResults {
   success: boolean;
-  results: TestResult[];
+  results: ChallengeTestResult[];
   message: string;
 }
 
 export default function ChallengesPage() {
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
-  const [selectedChallenge, setSelectedChallenge] = useState<Challenge | null>(null);
+  const [selectedChallenge, setSelectedChallenge] = useState<PublicChallenge | null>(null);
   const [userCode, setUserCode] = useState("");
   const [testResults, setTestResults] = useState<TestResults | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
@@ -42,7 +42,7 @@ export default function ChallengesPage() {
   });
 
   // Fetch challenges for the selected category
-  const { data: challenges = [], isLoading: challengesLoading } = useQuery<Challenge[]>({
+  const { data: challenges = [], isLoading: challengesLoading } = useQuery<PublicChallenge[]>({
     queryKey: ['/api/challenges', selectedCategoryId],
     enabled: selectedCategoryId !== null,
     refetchOnWindowFocus: false
@@ -89,8 +89,10 @@ export default function ChallengesPage() {
     setTestResults(null);
     
     try {
+      // Random numbers, dates and timers behave the same on every attempt
       const response = await apiRequest("POST", `/api/challenges/${selectedChallenge.id}/validate`, {
-        code: userCode
+        code: userCode,
+        deterministic: true
       });
       
       const results = await response.json();
@@ -168,12 +170,20 @@ export default function ChallengesPage() {
               Test your JavaScript skills with these coding challenges
             </p>
           </div>
-          <Link href="/">
-            <Button variant="outline" className="gap-2">
-              <Home size={16} />
-              Back to Editor
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/challenges/studio">
+              <Button variant="outline" className="gap-2">
+                <PenSquare size={16} />
+                Challenge Studio
+              </Button>
+            </Link>
+            <Link href="/">
+              <Button variant="outline" className="gap-2">
+                <Home size={16} />
+                Back to Editor
+              </Button>
+            </Link>
+          </div>
         </div>
         
         {selectedChallenge ? (
@@ -194,28 +204,37 @@ export default function ChallengesPage() {
               <Card className="mb-6">
                 <CardHeader>
                   <CardTitle>{selectedChallenge.title}</CardTitle>
-                  <CardDescription>{selectedChallenge.description}</CardDescription>
+                  <Markdown text={selectedChallenge.description} className="text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
                   <div className="mb-4">
                     <h3 className="font-medium mb-2">Hints:</h3>
                     <ul className="list-disc pl-5 space-y-1">
-                      {
-                        (() => {
-                          try {
-                            // Parse hints if available and ensure it's a string before parsing
-                            const hintsText = selectedChallenge.hints || "[]";
-                            const hints = typeof hintsText === 'string' ? JSON.parse(hintsText) : [];
-                            return Array.isArray(hints) ? hints.map((hint: string, i: number) => (
-                              <li key={i} className="text-sm text-muted-foreground">{hint}</li>
-                            )) : null;
-                          } catch (error) {
-                            return <li className="text-sm text-muted-foreground">No hints available</li>;
-                          }
-                        })()
-                      }
+                      {selectedChallenge.hints && selectedChallenge.hints.length > 0
+                        ? selectedChallenge.hints.map((hint, i) => (
+                            <li key={i} className="text-sm text-muted-foreground">{hint}</li>
+                          ))
+                        : <li className="text-sm text-muted-foreground">No hints available</li>}
                     </ul>
                   </div>
+                  
+                  <div>
+                    <h3 className="font-medium mb-2">Examples:</h3>
+                    <ul className="space-y-1">
+                      {selectedChallenge.testCases.map((test, i) => (
+                        <li key={i} className="text-sm font-mono text-muted-foreground">
+                          {isPageTest(test)
+                            ? test.description ?? `Checks ${test.dom.map(check => check.selector).join(", ")}`
+                            : `${describeCall(test)} → ${describeExpectation(test)}`}
+                        </li>
+                      ))}
+                    </ul>
+                    {selectedChallenge.hiddenTestCount > 0 && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {selectedChallenge.hiddenTestCount} hidden test{selectedChallenge.hiddenTestCount === 1 ? "" : "s"} also grade your solution.
+                      </p>
+                    )}
+                  </div>
                 </CardContent>
                 <CardFooter className="flex justify-end gap-2">
                   <Button 
@@ -265,9 +284,17 @@ export default function ChallengesPage() {
                             ) : (
                               <XCircle className="text-red-500" size={16} />
                             )}
-                            Test {i + 1}
+                            {result.hidden ? "Hidden test" : `Test ${i + 1}`}
+                            {result.description && (
+                              <span className="font-normal text-muted-foreground">: {result.description}</span>
+                            )}
                           </div>
                           
+                          {result.message && (
+                            <p className="text-sm mb-2">{result.message}</p>
+                          )}
+                          
+                          {!result.hidden && (
                           <div className="grid grid-cols-2 gap-2 text-sm">
                             <div>
                               <div className="font-medium text-muted-foreground">Input:</div>
@@ -286,7 +313,7 @@ export default function ChallengesPage() {
                             {!result.pass && (
                               <div className="col-span-2">
                                 <div className="font-medium text-muted-foreground">Actual:</div>
-                                <div className="font-mono bg-background p-1 rounded border mt-1">
+                                <div className="font-mono bg-background p-1 rounded border mt-1 whitespace-pre-wrap">
                                   {result.error ? 
                                     `${result.error.name}: ${result.error.message}` : 
                                     formatValue(result.actual)}
@@ -294,6 +321,7 @@ export default function ChallengesPage() {
                               </div>
                             )}
                           </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -317,6 +345,7 @@ export default function ChallengesPage() {
                       onClear={() => {}}
                       isExecuting={isExecuting}
                       isSimple={true}
+                      language={selectedChallenge.language as Language}
                     />
                   </div>
                 </CardContent>
@@ -346,9 +375,9 @@ export default function ChallengesPage() {
                   
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                     {challenges
-                      .filter((challenge: Challenge) => challenge.categoryId === category.id)
-                      .sort((a: Challenge, b: Challenge) => a.order - b.order)
-                      .map((challenge: Challenge) => (
+                      .filter((challenge: PublicChallenge) => challenge.categoryId === category.id)
+                      .sort((a: PublicChallenge, b: PublicChallenge) => a.order - b.order)
+                      .map((challenge: PublicChallenge) => (
                         <Card 
                           key={challenge.id} 
                           className={`${
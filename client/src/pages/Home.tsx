@@ -1,40 +1,273 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import Header from "@/components/Header";
 import Sidebar from "@/components/Sidebar";
-import CodeEditor from "@/components/CodeEditor";
-import OutputPane from "@/components/OutputPane";
+import CodeEditor, { type EditorDiagnostic } from "@/components/CodeEditor";
+import OutputPane, { type ConsoleOutput } from "@/components/OutputPane";
 import DocPanel from "@/components/DocPanel";
 import PackageExplorer from "@/components/PackageExplorer";
+import WebEditor from "@/components/WebEditor";
+import WebPreview from "@/components/WebPreview";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
+import { useRepl } from "@/hooks/useRepl";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Snippet } from "@shared/schema";
+import { Snippet, type Language, type SnippetKind } from "@shared/schema";
+import type { NetworkPolicy } from "@shared/network";
+import { defaultEntry, snippetProject, type ProjectFile, type SnippetProject } from "@shared/project";
 import { lintCode, formatCode as prettierFormatCode } from "@/lib/lintingService";
+import {
+  startExecution,
+  toDeterministicOption,
+  type DeterministicSetting,
+  type ExecutionResult
+} from "@/lib/executeCode";
+import { streamExecution, type ExecutionHandle } from "@/lib/executionSocket";
+import { formatExecutionError, type ExecutionError, type StackFrame } from "@shared/execution";
+import type { WebSources } from "@/lib/webPreview";
+
+// Starting point of a new web page
+const newWebPage: WebSources = {
+  html: `<h1>Hello, web!</h1>\n<button id="greet">Greet</button>\n<p id="message"></p>`,
+  css: `body {\n  font-family: system-ui, sans-serif;\n  margin: 2rem;\n}`,
+  js: `document.getElementById('greet').addEventListener('click', () => {\n  document.getElementById('message').textContent = 'Hello from JavaScript!';\n  console.log('Button clicked');\n});`
+};
+
+// Summarize the timers and requests left running when execution was cut off
+const describePendingWork = (pending: ExecutionResult["pending"]) => {
+  if (!pending) return "";
+  const parts = [];
+  if (pending.timers > 0) parts.push(`${pending.timers} timer${pending.timers === 1 ? "" : "s"}`);
+  if (pending.requests > 0) parts.push(`${pending.requests} request${pending.requests === 1 ? "" : "s"}`);
+  return parts.length > 0 ? ` with ${parts.join(" and ")} still pending` : "";
+};
+
+// Closing console entry telling how a run ended
+const summaryOutput = (summary: Pick<ExecutionResult, "completed" | "cancelled" | "pending" | "executionTime" | "seed">): ConsoleOutput => {
+  if (summary.cancelled) {
+    return { type: "warn", content: `// Execution cancelled after ${summary.executionTime}ms` };
+  }
+  if (summary.completed) {
+    const seed = summary.seed === null ? "" : `, seed ${summary.seed}`;
+    return { type: "info", content: `// Execution completed (${summary.executionTime}ms${seed})` };
+  }
+  return {
+    type: "warn",
+    content: `// Execution cut off after ${summary.executionTime}ms${describePendingWork(summary.pending)}`
+  };
+};
 
 export default function Home() {
   const [code, setCode] = useLocalStorage("jsrunner-code", "// Welcome to JSRunner\n// Type your JavaScript code here and press Run\n\nfunction greet(name) {\n  return `Hello, ${name}!`;\n}\n\nconst message = greet('World');\nconsole.log(message);");
+  const [language, setLanguage] = useLocalStorage<Language>("jsrunner-language", "javascript");
+  // Files of a script besides its entry, which is kept in code
+  const [moduleFiles, setModuleFiles] = useLocalStorage<ProjectFile[]>("jsrunner-files", []);
+  // Path of the entry, null for the default name of the language
+  const [entryPath, setEntryPath] = useLocalStorage<string | null>("jsrunner-entry", null);
+  // File open in the editor, null for the entry
+  const [openFile, setOpenFile] = useState<string | null>(null);
+  const [deterministic, setDeterministic] = useLocalStorage<DeterministicSetting>("jsrunner-deterministic", false);
+  // Seed of the last deterministic run, which can be replayed
+  const [lastSeed, setLastSeed] = useState<number | null>(null);
+  // Web pages keep their JavaScript in code and render in the Preview tab
+  const [kind, setKind] = useLocalStorage<SnippetKind>("jsrunner-kind", "script");
+  const [html, setHtml] = useLocalStorage("jsrunner-html", "");
+  const [css, setCss] = useLocalStorage("jsrunner-css", "");
+  // Bumped to reload the preview right away
+  const [previewReloads, setPreviewReloads] = useState(0);
   const [currentSnippet, setCurrentSnippet] = useState<Snippet | null>(null);
-  const [consoleOutput, setConsoleOutput] = useState<any[]>([]);
+  // Network policy of the open snippet, saved along with its code
+  const [networkPolicy, setNetworkPolicy] = useState<NetworkPolicy | null>(null);
+  // Starting HTML of the open snippet's virtual DOM, null when it has none
+  const [domFixture, setDomFixture] = useState<string | null>(null);
+  // The page as the last run left it, shown in the Preview tab
+  const [lastDom, setLastDom] = useState<string | null>(null);
+  const [consoleOutput, setConsoleOutput] = useState<ConsoleOutput[]>([]);
   const [isExecuting, setIsExecuting] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<EditorDiagnostic[]>([]);
+  const [revealLocation, setRevealLocation] = useState<{ line: number; column?: number } | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'console' | 'docs' | 'packages'>('console');
+  const [activeTab, setActiveTab] = useState<'preview' | 'console' | 'docs' | 'packages'>(kind === 'web' ? 'preview' : 'console');
+  // The run the console shows, streamed or over a plain request
+  const executionRef = useRef<Pick<ExecutionHandle, "cancel"> | null>(null);
+  // Lives here so the session survives switching between the output tabs
+  const repl = useRepl(language);
   const { toast } = useToast();
 
-  const runCode = async () => {
+  const entry = entryPath ?? defaultEntry(language);
+  const openModule = moduleFiles.find(file => file.path === openFile);
+  const activeFile = openModule?.path ?? entry;
+  const activeCode = openModule ? openModule.content : code;
+  // Lone files under their default name are saved and run as plain code
+  const project: SnippetProject | null = moduleFiles.length > 0 || entry !== defaultEntry(language)
+    ? { entry, files: [{ path: entry, content: code }, ...moduleFiles] }
+    : null;
+
+  const setActiveCode = (value: string) => {
+    if (!openModule) {
+      setCode(value);
+      return;
+    }
+    setModuleFiles(moduleFiles.map(file => file.path === openModule.path ? { ...file, content: value } : file));
+  };
+
+  // Open a file of the snippet in the editor, if it has one by that path
+  const showFile = (path: string | undefined) => {
+    if (!path || path === entry) {
+      setOpenFile(null);
+    } else if (moduleFiles.some(file => file.path === path)) {
+      setOpenFile(path);
+    }
+  };
+
+  const createFile = (path: string) => {
+    setModuleFiles([...moduleFiles, { path, content: path.endsWith(".json") ? "{}\n" : "" }]);
+    setOpenFile(path);
+  };
+
+  const renameFile = (from: string, to: string) => {
+    if (from === entry) {
+      setEntryPath(to);
+      return;
+    }
+    setModuleFiles(moduleFiles.map(file => file.path === from ? { ...file, path: to } : file));
+    if (openFile === from) setOpenFile(to);
+  };
+
+  const deleteFile = (path: string) => {
+    setModuleFiles(moduleFiles.filter(file => file.path !== path));
+    if (openFile === path) setOpenFile(null);
+  };
+
+  // Make another file the one that runs; the old entry becomes a module
+  const setEntryFile = (path: string) => {
+    const next = moduleFiles.find(file => file.path === path);
+    if (!next) return;
+    setModuleFiles([...moduleFiles.filter(file => file !== next), { path: entry, content: code }]);
+    setCode(next.content);
+    setEntryPath(path);
+    setOpenFile(openFile === path ? null : openFile ?? entry);
+  };
+
+  // Cancel a streamed run that is still going when leaving the page
+  useEffect(() => {
+    return () => executionRef.current?.cancel();
+  }, []);
+
+  // Point the editor at the location of an execution error
+  const showErrorInEditor = (error: ExecutionError) => {
+    if (error.line) {
+      setDiagnostics([{
+        line: error.line,
+        column: error.column,
+        message: `${error.name}: ${error.message}`,
+        file: error.file
+      }]);
+      showFile(error.file);
+    }
+  };
+
+  // Jump to a stack frame clicked in the console. Frames of an error also
+  // get a squiggle so the whole call path stays visible in the editor.
+  const showFrameInEditor = (frame: StackFrame, output: ConsoleOutput) => {
+    showFile(frame.file);
+    setRevealLocation({ line: frame.line, column: frame.column });
+    if (output.type !== 'error') return;
+
+    const file = frame.file === entry ? undefined : frame.file;
+    setDiagnostics(prev => prev.some(diagnostic => diagnostic.line === frame.line && diagnostic.column === frame.column && diagnostic.file === file)
+      ? prev
+      : [...prev, { line: frame.line, column: frame.column, message: output.content, file }]
+    );
+  };
+
+  // Console entry for an error that ended the run
+  const errorOutput = (error: ExecutionError): ConsoleOutput => ({
+    type: "error",
+    content: formatExecutionError(error),
+    frames: error.frames
+  });
+
+  // Stream console output over the execution socket as the code runs. A new
+  // run cancels the one in flight, whose remaining frames are ignored.
+  const runCode = () => {
+    executionRef.current?.cancel();
     setIsExecuting(true);
+    setDiagnostics([]);
     setConsoleOutput([
       { type: "info", content: "// Code execution started" }
     ]);
+
+    const isCurrent = () => executionRef.current === execution;
+    const appendOutput = (entry: ConsoleOutput) => {
+      if (isCurrent()) setConsoleOutput(prev => [...prev, entry]);
+    };
+
+    const execution = streamExecution(code, {
+      snippetId: currentSnippet?.id,
+      language,
+      deterministic: toDeterministicOption(deterministic),
+      network: networkPolicy,
+      dom: domFixture,
+      project
+    }, {
+      onConsole: appendOutput,
+      onError: (error) => {
+        if (!isCurrent()) return;
+        appendOutput(errorOutput(error));
+        showErrorInEditor(error);
+      },
+      onFinish: (summary) => {
+        if (!isCurrent()) return;
+        appendOutput(summaryOutput(summary));
+        if (summary.seed !== null) setLastSeed(summary.seed);
+        setLastDom(summary.dom);
+        executionRef.current = null;
+        setIsExecuting(false);
+      },
+      onDisconnect: (started) => {
+        if (!isCurrent()) return;
+        executionRef.current = null;
+        if (!started) {
+          // The socket is unavailable, fall back to a plain request
+          runCodeOverHttp();
+          return;
+        }
+        appendOutput({ type: "error", content: "Connection to the execution server was lost." });
+        setIsExecuting(false);
+      }
+    });
+    executionRef.current = execution;
+  };
+
+  // Stop the run in flight. Output written so far stays in the console; the
+  // run's final report adds the cancelled entry.
+  const stopExecution = () => {
+    executionRef.current?.cancel();
+  };
+
+  const runCodeOverHttp = async () => {
+    setIsExecuting(true);
+    setDiagnostics([]);
+    setConsoleOutput([
+      { type: "info", content: "// Code execution started" }
+    ]);
+
+    const execution = startExecution(code, {
+      snippetId: currentSnippet?.id,
+      language,
+      deterministic: toDeterministicOption(deterministic),
+      network: networkPolicy,
+      dom: domFixture,
+      project
+    });
+    executionRef.current = execution;
     
     try {
-      const response = await apiRequest("POST", "/api/execute", {
-        code,
-        snippetId: currentSnippet?.id
-      });
+      const result = await execution.result;
+      // A newer run has taken over the console
+      if (executionRef.current !== execution) return;
       
-      const result = await response.json();
-      
-      const newOutput = [
+      const newOutput: ConsoleOutput[] = [
         { type: "info", content: "// Code execution started" }
       ];
       
@@ -54,21 +287,20 @@ export default function Home() {
       });
       
       // Add error if there was one
-      if (result.error) {
-        newOutput.push({
-          type: "error",
-          content: `${result.error.name}: ${result.error.message}`
-        });
+      if (result.error && !result.cancelled) {
+        newOutput.push(errorOutput(result.error));
+        showErrorInEditor(result.error);
       }
       
-      // Add execution time
-      newOutput.push({
-        type: "info",
-        content: `// Execution completed (${result.executionTime}ms)`
-      });
+      // Add execution time, or why the run ended early
+      newOutput.push(summaryOutput(result));
+      if (result.seed !== null) setLastSeed(result.seed);
+      setLastDom(result.dom);
       
       setConsoleOutput(newOutput);
     } catch (error) {
+      if (executionRef.current !== execution) return;
+
       setConsoleOutput([
         { type: "info", content: "// Code execution started" },
         { type: "error", content: "Failed to execute code. Server error." },
@@ -81,7 +313,10 @@ export default function Home() {
         variant: "destructive"
       });
     } finally {
-      setIsExecuting(false);
+      if (executionRef.current === execution) {
+        executionRef.current = null;
+        setIsExecuting(false);
+      }
     }
   };
 
@@ -104,13 +339,27 @@ export default function Home() {
         // Update existing snippet
         await apiRequest("PUT", `/api/snippets/${currentSnippet.id}`, {
           title,
-          code
+          code,
+          language: kind === "web" ? "javascript" : language,
+          networkPolicy,
+          domFixture,
+          kind,
+          html: kind === "web" ? html : null,
+          css: kind === "web" ? css : null,
+          project: kind === "web" ? null : project
         });
         
         setCurrentSnippet({
           ...currentSnippet,
           title,
-          code
+          code,
+          language: kind === "web" ? "javascript" : language,
+          networkPolicy,
+          domFixture,
+          kind,
+          html: kind === "web" ? html : null,
+          css: kind === "web" ? css : null,
+          project: kind === "web" ? null : project
         });
         
         toast({
@@ -122,7 +371,14 @@ export default function Home() {
         const response = await apiRequest("POST", "/api/snippets", {
           title,
           code,
-          description: ""
+          description: "",
+          language: kind === "web" ? "javascript" : language,
+          networkPolicy,
+          domFixture,
+          kind,
+          html: kind === "web" ? html : null,
+          css: kind === "web" ? css : null,
+          project: kind === "web" ? null : project
         });
         
         const newSnippet = await response.json();
@@ -144,13 +400,63 @@ export default function Home() {
 
   const createNewSnippet = () => {
     setCurrentSnippet(null);
+    setKind("script");
+    setNetworkPolicy(null);
+    setDomFixture(null);
+    setLastDom(null);
     setCode("// New snippet\n\n");
+    setModuleFiles([]);
+    setEntryPath(null);
+    setOpenFile(null);
     setConsoleOutput([]);
+    if (activeTab === "preview") setActiveTab("console");
   };
 
+  const createNewWebPage = () => {
+    setCurrentSnippet(null);
+    setKind("web");
+    setNetworkPolicy(null);
+    setDomFixture(null);
+    setLastDom(null);
+    setHtml(newWebPage.html);
+    setCss(newWebPage.css);
+    setCode(newWebPage.js);
+    setModuleFiles([]);
+    setEntryPath(null);
+    setOpenFile(null);
+    setConsoleOutput([]);
+    setActiveTab("preview");
+    setIsMobileMenuOpen(false);
+  };
+
+  // Apply an edit to any buffer of the web page
+  const setWebSources = (sources: WebSources) => {
+    setHtml(sources.html);
+    setCss(sources.css);
+    setCode(sources.js);
+  };
+
+  const reloadPreview = () => setPreviewReloads(count => count + 1);
+
   const loadSnippet = (snippet: Snippet) => {
     setCurrentSnippet(snippet);
     setCode(snippet.code);
+    setLanguage(snippet.language as Language);
+    const { entry, files } = snippetProject(snippet);
+    setEntryPath(snippet.project ? entry : null);
+    setModuleFiles(files.filter(file => file.path !== entry));
+    setOpenFile(null);
+    setNetworkPolicy(snippet.networkPolicy ?? null);
+    setDomFixture(snippet.domFixture ?? null);
+    setLastDom(null);
+    setKind(snippet.kind as SnippetKind);
+    setHtml(snippet.html ?? "");
+    setCss(snippet.css ?? "");
+    if (snippet.kind === "web") {
+      setActiveTab("preview");
+    } else if (activeTab === "preview") {
+      setActiveTab("console");
+    }
     
     // Close mobile menu when a snippet is selected
     setIsMobileMenuOpen(false);
@@ -160,8 +466,11 @@ export default function Home() {
     try {
       setIsExecuting(true); // Show loading
       // Use prettier-based formatter from our linting service
-      const formatted = await prettierFormatCode(code);
-      setCode(formatted);
+      const parser = activeFile.endsWith(".json")
+        ? "json"
+        : activeFile.endsWith(".ts") || (!openModule && language === "typescript") ? "typescript" : "babel";
+      const formatted = await prettierFormatCode(activeCode, parser);
+      setActiveCode(formatted);
       
       toast({
         title: "Code formatted",
@@ -181,7 +490,7 @@ export default function Home() {
 
   const clearCode = () => {
     if (confirm("Are you sure you want to clear the editor?")) {
-      setCode("");
+      setActiveCode("");
       setConsoleOutput([]);
     }
   };
@@ -190,7 +499,9 @@ export default function Home() {
     <div className="flex flex-col h-screen overflow-hidden">
       <Header 
         onSave={saveSnippet} 
-        onRun={runCode}
+        onRun={kind === "web" ? reloadPreview : runCode}
+        onStop={stopExecution}
+        isExecuting={isExecuting}
         toggleMobileMenu={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
         isMobileMenuOpen={isMobileMenuOpen}
       />
@@ -200,8 +511,19 @@ export default function Home() {
           <Sidebar 
             onSelectExample={loadSnippet}
             onNewScript={createNewSnippet}
+            onNewWebPage={createNewWebPage}
             currentSnippetId={currentSnippet?.id}
             isOpen={isMobileMenuOpen}
+            explorer={kind === "web" ? undefined : {
+              files: [entry, ...moduleFiles.map(file => file.path)],
+              entry,
+              activeFile,
+              onOpen: showFile,
+              onCreate: createFile,
+              onRename: renameFile,
+              onDelete: deleteFile,
+              onSetEntry: setEntryFile
+            }}
           />
         </div>
         
@@ -242,14 +564,38 @@ export default function Home() {
         
         <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
           <div className="flex-1 flex flex-col overflow-hidden">
+            {kind === "web" ? (
+              <WebEditor
+                sources={{ html, css, js: code }}
+                onChange={setWebSources}
+                onRun={reloadPreview}
+              />
+            ) : (
             <CodeEditor 
-              code={code} 
-              setCode={setCode} 
+              code={activeCode} 
+              setCode={setActiveCode} 
               onRun={runCode} 
+              onStop={stopExecution}
               onFormat={formatCode} 
               onClear={clearCode}
               isExecuting={isExecuting}
+              diagnostics={diagnostics}
+              revealLocation={revealLocation}
+              language={language}
+              onLanguageChange={setLanguage}
+              deterministic={deterministic}
+              onDeterministicChange={setDeterministic}
+              lastSeed={lastSeed}
+              networkPolicy={networkPolicy}
+              onNetworkPolicyChange={setNetworkPolicy}
+              domFixture={domFixture}
+              onDomFixtureChange={setDomFixture}
+              files={[entry, ...moduleFiles.map(file => file.path)]}
+              entryFile={entry}
+              activeFile={activeFile}
+              onSelectFile={showFile}
             />
+            )}
           </div>
           
           <div className="w-[8px] bg-border hover:bg-primary/20 transition-colors cursor-col-resize 
@@ -291,6 +637,14 @@ export default function Home() {
           
           <div className="flex-1 flex flex-col overflow-hidden">
             <div className="flex border-b border-border">
+              {kind === 'web' && (
+                <button
+                  className={`py-2 px-4 font-medium text-sm ${activeTab === 'preview' ? 'text-primary border-b-2 border-primary' : 'text-muted-foreground hover:text-foreground'}`}
+                  onClick={() => setActiveTab('preview')}
+                >
+                  Preview
+                </button>
+              )}
               <button
                 className={`py-2 px-4 font-medium text-sm ${activeTab === 'console' ? 'text-primary border-b-2 border-primary' : 'text-muted-foreground hover:text-foreground'}`}
                 onClick={() => setActiveTab('console')}
@@ -311,19 +665,37 @@ export default function Home() {
               </button>
             </div>
             
+            {kind === 'web' && (
+              <WebPreview
+                sources={{ html, css, js: code }}
+                visible={activeTab === 'preview'}
+                reloadKey={previewReloads}
+                onReload={() => setConsoleOutput([{ type: "info", content: "// Preview reloaded" }])}
+                onConsole={(entry) => setConsoleOutput(prev => [...prev, entry])}
+                onClear={() => setConsoleOutput([{ type: "info", content: "// Console was cleared" }])}
+              />
+            )}
+
             {activeTab === 'console' && (
-              <OutputPane outputs={consoleOutput} />
+              <OutputPane
+                outputs={consoleOutput}
+                isRunning={isExecuting}
+                onFrameClick={showFrameInEditor}
+                repl={repl}
+                editorCode={code}
+                page={lastDom}
+              />
             )}
             
             {activeTab === 'docs' && (
-              <DocPanel code={code} visible={true} />
+              <DocPanel code={activeCode} visible={true} />
             )}
             
             {activeTab === 'packages' && (
               <PackageExplorer 
                 visible={true} 
                 onSelectExample={(exampleCode) => {
-                  setCode(exampleCode);
+                  setActiveCode(exampleCode);
                   toast({
                     title: "Package example loaded",
                     description: "Example code has been inserted into the editor"
@@ -0,0 +1,31 @@
+// Fill the offline package cache used by the sandbox from installed npm packages.
+// Usage: tsx server/cache-packages.ts [package...]
+// Without arguments every package offered in the Package Explorer is cached.
+import { commonPackages } from "@shared/packages";
+import { cacheInstalledPackage, parsePackageSpecifier, PACKAGE_CACHE_DIR } from "./sandbox/packages";
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const specifiers = requested.length > 0 ? requested : commonPackages.map(pkg => pkg.name);
+  let failed = false;
+
+  for (const specifier of specifiers) {
+    const pkg = parsePackageSpecifier(specifier);
+    const cached = pkg ? await cacheInstalledPackage(pkg) : null;
+
+    if (cached) {
+      console.log(`cached ${cached.file}`);
+    } else {
+      console.error(`${specifier} is not installed in node_modules`);
+      failed = true;
+    }
+  }
+
+  console.log(`Package cache: ${PACKAGE_CACHE_DIR}`);
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,147 @@
+import { mockApiTarget } from "./mockApi";
+import { checkDomAssertions, runInSandbox } from "./sandbox";
+import type { Challenge, Language } from "@shared/schema";
+import type { DeterministicOptions } from "@shared/execution";
+import {
+  describeCall,
+  describeExpectation,
+  isPageTest,
+  parseChallengeTests,
+  type ChallengeTest,
+  type ChallengeTestResult,
+  type PublicChallenge
+} from "@shared/challenge";
+
+// Wall-clock budget of each test's run
+const TEST_TIMEOUT = 2000;
+// Upper bound of the timer delays a test's code may request
+const TEST_MAX_TIMER_DELAY = 1000;
+
+// What a challenge's tests run with, saved or still being written
+type ChallengeEnvironment = Pick<Challenge, "language" | "networkPolicy" | "domFixture">;
+
+export interface ChallengeRun {
+  results: ChallengeTestResult[];
+  // Seed every test ran with, for deterministic validations
+  seed: number | null;
+}
+
+/**
+ * The part of a challenge learners may see. The solution and the hidden
+ * tests stay on the server.
+ */
+export function toPublicChallenge(challenge: Challenge): PublicChallenge {
+  const { solutionCode, testCases, ...rest } = challenge;
+  const tests = parseChallengeTests(testCases) ?? [];
+  const visible = tests.filter(test => !test.hidden);
+  return { ...rest, testCases: visible, hiddenTestCount: tests.length - visible.length };
+}
+
+/**
+ * Run a solution against the tests of a challenge. Every test runs the code
+ * in a fresh sandbox, so state left by one test is never seen by the next.
+ * Function tests then call the export they name; page tests act on the
+ * virtual DOM and check it. Hidden tests report nothing but whether they
+ * passed, so their inputs and expectations cannot be read off the results.
+ * @param challenge The challenge, for its language, network policy and page
+ * @param tests The challenge's tests
+ * @param code The solution
+ * @param deterministic Runs every test with the same seed when given
+ * @param revealHidden Reports hidden tests like the others, for the challenge's authors
+ */
+export async function runChallengeTests(
+  challenge: ChallengeEnvironment,
+  tests: ChallengeTest[],
+  code: string,
+  deterministic?: DeterministicOptions,
+  revealHidden = false
+): Promise<ChallengeRun> {
+  const results: ChallengeTestResult[] = [];
+  let determinism = deterministic;
+  let hiddenCount = 0;
+
+  for (const test of tests) {
+    const pageTest = isPageTest(test) ? test : null;
+    const functionTest = isPageTest(test) ? null : test;
+
+    const execution = await runInSandbox(code, {
+      timeout: TEST_TIMEOUT,
+      maxTimerDelay: TEST_MAX_TIMER_DELAY,
+      language: challenge.language as Language,
+      deterministic: determinism,
+      network: challenge.networkPolicy,
+      // A mock API session of its own, so data written by one test is gone in the next
+      mockApi: mockApiTarget(),
+      dom: challenge.domFixture !== null
+        ? { html: challenge.domFixture, actions: pageTest?.actions }
+        : undefined,
+      call: functionTest ?? undefined
+    });
+    if (determinism && execution.seed !== null) {
+      determinism = { ...determinism, seed: execution.seed };
+    }
+
+    const result: ChallengeTestResult = {
+      pass: false,
+      description: test.description,
+      input: functionTest ? describeCall(functionTest) : pageTest!.actions,
+      expected: functionTest ? describeExpectation(functionTest) : pageTest!.dom,
+      actual: execution.call?.actual ?? null,
+      error: execution.error && { name: execution.error.name, message: execution.error.message }
+    };
+
+    if (pageTest && !execution.error) {
+      // The page is what is tested; there is no value to compare
+      const failures = checkDomAssertions(execution.dom ?? "", pageTest.dom);
+      result.actual = failures.length > 0 ? failures.join("\n") : "The page matches";
+      result.pass = failures.length === 0;
+    } else if (functionTest) {
+      result.pass = execution.call?.pass === true && !execution.error;
+    }
+
+    if (test.hidden && !revealHidden) {
+      hiddenCount++;
+      results.push({
+        pass: result.pass,
+        hidden: true,
+        message: result.pass ? undefined : `Hidden test ${hiddenCount} failed`,
+        input: null,
+        expected: null,
+        actual: null,
+        error: null
+      });
+      continue;
+    }
+
+    if (test.hidden) {
+      result.hidden = true;
+    }
+    if (!result.pass && test.message) {
+      result.message = test.message;
+    }
+    if (execution.dom !== null) {
+      result.dom = execution.dom;
+    }
+    results.push(result);
+  }
+
+  return { results, seed: determinism?.seed ?? null };
+}
+
+/**
+ * Why a challenge cannot be published, or null when it can: its solution has
+ * to pass every test, hidden ones included. Drafts are saved as they are.
+ */
+export async function checkPublishable(
+  challenge: ChallengeEnvironment & Pick<Challenge, "solutionCode" | "testCases">
+): Promise<string | null> {
+  const tests = parseChallengeTests(challenge.testCases);
+  if (!tests) return "The challenge has invalid test cases";
+
+  // Learners' solutions are validated with one seed for all tests, and so is this one
+  const { results } = await runChallengeTests(challenge, tests, challenge.solutionCode, {}, true);
+  const failed = results.filter(result => !result.pass).length;
+  return failed === 0
+    ? null
+    : `The solution fails ${failed} of ${results.length} test${results.length === 1 ? "" : "s"}; fix it or save the challenge as a draft`;
+}
@@ -0,0 +1,209 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { runInSandbox, type DebugController } from "./sandbox";
+import { DEFAULT_EXECUTION_TIMEOUT, validateLanguage } from "./execution";
+import { mockApiTarget } from "./mockApi";
+import type { DebugClientFrame, DebugServerFrame } from "@shared/debug";
+
+// A debugged program may sit at a breakpoint for a while; it is stopped
+// once this much time has passed since it started
+export const DEBUG_SESSION_TIMEOUT = 10 * 60 * 1000;
+// Each session holds a worker; the oldest one is stopped beyond this
+const MAX_DEBUG_SESSIONS = 20;
+
+// Sessions of all connections, oldest first, by what stops them
+const activeSessions = new Set<AbortController>();
+
+// What every client frame has; the fields of each type are checked where
+// the frame is handled
+const clientFrameSchema = z.object({
+  type: z.enum(['start', 'setBreakpoints', 'resume', 'stepOver', 'stepInto', 'stepOut', 'pause', 'stop', 'evaluate', 'properties'])
+}).passthrough();
+
+/**
+ * Check client supplied breakpoint lines
+ * @returns An error message, or null when the value is acceptable
+ */
+function validateBreakpoints(breakpoints: unknown): string | null {
+  if (!Array.isArray(breakpoints) || !breakpoints.every(line => Number.isInteger(line) && line > 0)) {
+    return "Breakpoints must be a list of line numbers";
+  }
+  return null;
+}
+
+/**
+ * Check a frame received over /ws/debug
+ * @returns An error message, or null when the frame is well-formed
+ */
+function validateClientFrame(frame: unknown): string | null {
+  const parsed = clientFrameSchema.safeParse(frame);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    const at = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    return `Invalid frame${at}: ${issue.message}`;
+  }
+  return null;
+}
+
+/**
+ * Attach the /ws/debug channel to the HTTP server. Each connection debugs at
+ * most one program at a time: the client sets breakpoints, steps through the
+ * paused program and evaluates expressions in its call frames. Starting a
+ * new session stops the one still running.
+ */
+export function registerDebugSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Only claim our own path so Vite's HMR socket keeps working
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (req.url?.split("?")[0] !== "/ws/debug") return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    let current: { controller: AbortController; debugger: DebugController | null } | null = null;
+
+    const send = (frame: DebugServerFrame) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(frame));
+      }
+    };
+
+    const startSession = async (frame: Extract<DebugClientFrame, { type: 'start' }>) => {
+      const { code, language, breakpoints } = frame;
+
+      if (typeof code !== "string") {
+        return send({ type: 'error', message: "Code must be a string" });
+      }
+
+      const optionError = validateLanguage(language) ?? validateBreakpoints(breakpoints);
+      if (optionError) {
+        return send({ type: 'error', message: optionError });
+      }
+
+      current?.controller.abort();
+      if (activeSessions.size >= MAX_DEBUG_SESSIONS) {
+        activeSessions.values().next().value!.abort();
+      }
+      const session = { controller: new AbortController(), debugger: null as DebugController | null };
+      current = session;
+      activeSessions.add(session.controller);
+
+      // Frames of a session that was replaced are dropped
+      const sendForSession = (frame: DebugServerFrame) => {
+        if (current === session) send(frame);
+      };
+
+      try {
+        const execution = await runInSandbox(code, {
+          timeout: DEBUG_SESSION_TIMEOUT,
+          maxTimerDelay: 5000,
+          language,
+          mockApi: mockApiTarget(),
+          signal: session.controller.signal,
+          onConsole: (entry) => sendForSession({ type: 'console', entry }),
+          debug: {
+            breakpoints,
+            maxRunningTime: DEFAULT_EXECUTION_TIMEOUT,
+            onReady: (controller) => {
+              session.debugger = controller;
+              sendForSession({ type: 'started' });
+            },
+            onPaused: (state) => sendForSession({ type: 'paused', state }),
+            onResumed: () => sendForSession({ type: 'resumed' })
+          }
+        });
+
+        sendForSession({
+          type: 'finished',
+          error: execution.cancelled ? null : execution.error,
+          completed: execution.completed,
+          cancelled: execution.cancelled,
+          executionTime: execution.executionTime
+        });
+      } catch (error) {
+        console.error("Error debugging code:", error);
+        sendForSession({ type: 'error', message: "Failed to debug code" });
+      } finally {
+        activeSessions.delete(session.controller);
+        if (current === session) {
+          current = null;
+        }
+      }
+    };
+
+    const evaluate = async (frame: Extract<DebugClientFrame, { type: 'evaluate' }>) => {
+      const { requestId, callFrameId, expression } = frame;
+      try {
+        if (!current?.debugger) throw new Error("Nothing is being debugged");
+        const { value, error } = await current.debugger.evaluate(callFrameId, String(expression));
+        send({ type: 'evaluation', requestId, value, error });
+      } catch (error) {
+        send({ type: 'evaluation', requestId, value: null, error: (error as Error).message });
+      }
+    };
+
+    const getProperties = async (frame: Extract<DebugClientFrame, { type: 'properties' }>) => {
+      const { requestId, objectId } = frame;
+      try {
+        const properties = current?.debugger ? await current.debugger.getProperties(objectId) : [];
+        send({ type: 'properties', requestId, properties });
+      } catch {
+        // Objects are released as soon as the program resumes
+        send({ type: 'properties', requestId, properties: [] });
+      }
+    };
+
+    ws.on("message", (data) => {
+      let frame: DebugClientFrame;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch {
+        return send({ type: 'error', message: "Invalid JSON frame" });
+      }
+      const frameError = validateClientFrame(frame);
+      if (frameError) {
+        return send({ type: 'error', message: frameError });
+      }
+
+      const controller = current?.debugger;
+      switch (frame.type) {
+        case 'start':
+          startSession(frame);
+          break;
+        case 'setBreakpoints': {
+          const breakpointError = validateBreakpoints(frame.breakpoints);
+          if (breakpointError) {
+            return send({ type: 'error', message: breakpointError });
+          }
+          controller?.setBreakpoints(frame.breakpoints).catch(() => {});
+          break;
+        }
+        case 'resume':
+        case 'stepOver':
+        case 'stepInto':
+        case 'stepOut':
+        case 'pause':
+          controller?.[frame.type]();
+          break;
+        case 'stop':
+          current?.controller.abort();
+          break;
+        case 'evaluate':
+          evaluate(frame);
+          break;
+        case 'properties':
+          getProperties(frame);
+          break;
+      }
+    });
+
+    ws.on("close", () => {
+      current?.controller.abort();
+    });
+  });
+}
@@ -0,0 +1,458 @@
+import type { Server } from "http";
+import { randomUUID } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
+import { storage } from "./storage";
+import { mockApiTarget } from "./mockApi";
+import { runInSandbox, type SandboxResult } from "./sandbox";
+import { languages, type Language } from "@shared/schema";
+import { networkPolicySchema, type NetworkPolicy } from "@shared/network";
+import { MAX_DOM_FIXTURE_LENGTH } from "@shared/dom";
+import { projectSchema, type SnippetProject } from "@shared/project";
+import {
+  formatExecutionError,
+  type ConsoleMessage,
+  type DeterministicOptions,
+  type EventLoopStep,
+  type EventLoopTraceResult,
+  type ExecutionClientFrame,
+  type ExecutionServerFrame,
+  type ExecutionStep,
+  type VisualExecutionResult
+} from "@shared/execution";
+
+// Upper bound for the execution deadline a client may request
+export const MAX_EXECUTION_TIMEOUT = 15000;
+export const DEFAULT_EXECUTION_TIMEOUT = 5000;
+// Steps recorded for visual execution before the rest of a run goes untraced
+export const MAX_VISUAL_STEPS = 1000;
+// Event loop changes recorded before the rest of a run goes untraced
+export const MAX_EVENT_LOOP_STEPS = 500;
+
+export interface ExecuteOptions {
+  snippetId?: number;
+  timeout?: number;
+  language?: Language;
+  deterministic?: DeterministicOptions;
+  // What fetch may reach; the snippet's saved policy applies when left out
+  network?: NetworkPolicy | null;
+  // Starting HTML of a virtual DOM, null for none; the snippet's applies when left out
+  dom?: string | null;
+  // Files the code can import, null for a single file; the snippet's apply when left out
+  project?: SnippetProject | null;
+  signal?: AbortSignal;
+  onConsole?: (entry: ConsoleMessage) => void;
+}
+
+/**
+ * Check a client supplied execution timeout
+ * @returns An error message, or null when the value is acceptable
+ */
+export function validateTimeout(timeout: unknown): string | null {
+  if (timeout === undefined) return null;
+  if (typeof timeout !== "number" || timeout <= 0 || timeout > MAX_EXECUTION_TIMEOUT) {
+    return `Timeout must be between 1 and ${MAX_EXECUTION_TIMEOUT}ms`;
+  }
+  return null;
+}
+
+/**
+ * Check a client supplied source language
+ * @returns An error message, or null when the value is acceptable
+ */
+export function validateLanguage(language: unknown): string | null {
+  if (language === undefined) return null;
+  if (!languages.includes(language as Language)) {
+    return `Language must be one of: ${languages.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Check client supplied options for a deterministic run, which may also be
+ * true to use a new seed and the default start time
+ * @returns An error message, or null when the value is acceptable
+ */
+export function validateDeterministic(deterministic: unknown): string | null {
+  if (deterministic === undefined || typeof deterministic === "boolean") return null;
+  if (typeof deterministic !== "object" || deterministic === null) {
+    return "Deterministic must be a boolean or an object with seed and startTime";
+  }
+
+  const { seed, startTime } = deterministic as Record<string, unknown>;
+  if (seed !== undefined && (!Number.isInteger(seed) || (seed as number) < 0 || (seed as number) >= 2 ** 32)) {
+    return "Seed must be an integer between 0 and 4294967295";
+  }
+  if (startTime !== undefined && (typeof startTime !== "number" || !Number.isFinite(startTime))) {
+    return "Start time must be a number of milliseconds since the epoch";
+  }
+  return null;
+}
+
+/**
+ * Check a client supplied network policy
+ * @returns An error message, or null when the value is acceptable
+ */
+export function validateNetworkPolicy(network: unknown): string | null {
+  if (network === undefined || network === null) return null;
+  const parsed = networkPolicySchema.safeParse(network);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    const at = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    return `Invalid network policy${at}: ${issue.message}`;
+  }
+  return null;
+}
+
+/**
+ * Check the starting HTML of a virtual DOM sent by a client
+ * @returns An error message, or null when the value is acceptable
+ */
+export function validateDomFixture(dom: unknown): string | null {
+  if (dom === undefined || dom === null) return null;
+  if (typeof dom !== "string") {
+    return "DOM fixture must be a string of HTML";
+  }
+  if (dom.length > MAX_DOM_FIXTURE_LENGTH) {
+    return `DOM fixture must be at most ${MAX_DOM_FIXTURE_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Check the files of a multi-file snippet sent by a client
+ * @returns An error message, or null when the value is acceptable
+ */
+export function validateProject(project: unknown): string | null {
+  if (project === undefined || project === null) return null;
+  const parsed = projectSchema.safeParse(project);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    const at = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    return `Invalid project${at}: ${issue.message}`;
+  }
+  return null;
+}
+
+/**
+ * Turn a validated deterministic option into what the sandbox takes
+ */
+export function toDeterministicOptions(deterministic: DeterministicOptions | boolean | undefined): DeterministicOptions | undefined {
+  if (!deterministic) return undefined;
+  return deterministic === true ? {} : { seed: deterministic.seed, startTime: deterministic.startTime };
+}
+
+// Runs started over HTTP that can still be cancelled, by run id
+const cancellableRuns = new Map<string, AbortController>();
+
+/**
+ * Issue an id for a run, under which cancelRun can stop it until it is done
+ * @returns The run id, the signal to pass to the sandbox and a callback to
+ * call once the run has finished
+ */
+export function registerRun(): { runId: string; signal: AbortSignal; done: () => void } {
+  const runId = randomUUID();
+  const controller = new AbortController();
+  cancellableRuns.set(runId, controller);
+  return { runId, signal: controller.signal, done: () => cancellableRuns.delete(runId) };
+}
+
+/**
+ * Cancel a run started with an id from registerRun
+ * @returns false when no such run is still going
+ */
+export function cancelRun(runId: string): boolean {
+  const controller = cancellableRuns.get(runId);
+  if (!controller) return false;
+
+  cancellableRuns.delete(runId);
+  controller.abort();
+  return true;
+}
+
+/**
+ * Run user code in the sandbox and record its console output against the
+ * snippet when one is given
+ * @param code The JavaScript or TypeScript code to execute
+ * @param options Snippet, language, limits and hooks for this run
+ * @returns The sandbox result
+ */
+export async function executeUserCode(code: string, options: ExecuteOptions = {}): Promise<SandboxResult> {
+  const { snippetId } = options;
+
+  // Clear previous console entries if snippetId is provided
+  if (snippetId) {
+    await storage.clearConsoleEntries(snippetId);
+  }
+
+  // The editor sends the settings it shows, which may not be saved yet
+  const snippet = snippetId && (options.network === undefined || options.dom === undefined || options.project === undefined)
+    ? await storage.getSnippet(snippetId)
+    : undefined;
+  const network = options.network !== undefined ? options.network : snippet?.networkPolicy;
+  const domFixture = options.dom !== undefined ? options.dom : snippet?.domFixture;
+  const project = options.project !== undefined ? options.project : snippet?.project;
+
+  // Run the code in an isolated worker with memory and time limits,
+  // recording console output for the snippet as it arrives
+  const execution = await runInSandbox(code, {
+    timeout: options.timeout ?? DEFAULT_EXECUTION_TIMEOUT,
+    maxTimerDelay: 5000,
+    language: options.language,
+    project,
+    deterministic: options.deterministic,
+    network,
+    mockApi: mockApiTarget(),
+    dom: typeof domFixture === "string" ? { html: domFixture } : undefined,
+    signal: options.signal,
+    onConsole: (entry) => {
+      options.onConsole?.(entry);
+
+      if (snippetId) {
+        storage.createConsoleEntry({
+          snippetId,
+          type: entry.type,
+          content: entry.content,
+          args: entry.args,
+          method: entry.method,
+          depth: entry.depth,
+          stack: entry.stack,
+          table: entry.table
+        });
+      }
+    }
+  });
+
+  // Record execution info
+  if (snippetId) {
+    if (execution.cancelled) {
+      storage.createConsoleEntry({
+        snippetId,
+        type: 'warn',
+        content: `// Execution cancelled after ${execution.executionTime}ms`
+      });
+    } else if (execution.error) {
+      storage.createConsoleEntry({
+        snippetId,
+        type: 'error',
+        content: formatExecutionError(execution.error)
+      });
+    } else if (!execution.completed) {
+      storage.createConsoleEntry({
+        snippetId,
+        type: 'warn',
+        content: `// Execution stopped after ${execution.executionTime}ms with work still pending`
+      });
+    } else {
+      storage.createConsoleEntry({
+        snippetId,
+        type: 'info',
+        content: execution.seed === null
+          ? `// Code execution completed in ${execution.executionTime}ms`
+          : `// Code execution completed in ${execution.executionTime}ms (seed ${execution.seed})`
+      });
+    }
+  }
+
+  return execution;
+}
+
+/**
+ * Run user code with every statement instrumented, recording the steps it
+ * actually takes for visual execution. Nothing is stored for the snippet.
+ * @param code The JavaScript or TypeScript code to trace
+ * @param language The language the code is written in
+ * @returns The steps taken, with the console output and any error
+ */
+export async function traceUserCode(code: string, language?: Language): Promise<VisualExecutionResult> {
+  const steps: ExecutionStep[] = [];
+  const consoleEntries: ConsoleMessage[] = [];
+  let truncated = false;
+
+  const execution = await runInSandbox(code, {
+    timeout: DEFAULT_EXECUTION_TIMEOUT,
+    maxTimerDelay: 5000,
+    language,
+    mockApi: mockApiTarget(),
+    onConsole: (entry) => consoleEntries.push(entry),
+    trace: {
+      maxSteps: MAX_VISUAL_STEPS,
+      onStep: (step) => steps.push(step),
+      onLimit: () => {
+        truncated = true;
+      }
+    }
+  });
+
+  return { steps, console: consoleEntries, error: execution.error, truncated };
+}
+
+/**
+ * Run user code while following its event loop: the call stack, the Web APIs
+ * holding timers and requests, and the macrotask and microtask queues.
+ * Nothing is stored for the snippet.
+ * @param code The JavaScript or TypeScript code to trace
+ * @param language The language the code is written in
+ * @returns The state of the event loop after each change, with the console
+ * output and any error
+ */
+export async function traceEventLoop(code: string, language?: Language): Promise<EventLoopTraceResult> {
+  const steps: EventLoopStep[] = [];
+  const consoleEntries: ConsoleMessage[] = [];
+  let truncated = false;
+
+  const execution = await runInSandbox(code, {
+    timeout: DEFAULT_EXECUTION_TIMEOUT,
+    maxTimerDelay: 5000,
+    language,
+    mockApi: mockApiTarget(),
+    onConsole: (entry) => consoleEntries.push(entry),
+    eventLoop: {
+      maxSteps: MAX_EVENT_LOOP_STEPS,
+      onStep: (step) => steps.push(step),
+      onLimit: () => {
+        truncated = true;
+      }
+    }
+  });
+
+  return { steps, console: consoleEntries, error: execution.error, truncated };
+}
+
+/**
+ * Attach the /ws/execute channel to the HTTP server. Each connection runs at
+ * most one program at a time and pushes console output as it happens;
+ * starting a new run cancels the one still in flight.
+ */
+// What every client frame has; the options of a run are checked by the
+// validators above, which give messages a client can act on
+const clientFrameSchema = z.object({
+  type: z.enum(['run', 'cancel']),
+  runId: z.string()
+}).passthrough();
+
+/**
+ * Check a frame received over /ws/execute
+ * @returns An error message, or null when the frame is well-formed
+ */
+function validateClientFrame(frame: unknown): string | null {
+  const parsed = clientFrameSchema.safeParse(frame);
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0];
+    const at = issue.path.length > 0 ? ` at ${issue.path.join(".")}` : "";
+    return `Invalid frame${at}: ${issue.message}`;
+  }
+  return null;
+}
+
+export function registerExecutionSocket(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Only claim our own path so Vite's HMR socket keeps working
+  httpServer.on("upgrade", (req, socket, head) => {
+    if (req.url?.split("?")[0] !== "/ws/execute") return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    let current: { runId: string; controller: AbortController } | null = null;
+
+    const send = (frame: ExecutionServerFrame) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(frame));
+      }
+    };
+
+    const startRun = async (frame: Extract<ExecutionClientFrame, { type: 'run' }>) => {
+      const { runId, code, snippetId, timeout, language, deterministic, network, dom, project } = frame;
+
+      if (typeof code !== "string") {
+        return send({ type: 'error', runId, error: { name: 'ProtocolError', message: "Code must be a string" } });
+      }
+
+      const optionError = validateTimeout(timeout)
+        ?? validateLanguage(language)
+        ?? validateDeterministic(deterministic)
+        ?? validateNetworkPolicy(network)
+        ?? validateDomFixture(dom)
+        ?? validateProject(project);
+      if (optionError) {
+        return send({ type: 'error', runId, error: { name: 'ProtocolError', message: optionError } });
+      }
+
+      current?.controller.abort();
+      const controller = new AbortController();
+      current = { runId, controller };
+
+      send({ type: 'start', runId });
+
+      try {
+        const execution = await executeUserCode(code, {
+          snippetId,
+          timeout,
+          language,
+          deterministic: toDeterministicOptions(deterministic),
+          network,
+          dom,
+          project,
+          signal: controller.signal,
+          onConsole: (entry) => send({ type: 'console', runId, entry })
+        });
+
+        if (execution.error && !execution.cancelled) {
+          send({ type: 'error', runId, error: execution.error });
+        }
+
+        send({
+          type: 'finish',
+          runId,
+          result: execution.result,
+          completed: execution.completed,
+          cancelled: execution.cancelled,
+          pending: execution.pending,
+          executionTime: execution.executionTime,
+          seed: execution.seed,
+          dom: execution.dom
+        });
+      } catch (error) {
+        console.error("Error executing code over WebSocket:", error);
+        send({ type: 'error', runId, error: { name: 'Error', message: "Failed to execute code" } });
+      } finally {
+        if (current?.runId === runId) {
+          current = null;
+        }
+      }
+    };
+
+    ws.on("message", (data) => {
+      let frame: ExecutionClientFrame;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch {
+        return send({ type: 'error', runId: null, error: { name: 'ProtocolError', message: "Invalid JSON frame" } });
+      }
+      const frameError = validateClientFrame(frame);
+      if (frameError) {
+        return send({ type: 'error', runId: null, error: { name: 'ProtocolError', message: frameError } });
+      }
+
+      switch (frame.type) {
+        case 'run':
+          startRun(frame);
+          break;
+        case 'cancel':
+          if (current?.runId === frame.runId) {
+            current.controller.abort();
+          }
+          break;
+      }
+    });
+
+    ws.on("close", () => {
+      current?.controller.abort();
+    });
+  });
+}
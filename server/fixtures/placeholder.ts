@@ -0,0 +1,98 @@
+// Records shaped like those of jsonplaceholder.typicode.com, so examples
+// that fetch from it can run without a network connection
+
+export const placeholderUsers = [
+  {
+    id: 1,
+    name: "Leanne Graham",
+    username: "Bret",
+    email: "Sincere@april.biz",
+    address: { street: "Kulas Light", suite: "Apt. 556", city: "Gwenborough", zipcode: "92998-3874" },
+    phone: "1-770-736-8031 x56442",
+    website: "hildegard.org",
+    company: { name: "Romaguera-Crona", catchPhrase: "Multi-layered client-server neural-net" }
+  },
+  {
+    id: 2,
+    name: "Ervin Howell",
+    username: "Antonette",
+    email: "Shanna@melissa.tv",
+    address: { street: "Victor Plains", suite: "Suite 879", city: "Wisokyburgh", zipcode: "90566-7771" },
+    phone: "010-692-6593 x09125",
+    website: "anastasia.net",
+    company: { name: "Deckow-Crist", catchPhrase: "Proactive didactic contingency" }
+  },
+  {
+    id: 3,
+    name: "Clementine Bauch",
+    username: "Samantha",
+    email: "Nathan@yesenia.net",
+    address: { street: "Douglas Extension", suite: "Suite 847", city: "McKenziehaven", zipcode: "59590-4157" },
+    phone: "1-463-123-4447",
+    website: "ramiro.info",
+    company: { name: "Romaguera-Jacobson", catchPhrase: "Face to face bifurcated interface" }
+  },
+  {
+    id: 4,
+    name: "Patricia Lebsack",
+    username: "Karianne",
+    email: "Julianne.OConner@kory.org",
+    address: { street: "Hoeger Mall", suite: "Apt. 692", city: "South Elvis", zipcode: "53919-4257" },
+    phone: "493-170-9623 x156",
+    website: "kale.biz",
+    company: { name: "Robel-Corkery", catchPhrase: "Multi-tiered zero tolerance productivity" }
+  },
+  {
+    id: 5,
+    name: "Chelsey Dietrich",
+    username: "Kamren",
+    email: "Lucio_Hettinger@annie.ca",
+    address: { street: "Skiles Walks", suite: "Suite 351", city: "Roscoeview", zipcode: "33263" },
+    phone: "(254)954-1289",
+    website: "demarco.info",
+    company: { name: "Keebler LLC", catchPhrase: "User-centric fault-tolerant solution" }
+  }
+];
+
+export const placeholderTodos = [
+  { userId: 1, id: 1, title: "delectus aut autem", completed: false },
+  { userId: 1, id: 2, title: "quis ut nam facilis et officia qui", completed: false },
+  { userId: 1, id: 3, title: "fugiat veniam minus", completed: false },
+  { userId: 1, id: 4, title: "et porro tempora", completed: true },
+  { userId: 2, id: 5, title: "suscipit repellat esse quibusdam voluptatem incidunt", completed: false },
+  { userId: 2, id: 6, title: "distinctio vitae autem nihil ut molestias quo", completed: true },
+  { userId: 3, id: 7, title: "illo expedita consequatur quia in", completed: false },
+  { userId: 3, id: 8, title: "quo adipisci enim quam ut ab", completed: true },
+  { userId: 4, id: 9, title: "molestiae perspiciatis ipsa", completed: false },
+  { userId: 5, id: 10, title: "illo est ratione doloremque quia maiores aut", completed: true }
+];
+
+export const placeholderPosts = [
+  { userId: 1, id: 1, title: "sunt aut facere repellat provident", body: "quia et suscipit\nsuscipit recusandae consequuntur expedita et cum\nreprehenderit molestiae ut ut quas totam" },
+  { userId: 1, id: 2, title: "qui est esse", body: "est rerum tempore vitae\nsequi sint nihil reprehenderit dolor beatae ea dolores neque" },
+  { userId: 2, id: 3, title: "ea molestias quasi exercitationem", body: "et iusto sed quo iure\nvoluptatem occaecati omnis eligendi aut ad\nvoluptatem doloribus vel accusantium quis pariatur" },
+  { userId: 2, id: 4, title: "eum et est occaecati", body: "ullam et saepe reiciendis voluptatem adipisci\nsit amet autem assumenda provident rerum culpa" },
+  { userId: 3, id: 5, title: "nesciunt quas odio", body: "repudiandae veniam quaerat sunt sed\nalias aut fugiat sit autem sed est\nvoluptatem omnis possimus esse voluptatibus quis" },
+  { userId: 3, id: 6, title: "dolorem eum magni eos aperiam quia", body: "ut aspernatur corporis harum nihil quis provident sequi\nmollitia nobis aliquid molestiae" },
+  { userId: 4, id: 7, title: "magnam facilis autem", body: "dolore placeat quibusdam ea quo vitae\nmagni quis enim qui quis quo nemo aut saepe" },
+  { userId: 4, id: 8, title: "dolorem dolore est ipsam", body: "dignissimos aperiam dolorem qui eum\nfacilis quibusdam animi sint suscipit qui sint possimus cum" },
+  { userId: 5, id: 9, title: "nesciunt iure omnis dolorem tempora et accusantium", body: "consectetur animi nesciunt iure dolore\nenim quia ad\nveniam autem ut quam aut nobis" },
+  { userId: 5, id: 10, title: "optio molestias id quia eum", body: "quo et expedita modi cum officia vel magni\ndoloribus qui repudiandae\nvero nisi sit" }
+];
+
+export const placeholderComments = [
+  { postId: 1, id: 1, name: "id labore ex et quam laborum", email: "Eliseo@gardner.biz", body: "laudantium enim quasi est quidem magnam voluptate ipsam eos" },
+  { postId: 1, id: 2, name: "quo vero reiciendis velit similique earum", email: "Jayne_Kuhic@sydney.com", body: "est natus enim nihil est dolore omnis voluptatem numquam" },
+  { postId: 2, id: 3, name: "odio adipisci rerum aut animi", email: "Nikita@garfield.biz", body: "quia molestiae reprehenderit quasi aspernatur aut expedita" },
+  { postId: 2, id: 4, name: "alias odio sit", email: "Lew@alysha.tv", body: "non et atque occaecati deserunt quas accusantium unde odit" },
+  { postId: 3, id: 5, name: "vero eaque aliquid doloribus et culpa", email: "Hayden@althea.biz", body: "harum non quasi et ratione tempore iure ex voluptates in ratione" },
+  { postId: 3, id: 6, name: "et fugit eligendi deleniti quidem qui sint nihil autem", email: "Presley.Mueller@myrl.com", body: "doloribus at sed quis culpa deserunt consectetur qui praesentium" },
+  { postId: 4, id: 7, name: "repellat consequatur praesentium vel minus molestias voluptatum", email: "Dallas@ole.me", body: "maiores sed dolores similique labore et inventore et" },
+  { postId: 5, id: 8, name: "et omnis dolorem", email: "Mallory_Kunze@marie.org", body: "ut voluptatem corrupti velit ad voluptatem maiores" },
+  { postId: 6, id: 9, name: "provident id voluptas", email: "Meghan_Littel@rene.us", body: "sapiente assumenda molestiae atque adipisci laborum distinctio" },
+  { postId: 7, id: 10, name: "eaque et deleniti atque tenetur ut quo ut", email: "Carmen_Keeling@caroline.name", body: "voluptate iusto quis nobis reprehenderit ipsum amet nulla" },
+  { postId: 8, id: 11, name: "fugit labore quia mollitia quas deserunt nostrum sunt", email: "Veronica_Goodwin@timmothy.net", body: "ut dolorum nostrum id quia aut est fuga est inventore vel eligendi" },
+  { postId: 9, id: 12, name: "modi ut eos dolores illum nam dolor", email: "Oswald.Vandervort@leanne.org", body: "expedita maiores dignissimos facilis ipsum est rem est fugit velit sequi" },
+  { postId: 10, id: 13, name: "aut inventore non pariatur sit vitae voluptatem sapiente", email: "Kariane@jadyn.tv", body: "fuga eos qui dolor rerum inventore corporis exercitationem corporis cupiditate" },
+  { postId: 10, id: 14, name: "et officiis id praesentium hic aut ipsa dolorem repudiandae", email: "Nathan@solon.io", body: "vel quae voluptas qui exercitationem voluptatibus unde sed" }
+];
@@ -0,0 +1,318 @@
+import { randomUUID } from "crypto";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
+import type { Server } from "http";
+import { MOCK_SESSION_HEADER, type MockApiTarget } from "./sandbox";
+import {
+  placeholderComments,
+  placeholderPosts,
+  placeholderTodos,
+  placeholderUsers
+} from "./fixtures/placeholder";
+
+// Path the mock API is served under
+export const MOCK_API_PREFIX = "/api/mock";
+
+// Data of a session nobody has used for this long is dropped, so the next
+// request starts from the fixtures again
+export const MOCK_SESSION_IDLE_TIMEOUT = 10 * 60 * 1000;
+// The least recently used session is dropped beyond this
+const MAX_MOCK_SESSIONS = 100;
+// Session of requests that do not name one, e.g. from a browser tab
+const SHARED_SESSION = "shared";
+
+// Longest delay a request can ask for with _delay
+const MAX_DELAY = 10000;
+
+const resources = ["todos", "users", "posts", "comments"] as const;
+type ResourceName = typeof resources[number];
+
+type MockRecord = { id: number; [field: string]: unknown };
+type MockData = Record<ResourceName, MockRecord[]>;
+
+// Field linking child records to a record of these resources, which
+// nested routes such as /users/1/todos filter by
+const parentKeys: Partial<Record<ResourceName, string>> = {
+  users: "userId",
+  posts: "postId"
+};
+
+interface MockSession {
+  data: MockData;
+  expiry: NodeJS.Timeout;
+}
+
+// Kept in order of last use, least recent first
+const sessions = new Map<string, MockSession>();
+
+// Origin of the HTTP server once it is listening
+let origin: string | null = null;
+
+function freshData(): MockData {
+  return structuredClone({
+    todos: placeholderTodos,
+    users: placeholderUsers,
+    posts: placeholderPosts,
+    comments: placeholderComments
+  });
+}
+
+function scheduleExpiry(id: string): NodeJS.Timeout {
+  const expiry = setTimeout(() => resetMockSession(id), MOCK_SESSION_IDLE_TIMEOUT);
+  // An idle session must not keep the process alive
+  expiry.unref();
+  return expiry;
+}
+
+// Data of a session, created from the fixtures on first use
+function sessionData(id: string): MockData {
+  const existing = sessions.get(id);
+  if (existing) {
+    clearTimeout(existing.expiry);
+    sessions.delete(id);
+  } else if (sessions.size >= MAX_MOCK_SESSIONS) {
+    resetMockSession(sessions.keys().next().value!);
+  }
+
+  const data = existing?.data ?? freshData();
+  sessions.set(id, { data, expiry: scheduleExpiry(id) });
+  return data;
+}
+
+/**
+ * Drop the data of a session; its next request starts from the fixtures
+ * @returns false when the session had no data
+ */
+export function resetMockSession(id: string): boolean {
+  const session = sessions.get(id);
+  if (!session) return false;
+
+  clearTimeout(session.expiry);
+  sessions.delete(id);
+  return true;
+}
+
+/**
+ * Where sandboxed code reaches the mock API for a session
+ * @param session Requests sharing the session see each other's changes; a
+ * new one, starting from the fixtures, when left out
+ * @returns The target, or undefined until the server is listening
+ */
+export function mockApiTarget(session: string = randomUUID()): MockApiTarget | undefined {
+  return origin ? { baseUrl: `${origin}${MOCK_API_PREFIX}`, session } : undefined;
+}
+
+function isResource(name: string): name is ResourceName {
+  return (resources as readonly string[]).includes(name);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseId(value: string): number | null {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+// A number from the query string or a header, or undefined when neither is set
+function readOption(req: Request, name: string): number | undefined {
+  const value = req.query[`_${name}`] ?? req.get(`x-mock-${name}`);
+  if (value === undefined) return undefined;
+  return typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+}
+
+// Query parameters other than the reserved _ ones filter by field value
+function matchesQuery(record: MockRecord, query: Request["query"]): boolean {
+  return Object.entries(query).every(([field, expected]) => {
+    if (field.startsWith("_")) return true;
+    const values = Array.isArray(expected) ? expected : [expected];
+    return values.some(value => String(record[field]) === String(value));
+  });
+}
+
+// Slice a list by _page and _limit, reporting the total and links the way
+// json-server does
+function paginate(req: Request, res: Response, records: MockRecord[]): MockRecord[] | null {
+  const page = readOption(req, "page");
+  const limit = readOption(req, "limit");
+  if (page === undefined && limit === undefined) return records;
+
+  if ((page !== undefined && (!Number.isInteger(page) || page < 1)) || (limit !== undefined && (!Number.isInteger(limit) || limit < 1))) {
+    res.status(400).json({ message: "_page and _limit must be positive integers" });
+    return null;
+  }
+
+  const size = limit ?? 10;
+  const current = page ?? 1;
+  const last = Math.max(1, Math.ceil(records.length / size));
+  res.set("X-Total-Count", String(records.length));
+  res.set("Access-Control-Expose-Headers", "X-Total-Count, Link");
+
+  const link = (target: number, rel: string) => {
+    const params = new URLSearchParams(req.query as Record<string, string>);
+    params.set("_page", String(target));
+    params.set("_limit", String(size));
+    return `<${req.baseUrl}${req.path}?${params}>; rel="${rel}"`;
+  };
+  const links = [link(1, "first")];
+  if (current > 1) links.push(link(current - 1, "prev"));
+  if (current < last) links.push(link(current + 1, "next"));
+  links.push(link(last, "last"));
+  res.set("Link", links.join(", "));
+
+  return records.slice((current - 1) * size, current * size);
+}
+
+/**
+ * Serve a fake REST API with todos, users, posts and comments under
+ * MOCK_API_PREFIX, shaped like jsonplaceholder.typicode.com. Every session
+ * gets its own copy of the data, which changes with POST, PUT, PATCH and
+ * DELETE and starts over once the session is reset or idle. Any request can
+ * be slowed down with _delay=<ms> or made to fail with _error=<status>, also
+ * available as the X-Mock-Delay and X-Mock-Error headers.
+ */
+export function registerMockApi(app: Express, httpServer: Server) {
+  httpServer.on("listening", () => {
+    const address = httpServer.address();
+    if (address && typeof address === "object") {
+      origin = `http://127.0.0.1:${address.port}`;
+    }
+  });
+
+  const router = express.Router();
+
+  // Latency and error injection, before any route answers
+  router.use(async (req: Request, res: Response, next: NextFunction) => {
+    const delay = readOption(req, "delay");
+    const error = readOption(req, "error");
+
+    if (delay !== undefined && (!Number.isInteger(delay) || delay < 0 || delay > MAX_DELAY)) {
+      return res.status(400).json({ message: `_delay must be a whole number of milliseconds up to ${MAX_DELAY}` });
+    }
+    if (error !== undefined && (!Number.isInteger(error) || error < 400 || error > 599)) {
+      return res.status(400).json({ message: "_error must be an HTTP status between 400 and 599" });
+    }
+
+    if (delay) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    if (error !== undefined) {
+      return res.status(error).json({ message: `Injected error ${error}` });
+    }
+
+    res.locals.data = sessionData(req.get(MOCK_SESSION_HEADER) || SHARED_SESSION);
+    next();
+  });
+
+  // Start the session over from the fixtures
+  router.post("/_reset", (req, res) => {
+    resetMockSession(req.get(MOCK_SESSION_HEADER) || SHARED_SESSION);
+    res.status(204).end();
+  });
+
+  // Resolve the resource named in the path, answering 404 for unknown ones
+  const records = (res: Response, name: string): MockRecord[] | null => {
+    if (!isResource(name)) {
+      res.status(404).json({ message: `Unknown resource: ${name}` });
+      return null;
+    }
+    return (res.locals.data as MockData)[name];
+  };
+
+  // List a resource, filtered by the query and paginated
+  router.get("/:resource", (req, res) => {
+    const list = records(res, req.params.resource);
+    if (!list) return;
+
+    const page = paginate(req, res, list.filter(record => matchesQuery(record, req.query)));
+    if (page) res.json(page);
+  });
+
+  // Get a single record
+  router.get("/:resource/:id", (req, res) => {
+    const list = records(res, req.params.resource);
+    if (!list) return;
+
+    const id = parseId(req.params.id);
+    const record = list.find(record => record.id === id);
+    if (!record) {
+      return res.status(404).json({ message: `${req.params.resource}/${req.params.id} not found` });
+    }
+
+    res.json(record);
+  });
+
+  // List the children of a record, e.g. /users/1/todos or /posts/1/comments
+  router.get("/:resource/:id/:children", (req, res) => {
+    const parents = records(res, req.params.resource);
+    if (!parents) return;
+    const children = records(res, req.params.children);
+    if (!children) return;
+
+    const key = parentKeys[req.params.resource as ResourceName];
+    const id = parseId(req.params.id);
+    if (!key || !children.some(child => key in child)) {
+      return res.status(404).json({ message: `${req.params.resource} have no ${req.params.children}` });
+    }
+    if (!parents.some(parent => parent.id === id)) {
+      return res.status(404).json({ message: `${req.params.resource}/${req.params.id} not found` });
+    }
+
+    const page = paginate(req, res, children.filter(child => child[key] === id && matchesQuery(child, req.query)));
+    if (page) res.json(page);
+  });
+
+  // Create a record with the next free id
+  router.post("/:resource", (req, res) => {
+    const list = records(res, req.params.resource);
+    if (!list) return;
+
+    if (!isPlainObject(req.body)) {
+      return res.status(400).json({ message: "Request body must be a JSON object" });
+    }
+
+    const record: MockRecord = {
+      ...req.body,
+      id: list.reduce((max, record) => Math.max(max, record.id), 0) + 1
+    };
+    list.push(record);
+    res.status(201).json(record);
+  });
+
+  // Replace (PUT) or update (PATCH) a record; its id never changes
+  const update = (replace: boolean) => (req: Request, res: Response) => {
+    const list = records(res, req.params.resource);
+    if (!list) return;
+
+    if (!isPlainObject(req.body)) {
+      return res.status(400).json({ message: "Request body must be a JSON object" });
+    }
+
+    const id = parseId(req.params.id);
+    const index = list.findIndex(record => record.id === id);
+    if (index === -1) {
+      return res.status(404).json({ message: `${req.params.resource}/${req.params.id} not found` });
+    }
+
+    list[index] = { ...(replace ? {} : list[index]), ...req.body, id: list[index].id };
+    res.json(list[index]);
+  };
+  router.put("/:resource/:id", update(true));
+  router.patch("/:resource/:id", update(false));
+
+  // Delete a record
+  router.delete("/:resource/:id", (req, res) => {
+    const list = records(res, req.params.resource);
+    if (!list) return;
+
+    const id = parseId(req.params.id);
+    const index = list.findIndex(record => record.id === id);
+    if (index === -1) {
+      return res.status(404).json({ message: `${req.params.resource}/${req.params.id} not found` });
+    }
+
+    list.splice(index, 1);
+    res.json({});
+  });
+
+  app.use(MOCK_API_PREFIX, router);
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import { createReplSession, type ReplSession } from "./sandbox";
+import { DEFAULT_EXECUTION_TIMEOUT } from "./execution";
+import { mockApiTarget, resetMockSession } from "./mockApi";
+
+// A session nobody has used for this long is disposed with its worker
+export const REPL_IDLE_TIMEOUT = 10 * 60 * 1000;
+// Each session holds a worker; the least recently used one is disposed beyond this
+const MAX_REPL_SESSIONS = 20;
+
+interface ReplEntry {
+  session: ReplSession;
+  expiry: NodeJS.Timeout;
+}
+
+// Kept in order of last use, least recent first
+const sessions = new Map<string, ReplEntry>();
+
+function scheduleExpiry(id: string): NodeJS.Timeout {
+  const expiry = setTimeout(() => disposeRepl(id), REPL_IDLE_TIMEOUT);
+  // An idle session must not keep the process alive
+  expiry.unref();
+  return expiry;
+}
+
+/**
+ * Start a REPL session for a client
+ * @returns The id the client refers to the session by
+ */
+export function createRepl(): string {
+  if (sessions.size >= MAX_REPL_SESSIONS) {
+    disposeRepl(sessions.keys().next().value!);
+  }
+
+  const id = randomUUID();
+  sessions.set(id, {
+    // Changes made to the mock API last as long as the session
+    session: createReplSession({
+      timeout: DEFAULT_EXECUTION_TIMEOUT,
+      maxTimerDelay: DEFAULT_EXECUTION_TIMEOUT,
+      mockApi: mockApiTarget(id)
+    }),
+    expiry: scheduleExpiry(id)
+  });
+  return id;
+}
+
+/**
+ * Look up a session and restart its idle timer
+ * @param touch false when only collecting output, so a page left open
+ * polling does not keep the session alive
+ * @returns The session, or null when it never existed or has expired
+ */
+export function getRepl(id: string, touch = true): ReplSession | null {
+  const entry = sessions.get(id);
+  if (!entry) return null;
+  if (!touch) return entry.session;
+
+  clearTimeout(entry.expiry);
+  sessions.delete(id);
+  sessions.set(id, { session: entry.session, expiry: scheduleExpiry(id) });
+  return entry.session;
+}
+
+/**
+ * Stop a session's worker and forget the session
+ * @returns false when there was no such session
+ */
+export function disposeRepl(id: string): boolean {
+  const entry = sessions.get(id);
+  if (!entry) return false;
+
+  clearTimeout(entry.expiry);
+  sessions.delete(id);
+  entry.session.dispose();
+  resetMockSession(id);
+  return true;
+}
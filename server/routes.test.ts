@@ -0,0 +1,48 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  process.env.STUDIO_TOKEN = "studio-secret";
+  // Never reached: requests without the token are refused before the database
+  process.env.DATABASE_URL ??= "postgres://test@127.0.0.1:1/test";
+  process.env.OPENAI_API_KEY ??= "test";
+  const { registerRoutes } = await import("./routes");
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test("challenge category writes need the studio token", async () => {
+  const requests: [string, string][] = [
+    ["POST", "/api/challenge-categories"],
+    ["PUT", "/api/challenge-categories/1"],
+    ["DELETE", "/api/challenge-categories/1"]
+  ];
+
+  for (const [method, path] of requests) {
+    for (const authorization of [undefined, "Bearer wrong-token"]) {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(authorization ? { Authorization: authorization } : {})
+        },
+        body: method === "DELETE" ? undefined : JSON.stringify({ name: "Renamed", description: "Taken over" })
+      });
+      assert.equal(response.status, 401, `${method} ${path} with ${authorization ?? "no token"}`);
+    }
+  }
+});
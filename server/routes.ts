@@ -1,5 +1,6 @@
-import express, { type Express } from "express";
+import express, { type Express, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
+import { createHash, timingSafeEqual } from "crypto";
 import { storage } from "./storage";
 import { z } from "zod";
 import { 
@@ -9,9 +10,28 @@ import {
   insertChallengeSchema,
   insertUserChallengeProgressSchema
 } from "@shared/schema";
-import vm from "vm2";
+import { parseChallengeTests } from "@shared/challenge";
+import {
+  cancelRun,
+  executeUserCode,
+  registerExecutionSocket,
+  registerRun,
+  toDeterministicOptions,
+  traceEventLoop,
+  traceUserCode,
+  validateDeterministic,
+  validateDomFixture,
+  validateLanguage,
+  validateNetworkPolicy,
+  validateProject,
+  validateTimeout
+} from "./execution";
+import { checkPublishable, runChallengeTests, toPublicChallenge } from "./challenges";
+import { registerDebugSocket } from "./debugger";
+import type { SandboxResult } from "./sandbox";
+import { registerMockApi } from "./mockApi";
+import { createRepl, disposeRepl, getRepl, REPL_IDLE_TIMEOUT } from "./repl";
 import OpenAI from "openai";
-import * as esprima from 'esprima';
 
 // Initialize OpenAI API client
 const openai = new OpenAI({
@@ -222,6 +242,27 @@ async function generateCodeExample(description: string, language: string): Promi
   }
 }
 
+/**
+ * Let a request through only when it carries the studio token as a bearer
+ * token. Challenges and their categories are written, and challenges
+ * published and read in full, with it; the studio is closed while
+ * STUDIO_TOKEN is not set.
+ */
+const requireAuthor: RequestHandler = (req, res, next) => {
+  const expected = process.env.STUDIO_TOKEN;
+  if (!expected) {
+    return res.status(403).json({ message: "Challenge authoring is disabled; set STUDIO_TOKEN to enable it" });
+  }
+
+  const token = req.get("authorization")?.match(/^Bearer (.+)$/)?.[1] ?? "";
+  // Compare digests so the time taken says nothing about the token
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  if (!timingSafeEqual(digest(token), digest(expected))) {
+    return res.status(401).json({ message: "A valid studio token is required" });
+  }
+  next();
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
@@ -331,184 +372,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(204).end();
   });
 
-  // Execute code
+  // Execute code. The run id goes out in the X-Run-Id header before the code
+  // runs, so the client can cancel the run while it waits for the result.
   apiRouter.post("/execute", async (req, res) => {
-    let { code, snippetId } = req.body;
+    const { code, snippetId, timeout, language, deterministic, network, dom, project } = req.body;
     
     if (typeof code !== "string") {
       return res.status(400).json({ message: "Code must be a string" });
     }
 
-    // Process the code to ensure it works with or without semicolons
-    // Add semicolons to the end of lines that don't have them
-    // This helps prevent issues with automatic semicolon insertion (ASI)
-    code = code.split('\n')
-      .map(line => {
-        // Skip lines that are empty, comments only, or already end with a semicolon
-        line = line.trim();
-        if (!line || line.startsWith('//') || line.startsWith('/*') || line.endsWith('*/') || 
-            line.endsWith(';') || line.endsWith('{') || line.endsWith('}') || 
-            line.endsWith(':') || line.endsWith(',')) {
-          return line;
-        }
-        return line + ';';
-      })
-      .join('\n');
-
-    // Clear previous console entries if snippetId is provided
-    if (snippetId) {
-      await storage.clearConsoleEntries(snippetId);
+    const optionError = validateTimeout(timeout)
+      ?? validateLanguage(language)
+      ?? validateDeterministic(deterministic)
+      ?? validateNetworkPolicy(network)
+      ?? validateDomFixture(dom)
+      ?? validateProject(project);
+    if (optionError) {
+      return res.status(400).json({ message: optionError });
     }
 
-    const logs: any[] = [];
-    const errors: any[] = [];
-    const warnings: any[] = [];
-    const infos: any[] = [];
-
-    // Create sandbox with mocked console methods
-    const sandbox = {
-      console: {
-        log: (...args: any[]) => {
-          const content = args.map(arg => 
-            typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-          ).join(' ');
-          logs.push(content);
-          
-          if (snippetId) {
-            storage.createConsoleEntry({
-              snippetId,
-              type: 'log',
-              content
-            });
-          }
-        },
-        error: (...args: any[]) => {
-          const content = args.map(arg => 
-            typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-          ).join(' ');
-          errors.push(content);
-          
-          if (snippetId) {
-            storage.createConsoleEntry({
-              snippetId,
-              type: 'error',
-              content
-            });
-          }
-        },
-        warn: (...args: any[]) => {
-          const content = args.map(arg => 
-            typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-          ).join(' ');
-          warnings.push(content);
-          
-          if (snippetId) {
-            storage.createConsoleEntry({
-              snippetId,
-              type: 'warn',
-              content
-            });
-          }
-        },
-        info: (...args: any[]) => {
-          const content = args.map(arg => 
-            typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-          ).join(' ');
-          infos.push(content);
-          
-          if (snippetId) {
-            storage.createConsoleEntry({
-              snippetId,
-              type: 'info',
-              content
-            });
-          }
-        },
-        table: (data: any) => {
-          const content = JSON.stringify(data, null, 2);
-          logs.push(`Table: ${content}`);
-          
-          if (snippetId) {
-            storage.createConsoleEntry({
-              snippetId,
-              type: 'log',
-              content: `Table: ${content}`
-            });
-          }
-        }
-      },
-      setTimeout: (fn: Function, delay: number) => {
-        if (delay > 5000) delay = 5000; // Limit timeouts to 5 seconds
-        setTimeout(() => {
-          try {
-            fn();
-          } catch (error: any) {
-            const errorMsg = error.toString();
-            errors.push(errorMsg);
-            
-            if (snippetId) {
-              storage.createConsoleEntry({
-                snippetId,
-                type: 'error',
-                content: errorMsg
-              });
-            }
-          }
-        }, delay);
-      },
-      fetch: (url: string, options?: any) => global.fetch(url, options)
-    };
-
+    const run = registerRun();
+    // A client that gave up waiting does not need the run anymore
+    res.on("close", () => {
+      if (!res.writableFinished) cancelRun(run.runId);
+    });
+    res.type("json").setHeader("X-Run-Id", run.runId);
+    res.flushHeaders();
     const startTime = Date.now();
-    let result: any;
-    let error: any = null;
 
+    // Headers are already sent with status 200, so the body is written as is
+    // and a failure is reported as a run that ended with an error
     try {
-      // Use VM2 to execute code in a sandboxed environment
-      const vm2 = new vm.VM({ 
-        timeout: 5000, // 5 second timeout
-        sandbox
+      const execution = await executeUserCode(code, {
+        snippetId,
+        timeout,
+        language,
+        deterministic: toDeterministicOptions(deterministic),
+        network,
+        dom,
+        project,
+        signal: run.signal
       });
-      
-      // Execute the code
-      result = await vm2.run(code);
-      
-      // Record execution info
-      if (snippetId) {
-        storage.createConsoleEntry({
-          snippetId,
-          type: 'info',
-          content: `// Code execution completed in ${Date.now() - startTime}ms`
-        });
-      }
-      
-    } catch (err: any) {
-      error = {
-        name: err.name || 'Error',
-        message: err.message || 'Unknown error',
-        stack: err.stack
+      // Return all the console outputs and the result/error
+      res.end(JSON.stringify({ runId: run.runId, ...execution }));
+    } catch (error) {
+      console.error("Error executing code:", error);
+      const failure: SandboxResult = {
+        result: null,
+        logs: [],
+        errors: [],
+        warnings: [],
+        infos: [],
+        error: { name: "Error", message: "Failed to execute code" },
+        completed: false,
+        cancelled: false,
+        pending: null,
+        executionTime: Date.now() - startTime,
+        seed: null,
+        dom: null,
+        call: null
       };
-      
-      // Record error
-      if (snippetId) {
-        storage.createConsoleEntry({
-          snippetId,
-          type: 'error',
-          content: `${err.name}: ${err.message}`
-        });
-      }
+      res.end(JSON.stringify({ runId: run.runId, ...failure }));
+    } finally {
+      run.done();
     }
+  });
 
-    // Return all the console outputs and the result/error
-    res.json({
-      result: result !== undefined ? result : null,
-      logs,
-      errors,
-      warnings,
-      infos,
-      error,
-      executionTime: Date.now() - startTime
-    });
+  // Cancel a run started by /execute; its response still arrives, with the
+  // output written so far and cancelled set
+  apiRouter.post("/execute/:runId/cancel", async (req, res) => {
+    if (!cancelRun(req.params.runId)) {
+      return res.status(404).json({ message: "No running execution with this id" });
+    }
+    res.status(204).end();
+  });
+
+  // Start a REPL session, whose declarations carry over from one input to the next
+  apiRouter.post("/repl", async (req, res) => {
+    try {
+      res.status(201).json({ sessionId: createRepl(), idleTimeout: REPL_IDLE_TIMEOUT });
+    } catch (error) {
+      console.error("Error starting REPL session:", error);
+      res.status(500).json({ message: "Failed to start REPL session" });
+    }
+  });
+
+  // Evaluate one input in a REPL session
+  apiRouter.post("/repl/:id/evaluate", async (req, res) => {
+    const { code, language } = req.body;
+
+    if (typeof code !== "string" || !code.trim()) {
+      return res.status(400).json({ message: "No code provided" });
+    }
+
+    const languageError = validateLanguage(language);
+    if (languageError) {
+      return res.status(400).json({ message: languageError });
+    }
+
+    const session = getRepl(req.params.id);
+    if (!session) {
+      return res.status(404).json({ message: "REPL session not found or expired" });
+    }
+
+    try {
+      res.json(await session.evaluate(code, language));
+    } catch (error) {
+      console.error("Error evaluating REPL input:", error);
+      res.status(500).json({ message: "Failed to evaluate input" });
+    }
+  });
+
+  // Console output of a REPL session's timers and requests since the last response
+  apiRouter.get("/repl/:id/output", async (req, res) => {
+    const session = getRepl(req.params.id, false);
+    if (!session) {
+      return res.status(404).json({ message: "REPL session not found or expired" });
+    }
+
+    res.json(session.collectOutput());
+  });
+
+  // Forget everything a REPL session declared
+  apiRouter.post("/repl/:id/reset", async (req, res) => {
+    const session = getRepl(req.params.id);
+    if (!session) {
+      return res.status(404).json({ message: "REPL session not found or expired" });
+    }
+
+    session.reset();
+    res.status(204).end();
+  });
+
+  // End a REPL session
+  apiRouter.delete("/repl/:id", async (req, res) => {
+    if (!disposeRepl(req.params.id)) {
+      return res.status(404).json({ message: "REPL session not found or expired" });
+    }
+    res.status(204).end();
   });
 
   // AI code completion endpoint
@@ -633,7 +634,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create a new challenge category
-  apiRouter.post("/challenge-categories", async (req, res) => {
+  apiRouter.post("/challenge-categories", requireAuthor, async (req, res) => {
     try {
       const categoryData = insertChallengeCategorySchema.parse(req.body);
       const newCategory = await storage.createChallengeCategory(categoryData);
@@ -648,7 +649,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update a challenge category
-  apiRouter.put("/challenge-categories/:id", async (req, res) => {
+  apiRouter.put("/challenge-categories/:id", requireAuthor, async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid category ID" });
@@ -673,7 +674,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a challenge category
-  apiRouter.delete("/challenge-categories/:id", async (req, res) => {
+  apiRouter.delete("/challenge-categories/:id", requireAuthor, async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid category ID" });
@@ -693,12 +694,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Challenge Routes
-  // Get all challenges (optionally filtered by category)
+  // Get all published challenges (optionally filtered by category)
   apiRouter.get("/challenges", async (req, res) => {
     try {
       const categoryId = req.query.categoryId ? parseInt(req.query.categoryId as string, 10) : undefined;
       const challenges = await storage.getChallenges(categoryId);
-      res.json(challenges);
+      res.json(challenges.filter(challenge => challenge.status === "published").map(toPublicChallenge));
     } catch (error) {
       console.error("Error fetching challenges:", error);
       res.status(500).json({ message: "Failed to fetch challenges" });
@@ -714,10 +715,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const challenge = await storage.getChallenge(id);
-      if (!challenge) {
+      // Drafts are only seen in the studio
+      if (!challenge || challenge.status !== "published") {
         return res.status(404).json({ message: "Challenge not found" });
       }
-      res.json(challenge);
+      res.json(toPublicChallenge(challenge));
     } catch (error) {
       console.error("Error fetching challenge:", error);
       res.status(500).json({ message: "Failed to fetch challenge" });
@@ -725,11 +727,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create a new challenge
-  apiRouter.post("/challenges", async (req, res) => {
+  apiRouter.post("/challenges", requireAuthor, async (req, res) => {
     try {
       const challengeData = insertChallengeSchema.parse(req.body);
+      if ((challengeData.status ?? "published") === "published") {
+        const publishError = await checkPublishable({
+          ...challengeData,
+          language: challengeData.language ?? "javascript",
+          networkPolicy: challengeData.networkPolicy ?? null,
+          domFixture: challengeData.domFixture ?? null
+        });
+        if (publishError) {
+          return res.status(400).json({ message: publishError });
+        }
+      }
+
       const newChallenge = await storage.createChallenge(challengeData);
-      res.status(201).json(newChallenge);
+      // Responses never carry the solution; the studio reads it through its own routes
+      res.status(201).json(toPublicChallenge(newChallenge));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid challenge data", errors: error.errors });
@@ -740,7 +755,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update a challenge
-  apiRouter.put("/challenges/:id", async (req, res) => {
+  apiRouter.put("/challenges/:id", requireAuthor, async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid challenge ID" });
@@ -748,13 +763,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const challengeData = insertChallengeSchema.partial().parse(req.body);
+      const existingChallenge = await storage.getChallenge(id);
+      if (!existingChallenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+
+      // A published challenge is checked again whenever what grades it changes
+      const challenge = { ...existingChallenge, ...challengeData };
+      const regrades = (["status", "solutionCode", "testCases", "language", "networkPolicy", "domFixture"] as const)
+        .some(field => challengeData[field] !== undefined);
+      if (challenge.status === "published" && regrades) {
+        const publishError = await checkPublishable(challenge);
+        if (publishError) {
+          return res.status(400).json({ message: publishError });
+        }
+      }
+
       const updatedChallenge = await storage.updateChallenge(id, challengeData);
-      
       if (!updatedChallenge) {
         return res.status(404).json({ message: "Challenge not found" });
       }
 
-      res.json(updatedChallenge);
+      res.json(toPublicChallenge(updatedChallenge));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid challenge data", errors: error.errors });
@@ -765,7 +795,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a challenge
-  apiRouter.delete("/challenges/:id", async (req, res) => {
+  apiRouter.delete("/challenges/:id", requireAuthor, async (req, res) => {
     const id = parseInt(req.params.id, 10);
     if (isNaN(id)) {
       return res.status(400).json({ message: "Invalid challenge ID" });
@@ -784,6 +814,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Challenge Studio Routes, for authors holding the studio token
+  // Get every challenge in full, drafts, solutions and hidden tests included
+  apiRouter.get("/studio/challenges", requireAuthor, async (req, res) => {
+    try {
+      res.json(await storage.getChallenges());
+    } catch (error) {
+      console.error("Error fetching challenges for the studio:", error);
+      res.status(500).json({ message: "Failed to fetch challenges" });
+    }
+  });
+
+  // Run a solution against tests that may not be saved yet. Hidden tests are
+  // reported like the others, as the one asking wrote them.
+  apiRouter.post("/studio/validate", requireAuthor, async (req, res) => {
+    try {
+      const challengeData = insertChallengeSchema.pick({
+        solutionCode: true,
+        testCases: true,
+        language: true,
+        networkPolicy: true,
+        domFixture: true
+      }).parse(req.body);
+
+      const { results, seed } = await runChallengeTests(
+        {
+          language: challengeData.language ?? "javascript",
+          networkPolicy: challengeData.networkPolicy ?? null,
+          domFixture: challengeData.domFixture ?? null
+        },
+        challengeData.testCases,
+        challengeData.solutionCode,
+        {},
+        true
+      );
+      const allPassed = results.every(result => result.pass);
+
+      res.json({
+        success: allPassed,
+        results,
+        message: allPassed ? "The solution passes every test." : "The solution fails some tests.",
+        seed
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid challenge data", errors: error.errors });
+      }
+      console.error("Error validating a challenge's solution:", error);
+      res.status(500).json({ message: "Failed to validate the solution" });
+    }
+  });
+
   // Challenge Progress Routes
   // Get progress for a challenge
   apiRouter.get("/challenges/:id/progress", async (req, res) => {
@@ -846,115 +927,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: "Invalid challenge ID" });
     }
 
-    const { code } = req.body;
+    const { code, deterministic } = req.body;
     if (typeof code !== "string") {
       return res.status(400).json({ message: "Code must be a string" });
     }
 
+    const deterministicError = validateDeterministic(deterministic);
+    if (deterministicError) {
+      return res.status(400).json({ message: deterministicError });
+    }
+
     try {
       // Get the challenge to access test cases
       const challenge = await storage.getChallenge(id);
-      if (!challenge) {
+      if (!challenge || challenge.status !== "published") {
         return res.status(404).json({ message: "Challenge not found" });
       }
 
-      // Parse test cases
-      const testCases = typeof challenge.testCases === 'string' 
-        ? JSON.parse(challenge.testCases) 
-        : challenge.testCases;
-
-      // Execute code for each test case and validate results
-      const results = [];
-      let allPassed = true;
-
-      for (const testCase of testCases) {
-        // Set up a sandbox for execution
-        const logs: any[] = [];
-        const errors: any[] = [];
-        
-        const sandbox = {
-          console: {
-            log: (...args: any[]) => {
-              const content = args.map(arg => 
-                typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-              ).join(' ');
-              logs.push(content);
-            },
-            error: (...args: any[]) => {
-              const content = args.map(arg => 
-                typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-              ).join(' ');
-              errors.push(content);
-            },
-            warn: (...args: any[]) => {},
-            info: (...args: any[]) => {},
-            table: (data: any) => {}
-          },
-          setTimeout: (fn: Function, delay: number) => {
-            if (delay > 1000) delay = 1000; // Limit timeouts to 1 second for tests
-            setTimeout(() => {
-              try {
-                fn();
-              } catch (error) {}
-            }, delay);
-          }
-        };
-
-        interface TestResult {
-          pass: boolean;
-          input: any;
-          expected: any;
-          actual: any;
-          error: { name: string; message: string } | null;
-        }
-        
-        let testResult: TestResult = {
-          pass: false,
-          input: testCase.input,
-          expected: testCase.expected,
-          actual: null,
-          error: null
-        };
-
-        try {
-          // Execute the code in the sandbox
-          const vm2 = new vm.VM({ 
-            timeout: 2000, // 2 second timeout for tests
-            sandbox
-          });
-          
-          // Execute the code
-          const result = await vm2.run(code);
-          
-          // Compare the result with the expected output
-          // For simple cases, a direct comparison might work
-          // For more complex cases, you might need to check logs or specific values
-          
-          if (logs.length > 0) {
-            // If there are logs, check if the last log matches the expected output
-            const lastLog = logs[logs.length - 1];
-            testResult.actual = lastLog;
-            testResult.pass = JSON.stringify(lastLog) === JSON.stringify(testCase.expected);
-          } else {
-            // Otherwise, compare the direct result
-            testResult.actual = result;
-            testResult.pass = JSON.stringify(result) === JSON.stringify(testCase.expected);
-          }
-          
-        } catch (err: any) {
-          testResult.error = {
-            name: err?.name || 'Error',
-            message: err?.message || 'Unknown error'
-          };
-          testResult.pass = false;
-        }
-
-        results.push(testResult);
-        if (!testResult.pass) {
-          allPassed = false;
-        }
+      const tests = parseChallengeTests(challenge.testCases);
+      if (!tests) {
+        console.error(`Challenge ${id} has test cases that do not follow the test schema`);
+        return res.status(500).json({ message: "Challenge has invalid test cases" });
       }
 
+      // Every test case of a deterministic validation runs with the same seed
+      const { results, seed } = await runChallengeTests(challenge, tests, code, toDeterministicOptions(deterministic));
+      const allPassed = results.every(result => result.pass);
+
       // If all tests passed, update the progress
       if (allPassed) {
         await storage.createOrUpdateChallengeProgress({
@@ -967,7 +966,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         success: allPassed,
         results,
-        message: allPassed ? "All tests passed!" : "Some tests failed."
+        message: allPassed ? "All tests passed!" : "Some tests failed.",
+        seed
       });
       
     } catch (error) {
@@ -976,207 +976,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-    // Define the execution step types
-  interface VisualExecutionStep {
-    lineNumber: number;
-    description: string;
-    variables?: Record<string, any>;
-    console?: string;
-    explanation?: string;
-  }
-  
-  /**
-   * Generates a step-by-step visualization of JavaScript code execution
-   * @param code The JavaScript code to parse and generate steps for
-   * @returns An array of execution steps with variable state, console output, and explanations
-   */
-  function generateVisualExecutionSteps(code: string): VisualExecutionStep[] {
-    try {
-      // Parse the code
-      const ast = esprima.parseScript(code, { loc: true });
-      
-      // Create the execution steps array
-      const steps: VisualExecutionStep[] = [];
-      
-      // Track variables
-      let variables: Record<string, any> = {};
-      let consoleOutput = '';
-      
-      // Process each statement in the AST
-      ast.body.forEach((node: any, index: number) => {
-        // Extract current line number
-        const lineNumber = node.loc.start.line;
-        
-        // Create a step based on the node type
-        switch (node.type) {
-          case 'VariableDeclaration': {
-            // Handle variable declarations
-            const varNames = node.declarations.map((decl: any) => decl.id.name);
-            const values = node.declarations.map((decl: any) => {
-              if (decl.init?.type === 'Literal') {
-                return decl.init.value;
-              } else if (decl.init?.type === 'Identifier') {
-                return `(value of ${decl.init.name})`;
-              } else if (decl.init?.type === 'BinaryExpression') {
-                return `(result of expression)`;
-              } else if (decl.init?.type === 'ObjectExpression') {
-                return '(object)';
-              } else if (decl.init?.type === 'ArrayExpression') {
-                return '(array)';
-              } else {
-                return 'undefined';
-              }
-            });
-            
-            // Update variables
-            node.declarations.forEach((decl: any, i: number) => {
-              variables[varNames[i]] = values[i];
-            });
-            
-            const varList = varNames.map((name: string, i: number) => `${name} = ${values[i]}`).join(', ');
-            steps.push({
-              lineNumber,
-              description: `Variable Declaration: ${varList}`,
-              variables: { ...variables },
-              explanation: `Declaring ${varNames.length > 1 ? 'variables' : 'variable'} ${varNames.join(', ')} and assigning ${values.length > 1 ? 'values' : 'value'}`
-            });
-            break;
-          }
-          
-          case 'ExpressionStatement': {
-            let description = 'Expression';
-            let explanation = 'Executing expression';
-            
-            // Check for console.log calls
-            if (node.expression.type === 'CallExpression' &&
-                node.expression.callee.type === 'MemberExpression' &&
-                node.expression.callee.object.name === 'console' &&
-                node.expression.callee.property.name === 'log') {
-              
-              const args = node.expression.arguments.map((arg: any) => {
-                if (arg.type === 'Literal') {
-                  return String(arg.value);
-                } else if (arg.type === 'Identifier') {
-                  return `${arg.name} (=${variables[arg.name]})`;
-                } else {
-                  return '(expression result)';
-                }
-              }).join(', ');
-              
-              description = `Console Output: console.log(${args})`;
-              explanation = `Outputting values to the console: ${args}`;
-              consoleOutput += `> ${args}\n`;
-            }
-            
-            // Assignment expressions
-            else if (node.expression.type === 'AssignmentExpression') {
-              const varName = node.expression.left.name;
-              let value = '(some value)';
-              
-              if (node.expression.right.type === 'Literal') {
-                value = String(node.expression.right.value);
-              } else if (node.expression.right.type === 'Identifier') {
-                value = `${node.expression.right.name} (=${variables[node.expression.right.name]})`;
-              }
-              
-              variables[varName] = value;
-              description = `Assignment: ${varName} = ${value}`;
-              explanation = `Assigning value ${value} to variable ${varName}`;
-            }
-            
-            steps.push({
-              lineNumber,
-              description,
-              variables: { ...variables },
-              console: consoleOutput || undefined,
-              explanation
-            });
-            break;
-          }
-          
-          case 'IfStatement': {
-            steps.push({
-              lineNumber,
-              description: 'Conditional: if statement',
-              variables: { ...variables },
-              explanation: 'Evaluating condition for if statement'
-            });
-            break;
-          }
-          
-          case 'ForStatement': {
-            steps.push({
-              lineNumber,
-              description: 'Loop: for statement',
-              variables: { ...variables },
-              explanation: 'Starting a for loop'
-            });
-            break;
-          }
-          
-          case 'FunctionDeclaration': {
-            const funcName = node.id.name;
-            steps.push({
-              lineNumber,
-              description: `Function Declaration: ${funcName}`,
-              variables: { ...variables },
-              explanation: `Defining function ${funcName} (not executing it yet)`
-            });
-            break;
-          }
-          
-          default:
-            steps.push({
-              lineNumber,
-              description: `${node.type}`,
-              variables: { ...variables },
-              explanation: `Executing ${node.type}`
-            });
-        }
-      });
-      
-      // Final step showing all variables and console output
-      if (Object.keys(variables).length > 0 || consoleOutput) {
-        steps.push({
-          lineNumber: -1,
-          description: 'Execution Complete',
-          variables: { ...variables },
-          console: consoleOutput || undefined,
-          explanation: 'Program execution has finished. Final state of variables shown.'
-        });
-      }
-      
-      return steps;
-    } catch (error) {
-      console.error('Error parsing code:', error);
-      return [{
-        lineNumber: 1,
-        description: 'Error parsing code',
-        explanation: `Couldn't parse code: ${error instanceof Error ? error.message : String(error)}`
-      }];
-    }
-  }
-  
-  // Visual code execution endpoint
+  // Visual code execution endpoint: runs instrumented code and returns the
+  // steps it actually took
   apiRouter.post("/execute-visual", async (req, res) => {
-    const { code } = req.body;
+    const { code, language } = req.body;
     
-    if (!code) {
+    if (typeof code !== "string" || !code) {
       return res.status(400).json({ message: "No code provided" });
     }
+
+    const languageError = validateLanguage(language);
+    if (languageError) {
+      return res.status(400).json({ message: languageError });
+    }
     
     try {
-      // Generate execution steps
-      const steps = generateVisualExecutionSteps(code);
-      res.json({ steps });
+      res.json(await traceUserCode(code, language));
     } catch (error) {
-      console.error("Error generating visual execution steps:", error);
+      console.error("Error tracing visual execution:", error);
       res.status(500).json({ message: "Failed to generate visual execution steps" });
     }
   });
 
+  // Event loop visualization endpoint: follows the call stack and the task
+  // queues of a run
+  apiRouter.post("/execute-event-loop", async (req, res) => {
+    const { code, language } = req.body;
+
+    if (typeof code !== "string" || !code) {
+      return res.status(400).json({ message: "No code provided" });
+    }
+
+    const languageError = validateLanguage(language);
+    if (languageError) {
+      return res.status(400).json({ message: languageError });
+    }
+
+    try {
+      res.json(await traceEventLoop(code, language));
+    } catch (error) {
+      console.error("Error tracing the event loop:", error);
+      res.status(500).json({ message: "Failed to trace the event loop" });
+    }
+  });
+
+  // Fake REST API that fetch exercises run against offline
+  registerMockApi(app, httpServer);
+
   // Mount the API router
   app.use("/api", apiRouter);
 
+  // Stream execution output over WebSocket
+  registerExecutionSocket(httpServer);
+
+  // Debug sessions run over their own WebSocket
+  registerDebugSocket(httpServer);
+
   return httpServer;
 }
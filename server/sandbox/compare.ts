@@ -0,0 +1,70 @@
+// Judges what a challenge test's call did. The values come from the
+// sandbox's realm, so types are told apart without instanceof; the expected
+// ones are JSON.
+import { DEFAULT_TOLERANCE, type FunctionTest } from "@shared/challenge";
+
+interface MatchOptions {
+  // How far numbers may be off
+  tolerance?: number;
+  // Whether array items may come in any order
+  unordered?: boolean;
+}
+
+/**
+ * Whether a value has the structure and values of the expected JSON. Object
+ * properties set to undefined are left out, as JSON cannot hold them.
+ */
+export function valuesMatch(actual: unknown, expected: unknown, options: MatchOptions = {}): boolean {
+  if (typeof expected === 'number' && typeof actual === 'number') {
+    return options.tolerance === undefined ? actual === expected : Math.abs(actual - expected) <= options.tolerance;
+  }
+  if (expected === null || typeof expected !== 'object') return actual === expected;
+  if (actual === null || typeof actual !== 'object') return false;
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) return false;
+    if (!options.unordered) {
+      return expected.every((item, index) => valuesMatch(actual[index], item, options));
+    }
+    // Every expected item takes a different actual one
+    const unmatched = [...actual];
+    return expected.every(item => {
+      const index = unmatched.findIndex(candidate => valuesMatch(candidate, item, options));
+      if (index === -1) return false;
+      unmatched.splice(index, 1);
+      return true;
+    });
+  }
+
+  // Maps, sets, dates and arrays are not what an object in JSON describes
+  if (Array.isArray(actual) || Object.prototype.toString.call(actual) !== '[object Object]') return false;
+  const record = actual as Record<string, unknown>;
+  const keys = Object.keys(record).filter(key => record[key] !== undefined);
+  const expectedKeys = Object.keys(expected);
+  return keys.length === expectedKeys.length &&
+    expectedKeys.every(key => keys.includes(key) && valuesMatch(record[key], (expected as Record<string, unknown>)[key], options));
+}
+
+/**
+ * Whether a returned value is what a test that is not a predicate expects
+ */
+export function matchesExpected(actual: unknown, test: FunctionTest): boolean {
+  switch (test.compare) {
+    case 'approximate':
+      return valuesMatch(actual, test.expected, { tolerance: test.tolerance ?? DEFAULT_TOLERANCE });
+    case 'unordered':
+      return valuesMatch(actual, test.expected, { unordered: true });
+    default:
+      return valuesMatch(actual, test.expected);
+  }
+}
+
+/**
+ * Whether a thrown error is the one a test expects
+ */
+export function matchesThrown(error: any, throws: NonNullable<FunctionTest['throws']>): boolean {
+  const name = error !== null && typeof error === 'object' ? String(error.name) : undefined;
+  const message = error !== null && typeof error === 'object' ? String(error.message) : String(error);
+  return (throws.name === undefined || name === throws.name) &&
+    (throws.message === undefined || message.includes(throws.message));
+}
@@ -0,0 +1,198 @@
+import util from "util";
+import { Console } from "console";
+import { Writable } from "stream";
+import { serializeArguments, serializeTable } from "./inspect";
+import type { SerializedArguments } from "@shared/inspect";
+import type { ConsoleMessage, ConsoleMethod, ConsoleType } from "./protocol";
+
+type EmitConsole = (entry: ConsoleMessage) => void;
+
+// Console output as text, formatted the way Node's console does it
+function formatArgs(args: any[]): string {
+  return util.formatWithOptions({ depth: 4, breakLength: 80 }, ...args);
+}
+
+/**
+ * Serialize console arguments for the object inspector. When the first
+ * argument is a format string ("%s items") the text rendering is the only one
+ * that applies the substitutions, so the values are left out.
+ */
+function toStructured(args: any[]): SerializedArguments | undefined {
+  if (typeof args[0] === 'string' && /%[sdifjoOc]/.test(args[0])) {
+    return undefined;
+  }
+  try {
+    return serializeArguments(args);
+  } catch {
+    // Exotic values fall back to the text rendering
+    return undefined;
+  }
+}
+
+/**
+ * Text rendering of console.table(), drawn by Node's own console
+ */
+function formatTable(data: any, columns?: string[]): string {
+  let text = '';
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      text += chunk;
+      callback();
+    }
+  });
+  new Console({ stdout: stream, colorMode: false }).table(data, columns);
+  return text.replace(/\n$/, '');
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(3)}s` : `${ms.toFixed(3)}ms`;
+}
+
+/**
+ * Build the console object handed to user code. It follows the Console API
+ * of browsers and Node: group nesting is reported as a depth on each entry,
+ * timers and counters are kept per label, and every entry records the
+ * method that produced it so the output can be replayed later.
+ * @param emit Receives each console entry as it is produced
+ */
+export function createSandboxConsole(emit: EmitConsole) {
+  let depth = 0;
+  const timers = new Map<string, number>();
+  const counts = new Map<string, number>();
+
+  const write = (type: ConsoleType, method: ConsoleMethod, args: any[]) => {
+    emit({ type, content: formatArgs(args), args: toStructured(args), method, depth });
+  };
+
+  // Mistakes such as ending an unknown timer are warnings, not exceptions
+  const warn = (method: ConsoleMethod, message: string) => {
+    emit({ type: 'warn', content: message, method, depth });
+  };
+
+  const elapsed = (method: ConsoleMethod, label: string): number | null => {
+    const start = timers.get(label);
+    if (start === undefined) {
+      warn(method, `Warning: No such label '${label}' for console.${method}()`);
+      return null;
+    }
+    return performance.now() - start;
+  };
+
+  return {
+    log: (...args: any[]) => write('log', 'log', args),
+    error: (...args: any[]) => write('error', 'error', args),
+    warn: (...args: any[]) => write('warn', 'warn', args),
+    info: (...args: any[]) => write('info', 'info', args),
+    debug: (...args: any[]) => write('debug', 'debug', args),
+
+    table: (data: any, columns?: any) => {
+      // Like browsers, a columns argument that is not a list is ignored. It is
+      // copied without calling its methods, which user code may have replaced.
+      columns = Array.isArray(columns) ? Array.from(columns, String) : undefined;
+      let table = null;
+      try {
+        table = serializeTable(data, columns);
+      } catch {
+        // Fall through to a plain log, as for non-object data
+      }
+      if (!table) {
+        write('log', 'table', [data]);
+        return;
+      }
+      emit({ type: 'table', content: formatTable(data, columns), method: 'table', depth, table });
+    },
+
+    dir: (value: any, options?: util.InspectOptions) => {
+      emit({
+        type: 'log',
+        content: util.inspect(value, { depth: 4, ...options, customInspect: false }),
+        args: toStructured([value]),
+        method: 'dir',
+        depth
+      });
+    },
+
+    trace: (...args: any[]) => {
+      // The host drops the sandbox's own frames and maps the rest; there are
+      // a few of them in front of the user's, between here and the context
+      const stackTraceLimit = Error.stackTraceLimit;
+      Error.stackTraceLimit = 50;
+      const stack = new Error().stack ?? '';
+      Error.stackTraceLimit = stackTraceLimit;
+      const message = args.length > 0 ? formatArgs(args) : '';
+      emit({
+        type: 'log',
+        content: message ? `Trace: ${message}` : 'Trace',
+        args: args.length > 0 ? toStructured(args) : undefined,
+        method: 'trace',
+        depth,
+        stack
+      });
+    },
+
+    assert: (condition?: any, ...args: any[]) => {
+      if (condition) return;
+      // Same message Node builds: the first string argument is prefixed
+      if (typeof args[0] === 'string') {
+        args = [`Assertion failed: ${args[0]}`, ...args.slice(1)];
+      } else {
+        args = ['Assertion failed', ...args];
+      }
+      write('error', 'assert', args);
+    },
+
+    group: (...label: any[]) => {
+      write('log', 'group', label.length > 0 ? label : ['console.group']);
+      depth++;
+    },
+
+    groupCollapsed: (...label: any[]) => {
+      write('log', 'groupCollapsed', label.length > 0 ? label : ['console.groupCollapsed']);
+      depth++;
+    },
+
+    groupEnd: () => {
+      depth = Math.max(depth - 1, 0);
+    },
+
+    time: (label: any = 'default') => {
+      label = String(label);
+      if (timers.has(label)) {
+        warn('time', `Warning: Label '${label}' already exists for console.time()`);
+        return;
+      }
+      timers.set(label, performance.now());
+    },
+
+    timeLog: (label: any = 'default', ...data: any[]) => {
+      label = String(label);
+      const ms = elapsed('timeLog', label);
+      if (ms === null) return;
+      write('log', 'timeLog', [`${label}: ${formatDuration(ms)}`, ...data]);
+    },
+
+    timeEnd: (label: any = 'default') => {
+      label = String(label);
+      const ms = elapsed('timeEnd', label);
+      if (ms === null) return;
+      timers.delete(label);
+      write('log', 'timeEnd', [`${label}: ${formatDuration(ms)}`]);
+    },
+
+    count: (label: any = 'default') => {
+      label = String(label);
+      const count = (counts.get(label) ?? 0) + 1;
+      counts.set(label, count);
+      write('log', 'count', [`${label}: ${count}`]);
+    },
+
+    countReset: (label: any = 'default') => {
+      label = String(label);
+      if (!counts.has(label)) {
+        warn('countReset', `Warning: Count for '${label}' does not exist`);
+        return;
+      }
+      counts.set(label, 0);
+    }
+  };
+}
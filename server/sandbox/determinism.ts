@@ -0,0 +1,131 @@
+import vm from "vm";
+import { SANDBOX_FILE, type SandboxInternals } from "./globals";
+
+// Shortest interval, as in Node, so an interval of 0 cannot stall the clock
+const MIN_INTERVAL = 1;
+
+interface VirtualTimer {
+  due: number;
+  // Scheduling order, which breaks ties between timers due at the same time
+  order: number;
+  delay: number;
+  repeat: boolean;
+  callback: () => void;
+}
+
+export interface VirtualClock {
+  now(): number;
+  /**
+   * Run a callback once the clock has moved on by delay, or every delay ms
+   * @returns A function cancelling the timer
+   */
+  schedule(callback: () => void, delay: number, repeat: boolean): () => void;
+  // Let the clock move on after it held back for other work
+  resume(): void;
+  size(): number;
+}
+
+/**
+ * A clock that stands still while code runs and only moves forward to fire
+ * the next timer. Timers fire one after the other in the order they are due,
+ * each in its own macrotask, without any real waiting.
+ * @param startTime What now() returns before the first timer fires
+ * @param canAdvance Holds the clock back, e.g. while requests are pending, so
+ * their responses arrive before any later timer fires; call resume() once it
+ * may move on again
+ */
+export function createVirtualClock(startTime: number, canAdvance: () => boolean): VirtualClock {
+  const timers = new Set<VirtualTimer>();
+  let now = startTime;
+  let nextOrder = 0;
+  let scheduled = false;
+
+  const fireNext = () => {
+    scheduled = false;
+    if (timers.size === 0 || !canAdvance()) return;
+
+    const timer = Array.from(timers).reduce((next, candidate) =>
+      candidate.due < next.due || (candidate.due === next.due && candidate.order < next.order) ? candidate : next
+    );
+
+    now = Math.max(now, timer.due);
+    if (timer.repeat) {
+      timer.due = now + timer.delay;
+      timer.order = nextOrder++;
+    } else {
+      timers.delete(timer);
+    }
+    timer.callback();
+    resume();
+  };
+
+  // setImmediate runs after pending microtasks, so promise reactions of
+  // one timer settle before the next timer fires
+  const resume = () => {
+    if (scheduled) return;
+    scheduled = true;
+    setImmediate(fireNext);
+  };
+
+  return {
+    now: () => now,
+    schedule(callback, delay, repeat) {
+      const timer: VirtualTimer = {
+        delay: repeat ? Math.max(delay, MIN_INTERVAL) : delay,
+        due: 0,
+        order: nextOrder++,
+        repeat,
+        callback
+      };
+      timer.due = now + timer.delay;
+      timers.add(timer);
+      resume();
+      return () => {
+        timers.delete(timer);
+      };
+    },
+    resume,
+    size: () => timers.size
+  };
+}
+
+// Seeded generator of numbers in [0, 1) (mulberry32), built inside the
+// context. The same seed always gives the same sequence.
+const RANDOM_FACTORY = `(function (seed) {
+  const { imul } = Math;
+  let state = seed >>> 0;
+  return function random() {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = imul(t ^ (t >>> 15), t | 1);
+    t ^= t + imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+})`;
+
+// Replaces the context's Date with one reading the virtual clock. It is built
+// inside the context, so dates still pass instanceof checks there.
+const DATE_FACTORY = `(function (RealDate, now) {
+  function Date(...args) {
+    if (!new.target) return new RealDate(now()).toString();
+    return Reflect.construct(RealDate, args.length === 0 ? [now()] : args, new.target);
+  }
+  Object.setPrototypeOf(Date, RealDate);
+  Date.prototype = RealDate.prototype;
+  Date.prototype.constructor = Date;
+  Date.now = now;
+  globalThis.Date = Date;
+})`;
+
+/**
+ * Make a context behave the same on every run: Math.random and crypto draw
+ * from the seeded generator and Date reads the virtual clock, through the
+ * context's internals.now(). Timers are moved onto the clock by the worker
+ * itself.
+ */
+export function installDeterminism(context: vm.Context, seed: number, internals: SandboxInternals) {
+  const random = vm.runInContext(RANDOM_FACTORY, context, { filename: SANDBOX_FILE })(seed);
+  vm.runInContext('Math', context).random = random;
+  vm.runInContext(DATE_FACTORY, context, { filename: SANDBOX_FILE })(vm.runInContext('Date', context), internals.now);
+  internals.useRandom(random);
+}
@@ -0,0 +1,169 @@
+import vm from "vm";
+import path from "path";
+import { readFile } from "fs/promises";
+import { createRequire } from "module";
+import { parseHTML } from "linkedom";
+import type { DomAction, DomAssertion } from "@shared/dom";
+import { SANDBOX_FILE } from "./globals";
+
+// DOM classes code may construct or check instances against
+const DOM_GLOBALS = [
+  'Node', 'Element', 'HTMLElement', 'SVGElement', 'Document', 'DocumentFragment', 'Text', 'Comment',
+  'Event', 'CustomEvent', 'InputEvent', 'EventTarget', 'DOMParser', 'MutationObserver', 'NodeFilter',
+  'Range', 'TreeWalker', 'HTMLAnchorElement', 'HTMLButtonElement', 'HTMLDivElement', 'HTMLFormElement',
+  'HTMLImageElement', 'HTMLInputElement', 'HTMLLIElement', 'HTMLOListElement', 'HTMLParagraphElement',
+  'HTMLSelectElement', 'HTMLSpanElement', 'HTMLTableElement', 'HTMLTextAreaElement', 'HTMLUListElement'
+];
+
+// Frame length requestAnimationFrame waits for, as on a 60 Hz screen
+const FRAME_MS = 16;
+
+/**
+ * The starting HTML of a page as a document. A fragment ends up in the body
+ * of an otherwise empty document, a full document is taken as it is.
+ */
+function toDocument(html: string): string {
+  return /<html[\s>]/i.test(html)
+    ? html
+    : `<!DOCTYPE html><html><head></head><body>${html}</body></html>`;
+}
+
+// linkedom's self-contained build, evaluated in each context that gets a page
+const LINKEDOM_FILE = path.join(path.dirname(createRequire(import.meta.url).resolve('linkedom/package.json')), 'worker.js');
+let linkedomSource: string | null = null;
+
+// Gives the context the globals of a browser page and returns what the
+// worker needs to act on it. Runs inside the context, so every DOM object
+// user code sees comes from its own realm.
+const DOM_INSTALLER = `(function (parseHTML, html, frameMs) {
+  'use strict';
+  const global = globalThis;
+  const define = (name, value) => Object.defineProperty(global, name, { value, writable: true, configurable: true });
+  const window = parseHTML(html);
+  const { document } = window;
+
+  define('window', global);
+  define('self', global);
+  define('document', document);
+  define('navigator', window.navigator);
+  for (const name of ${JSON.stringify(DOM_GLOBALS)}) {
+    if (typeof window[name] === 'function') define(name, window[name]);
+  }
+
+  // Listeners on window go to linkedom's window, which events bubble up to
+  define('addEventListener', window.addEventListener.bind(window));
+  define('removeEventListener', window.removeEventListener.bind(window));
+  define('dispatchEvent', window.dispatchEvent.bind(window));
+
+  // Frames are timers of the sandbox, so they count as pending work
+  const { setTimeout, clearTimeout } = global;
+  define('requestAnimationFrame', function requestAnimationFrame(callback) {
+    return setTimeout(() => callback(Date.now()), frameMs);
+  });
+  define('cancelAnimationFrame', function cancelAnimationFrame(id) {
+    clearTimeout(id);
+  });
+
+  return {
+    act(selector, event, value) {
+      const element = document.querySelector(selector);
+      if (!element) {
+        throw new Error('No element matches ' + selector + ' to dispatch ' + event + ' on');
+      }
+      if (value !== undefined) element.value = value;
+
+      if (event === 'click' && typeof element.click === 'function') {
+        element.click();
+      } else {
+        element.dispatchEvent(new window.Event(event, { bubbles: true, cancelable: true }));
+      }
+    },
+    serialize() {
+      return document.toString();
+    }
+  };
+})`;
+
+// The page of a sandbox, as returned by DOM_INSTALLER
+export interface SandboxDom {
+  act(selector: string, event: string, value: string | undefined): void;
+  serialize(): unknown;
+}
+
+/**
+ * Give a sandbox context the globals of a browser page: document, window and
+ * self pointing at the context itself, the DOM classes and
+ * requestAnimationFrame. linkedom itself is evaluated in the context, after
+ * the sandbox's globals, which it relies on.
+ */
+export async function installDom(context: vm.Context, html: string): Promise<SandboxDom> {
+  linkedomSource ??= await readFile(LINKEDOM_FILE, 'utf8');
+  const linkedom = new vm.SourceTextModule(linkedomSource, { context, identifier: 'linkedom.js' });
+  await linkedom.link(() => {
+    throw new Error('linkedom has no imports');
+  });
+  await linkedom.evaluate();
+
+  const { parseHTML } = linkedom.namespace as { parseHTML: unknown };
+  return vm.runInContext(DOM_INSTALLER, context, { filename: SANDBOX_FILE })(parseHTML, toDocument(html), FRAME_MS);
+}
+
+/**
+ * Do what a test asks of the page, one action after the other
+ * @throws Error naming the selector when nothing matches it
+ */
+export function performDomAction(dom: SandboxDom, action: DomAction) {
+  dom.act(action.selector, action.event, action.value);
+}
+
+/**
+ * The page as HTML, doctype included
+ */
+export function serializeDom(dom: SandboxDom): string {
+  return String(dom.serialize());
+}
+
+/**
+ * Check the final HTML of a run against the assertions of a test
+ * @returns One message per assertion that does not hold
+ */
+export function checkDomAssertions(html: string, assertions: DomAssertion[]): string[] {
+  const { document } = parseHTML(toDocument(html)) as any;
+  const failures: string[] = [];
+
+  for (const assertion of assertions) {
+    let matches: any[];
+    try {
+      matches = Array.from(document.querySelectorAll(assertion.selector));
+    } catch {
+      failures.push(`${assertion.selector} is not a valid selector`);
+      continue;
+    }
+
+    if (assertion.count !== undefined) {
+      if (matches.length !== assertion.count) {
+        failures.push(`Expected ${assertion.count} element${assertion.count === 1 ? '' : 's'} matching ${assertion.selector}, found ${matches.length}`);
+        continue;
+      }
+    } else if (matches.length === 0) {
+      failures.push(`Expected an element matching ${assertion.selector}`);
+      continue;
+    }
+
+    const [first] = matches;
+    if (assertion.text !== undefined && first) {
+      const text = (first.textContent ?? '').trim();
+      if (text !== assertion.text) {
+        failures.push(`Expected ${assertion.selector} to have text ${JSON.stringify(assertion.text)}, found ${JSON.stringify(text)}`);
+      }
+    }
+    for (const [name, expected] of Object.entries(assertion.attributes ?? {})) {
+      const actual = first?.getAttribute(name);
+      if (actual !== expected) {
+        failures.push(`Expected ${assertion.selector} to have ${name}=${JSON.stringify(expected)}, found ${actual === null || actual === undefined ? 'none' : JSON.stringify(actual)}`);
+      }
+    }
+  }
+
+  return failures;
+}
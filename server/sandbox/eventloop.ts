@@ -0,0 +1,94 @@
+import type { ConsoleMessage, EventLoopStep, EventLoopTask } from "@shared/execution";
+import type { LoopEventRecord, LoopTaskRecord } from "./protocol";
+import { parseStack, type StackContext } from "./stack";
+import { toOriginalLocation } from "./transform";
+
+// Longest piece of console output quoted in a description
+const MAX_QUOTE_LENGTH = 40;
+
+function resolveTask(task: LoopTaskRecord, context: StackContext): EventLoopTask {
+  const { line } = toOriginalLocation({ line: task.line, column: task.column }, context.sourceMap);
+  return { id: task.id, kind: task.kind, label: task.label, line: line ?? null };
+}
+
+function quote(text: string): string {
+  const [first] = text.split("\n");
+  return first.length > MAX_QUOTE_LENGTH ? `${first.slice(0, MAX_QUOTE_LENGTH)}…` : first;
+}
+
+/**
+ * Explain an event loop event in a sentence a learner can follow
+ */
+function describe(record: LoopEventRecord, step: EventLoopStep, lastConsole?: ConsoleMessage): string {
+  const label = step.task?.label ?? '';
+
+  switch (record.type) {
+    case 'scriptStart':
+      return "The script is pushed onto the call stack and starts running";
+    case 'scriptEnd':
+      return "The script has finished and the call stack is empty. Queued microtasks run before the next macrotask";
+    case 'webApiAdded':
+      return step.task?.kind === 'request'
+        ? `${label} starts a request; the response is awaited outside the call stack`
+        : `${label} hands its callback to the timer Web API until the delay has passed`;
+    case 'webApiRemoved':
+      return step.task?.kind === 'request'
+        ? `${label} has its response`
+        : `${label} is cleared; its callback will not run`;
+    case 'taskQueued':
+      return `The timer of ${label} is done; its callback joins the macrotask queue`;
+    case 'taskStart':
+      return `The event loop takes the callback of ${label} from the macrotask queue and runs it`;
+    case 'taskEnd':
+      return `The callback of ${label} has finished`;
+    case 'await': {
+      const where = step.callStack[0]?.functionName ? `${step.callStack[0].functionName}()` : "The top-level code";
+      return `${where} pauses at await and leaves the call stack until the awaited value is ready`;
+    }
+    case 'microtaskQueued':
+      return step.task?.kind === 'microtask'
+        ? `${label} joins the microtask queue`
+        : `${label} joins the microtask queue, as its promise has settled`;
+    case 'microtaskStart':
+      return `The event loop runs ${label} from the microtask queue`;
+    case 'microtaskEnd':
+      return `${label} has finished`;
+    case 'console':
+      return lastConsole
+        ? `console.${lastConsole.method ?? lastConsole.type}() writes "${quote(lastConsole.content)}"`
+        : "The console is written to";
+  }
+}
+
+/**
+ * Turn an event posted by the worker's event loop tracer into a step of the
+ * event loop visualization, with locations in the code the user wrote
+ * @param record The event posted by the worker
+ * @param context Maps stack frames back to the original code
+ * @param consoleLength Console entries received before the event
+ * @param lastConsole The latest of those entries
+ */
+export function resolveLoopEvent(
+  record: LoopEventRecord,
+  context: StackContext,
+  consoleLength: number,
+  lastConsole?: ConsoleMessage
+): EventLoopStep {
+  const task = record.task && resolveTask(record.task, context);
+  const callStack = parseStack(record.stack, context);
+
+  const step: EventLoopStep = {
+    type: record.type,
+    description: "",
+    task,
+    line: callStack.find(frame => frame.userCode)?.line ?? task?.line ?? null,
+    running: record.running && resolveTask(record.running, context),
+    callStack,
+    webApis: record.webApis.map(entry => resolveTask(entry, context)),
+    macrotasks: record.macrotasks.map(entry => resolveTask(entry, context)),
+    microtasks: record.microtasks.map(entry => resolveTask(entry, context)),
+    consoleLength
+  };
+  step.description = describe(record, step, lastConsole);
+  return step;
+}
@@ -0,0 +1,1078 @@
+import vm from "vm";
+import { randomBytes } from "crypto";
+import { CALLBACK_FUNCTION } from "./protocol";
+
+// File name of the sandbox's own code in stack traces, which the host drops
+export const SANDBOX_FILE = 'sandbox.js';
+
+// Most bytes crypto.getRandomValues() fills at once, as in browsers
+const MAX_RANDOM_BYTES = 65536;
+
+// Parts of a URL the globals read from the host's parser
+const URL_PARTS = ['href', 'origin', 'protocol', 'username', 'password', 'host', 'hostname', 'port', 'pathname', 'search', 'hash'] as const;
+
+// Everything the globals need from the host arrives through one function.
+// Arguments are values of the context, and only primitives go back, so no
+// object or function of the host's realm ever reaches user code.
+type HostOperation = (...args: any[]) => unknown;
+export type SandboxHandlers = Record<string, HostOperation>;
+
+/**
+ * Functions of the context the worker calls. Only the worker holds them;
+ * user code cannot reach them.
+ */
+export interface SandboxInternals {
+  // Set up __jsrunner_callback to call callback with args, once
+  arm(callback: unknown, args: unknown): void;
+  // Report how a promise settles to the host's "settle" operation
+  adopt(value: unknown, id: number): void;
+  settleFetch(id: number, status: number, statusText: string, headers: string, url: string, redirected: boolean, body: string | null): void;
+  failFetch(id: number, name: string, message: string): void;
+  // An error of the context: Error, TypeError and the like by name, a DOMException otherwise
+  createError(name: string, message: string): unknown;
+  // Throw such an error
+  raise(name: string, message: string): never;
+  // Date.now() of the context, read from the host
+  now(): number;
+  // Let crypto draw from a seeded generator of the context
+  useRandom(random: () => number): void;
+  // A function of the context passing its arguments to a host operation
+  channel(op: string): (...args: unknown[]) => unknown;
+}
+
+// Runs in the context before any user code. Builtins are taken up front, so
+// user code replacing a global cannot change how the globals behave.
+const BOOTSTRAP = String.raw`(function (host) {
+  'use strict';
+  const {
+    Array, ArrayBuffer, Uint8Array, Float32Array, Float64Array, DataView, Map, Set, WeakMap, WeakSet, WeakRef,
+    Date, RegExp, Promise, Symbol, Object, String, Number, Boolean, BigInt, Math, JSON, Reflect,
+    Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError
+  } = globalThis;
+  const global = globalThis;
+  const { apply, defineProperty } = Reflect;
+  const parseJSON = JSON.parse;
+  const stringify = JSON.stringify;
+  const fromCharCode = String.fromCharCode;
+  const isArray = Array.isArray;
+  const isView = ArrayBuffer.isView;
+  const toTag = Object.prototype.toString;
+  const { floor } = Math;
+
+  // Web platform globals are writable and configurable, but not enumerable
+  const define = (name, value) => defineProperty(global, name, { value, writable: true, configurable: true });
+
+  const ERRORS = { __proto__: null, Error, TypeError, RangeError, SyntaxError, ReferenceError, EvalError, URIError };
+  const EXCEPTION_CODES = {
+    __proto__: null, IndexSizeError: 1, HierarchyRequestError: 3, WrongDocumentError: 4, InvalidCharacterError: 5,
+    NoModificationAllowedError: 7, NotFoundError: 8, NotSupportedError: 9, InvalidStateError: 11, SyntaxError: 12,
+    InvalidModificationError: 13, NamespaceError: 14, InvalidAccessError: 15, TypeMismatchError: 17, SecurityError: 18,
+    NetworkError: 19, AbortError: 20, URLMismatchError: 21, QuotaExceededError: 22, TimeoutError: 23,
+    InvalidNodeTypeError: 24, DataCloneError: 25
+  };
+
+  class DOMException extends Error {
+    constructor(message = '', name = 'Error') {
+      super(String(message));
+      defineProperty(this, 'name', { value: String(name), writable: true, configurable: true });
+    }
+    get code() {
+      return EXCEPTION_CODES[this.name] ?? 0;
+    }
+  }
+  define('DOMException', DOMException);
+
+  const createError = (name, message) => {
+    const ErrorType = ERRORS[name];
+    return ErrorType ? new ErrorType(message) : new DOMException(message, name);
+  };
+
+  // Bytes travel to and from the host as binary strings, one character per byte
+  const toBinary = (bytes) => {
+    let binary = '';
+    for (let index = 0; index < bytes.length; index += 0x8000) {
+      binary += apply(fromCharCode, null, bytes.subarray(index, index + 0x8000));
+    }
+    return binary;
+  };
+  const fromBinary = (binary) => {
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index);
+    return bytes;
+  };
+  // The bytes of an ArrayBuffer or a view on one, without copying them
+  const viewOf = (data, method) => {
+    if (data instanceof ArrayBuffer) return new Uint8Array(data);
+    if (isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    throw new TypeError(method + ': The provided value is not of type (ArrayBuffer or ArrayBufferView)');
+  };
+  const encodeText = (text) => fromBinary(host('encodeText', text));
+  const decodeText = (bytes) => host('decodeText', 0, 'utf-8', false, false, toBinary(bytes), false);
+
+  // console
+
+  const sandboxConsole = {};
+  const CONSOLE_METHODS = [
+    'log', 'error', 'warn', 'info', 'debug', 'table', 'dir', 'trace', 'assert', 'group', 'groupCollapsed',
+    'groupEnd', 'time', 'timeLog', 'timeEnd', 'count', 'countReset'
+  ];
+  for (const method of CONSOLE_METHODS) {
+    sandboxConsole[method] = { [method](...args) { host('console', method, args); } }[method];
+  }
+  define('console', sandboxConsole);
+
+  // Timers and microtasks. The host runs callbacks through the callback
+  // global, so they are called from inside the context.
+
+  const setTimeout = function setTimeout(callback, delay, ...args) {
+    return host('setTimer', callback, delay, args, false);
+  };
+  const clearTimeout = function clearTimeout(id) {
+    host('clearTimer', id);
+  };
+  define('setTimeout', setTimeout);
+  define('clearTimeout', clearTimeout);
+  define('setInterval', function setInterval(callback, delay, ...args) {
+    return host('setTimer', callback, delay, args, true);
+  });
+  define('clearInterval', function clearInterval(id) {
+    host('clearTimer', id);
+  });
+  define('queueMicrotask', function queueMicrotask(callback) {
+    if (typeof callback !== 'function') {
+      throw new TypeError('The "callback" argument must be of type function. Received ' + typeof callback);
+    }
+    host('queueMicrotask', callback);
+  });
+  const reportError = function reportError(error) {
+    host('reportError', error);
+  };
+  define('reportError', reportError);
+
+  let armed = null;
+  defineProperty(global, '${CALLBACK_FUNCTION}', {
+    value: function () {
+      const call = armed;
+      armed = null;
+      if (call) apply(call.callback, undefined, call.args === undefined ? [] : call.args);
+    }
+  });
+
+  // Base64
+
+  define('atob', function atob(data) {
+    return host('atob', String(data));
+  });
+  define('btoa', function btoa(data) {
+    return host('btoa', String(data));
+  });
+
+  // Encoding
+
+  class TextEncoder {
+    get encoding() {
+      return 'utf-8';
+    }
+    encode(input = '') {
+      return encodeText(String(input));
+    }
+    encodeInto(source, destination) {
+      source = String(source);
+      if (!(destination instanceof Uint8Array)) {
+        throw new TypeError('The "dest" argument must be an instance of Uint8Array.');
+      }
+      let read = 0;
+      let written = 0;
+      for (const char of source) {
+        const code = char.codePointAt(0);
+        const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+        if (written + size > destination.length) break;
+        read += char.length;
+        written += size;
+      }
+      destination.set(encodeText(source.slice(0, read)));
+      return { read, written };
+    }
+  }
+  define('TextEncoder', TextEncoder);
+
+  // Decoders in the middle of a stream keep their state on the host
+  let nextDecoder = 1;
+  class TextDecoder {
+    #id = nextDecoder++;
+    #encoding;
+    #fatal;
+    #ignoreBOM;
+    constructor(label = 'utf-8', options = {}) {
+      this.#encoding = host('textEncoding', String(label));
+      this.#fatal = Boolean(options?.fatal);
+      this.#ignoreBOM = Boolean(options?.ignoreBOM);
+    }
+    get encoding() {
+      return this.#encoding;
+    }
+    get fatal() {
+      return this.#fatal;
+    }
+    get ignoreBOM() {
+      return this.#ignoreBOM;
+    }
+    decode(input, options = {}) {
+      const bytes = input === undefined ? new Uint8Array(0) : viewOf(input, "Failed to execute 'decode' on 'TextDecoder'");
+      return host('decodeText', this.#id, this.#encoding, this.#fatal, this.#ignoreBOM, toBinary(bytes), Boolean(options?.stream));
+    }
+  }
+  define('TextDecoder', TextDecoder);
+
+  // AbortController and AbortSignal
+
+  const CONSTRUCT_SIGNAL = Symbol('AbortSignal');
+  let abortSignal;
+
+  class AbortSignal {
+    #aborted = false;
+    #reason = undefined;
+    #listeners = [];
+    onabort = null;
+    constructor(key) {
+      if (key !== CONSTRUCT_SIGNAL) throw new TypeError('Illegal constructor');
+    }
+    get aborted() {
+      return this.#aborted;
+    }
+    get reason() {
+      return this.#reason;
+    }
+    throwIfAborted() {
+      if (this.#aborted) throw this.#reason;
+    }
+    addEventListener(type, listener) {
+      if (String(type) !== 'abort' || !listener || this.#listeners.includes(listener)) return;
+      this.#listeners.push(listener);
+    }
+    removeEventListener(type, listener) {
+      if (String(type) !== 'abort') return;
+      this.#listeners = this.#listeners.filter(entry => entry !== listener);
+    }
+    get [Symbol.toStringTag]() {
+      return 'AbortSignal';
+    }
+    static abort(reason) {
+      const signal = new AbortSignal(CONSTRUCT_SIGNAL);
+      abortSignal(signal, reason);
+      return signal;
+    }
+    static timeout(delay) {
+      const signal = new AbortSignal(CONSTRUCT_SIGNAL);
+      host('setBackgroundTimer', () => {
+        abortSignal(signal, new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+      }, delay);
+      return signal;
+    }
+    static any(signals) {
+      const signal = new AbortSignal(CONSTRUCT_SIGNAL);
+      const sources = Array.from(signals);
+      const aborted = sources.find(source => source.aborted);
+      if (aborted) {
+        abortSignal(signal, aborted.reason);
+        return signal;
+      }
+      for (const source of sources) {
+        source.addEventListener('abort', () => abortSignal(signal, source.reason));
+      }
+      return signal;
+    }
+    static {
+      abortSignal = (signal, reason) => {
+        if (signal.#aborted) return;
+        signal.#aborted = true;
+        signal.#reason = reason === undefined ? new DOMException('This operation was aborted', 'AbortError') : reason;
+
+        const event = { type: 'abort', target: signal, currentTarget: signal };
+        const listeners = signal.#listeners;
+        signal.#listeners = [];
+        if (typeof signal.onabort === 'function') listeners.unshift(signal.onabort);
+        for (const listener of listeners) {
+          try {
+            if (typeof listener === 'function') {
+              apply(listener, signal, [event]);
+            } else if (typeof listener.handleEvent === 'function') {
+              listener.handleEvent(event);
+            }
+          } catch (error) {
+            reportError(error);
+          }
+        }
+      };
+    }
+  }
+  define('AbortSignal', AbortSignal);
+
+  class AbortController {
+    #signal = new AbortSignal(CONSTRUCT_SIGNAL);
+    get signal() {
+      return this.#signal;
+    }
+    abort(reason) {
+      abortSignal(this.#signal, reason);
+    }
+  }
+  define('AbortController', AbortController);
+
+  // URL and URLSearchParams, parsed by the host
+
+  const parseURL = (url, base) => parseJSON(host('parseURL', url, base));
+  const updateURL = (href, part, value) => parseJSON(host('updateURL', href, part, value));
+  const parseQuery = (query) => parseJSON(host('parseQuery', query));
+  const serializeQuery = (list) => host('serializeQuery', stringify(list));
+
+  let replaceQuery;
+  let watchQuery;
+
+  class URLSearchParams {
+    #list = [];
+    #onChange = null;
+    constructor(init) {
+      if (init === undefined || init === null) return;
+      if (typeof init !== 'object' && typeof init !== 'function') {
+        this.#list = parseQuery(String(init));
+      } else if (init instanceof URLSearchParams) {
+        this.#list = init.#list.map(pair => [pair[0], pair[1]]);
+      } else if (typeof init[Symbol.iterator] === 'function') {
+        for (const pair of init) {
+          const entry = Array.from(pair);
+          if (entry.length !== 2) {
+            throw new TypeError("Failed to construct 'URLSearchParams': Sequence initializer must only contain pair elements");
+          }
+          this.#list.push([String(entry[0]), String(entry[1])]);
+        }
+      } else {
+        for (const name of Object.keys(init)) this.#list.push([name, String(init[name])]);
+      }
+    }
+    get size() {
+      return this.#list.length;
+    }
+    append(name, value) {
+      this.#list.push([String(name), String(value)]);
+      this.#update();
+    }
+    delete(name, value) {
+      name = String(name);
+      this.#list = this.#list.filter(pair => pair[0] !== name || (value !== undefined && pair[1] !== String(value)));
+      this.#update();
+    }
+    get(name) {
+      name = String(name);
+      const pair = this.#list.find(entry => entry[0] === name);
+      return pair ? pair[1] : null;
+    }
+    getAll(name) {
+      name = String(name);
+      return this.#list.filter(pair => pair[0] === name).map(pair => pair[1]);
+    }
+    has(name, value) {
+      name = String(name);
+      return this.#list.some(pair => pair[0] === name && (value === undefined || pair[1] === String(value)));
+    }
+    set(name, value) {
+      name = String(name);
+      value = String(value);
+      const index = this.#list.findIndex(pair => pair[0] === name);
+      if (index === -1) {
+        this.#list.push([name, value]);
+      } else {
+        this.#list = this.#list.filter((pair, position) => position <= index || pair[0] !== name);
+        this.#list[index] = [name, value];
+      }
+      this.#update();
+    }
+    sort() {
+      this.#list.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+      this.#update();
+    }
+    forEach(callback, thisArg) {
+      for (const [name, value] of this.#list.slice()) apply(callback, thisArg, [value, name, this]);
+    }
+    *entries() {
+      for (let index = 0; index < this.#list.length; index++) yield [this.#list[index][0], this.#list[index][1]];
+    }
+    *keys() {
+      for (const [name] of this.entries()) yield name;
+    }
+    *values() {
+      for (const [, value] of this.entries()) yield value;
+    }
+    [Symbol.iterator]() {
+      return this.entries();
+    }
+    toString() {
+      return serializeQuery(this.#list);
+    }
+    get [Symbol.toStringTag]() {
+      return 'URLSearchParams';
+    }
+    #update() {
+      if (this.#onChange) this.#onChange(this.toString());
+    }
+    static {
+      replaceQuery = (params, query) => {
+        params.#list = parseQuery(query);
+      };
+      watchQuery = (params, onChange) => {
+        params.#onChange = onChange;
+      };
+    }
+  }
+  define('URLSearchParams', URLSearchParams);
+
+  let updatePart;
+  let readPart;
+
+  class URL {
+    #parts;
+    #searchParams;
+    constructor(url, base) {
+      this.#parts = parseURL(String(url), base === undefined ? undefined : String(base));
+      this.#searchParams = new URLSearchParams(this.#parts.search);
+      watchQuery(this.#searchParams, (query) => {
+        this.#parts = updateURL(this.#parts.href, 'search', query);
+      });
+    }
+    static canParse(url, base) {
+      try {
+        new URL(url, base);
+        return true;
+      } catch {
+        return false;
+      }
+    }
+    static parse(url, base) {
+      try {
+        return new URL(url, base);
+      } catch {
+        return null;
+      }
+    }
+    get href() {
+      return this.#parts.href;
+    }
+    set href(value) {
+      this.#parts = parseURL(String(value));
+      replaceQuery(this.#searchParams, this.#parts.search);
+    }
+    get origin() {
+      return this.#parts.origin;
+    }
+    get search() {
+      return this.#parts.search;
+    }
+    set search(value) {
+      this.#parts = updateURL(this.#parts.href, 'search', String(value));
+      replaceQuery(this.#searchParams, this.#parts.search);
+    }
+    get searchParams() {
+      return this.#searchParams;
+    }
+    toString() {
+      return this.#parts.href;
+    }
+    toJSON() {
+      return this.#parts.href;
+    }
+    get [Symbol.toStringTag]() {
+      return 'URL';
+    }
+    static {
+      readPart = (url, part) => url.#parts[part];
+      updatePart = (url, part, value) => {
+        url.#parts = updateURL(url.#parts.href, part, String(value));
+      };
+    }
+  }
+  for (const part of ['protocol', 'username', 'password', 'host', 'hostname', 'port', 'pathname', 'hash']) {
+    defineProperty(URL.prototype, part, {
+      get() {
+        return readPart(this, part);
+      },
+      set(value) {
+        updatePart(this, part, value);
+      },
+      configurable: true
+    });
+  }
+  define('URL', URL);
+
+  // Headers, Request, Response and fetch
+
+  const HEADER_NAME = /^[!#$%&'*+\-.^_\x60|~0-9A-Za-z]+$/;
+  const headerName = (name) => {
+    name = String(name);
+    if (!HEADER_NAME.test(name)) throw new TypeError('Header name must be a valid HTTP token ["' + name + '"]');
+    return name.toLowerCase();
+  };
+  const headerValue = (value) => String(value).replace(/^[\t\n\r ]+|[\t\n\r ]+$/g, '');
+
+  class Headers {
+    #entries = [];
+    constructor(init) {
+      if (init === undefined) return;
+      if (init === null || (typeof init !== 'object' && typeof init !== 'function')) {
+        throw new TypeError("Failed to construct 'Headers': The provided value is not of type 'HeadersInit'");
+      }
+      if (init instanceof Headers) {
+        this.#entries = init.#entries.map(entry => [entry[0], entry[1]]);
+      } else if (typeof init[Symbol.iterator] === 'function') {
+        for (const pair of init) {
+          const entry = Array.from(pair);
+          if (entry.length !== 2) throw new TypeError("Failed to construct 'Headers': Invalid value");
+          this.append(entry[0], entry[1]);
+        }
+      } else {
+        for (const name of Object.keys(init)) this.append(name, init[name]);
+      }
+    }
+    append(name, value) {
+      this.#entries.push([headerName(name), headerValue(value)]);
+    }
+    delete(name) {
+      name = headerName(name);
+      this.#entries = this.#entries.filter(entry => entry[0] !== name);
+    }
+    get(name) {
+      name = headerName(name);
+      const values = this.#entries.filter(entry => entry[0] === name).map(entry => entry[1]);
+      return values.length > 0 ? values.join(', ') : null;
+    }
+    getSetCookie() {
+      return this.#entries.filter(entry => entry[0] === 'set-cookie').map(entry => entry[1]);
+    }
+    has(name) {
+      name = headerName(name);
+      return this.#entries.some(entry => entry[0] === name);
+    }
+    set(name, value) {
+      name = headerName(name);
+      value = headerValue(value);
+      const index = this.#entries.findIndex(entry => entry[0] === name);
+      if (index === -1) {
+        this.#entries.push([name, value]);
+      } else {
+        this.#entries = this.#entries.filter((entry, position) => position <= index || entry[0] !== name);
+        this.#entries[index] = [name, value];
+      }
+    }
+    forEach(callback, thisArg) {
+      for (const [name, value] of this.entries()) apply(callback, thisArg, [value, name, this]);
+    }
+    // Sorted by name, with values of the same name combined, except cookies
+    *entries() {
+      const names = Array.from(new Set(this.#entries.map(entry => entry[0]))).sort();
+      for (const name of names) {
+        if (name === 'set-cookie') {
+          for (const value of this.getSetCookie()) yield [name, value];
+        } else {
+          yield [name, this.get(name)];
+        }
+      }
+    }
+    *keys() {
+      for (const [name] of this.entries()) yield name;
+    }
+    *values() {
+      for (const [, value] of this.entries()) yield value;
+    }
+    [Symbol.iterator]() {
+      return this.entries();
+    }
+    get [Symbol.toStringTag]() {
+      return 'Headers';
+    }
+  }
+  define('Headers', Headers);
+
+  // The bytes and default content type of a request or response body
+  const extractBody = (body) => {
+    if (body === null || body === undefined) return { bytes: null, type: null };
+    if (body instanceof URLSearchParams) {
+      return { bytes: encodeText(body.toString()), type: 'application/x-www-form-urlencoded;charset=UTF-8' };
+    }
+    if (body instanceof ArrayBuffer || isView(body)) return { bytes: viewOf(body).slice(), type: null };
+    return { bytes: encodeText(String(body)), type: 'text/plain;charset=UTF-8' };
+  };
+
+  let bodyBytes;
+  let replaceBody;
+
+  class Body {
+    #bytes;
+    #used = false;
+    constructor(bytes) {
+      this.#bytes = bytes;
+    }
+    get bodyUsed() {
+      return this.#used;
+    }
+    // Promise.resolve() rather than an async method, so reading a body adds
+    // no promise reactions of its own to the event loop
+    #read(convert) {
+      try {
+        if (this.#used) throw new TypeError('Body is unusable: Body has already been read');
+        const bytes = this.#bytes ?? new Uint8Array(0);
+        if (this.#bytes !== null) this.#used = true;
+        return Promise.resolve(convert(bytes));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+    arrayBuffer() {
+      return this.#read(bytes => bytes.slice().buffer);
+    }
+    bytes() {
+      return this.#read(bytes => bytes.slice());
+    }
+    text() {
+      return this.#read(decodeText);
+    }
+    json() {
+      return this.#read(bytes => parseJSON(decodeText(bytes)));
+    }
+    static {
+      bodyBytes = (body) => {
+        if (body.#used) throw new TypeError('Body is unusable: Body has already been read');
+        return body.#bytes === null ? null : body.#bytes.slice();
+      };
+      replaceBody = (body, bytes) => {
+        body.#bytes = bytes;
+      };
+    }
+  }
+
+  const KNOWN_METHODS = ['DELETE', 'GET', 'HEAD', 'OPTIONS', 'PATCH', 'POST', 'PUT'];
+  const REDIRECT_MODES = ['follow', 'error', 'manual'];
+
+  class Request extends Body {
+    #url;
+    #method;
+    #headers;
+    #signal;
+    #redirect;
+    constructor(input, init) {
+      init = init ?? {};
+      const source = input instanceof Request ? input : null;
+      let url;
+      if (source) {
+        url = source.url;
+      } else {
+        try {
+          url = new URL(String(input)).href;
+        } catch {
+          throw new TypeError('Failed to parse URL from ' + String(input));
+        }
+      }
+
+      let method = init.method !== undefined ? String(init.method) : source ? source.method : 'GET';
+      if (KNOWN_METHODS.includes(method.toUpperCase())) method = method.toUpperCase();
+      const headers = new Headers(init.headers !== undefined ? init.headers : source?.headers);
+      const body = init.body !== undefined && init.body !== null
+        ? extractBody(init.body)
+        : { bytes: source ? bodyBytes(source) : null, type: null };
+      if (body.bytes !== null && (method === 'GET' || method === 'HEAD')) {
+        throw new TypeError("Failed to construct 'Request': Request with GET/HEAD method cannot have body.");
+      }
+      const signal = init.signal ?? source?.signal ?? new AbortController().signal;
+      if (!(signal instanceof AbortSignal)) {
+        throw new TypeError("Failed to construct 'Request': member signal is not of type AbortSignal.");
+      }
+      const redirect = init.redirect !== undefined ? String(init.redirect) : source ? source.redirect : 'follow';
+      if (!REDIRECT_MODES.includes(redirect)) {
+        throw new TypeError("Failed to construct 'Request': The provided value '" + redirect + "' is not a valid enum value of type RequestRedirect.");
+      }
+
+      super(body.bytes);
+      if (body.type !== null && !headers.has('content-type')) headers.set('content-type', body.type);
+      this.#url = url;
+      this.#method = method;
+      this.#headers = headers;
+      this.#signal = signal;
+      this.#redirect = redirect;
+    }
+    get url() {
+      return this.#url;
+    }
+    get method() {
+      return this.#method;
+    }
+    get headers() {
+      return this.#headers;
+    }
+    get signal() {
+      return this.#signal;
+    }
+    get redirect() {
+      return this.#redirect;
+    }
+    clone() {
+      return new Request(this);
+    }
+    get [Symbol.toStringTag]() {
+      return 'Request';
+    }
+  }
+  define('Request', Request);
+
+  const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+  let createResponse;
+
+  class Response extends Body {
+    #status = 200;
+    #statusText = '';
+    #headers;
+    #type = 'default';
+    #url = '';
+    #redirected = false;
+    constructor(body = null, init) {
+      init = init ?? {};
+      const status = init.status !== undefined ? Number(init.status) : 200;
+      if (!Number.isInteger(status) || status < 200 || status > 599) {
+        throw new RangeError("Failed to construct 'Response': The status provided (" + status + ') is outside the range [200, 599].');
+      }
+      const headers = new Headers(init.headers);
+      const extracted = extractBody(body);
+      if (extracted.bytes !== null && NULL_BODY_STATUSES.includes(status)) {
+        throw new TypeError("Failed to construct 'Response': Response with null body status cannot have body");
+      }
+
+      super(extracted.bytes);
+      if (extracted.type !== null && !headers.has('content-type')) headers.set('content-type', extracted.type);
+      this.#status = status;
+      this.#statusText = init.statusText !== undefined ? String(init.statusText) : '';
+      this.#headers = headers;
+    }
+    get status() {
+      return this.#status;
+    }
+    get statusText() {
+      return this.#statusText;
+    }
+    get ok() {
+      return this.#status >= 200 && this.#status <= 299;
+    }
+    get headers() {
+      return this.#headers;
+    }
+    get type() {
+      return this.#type;
+    }
+    get url() {
+      return this.#url;
+    }
+    get redirected() {
+      return this.#redirected;
+    }
+    clone() {
+      return createResponse(bodyBytes(this), {
+        status: this.#status,
+        statusText: this.#statusText,
+        headers: new Headers(this.#headers),
+        type: this.#type,
+        url: this.#url,
+        redirected: this.#redirected
+      });
+    }
+    get [Symbol.toStringTag]() {
+      return 'Response';
+    }
+    static error() {
+      return createResponse(null, { status: 0, statusText: '', headers: new Headers(), type: 'error', url: '', redirected: false });
+    }
+    static json(data, init) {
+      const text = stringify(data);
+      if (text === undefined) throw new TypeError("Failed to execute 'json' on 'Response': The data is not JSON serializable");
+      const headers = new Headers(init?.headers);
+      if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+      return new Response(text, { status: init?.status, statusText: init?.statusText, headers });
+    }
+    static redirect(url, status = 302) {
+      if (![301, 302, 303, 307, 308].includes(status)) {
+        throw new RangeError("Failed to execute 'redirect' on 'Response': Invalid status code");
+      }
+      const headers = new Headers({ location: new URL(String(url)).href });
+      return createResponse(null, { status, statusText: '', headers, type: 'default', url: '', redirected: false });
+    }
+    // Responses the constructor refuses, such as those of the network
+    static {
+      createResponse = (bytes, fields) => {
+        const response = new Response();
+        replaceBody(response, bytes);
+        response.#status = fields.status;
+        response.#statusText = fields.statusText;
+        response.#headers = fields.headers;
+        response.#type = fields.type;
+        response.#url = fields.url;
+        response.#redirected = fields.redirected;
+        return response;
+      };
+    }
+  }
+  define('Response', Response);
+
+  // Requests in flight, until the host settles them
+  const fetches = new Map();
+
+  define('fetch', function fetch(input, init) {
+    return new Promise((resolve, reject) => {
+      const request = new Request(input, init);
+      const { signal } = request;
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const body = bodyBytes(request);
+      const id = host(
+        'fetch',
+        request.url,
+        request.method,
+        stringify(Array.from(request.headers)),
+        body === null ? null : toBinary(body),
+        request.redirect
+      );
+      const abort = () => {
+        if (!fetches.delete(id)) return;
+        host('abortFetch', id);
+        reject(signal.reason);
+      };
+      fetches.set(id, { resolve, reject, signal, abort });
+      signal.addEventListener('abort', abort);
+    });
+  });
+
+  // structuredClone
+
+  define('structuredClone', function structuredClone(value) {
+    const clones = new Map();
+    const uncloneable = (input) => new DOMException(
+      (typeof input === 'function' ? String(input) : '#<' + apply(toTag, input, []).slice(8, -1) + '>') + ' could not be cloned.',
+      'DataCloneError'
+    );
+
+    const clone = (input) => {
+      if (typeof input === 'symbol' || typeof input === 'function') throw uncloneable(input);
+      if (input === null || typeof input !== 'object') return input;
+      if (clones.has(input)) return clones.get(input);
+
+      let output;
+      if (isArray(input)) {
+        output = new Array(input.length);
+        clones.set(input, output);
+        for (const key of Object.keys(input)) output[key] = clone(input[key]);
+        return output;
+      }
+      if (input instanceof Map) {
+        output = new Map();
+        clones.set(input, output);
+        for (const [key, entry] of input) output.set(clone(key), clone(entry));
+        return output;
+      }
+      if (input instanceof Set) {
+        output = new Set();
+        clones.set(input, output);
+        for (const entry of input) output.add(clone(entry));
+        return output;
+      }
+
+      if (input instanceof Date) {
+        output = new Date(input.getTime());
+      } else if (input instanceof RegExp) {
+        output = new RegExp(input.source, input.flags);
+      } else if (input instanceof ArrayBuffer) {
+        output = input.slice(0);
+      } else if (isView(input)) {
+        const buffer = clone(input.buffer);
+        output = input instanceof DataView
+          ? new DataView(buffer, input.byteOffset, input.byteLength)
+          : new input.constructor(buffer, input.byteOffset, input.length);
+      } else if (input instanceof Error) {
+        output = new (ERRORS[input.name] ?? Error)(input.message);
+        if (typeof input.stack === 'string') output.stack = input.stack;
+        if ('cause' in input) output.cause = clone(input.cause);
+      } else if (input instanceof Boolean || input instanceof Number || input instanceof String || input instanceof BigInt) {
+        output = Object(input.valueOf());
+      } else if (input instanceof WeakMap || input instanceof WeakSet || input instanceof WeakRef || input instanceof Promise) {
+        throw uncloneable(input);
+      } else {
+        output = {};
+        clones.set(input, output);
+        for (const key of Object.keys(input)) output[key] = clone(input[key]);
+        return output;
+      }
+      clones.set(input, output);
+      return output;
+    };
+    return clone(value);
+  });
+
+  // crypto
+
+  let seededRandom = null;
+  const randomBytes = (length) => {
+    if (!seededRandom) return fromBinary(host('randomBytes', length));
+    const bytes = new Uint8Array(length);
+    for (let index = 0; index < length; index++) bytes[index] = floor(seededRandom() * 256);
+    return bytes;
+  };
+
+  define('crypto', {
+    getRandomValues(array) {
+      if (!isView(array) || array instanceof DataView || array instanceof Float32Array || array instanceof Float64Array) {
+        throw new DOMException("Failed to execute 'getRandomValues' on 'Crypto': The provided ArrayBufferView is not an integer array type", 'TypeMismatchError');
+      }
+      if (array.byteLength > ${MAX_RANDOM_BYTES}) {
+        throw new DOMException(
+          "Failed to execute 'getRandomValues' on 'Crypto': The ArrayBufferView's byte length (" + array.byteLength + ') exceeds the number of bytes of entropy available via this API (${MAX_RANDOM_BYTES}).',
+          'QuotaExceededError'
+        );
+      }
+      new Uint8Array(array.buffer, array.byteOffset, array.byteLength).set(randomBytes(array.byteLength));
+      return array;
+    },
+    randomUUID() {
+      const bytes = randomBytes(16);
+      // Version 4, variant 1, as crypto.randomUUID() produces
+      bytes[6] = (bytes[6] & 0x0f) | 0x40;
+      bytes[8] = (bytes[8] & 0x3f) | 0x80;
+      const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+      return hex.slice(0, 8) + '-' + hex.slice(8, 12) + '-' + hex.slice(12, 16) + '-' + hex.slice(16, 20) + '-' + hex.slice(20);
+    }
+  });
+
+  return {
+    arm(callback, args) {
+      armed = { callback, args };
+    },
+    adopt(value, id) {
+      try {
+        value.then(
+          (result) => { host('settle', id, true, result); },
+          (error) => { host('settle', id, false, error); }
+        );
+      } catch (error) {
+        host('settle', id, false, error);
+      }
+    },
+    settleFetch(id, status, statusText, headers, url, redirected, body) {
+      const pending = fetches.get(id);
+      if (!pending) return;
+      fetches.delete(id);
+      pending.signal.removeEventListener('abort', pending.abort);
+      pending.resolve(createResponse(body === null ? null : fromBinary(body), {
+        status, statusText, headers: new Headers(parseJSON(headers)), type: 'basic', url, redirected
+      }));
+    },
+    failFetch(id, name, message) {
+      const pending = fetches.get(id);
+      if (!pending) return;
+      fetches.delete(id);
+      pending.signal.removeEventListener('abort', pending.abort);
+      pending.reject(createError(name, message));
+    },
+    createError,
+    raise(name, message) {
+      throw createError(name, message);
+    },
+    now: function now() {
+      return host('now');
+    },
+    useRandom(random) {
+      seededRandom = random;
+    },
+    channel(op) {
+      return (...args) => host(op, ...args);
+    }
+  };
+})`;
+
+function describeURL(url: URL): string {
+  return JSON.stringify(Object.fromEntries(URL_PARTS.map(part => [part, url[part]])));
+}
+
+// Operations of the web globals, which need nothing from the worker
+function createWebOperations(): SandboxHandlers {
+  // Decoders of streams that have not ended yet, by the id of the TextDecoder
+  const decoders = new Map<number, TextDecoder>();
+
+  return {
+    atob: (data: unknown) => atob(String(data)),
+    btoa: (data: unknown) => btoa(String(data)),
+    encodeText: (text: unknown) => Buffer.from(String(text), 'utf8').toString('latin1'),
+    textEncoding: (label: unknown) => new TextDecoder(String(label)).encoding,
+    decodeText: (id: unknown, encoding: unknown, fatal: unknown, ignoreBOM: unknown, bytes: unknown, stream: unknown) => {
+      const key = Number(id);
+      const decoder = decoders.get(key) ?? new TextDecoder(String(encoding), { fatal: Boolean(fatal), ignoreBOM: Boolean(ignoreBOM) });
+      if (stream) {
+        decoders.set(key, decoder);
+      } else {
+        decoders.delete(key);
+      }
+      return decoder.decode(Buffer.from(String(bytes), 'latin1'), { stream: Boolean(stream) });
+    },
+    randomBytes: (length: unknown) => randomBytes(Math.min(Math.max(Number(length) || 0, 0), MAX_RANDOM_BYTES)).toString('latin1'),
+    parseURL: (url: unknown, base: unknown) => describeURL(new URL(String(url), base === undefined ? undefined : String(base))),
+    updateURL: (href: unknown, part: unknown, value: unknown) => {
+      const url = new URL(String(href));
+      if (part !== 'origin' && URL_PARTS.includes(part as typeof URL_PARTS[number])) {
+        (url as any)[part as string] = String(value);
+      }
+      return describeURL(url);
+    },
+    parseQuery: (query: unknown) => JSON.stringify(Array.from(new URLSearchParams(String(query)))),
+    serializeQuery: (list: unknown) => new URLSearchParams(JSON.parse(String(list))).toString()
+  };
+}
+
+/**
+ * Copy a list handed over by the context, reading nothing but its length and
+ * indexes
+ */
+export function toList(value: unknown): unknown[] {
+  if (!Array.isArray(value)) return [];
+  const list = value;
+  return Array.from({ length: list.length }, (_, index) => list[index]);
+}
+
+/**
+ * Create the context user code runs in, with the globals of a browser built
+ * inside it. The context has no prototype and only the language's own
+ * builtins, so nothing in it leads back to the host's realm: console, timers,
+ * fetch and the other web APIs are classes and functions of the context that
+ * call handlers on the host through a single function they keep to themselves.
+ * @param handlers Host operations of the worker, such as console and timers
+ */
+export function createSandboxContext(handlers: SandboxHandlers): { context: vm.Context; internals: SandboxInternals } {
+  // A contextified object with a prototype would hand the host's Object to
+  // any code that reads this.constructor at the top level
+  const context = vm.createContext(Object.create(null));
+  const ContextObject: ObjectConstructor = vm.runInContext('Object', context);
+  const operations: SandboxHandlers = { ...createWebOperations(), ...handlers };
+  let raise: (name: string, message: string) => never;
+
+  const host = (op: unknown, ...args: unknown[]) => {
+    const operation = typeof op === 'string' && Object.hasOwn(operations, op) ? operations[op] : undefined;
+    if (!operation) return undefined;
+    try {
+      const result = operation(...args);
+      return result !== null && (typeof result === 'object' || typeof result === 'function') ? undefined : result;
+    } catch (error: any) {
+      // Errors of the context, such as one thrown by a getter, go back as
+      // they are; errors of the host are rebuilt from their name and message
+      if (error === null || (typeof error !== 'object' && typeof error !== 'function') || error instanceof ContextObject) {
+        throw error;
+      }
+      raise(String(error.name ?? 'Error'), String(error.message ?? ''));
+    }
+  };
+
+  const internals = vm.runInContext(BOOTSTRAP, context, { filename: SANDBOX_FILE })(host);
+  raise = internals.raise;
+  return { context, internals };
+}
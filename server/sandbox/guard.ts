@@ -0,0 +1,200 @@
+import type * as acorn from "acorn";
+import * as walk from "acorn-walk";
+import type { TraceMap } from "@jridgewell/trace-mapping";
+import { applyInsertions, type Insertion } from "./instrument";
+import { toOriginalFileLocation } from "./transform";
+import { GUARD_OBJECT, type GuardLimits, type GuardViolation, type SandboxError } from "./protocol";
+
+export type { GuardLimits } from "./protocol";
+
+// A loop or function the guard watches, positioned in the code it was given
+interface GuardSite {
+  kind: 'loop' | 'function';
+  line: number;
+  column: number;
+  // Name of a function, when it has or is assigned one
+  name: string | null;
+}
+
+export interface GuardedCode {
+  code: string;
+  sites: GuardSite[];
+  // Translates a 1-based column of the guarded code back to the code it was made from
+  mapColumn: (line: number, column: number) => number;
+  // Translates a 1-based column of the code it was made from to the guarded code
+  generatedColumn: (line: number, column: number) => number;
+}
+
+type Loop = acorn.ForStatement | acorn.ForInStatement | acorn.ForOfStatement | acorn.WhileStatement | acorn.DoWhileStatement;
+
+const LOOP_TYPES = new Set(['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement']);
+
+/**
+ * Tell whether a loop awaits outside nested functions. Such a loop yields
+ * to the event loop, so the time it takes is not spent blocking it.
+ */
+function awaits(loop: acorn.Node): boolean {
+  let found = false;
+  walk.recursive(loop, null, {
+    Function() {},
+    AwaitExpression() {
+      found = true;
+    },
+    ForOfStatement(node, state, visit) {
+      if (node.await) found = true;
+      walk.base.ForOfStatement!(node, state, visit);
+    }
+  });
+  return found;
+}
+
+// The name a function is known by in stack traces
+function functionName(node: acorn.Function, parent: acorn.Node | undefined): string | null {
+  if (node.id) return node.id.name;
+  if (!parent) return null;
+
+  const target = parent.type === 'VariableDeclarator' ? (parent as acorn.VariableDeclarator).id
+    : parent.type === 'AssignmentExpression' ? (parent as acorn.AssignmentExpression).left
+    : parent.type === 'Property' || parent.type === 'MethodDefinition' || parent.type === 'PropertyDefinition'
+      ? (parent as acorn.Property).key
+      : null;
+  return target?.type === 'Identifier' ? target.name : null;
+}
+
+/**
+ * Rewrite code so loops count their iterations and synchronous functions
+ * count how deeply they are nested, both through the guard object the worker
+ * provides. Every loop gets a tick function from the guard when it starts,
+ * which its body calls once per iteration. Line numbers are kept, so only
+ * columns need mapping back.
+ * @param code Plain JavaScript, as produced by prepareCode
+ * @param ast The program parsed from code, with locations
+ */
+export function guardCode(code: string, ast: acorn.Program): GuardedCode {
+  const sites: GuardSite[] = [];
+  const insertions: Insertion[] = [];
+  const insert = (offset: number, text: string, side: Insertion['side']) => {
+    insertions.push({ offset, text, side, order: insertions.length });
+  };
+
+  // Collected first, so constructs can be rewritten from the outside in and
+  // text opening an outer one comes before text opening an inner one
+  const found: { node: acorn.Node; ancestors: acorn.Node[] }[] = [];
+  const collect = (node: acorn.Node, ancestors: acorn.Node[]) => {
+    found.push({ node, ancestors: [...ancestors] });
+  };
+  walk.ancestor(ast, {
+    ForStatement: collect,
+    ForInStatement: collect,
+    ForOfStatement: collect,
+    WhileStatement: collect,
+    DoWhileStatement: collect,
+    Function: collect
+  });
+  found.sort((a, b) => a.node.start - b.node.start || b.node.end - a.node.end);
+
+  for (const { node, ancestors } of found) {
+    const { line, column } = node.loc!.start;
+
+    if (LOOP_TYPES.has(node.type)) {
+      const loop = node as Loop;
+      const id = sites.push({ kind: 'loop', line, column: column + 1, name: null }) - 1;
+      const tick = `__jsrunner_tick${id}`;
+      const timed = !awaits(loop);
+
+      // Labels have to stay directly in front of their loop
+      let outer: acorn.Node = loop;
+      for (let i = ancestors.length - 2; i >= 0 && ancestors[i].type === 'LabeledStatement'; i--) {
+        outer = ancestors[i];
+      }
+      insert(outer.start, `{const ${tick}=${GUARD_OBJECT}.loop(${id},${timed});`, 'open');
+      insert(outer.end, '}', 'close');
+
+      if (loop.body.type === 'BlockStatement') {
+        insert(loop.body.start + 1, `${tick}();`, 'open');
+      } else {
+        insert(loop.body.start, `{${tick}();`, 'open');
+        insert(loop.body.end, '}', 'close');
+      }
+      continue;
+    }
+
+    // Async functions and generators return before their body is done,
+    // so how deeply they are nested says nothing about recursion
+    const fn = node as acorn.Function;
+    if (fn.async || fn.generator) continue;
+
+    const name = functionName(fn, ancestors[ancestors.length - 2]);
+    const id = sites.push({ kind: 'function', line, column: column + 1, name }) - 1;
+
+    if (fn.body.type === 'BlockStatement') {
+      // Directives such as "use strict" only count at the very start
+      let start = fn.body.start + 1;
+      for (const statement of fn.body.body) {
+        if (statement.type !== 'ExpressionStatement' || statement.directive === undefined) break;
+        start = statement.end;
+      }
+      if (start === fn.body.end - 1) {
+        // Nothing to guard, and both insertions would land on the same offset
+        continue;
+      }
+      insert(start, `${GUARD_OBJECT}.enter(${id});try{`, 'open');
+      insert(fn.body.end - 1, `}finally{${GUARD_OBJECT}.exit()}`, 'close');
+    } else {
+      // An expression body becomes a block returning it. The block starts
+      // right after the arrow, outside any parentheses around the body.
+      const params = fn.params.length > 0 ? fn.params[fn.params.length - 1].end : fn.start;
+      const start = code.indexOf('=>', params) + 2;
+      insert(start, `{${GUARD_OBJECT}.enter(${id});try{return(`, 'open');
+      insert(fn.end, `)}finally{${GUARD_OBJECT}.exit()}}`, 'close');
+    }
+  }
+
+  return { ...applyInsertions(code, insertions), sites };
+}
+
+/**
+ * Turn a violation reported by the worker into the error the run ends with.
+ * The message names the loop or function in the user's code; the location is
+ * in guarded code, like any other error from the worker, so it is mapped back
+ * together with the stack.
+ * @param violation The budget that was exceeded
+ * @param guarded The code that ran
+ * @param sourceMap Maps the code guardCode was given back to the original
+ * @param limits The budgets the run had
+ */
+export function describeViolation(
+  violation: GuardViolation,
+  guarded: GuardedCode,
+  sourceMap: TraceMap | null,
+  limits: GuardLimits
+): SandboxError {
+  const site = guarded.sites[violation.id];
+  const original = toOriginalFileLocation({ line: site.line, column: site.column }, sourceMap);
+  const at = original.line
+    ? ` at line ${original.line}, column ${original.column}${original.file ? ` of ${original.file}` : ''}`
+    : '';
+  const iterations = `${violation.count.toLocaleString('en-US')} iteration${violation.count === 1 ? '' : 's'}`;
+
+  const described = {
+    iterations: {
+      name: 'InfiniteLoopError',
+      message: `Loop${at} was stopped after ${iterations}; it may never end`
+    },
+    time: {
+      name: 'InfiniteLoopError',
+      message: `Loop${at} was stopped after running for ${limits.maxLoopTime}ms (${iterations}); it may never end`
+    },
+    depth: {
+      name: 'RangeError',
+      message: `Maximum call depth of ${limits.maxCallDepth.toLocaleString('en-US')} exceeded in ${site.name ? `function ${site.name}` : 'anonymous function'}${at}`
+    }
+  }[violation.kind];
+
+  return {
+    ...described,
+    stack: `${described.name}: ${described.message}\n${violation.stack.split('\n').slice(1).join('\n')}`,
+    line: site.line,
+    column: guarded.generatedColumn(site.line, site.column)
+  };
+}
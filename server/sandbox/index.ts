@@ -0,0 +1,369 @@
+import { randomInt } from "crypto";
+import type { CallOutcome, ConsoleMessage, GuardLimits, MockApiTarget, PendingWork, SandboxError, SandboxJob, WorkerMessage } from "./protocol";
+import type { Language } from "@shared/schema";
+import type { DeterministicOptions, EventLoopStep, ExecutionStep } from "@shared/execution";
+import type { NetworkPolicy } from "@shared/network";
+import type { DomAction } from "@shared/dom";
+import type { SnippetProject } from "@shared/project";
+import type { FunctionTest } from "@shared/challenge";
+import { prepareCode } from "./transform";
+import { prepareProject } from "./project";
+import { resolveImports } from "./packages";
+import { cleanError, formatFrames, parseStack, type StackContext } from "./stack";
+import { instrumentCode, resolveStep, topLevelNames } from "./instrument";
+import { resolveLoopEvent } from "./eventloop";
+import { describeViolation, guardCode } from "./guard";
+import { attachDebugger, type DebugOptions } from "./inspector";
+import { KILL_GRACE_MS, STARTUP_TIMEOUT_MS, spawnWorker } from "./spawn";
+
+export type { CallOutcome, ConsoleMessage, GuardLimits, MockApiTarget, PendingWork, SandboxError } from "./protocol";
+export { MOCK_SESSION_HEADER } from "./protocol";
+export { checkDomAssertions } from "./dom";
+export type { DebugController, DebugOptions } from "./inspector";
+export { createReplSession, type ReplSession } from "./repl";
+
+export interface TraceOptions {
+  // Steps recorded before the rest of the run goes untraced
+  maxSteps: number;
+  onStep: (step: ExecutionStep) => void;
+  // Called once when the step limit is reached
+  onLimit?: () => void;
+}
+
+export interface EventLoopOptions {
+  // Events recorded before the rest of the run goes untraced
+  maxSteps: number;
+  onStep: (step: EventLoopStep) => void;
+  // Called once when the step limit is reached
+  onLimit?: () => void;
+}
+
+export interface SandboxOptions {
+  // TypeScript is transpiled before it runs; defaults to JavaScript
+  language?: Language;
+  // Files the code can import relatively; the code is the content of the
+  // entry. Projects of several files are bundled into one module.
+  project?: SnippetProject | null;
+  // Wall-clock budget for the whole run in milliseconds, including the time
+  // spent waiting for timers and requests started by the code
+  timeout?: number;
+  // Upper bound applied to every setTimeout delay requested by user code
+  maxTimerDelay?: number;
+  // What fetch may reach: everything, nothing, an allowlist or canned
+  // responses; open when left out
+  network?: NetworkPolicy | null;
+  // The local mock API, which then answers requests to the placeholder API
+  mockApi?: MockApiTarget;
+  // Gives the code a virtual DOM parsed from html, like a browser page. The
+  // actions are performed on it once the code has settled.
+  dom?: { html: string; actions?: DomAction[] };
+  // Calls a function of the code once it has run, as a challenge test does
+  call?: FunctionTest;
+  // Heap limit for the worker running the code
+  memoryLimitMb?: number;
+  // Called for every console call as soon as the worker reports it
+  onConsole?: (entry: ConsoleMessage) => void;
+  // Aborting the signal terminates the worker and ends the run as cancelled
+  signal?: AbortSignal;
+  // Instruments the code to report every statement it executes
+  trace?: TraceOptions;
+  // Reports every change to the call stack and the event loop's queues
+  eventLoop?: EventLoopOptions;
+  // Runs the code under the debugger, which pauses it at breakpoints
+  debug?: DebugOptions;
+  // Seeds Math.random and crypto, freezes Date and fires timers on a virtual
+  // clock without waiting, so the run can be replayed exactly
+  deterministic?: DeterministicOptions;
+  // Budgets that stop runaway loops and recursion with an error naming them.
+  // Plain runs are guarded by default; false turns the guard off. Traced and
+  // debugged runs are never guarded; the latter have debug.maxRunningTime.
+  guard?: Partial<GuardLimits> | false;
+}
+
+export interface SandboxResult {
+  result: any;
+  logs: string[];
+  errors: string[];
+  warnings: string[];
+  infos: string[];
+  error: SandboxError | null;
+  // False when the deadline passed while timers or requests were still pending
+  completed: boolean;
+  cancelled: boolean;
+  pending: PendingWork | null;
+  executionTime: number;
+  // Seed of a deterministic run, which replays it when passed back in
+  seed: number | null;
+  // Final HTML of a run with a virtual DOM, null otherwise
+  dom: string | null;
+  // What the call of a challenge test did; null when there was none or the
+  // code failed before it
+  call: CallOutcome | null;
+}
+
+type SandboxOutcome = Pick<SandboxResult, 'result' | 'error'> &
+  Partial<Pick<SandboxResult, 'completed' | 'cancelled' | 'pending' | 'dom' | 'call'>>;
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_MEMORY_LIMIT_MB = 64;
+// Where the clock of a deterministic run starts unless told otherwise
+const DEFAULT_START_TIME = Date.UTC(2024, 0, 1);
+const DEFAULT_MAX_ITERATIONS = 10_000_000;
+const DEFAULT_MAX_CALL_DEPTH = 10_000;
+// Share of the timeout one loop may block for, so the guard reports it before the vm's timeout does
+const LOOP_TIME_SHARE = 0.8;
+
+/**
+ * Run user code in an isolated worker thread with hard memory and time limits.
+ * After the script body finishes, the run keeps going until every timer and
+ * request it started has settled or the timeout passes. The worker is always
+ * terminated afterwards, so loops left behind by the user cannot outlive the
+ * request. Imported packages are served from the offline package cache.
+ * @param code The JavaScript code to execute
+ * @param options Limits and hooks for this run
+ * @returns Console output, the completion value and any error raised
+ */
+export async function runInSandbox(code: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+
+  const logs: string[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const infos: string[] = [];
+  const buckets = { log: logs, error: errors, warn: warnings, info: infos, debug: logs, table: logs };
+  const deterministic = options.deterministic && {
+    seed: options.deterministic.seed ?? randomInt(2 ** 32),
+    startTime: options.deterministic.startTime ?? DEFAULT_START_TIME
+  };
+  const seed = deterministic?.seed ?? null;
+
+  // Syntax errors and missing packages are reported without spinning up a worker
+  const project = options.project && options.project.files.length > 1 ? options.project : null;
+  const prepared = project
+    ? await prepareProject(code, project, options.language)
+    : await prepareCode(code, options.language);
+  const resolved = prepared.ok ? await resolveImports(prepared.imports) : prepared;
+  if (!prepared.ok || !resolved.ok) {
+    return {
+      result: null,
+      logs,
+      errors,
+      warnings,
+      infos,
+      error: resolved.ok ? null : resolved.error,
+      completed: true,
+      cancelled: false,
+      pending: null,
+      executionTime: 0,
+      seed,
+      dom: null,
+      call: null
+    };
+  }
+
+  const instrumented = options.trace ? instrumentCode(prepared.code, prepared.ast) : null;
+  const guardLimits: GuardLimits | null = options.guard === false || options.trace || options.eventLoop || options.debug
+    ? null
+    : {
+        maxIterations: options.guard?.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+        maxLoopTime: options.guard?.maxLoopTime ?? Math.floor(timeout * LOOP_TIME_SHARE),
+        maxCallDepth: options.guard?.maxCallDepth ?? DEFAULT_MAX_CALL_DEPTH
+      };
+  const guarded = guardLimits ? guardCode(prepared.code, prepared.ast) : null;
+  const stackContext: StackContext = {
+    sourceMap: prepared.sourceMap,
+    fileName: options.project?.entry ?? (options.language === 'typescript' ? 'main.ts' : 'main.js'),
+    packages: new Set(Object.values(resolved.modules).map(module => module.id)),
+    mapColumn: (instrumented ?? guarded)?.mapColumn
+  };
+  let consoleLength = 0;
+  let lastConsole: ConsoleMessage | undefined;
+
+  return new Promise((resolve) => {
+    const worker = spawnWorker({
+      code: (instrumented ?? guarded)?.code ?? prepared.code,
+      format: prepared.format,
+      modules: resolved.modules,
+      timeout,
+      maxTimerDelay: options.maxTimerDelay ?? timeout,
+      network: options.network ?? undefined,
+      mockApi: options.mockApi,
+      dom: options.dom,
+      call: options.call,
+      trace: options.trace && { maxSteps: options.trace.maxSteps },
+      eventLoop: options.eventLoop && { maxEvents: options.eventLoop.maxSteps },
+      debug: options.debug !== undefined,
+      deterministic,
+      guard: guardLimits ?? undefined
+    }, memoryLimitMb);
+
+    let startTime = Date.now();
+    let settled = false;
+    let violation: SandboxError | null = null;
+    let deadline = setTimeout(() => {
+      finish({ result: null, error: { name: 'Error', message: 'Sandbox worker failed to start in time' } });
+    }, STARTUP_TIMEOUT_MS);
+
+    // A debugged program is timed only while it runs; the timer is stopped
+    // while it sits at a breakpoint
+    const maxRunningTime = options.debug?.maxRunningTime;
+    let runningBudget = maxRunningTime ?? Infinity;
+    let runningSince: number | null = null;
+    let runningTimer: NodeJS.Timeout | undefined;
+    let started = false;
+    let paused = false;
+    const startRunning = () => {
+      if (maxRunningTime === undefined || !started || paused || runningSince !== null) return;
+      runningSince = Date.now();
+      runningTimer = setTimeout(() => {
+        finish({
+          result: null,
+          error: { name: 'TimeoutError', message: `Execution timed out after running for ${maxRunningTime}ms without pausing` },
+          completed: false
+        });
+      }, Math.max(runningBudget, 0));
+    };
+    const stopRunning = () => {
+      if (runningSince === null) return;
+      runningBudget -= Date.now() - runningSince;
+      runningSince = null;
+      clearTimeout(runningTimer);
+    };
+
+    const detachDebugger = options.debug
+      ? attachDebugger(worker, { sourceMap: prepared.sourceMap, globals: topLevelNames(prepared.ast) }, {
+          ...options.debug,
+          onPaused: (state) => {
+            paused = true;
+            stopRunning();
+            options.debug!.onPaused(state);
+          },
+          onResumed: () => {
+            paused = false;
+            startRunning();
+            options.debug!.onResumed();
+          }
+        })
+      : null;
+
+    const onAbort = () => {
+      finish({
+        result: null,
+        error: { name: 'AbortError', message: 'Execution cancelled' },
+        completed: false,
+        cancelled: true
+      });
+    };
+
+    const finish = (outcome: SandboxOutcome) => {
+      if (settled) return;
+      settled = true;
+      // The guard's error is what ended the run, even when user code caught it
+      if (violation && !outcome.cancelled) {
+        outcome = { result: null, error: violation, dom: outcome.dom, call: null };
+      }
+      clearTimeout(deadline);
+      stopRunning();
+      options.signal?.removeEventListener('abort', onAbort);
+      worker.removeAllListeners();
+      // Swallow errors raised while tearing down an already finished worker
+      worker.on('error', () => {});
+      // A worker paused in the debugger can only be terminated once detached
+      detachDebugger?.();
+      worker.terminate();
+
+      resolve({
+        logs,
+        errors,
+        warnings,
+        infos,
+        completed: true,
+        cancelled: false,
+        pending: null,
+        dom: null,
+        call: null,
+        ...outcome,
+        // Point runtime errors at the code the user wrote
+        error: outcome.error && cleanError(outcome.error, stackContext),
+        executionTime: Date.now() - startTime,
+        seed
+      });
+    };
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+
+    worker.on('message', (message: WorkerMessage) => {
+      switch (message.kind) {
+        case 'start':
+          startTime = Date.now();
+          clearTimeout(deadline);
+          deadline = setTimeout(() => {
+            finish({
+              result: null,
+              error: { name: 'TimeoutError', message: `Execution timed out after ${timeout}ms` },
+              completed: false
+            });
+          }, timeout + KILL_GRACE_MS);
+          started = true;
+          startRunning();
+          break;
+        case 'console': {
+          let entry = message.entry;
+          if (entry.stack) {
+            const frames = parseStack(entry.stack, stackContext);
+            entry = { ...entry, stack: formatFrames(frames), frames };
+          }
+
+          const { type, content, depth = 0, stack } = entry;
+          // Buffered output is indented for groups the way Node's console does it
+          const text = stack ? `${content}\n${stack}` : content;
+          buckets[type].push(text.replace(/^/gm, '  '.repeat(depth)));
+          consoleLength++;
+          lastConsole = entry;
+          options.onConsole?.(entry);
+          break;
+        }
+        case 'step':
+          options.trace?.onStep(resolveStep(message.step, instrumented!, code, stackContext, consoleLength));
+          break;
+        case 'loopEvent':
+          options.eventLoop?.onStep(resolveLoopEvent(message.event, stackContext, consoleLength, lastConsole));
+          break;
+        case 'traceLimit':
+          (options.trace ?? options.eventLoop)?.onLimit?.();
+          break;
+        case 'guard':
+          // The worker exits by itself once the guard's error has unwound
+          violation = describeViolation(message.violation, guarded!, prepared.sourceMap, guardLimits!);
+          break;
+        case 'done':
+          finish({
+            result: message.result,
+            error: message.error,
+            pending: message.pending,
+            completed: message.pending === null,
+            dom: message.dom,
+            call: message.call
+          });
+          break;
+      }
+    });
+
+    worker.on('error', (err: any) => {
+      if (err?.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+        finish({ result: null, error: { name: 'RangeError', message: `Memory limit of ${memoryLimitMb}MB exceeded` } });
+      } else {
+        finish({ result: null, error: { name: err?.name || 'Error', message: err?.message || 'Sandbox worker crashed' } });
+      }
+    });
+
+    worker.on('exit', (exitCode) => {
+      finish({ result: null, error: { name: 'Error', message: `Sandbox worker exited unexpectedly (code ${exitCode})` } });
+    });
+  });
+}
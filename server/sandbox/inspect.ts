@@ -0,0 +1,336 @@
+import util from "util";
+import type {
+  ObjectSubtype,
+  SerializedArguments,
+  SerializedObject,
+  SerializedProperty,
+  SerializedTable,
+  SerializedTableRow,
+  SerializedValue
+} from "@shared/inspect";
+
+// Objects whose contents are read per console call; the rest are summarized
+const MAX_EXPANDED_OBJECTS = 200;
+// Properties or entries kept per object
+const MAX_PROPERTIES = 100;
+const MAX_STRING_LENGTH = 10000;
+// Rows kept per console.table() call
+const MAX_TABLE_ROWS = 1000;
+
+// Built-in accessors called directly so overrides in user code never run
+const mapSize = Object.getOwnPropertyDescriptor(Map.prototype, 'size')!.get!;
+const setSize = Object.getOwnPropertyDescriptor(Set.prototype, 'size')!.get!;
+const functionSource = Function.prototype.toString;
+
+/**
+ * Find the constructor name on the prototype chain without triggering
+ * getters defined by user code
+ */
+function getClassName(value: object): string {
+  let proto = Object.getPrototypeOf(value);
+  while (proto) {
+    const constructor = Object.getOwnPropertyDescriptor(proto, 'constructor')?.value;
+    if (typeof constructor === 'function') {
+      const name = Object.getOwnPropertyDescriptor(constructor, 'name')?.value;
+      if (typeof name === 'string' && name) return name;
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  return 'Object';
+}
+
+function getSubtype(value: object): ObjectSubtype {
+  const { types } = util;
+  if (types.isProxy(value)) return 'proxy';
+  if (Array.isArray(value)) return 'array';
+  if (types.isTypedArray(value)) return 'typedarray';
+  if (types.isMap(value)) return 'map';
+  if (types.isSet(value)) return 'set';
+  if (types.isWeakMap(value)) return 'weakmap';
+  if (types.isWeakSet(value)) return 'weakset';
+  if (types.isNativeError(value)) return 'error';
+  if (types.isDate(value)) return 'date';
+  if (types.isRegExp(value)) return 'regexp';
+  if (types.isPromise(value)) return 'promise';
+  if (types.isBoxedPrimitive(value)) return 'boxed';
+  return 'object';
+}
+
+function describeError(error: any): string {
+  const stack = Object.getOwnPropertyDescriptor(error, 'stack')?.value;
+  if (typeof stack === 'string') return stack;
+  return util.inspect(error, { depth: 0 });
+}
+
+/**
+ * Read what can be shown of an object without looking at its contents
+ */
+function summarize(value: any): SerializedObject {
+  const subtype = getSubtype(value);
+  const summary: SerializedObject = {
+    className: subtype === 'proxy' ? 'Proxy' : getClassName(value),
+    subtype,
+    properties: [],
+    expanded: false
+  };
+
+  switch (subtype) {
+    case 'array':
+    case 'typedarray':
+      summary.size = value.length;
+      break;
+    case 'map':
+      summary.size = mapSize.call(value);
+      break;
+    case 'set':
+      summary.size = setSize.call(value);
+      break;
+    case 'error':
+      summary.description = describeError(value);
+      break;
+    case 'date':
+      summary.description = isNaN(Date.prototype.getTime.call(value))
+        ? 'Invalid Date'
+        : Date.prototype.toISOString.call(value);
+      break;
+    case 'regexp':
+      summary.description = RegExp.prototype.toString.call(value);
+      break;
+    case 'promise':
+    case 'boxed':
+      // util.inspect reads the promise state and boxed value from V8 directly
+      summary.description = util.inspect(value, { depth: 0, breakLength: Infinity });
+      break;
+  }
+
+  return summary;
+}
+
+function functionKind(fn: Function): 'function' | 'class' | 'async' | 'generator' {
+  if (util.types.isAsyncFunction(fn)) return 'async';
+  if (util.types.isGeneratorFunction(fn)) return 'generator';
+  try {
+    if (/^class\b/.test(functionSource.call(fn))) return 'class';
+  } catch {
+    // Proxies around functions cannot be stringified
+  }
+  return 'function';
+}
+
+/**
+ * Convert console arguments into their structured form. Objects are expanded
+ * breadth first, so when the budget runs out it is the deepest levels that
+ * are only summarized.
+ * @param args The values passed to the console method
+ * @returns The serialized values with the table of objects they reference
+ */
+export function serializeArguments(args: unknown[]): SerializedArguments {
+  const objects: Record<number, SerializedObject> = {};
+  const ids = new Map<object, number>();
+  const queue: { value: any; id: number }[] = [];
+
+  const serialize = (value: unknown): SerializedValue => {
+    switch (typeof value) {
+      case 'undefined':
+        return { type: 'undefined' };
+      case 'boolean':
+        return { type: 'boolean', value };
+      case 'number':
+        if (Number.isNaN(value)) return { type: 'number', value: 'NaN' };
+        if (value === Infinity) return { type: 'number', value: 'Infinity' };
+        if (value === -Infinity) return { type: 'number', value: '-Infinity' };
+        if (Object.is(value, -0)) return { type: 'number', value: '-0' };
+        return { type: 'number', value };
+      case 'string':
+        return value.length > MAX_STRING_LENGTH
+          ? { type: 'string', value: value.slice(0, MAX_STRING_LENGTH), length: value.length }
+          : { type: 'string', value };
+      case 'bigint':
+        return { type: 'bigint', value: value.toString() };
+      case 'symbol':
+        return { type: 'symbol', description: value.description ?? '' };
+      case 'function': {
+        const name = Object.getOwnPropertyDescriptor(value, 'name')?.value;
+        return { type: 'function', name: typeof name === 'string' ? name : '', kind: functionKind(value) };
+      }
+    }
+
+    if (value === null) {
+      return { type: 'null' };
+    }
+
+    let id = ids.get(value as object);
+    if (id === undefined) {
+      id = ids.size + 1;
+      ids.set(value as object, id);
+      objects[id] = summarize(value);
+      queue.push({ value, id });
+    }
+    return { type: 'object', id };
+  };
+
+  const expand = (value: any, target: SerializedObject) => {
+    // Looking inside a proxy would run its traps
+    if (target.subtype === 'proxy') return;
+
+    let shown = 0;
+    let omitted = 0;
+    const keep = () => {
+      if (shown < MAX_PROPERTIES) {
+        shown++;
+        return true;
+      }
+      omitted++;
+      return false;
+    };
+
+    if (target.subtype === 'map') {
+      target.entries = [];
+      Map.prototype.forEach.call(value, (entry: unknown, key: unknown) => {
+        if (keep()) target.entries!.push({ key: serialize(key), value: serialize(entry) });
+      });
+    } else if (target.subtype === 'set') {
+      target.entries = [];
+      Set.prototype.forEach.call(value, (entry: unknown) => {
+        if (keep()) target.entries!.push({ value: serialize(entry) });
+      });
+    }
+
+    // Own properties; descriptors avoid calling getters. Lists only show
+    // their indexes, read up to the limit instead of listing every key.
+    const isList = target.subtype === 'array' || target.subtype === 'typedarray';
+    const keys = isList
+      ? Array.from({ length: Math.min(target.size!, MAX_PROPERTIES + 1) }, (_, index) => String(index))
+      : Reflect.ownKeys(value);
+    if (isList) {
+      omitted += Math.max(target.size! - keys.length, 0);
+    }
+
+    for (const key of keys) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(value, key);
+      if (!descriptor?.enumerable) continue;
+      if (!keep()) continue;
+
+      const property: SerializedProperty = {
+        key: typeof key === 'symbol' ? `Symbol(${key.description ?? ''})` : key,
+        value: { type: 'undefined' }
+      };
+      if (typeof key === 'symbol') property.symbol = true;
+
+      if ('value' in descriptor) {
+        property.value = serialize(descriptor.value);
+      } else {
+        property.accessor = descriptor.get && descriptor.set ? 'get/set' : descriptor.get ? 'get' : 'set';
+      }
+      target.properties.push(property);
+    }
+
+    if (omitted > 0) {
+      target.truncated = omitted;
+    }
+    target.expanded = true;
+  };
+
+  const values = args.map(serialize);
+  for (let expanded = 0; expanded < MAX_EXPANDED_OBJECTS && queue.length > 0; expanded++) {
+    const { value, id } = queue.shift()!;
+    expand(value, objects[id]);
+  }
+
+  return { values, objects };
+}
+
+/**
+ * Arrange console.table() data as rows and columns, following Node's rules:
+ * each property of the data is a row, the properties of object rows become
+ * columns, and primitive rows go into a "Values" column. Maps list their keys
+ * and values, sets their values.
+ * @param data The object passed to console.table()
+ * @param columns Optional list of the columns to show
+ * @returns The table, or null when the data is not an object
+ */
+export function serializeTable(data: unknown, columns?: unknown): SerializedTable | null {
+  if (data === null || typeof data !== 'object') {
+    return null;
+  }
+
+  const filter = Array.isArray(columns) ? columns.map(String) : null;
+  const subtype = getSubtype(data);
+  const isCollection = subtype === 'map' || subtype === 'set';
+
+  // Collect raw cells first so every value is serialized in one pass and
+  // shares a single object table
+  const raw: { index: string; cells: [string, unknown][]; value?: { value: unknown } }[] = [];
+  const columnNames: string[] = isCollection
+    ? (subtype === 'map' ? ['Key'] : [])
+    : filter ? [...filter] : [];
+  let truncated = 0;
+
+  const addRow = (index: string, row: unknown, key?: unknown) => {
+    if (raw.length >= MAX_TABLE_ROWS) {
+      truncated++;
+      return;
+    }
+    if (isCollection) {
+      raw.push({ index, cells: subtype === 'map' ? [['Key', key]] : [], value: { value: row } });
+      return;
+    }
+    if (row === null || typeof row !== 'object') {
+      raw.push({ index, cells: [], value: { value: row } });
+      return;
+    }
+
+    const keys = filter ?? Object.keys(row);
+    const cells: [string, unknown][] = [];
+    for (const key of keys) {
+      if (!Object.prototype.hasOwnProperty.call(row, key)) continue;
+      if (!filter && !columnNames.includes(key)) columnNames.push(key);
+      cells.push([key, (row as any)[key]]);
+    }
+    raw.push({ index, cells });
+  };
+
+  if (subtype === 'map') {
+    let index = 0;
+    Map.prototype.forEach.call(data, (value: unknown, key: unknown) => addRow(String(index++), value, key));
+  } else if (subtype === 'set') {
+    let index = 0;
+    Set.prototype.forEach.call(data, (value: unknown) => addRow(String(index++), value));
+  } else if (subtype !== 'proxy') {
+    // Looking inside a proxy would run its traps
+    for (const key of Object.keys(data)) {
+      addRow(key, (data as any)[key]);
+    }
+  }
+
+  const values: unknown[] = [];
+  raw.forEach(row => {
+    row.cells.forEach(([, value]) => values.push(value));
+    if (row.value) values.push(row.value.value);
+  });
+  const serialized = serializeArguments(values);
+
+  let position = 0;
+  const rows = raw.map(row => {
+    const result: SerializedTableRow = { index: row.index, cells: {} };
+    row.cells.forEach(([key]) => {
+      result.cells[key] = serialized.values[position++];
+    });
+    if (row.value) {
+      result.value = serialized.values[position++];
+    }
+    return result;
+  });
+
+  const table: SerializedTable = {
+    indexLabel: isCollection ? '(iteration index)' : '(index)',
+    columns: columnNames,
+    rows,
+    hasValues: rows.some(row => row.value !== undefined),
+    objects: serialized.objects
+  };
+  if (truncated > 0) {
+    table.truncated = truncated;
+  }
+  return table;
+}
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { DebugPausedState } from "@shared/debug";
+import { runInSandbox, type DebugController } from "./index";
+
+// The next id in V8's pattern; past the outermost frame of the user's code
+// are the frames of the sandbox itself
+function forge(id: string): string {
+  return id.replace(/\d+$/, ordinal => String(Number(ordinal) + 1));
+}
+
+test("the debugger only reaches frames and objects of the paused program", async () => {
+  const code = [
+    "function inspect() {",
+    "  const point = { x: 1, y: 2 };",
+    "  return point.x;",
+    "}",
+    "inspect();"
+  ].join("\n");
+
+  let controller!: DebugController;
+  let checks!: Promise<void>;
+  const execution = await runInSandbox(code, {
+    timeout: 10000,
+    debug: {
+      breakpoints: [3],
+      onReady: (ready) => {
+        controller = ready;
+      },
+      onPaused: (state: DebugPausedState) => {
+        checks = (async () => {
+          const [frame] = state.callFrames;
+          const outermost = state.callFrames[state.callFrames.length - 1];
+          const evaluation = await controller.evaluate(frame.id, "point");
+          assert.equal(evaluation.error, null);
+          const objectId = evaluation.value!.objectId!;
+          const properties = await controller.getProperties(objectId);
+          assert.deepEqual(properties.map(property => property.name), ["x", "y"]);
+
+          await assert.rejects(controller.evaluate(forge(outermost.id), "typeof process"), /No such call frame/);
+          await assert.rejects(controller.getProperties(forge(objectId)), /No such object/);
+        })().finally(() => controller.resume());
+        // Awaited once the run is over
+        checks.catch(() => {});
+      },
+      onResumed: () => {}
+    }
+  });
+
+  await checks;
+  assert.equal(execution.error, null);
+});
@@ -0,0 +1,432 @@
+import inspector, { type Debugger, type Runtime } from "inspector";
+import type { Worker } from "worker_threads";
+import { generatedPositionFor, LEAST_UPPER_BOUND, type TraceMap } from "@jridgewell/trace-mapping";
+import type {
+  DebugCallFrame,
+  DebugPausedState,
+  DebugPauseReason,
+  DebugScope,
+  DebugValue,
+  DebugVariable
+} from "@shared/debug";
+import { USER_CODE_FILE, type HostMessage } from "./protocol";
+import { toOriginalLocation } from "./transform";
+
+// Everything but the user's code is skipped when stepping
+const BLACKBOX_PATTERN = `^(?!${USER_CODE_FILE.replace('.', '\\.')}$)`;
+
+// Longest value description sent to the client
+const MAX_DESCRIPTION_LENGTH = 100;
+
+// Number of properties shown in a one-line preview before "…"
+const PREVIEW_ITEMS = 5;
+
+// Internal properties that only matter to engine developers
+const HIDDEN_INTERNALS = ['[[Prototype]]', '[[Scopes]]', '[[FunctionLocation]]'];
+
+const SCOPE_NAMES: Record<string, string> = {
+  local: 'Local',
+  closure: 'Closure',
+  block: 'Block',
+  catch: 'Catch',
+  script: 'Script',
+  module: 'Module',
+  global: 'Global'
+};
+
+interface InspectorMessage {
+  id?: number;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { message: string };
+}
+
+// Call frames and objects of one pause that the client was shown, the only
+// ones it may refer to; V8's ids are guessable and would reach the sandbox's
+// own frames and objects
+interface PauseExposure {
+  callFrames: Set<string>;
+  objects: Set<string>;
+}
+
+interface DebugTarget {
+  attached: (sessionId: string) => void;
+  received: (message: InspectorMessage) => void;
+}
+
+// --- Inspector hub ---
+//
+// Workers can only be debugged from the main thread through one inspector
+// session that attaches to every worker. It is connected on the first debug
+// run and kept for the life of the process, as breakpoints stop binding in
+// workers attached after the session was disabled once. Workers that are not
+// being debugged are detached from right away.
+
+let hub: inspector.Session | null = null;
+// Debug targets by worker thread id, then by inspector session id
+const targets = new Map<string, DebugTarget>();
+const attachedTargets = new Map<string, DebugTarget>();
+
+function connectHub(): inspector.Session {
+  if (hub) return hub;
+
+  const session = new inspector.Session();
+  session.connect();
+
+  // Inspector events arrive outside of Node's callback scope, where pending
+  // promise reactions are not run until something else wakes the event
+  // loop. Handling them in a macrotask of their own keeps replies flowing.
+  session.on('NodeWorker.attachedToWorker', ({ params }) => setImmediate(() => {
+    const target = targets.get(params.workerInfo.workerId);
+    if (!target) {
+      session.post('NodeWorker.detach', { sessionId: params.sessionId });
+      return;
+    }
+    attachedTargets.set(params.sessionId, target);
+    target.attached(params.sessionId);
+  }));
+
+  session.on('NodeWorker.receivedMessageFromWorker', ({ params }) => setImmediate(() => {
+    attachedTargets.get(params.sessionId)?.received(JSON.parse(params.message));
+  }));
+
+  session.on('NodeWorker.detachedFromWorker', ({ params }) => {
+    attachedTargets.delete(params.sessionId);
+  });
+
+  session.post('NodeWorker.enable', { waitForDebuggerOnStart: false });
+  hub = session;
+  return session;
+}
+
+// --- Values ---
+
+function truncate(text: string): string {
+  const [first] = text.split("\n");
+  return first.length > MAX_DESCRIPTION_LENGTH ? `${first.slice(0, MAX_DESCRIPTION_LENGTH)}…` : first;
+}
+
+function previewText(preview: Runtime.ObjectPreview): string {
+  const items = preview.properties.slice(0, PREVIEW_ITEMS).map(property => {
+    const value = property.type === 'string' ? `'${property.value}'` : property.value ?? '…';
+    return preview.subtype === 'array' ? value : `${property.name}: ${value}`;
+  });
+  const more = preview.overflow || preview.properties.length > PREVIEW_ITEMS ? ', …' : '';
+
+  if (preview.subtype === 'array') {
+    return `${preview.description} [${items.join(', ')}${more}]`;
+  }
+  const prefix = preview.description === 'Object' ? '' : `${preview.description} `;
+  return `${prefix}{${items.join(', ')}${more}}`;
+}
+
+/**
+ * Describe a remote object on one line, the way devtools shows it next to
+ * its name in the scope view
+ */
+function toDebugValue(object: Runtime.RemoteObject): DebugValue {
+  let description: string;
+  if (object.type === 'string') {
+    description = `'${object.value}'`;
+  } else if (object.type === 'undefined') {
+    description = 'undefined';
+  } else if (object.type === 'function') {
+    description = object.description?.startsWith('class ')
+      ? object.description.replace(/\s*\{[\s\S]*$/, '')
+      : `ƒ ${functionName(object.description)}()`;
+  } else if (object.preview && (object.subtype === 'array' || (object.type === 'object' && !object.subtype))) {
+    description = previewText(object.preview);
+  } else {
+    description = object.unserializableValue ?? object.description ?? String(object.value);
+  }
+
+  return {
+    type: object.type,
+    subtype: object.subtype,
+    description: truncate(description),
+    objectId: object.objectId
+  };
+}
+
+function functionName(source = ''): string {
+  return source.match(/^(?:async\s+)?(?:function\s*\*?\s*)?([\w$]+)\s*\(/)?.[1] ?? '';
+}
+
+function toVariables(properties: Runtime.PropertyDescriptor[], internals: Runtime.InternalPropertyDescriptor[] = []): DebugVariable[] {
+  const variables: DebugVariable[] = [];
+  for (const property of properties) {
+    if (property.name === '__proto__') continue;
+    if (property.value) {
+      variables.push({ name: property.name, value: toDebugValue(property.value) });
+    } else if (property.get || property.set) {
+      variables.push({ name: property.name, value: { type: 'accessor', description: '(...)' } });
+    }
+  }
+  for (const internal of internals) {
+    if (internal.value && !HIDDEN_INTERNALS.includes(internal.name)) {
+      variables.push({ name: internal.name, value: toDebugValue(internal.value) });
+    }
+  }
+  return variables;
+}
+
+// --- Debug sessions ---
+
+export interface DebugController {
+  resume(): void;
+  stepOver(): void;
+  stepInto(): void;
+  stepOut(): void;
+  pause(): void;
+  // Replace every breakpoint; lines are 1-based lines of the original code
+  setBreakpoints(lines: number[]): Promise<void>;
+  // Evaluate an expression in the scope of a paused call frame
+  evaluate(callFrameId: string, expression: string): Promise<{ value: DebugValue | null; error: string | null }>;
+  // Own properties of an object from a paused program
+  getProperties(objectId: string): Promise<DebugVariable[]>;
+}
+
+export interface DebugOptions {
+  // 1-based lines of the original code to break on
+  breakpoints: number[];
+  // Called once breakpoints are set, right before user code starts
+  onReady: (controller: DebugController) => void;
+  onPaused: (state: DebugPausedState) => void;
+  onResumed: () => void;
+  // Longest the program may run in total while not paused, so a runaway loop
+  // is stopped without cutting short the time spent at breakpoints
+  maxRunningTime?: number;
+}
+
+export interface DebugContext {
+  sourceMap: TraceMap | null;
+  // Names the user's code declares globally; other globals belong to the sandbox
+  globals: string[];
+}
+
+/**
+ * Attach the debugger to a sandbox worker. Breakpoints are set before the
+ * worker is told to run the user's code; pauses outside that code resume on
+ * their own, so only the user's own frames are ever shown.
+ * @param worker A worker started for a debug job
+ * @param context Maps locations in the executed code back to the original
+ * @param options Breakpoints and pause notifications
+ * @returns A function that detaches the debugger; call it before the worker
+ * is terminated, as terminating a paused worker never completes
+ */
+export function attachDebugger(worker: Worker, context: DebugContext, options: DebugOptions): () => void {
+  const workerId = String(worker.threadId);
+  const hubSession = connectHub();
+  let sessionId: string | null = null;
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+  const userScripts = new Set<string>();
+  let breakpointIds: string[] = [];
+  // The last command the client gave, which explains the next pause
+  let command: DebugPauseReason | null = null;
+  // Replaced whenever the program pauses or goes on, so ids from an earlier
+  // pause stop working
+  let exposure: PauseExposure = { callFrames: new Set(), objects: new Set() };
+
+  const expose = (variables: DebugVariable[], to: PauseExposure) => {
+    for (const { value } of variables) {
+      if (value.objectId) to.objects.add(value.objectId);
+    }
+    return variables;
+  };
+
+  const call = (method: string, params: object = {}): Promise<any> => {
+    if (!sessionId) return Promise.reject(new Error('Debugger is not attached'));
+    const id = nextId++;
+    hubSession.post('NodeWorker.sendMessageToWorker', {
+      sessionId,
+      message: JSON.stringify({ id, method, params })
+    });
+    return new Promise((resolve, reject) => pending.set(id, { resolve, reject }));
+  };
+
+  const run = (method: string, reason: DebugPauseReason | null) => {
+    command = reason;
+    exposure = { callFrames: new Set(), objects: new Set() };
+    call(method).catch(() => {});
+  };
+
+  const toOriginal = (location: Debugger.Location) =>
+    toOriginalLocation({ line: location.lineNumber + 1, column: (location.columnNumber ?? 0) + 1 }, context.sourceMap);
+
+  const setBreakpoints = async (lines: number[]) => {
+    await Promise.all(breakpointIds.map(breakpointId => call('Debugger.removeBreakpoint', { breakpointId })));
+    breakpointIds = [];
+
+    for (const line of Array.from(new Set(lines))) {
+      let location: { lineNumber: number; columnNumber?: number } = { lineNumber: line - 1 };
+      if (context.sourceMap) {
+        const generated = generatedPositionFor(context.sourceMap, {
+          source: context.sourceMap.sources[0] ?? '',
+          line,
+          column: 0,
+          bias: LEAST_UPPER_BOUND
+        });
+        // Lines without code, such as type declarations, cannot break
+        if (generated.line === null) continue;
+        location = { lineNumber: generated.line - 1, columnNumber: generated.column };
+      }
+
+      try {
+        const { breakpointId } = await call('Debugger.setBreakpointByUrl', { url: USER_CODE_FILE, ...location });
+        breakpointIds.push(breakpointId);
+      } catch {
+        // A line past the end of the code has no breakable location
+      }
+    }
+  };
+
+  const readProperties = async (objectId: string): Promise<DebugVariable[]> => {
+    const { result, internalProperties } = await call('Runtime.getProperties', {
+      objectId,
+      ownProperties: true,
+      generatePreview: true
+    });
+    return toVariables(result, internalProperties);
+  };
+
+  const resolveScope = async (scope: Debugger.Scope, to: PauseExposure): Promise<DebugScope> => {
+    let variables = await readProperties(scope.object.objectId!);
+    if (scope.type === 'global') {
+      variables = variables.filter(variable => context.globals.includes(variable.name));
+    }
+    expose(variables, to);
+
+    const name = SCOPE_NAMES[scope.type] ?? scope.type;
+    return {
+      type: scope.type,
+      name: scope.type === 'closure' && scope.name ? `${name} (${scope.name})` : name,
+      variables
+    };
+  };
+
+  const resolveFrame = async (frame: Debugger.CallFrame, to: PauseExposure): Promise<DebugCallFrame> => {
+    const { line, column } = toOriginal(frame.location);
+    to.callFrames.add(frame.callFrameId);
+    const scopes = await Promise.all(frame.scopeChain.map(scope => resolveScope(scope, to)));
+    return {
+      id: frame.callFrameId,
+      functionName: frame.functionName || null,
+      line: line ?? 0,
+      column: column ?? 0,
+      // Empty scopes are noise, except for the function's own
+      scopes: scopes.filter(scope => scope.variables.length > 0 || scope.type === 'local')
+    };
+  };
+
+  const paused = async (params: Debugger.PausedEventDataType) => {
+    const frames = params.callFrames.filter(frame => userScripts.has(frame.location.scriptId));
+    if (frames.length === 0) {
+      // Stopped inside the sandbox itself, e.g. at a debugger statement in a package
+      run('Debugger.resume', command);
+      return;
+    }
+
+    const reason: DebugPauseReason = params.hitBreakpoints?.length ? 'breakpoint' : command ?? 'debugger';
+    command = null;
+    const pause: PauseExposure = { callFrames: new Set(), objects: new Set() };
+    exposure = pause;
+    try {
+      options.onPaused({ reason, callFrames: await Promise.all(frames.map(frame => resolveFrame(frame, pause))) });
+    } catch {
+      // The run ended while the frames were being read
+    }
+  };
+
+  const target: DebugTarget = {
+    attached: async (id) => {
+      sessionId = id;
+      try {
+        await call('Debugger.enable');
+        await call('Debugger.setBlackboxPatterns', { patterns: [BLACKBOX_PATTERN] });
+        await setBreakpoints(options.breakpoints);
+      } catch {
+        return;
+      }
+
+      options.onReady({
+        resume: () => run('Debugger.resume', null),
+        stepOver: () => run('Debugger.stepOver', 'step'),
+        stepInto: () => run('Debugger.stepInto', 'step'),
+        stepOut: () => run('Debugger.stepOut', 'step'),
+        pause: () => run('Debugger.pause', 'pause'),
+        setBreakpoints,
+        evaluate: async (callFrameId, expression) => {
+          const pause = exposure;
+          if (!pause.callFrames.has(callFrameId)) {
+            throw new Error('No such call frame in the paused program');
+          }
+          const { result, exceptionDetails } = await call('Debugger.evaluateOnCallFrame', {
+            callFrameId,
+            expression,
+            generatePreview: true,
+            silent: true
+          });
+          if (exceptionDetails) {
+            return { value: null, error: truncate(result.description ?? exceptionDetails.text) };
+          }
+          const value = toDebugValue(result);
+          if (value.objectId) pause.objects.add(value.objectId);
+          return { value, error: null };
+        },
+        getProperties: async (objectId) => {
+          const pause = exposure;
+          if (!pause.objects.has(objectId)) {
+            throw new Error('No such object in the paused program');
+          }
+          return expose(await readProperties(objectId), pause);
+        }
+      });
+
+      const message: HostMessage = { kind: 'attached' };
+      worker.postMessage(message);
+    },
+
+    received: (message) => {
+      if (message.id !== undefined) {
+        const request = pending.get(message.id);
+        pending.delete(message.id);
+        if (message.error) {
+          request?.reject(new Error(message.error.message));
+        } else {
+          request?.resolve(message.result);
+        }
+        return;
+      }
+
+      switch (message.method) {
+        case 'Debugger.scriptParsed':
+          if (message.params.url === USER_CODE_FILE) {
+            userScripts.add(message.params.scriptId);
+          }
+          break;
+        case 'Debugger.paused':
+          paused(message.params);
+          break;
+        case 'Debugger.resumed':
+          exposure = { callFrames: new Set(), objects: new Set() };
+          options.onResumed();
+          break;
+      }
+    }
+  };
+
+  targets.set(workerId, target);
+
+  return () => {
+    targets.delete(workerId);
+    if (sessionId) {
+      attachedTargets.delete(sessionId);
+      hubSession.post('NodeWorker.detach', { sessionId });
+      sessionId = null;
+    }
+    pending.forEach(request => request.reject(new Error('Debugger detached')));
+    pending.clear();
+  };
+}
@@ -0,0 +1,505 @@
+import type * as acorn from "acorn";
+import type { ExecutionStep, ScopeSnapshot } from "@shared/execution";
+import { STEP_FUNCTION, type StepRecord } from "./protocol";
+import { parseStack, type StackContext } from "./stack";
+import { toOriginalLocation } from "./transform";
+
+// Longest piece of source quoted in a step explanation
+const MAX_QUOTE_LENGTH = 40;
+
+export interface InstrumentedScope {
+  kind: 'global' | 'function' | 'block';
+  // Function name for function scopes
+  name: string;
+  // Variables read at the step, in the order their getters are passed
+  names: string[];
+}
+
+// A point where the instrumented code reports its state
+export interface InstrumentedStep {
+  // 1-based location in the code that was instrumented
+  line: number;
+  column: number;
+  explanation: string;
+  // Innermost scope first; names shadowed by an inner scope are left out
+  scopes: InstrumentedScope[];
+  // Function the step is in, null at the top level
+  functionName: string | null;
+}
+
+export interface InstrumentedCode {
+  code: string;
+  // Indexed by the id each step passes to the step function
+  steps: InstrumentedStep[];
+  /**
+   * Translate a 1-based column in the instrumented code back to the code
+   * that was instrumented. Lines are never changed by instrumentation.
+   */
+  mapColumn: (line: number, column: number) => number;
+}
+
+interface Scope {
+  kind: InstrumentedScope['kind'];
+  name: string;
+  names: string[];
+  parent: Scope | null;
+}
+
+// Text added to the source; inserted text never contains a line break
+export interface Insertion {
+  offset: number;
+  text: string;
+  // Closing text belongs to the code before the offset, opening text to the code after it
+  side: 'open' | 'close';
+  order: number;
+}
+
+function isFunction(node: any): boolean {
+  return node.type === "FunctionDeclaration" ||
+    node.type === "FunctionExpression" ||
+    node.type === "ArrowFunctionExpression";
+}
+
+function isNode(value: any): value is acorn.Node {
+  return value !== null && typeof value === "object" && typeof value.type === "string" && typeof value.start === "number";
+}
+
+// Child nodes of any node, in source order
+function children(node: any): any[] {
+  const result: any[] = [];
+  for (const key of Object.keys(node)) {
+    if (key === "loc") continue;
+    const value = node[key];
+    if (Array.isArray(value)) {
+      value.forEach(item => isNode(item) && result.push(item));
+    } else if (isNode(value)) {
+      result.push(value);
+    }
+  }
+  return result.sort((a, b) => a.start - b.start);
+}
+
+// Identifiers bound by a declaration pattern such as { a, b: [c] }
+export function patternNames(pattern: any, names: string[] = []): string[] {
+  switch (pattern?.type) {
+    case "Identifier":
+      names.push(pattern.name);
+      break;
+    case "ObjectPattern":
+      pattern.properties.forEach((property: any) =>
+        patternNames(property.type === "RestElement" ? property.argument : property.value, names));
+      break;
+    case "ArrayPattern":
+      pattern.elements.forEach((element: any) => patternNames(element, names));
+      break;
+    case "RestElement":
+      patternNames(pattern.argument, names);
+      break;
+    case "AssignmentPattern":
+      patternNames(pattern.left, names);
+      break;
+  }
+  return names;
+}
+
+// let, const, class and function declarations made directly in a statement list
+function lexicalNames(statements: any[]): string[] {
+  const names: string[] = [];
+  for (let statement of statements) {
+    if (statement.type === "ExportNamedDeclaration" || statement.type === "ExportDefaultDeclaration") {
+      statement = statement.declaration;
+    }
+    if (!statement) continue;
+
+    if (statement.type === "VariableDeclaration" && statement.kind !== "var") {
+      statement.declarations.forEach((declaration: any) => patternNames(declaration.id, names));
+    } else if ((statement.type === "ClassDeclaration" || statement.type === "FunctionDeclaration") && statement.id) {
+      names.push(statement.id.name);
+    } else if (statement.type === "ImportDeclaration") {
+      statement.specifiers.forEach((specifier: any) => names.push(specifier.local.name));
+    }
+  }
+  return names;
+}
+
+// var declarations anywhere in a function or program body, which are hoisted to it
+function varNames(node: any, names: string[] = []): string[] {
+  if (node.type === "VariableDeclaration" && node.kind === "var") {
+    node.declarations.forEach((declaration: any) => patternNames(declaration.id, names));
+  }
+  for (const child of children(node)) {
+    if (!isFunction(child)) varNames(child, names);
+  }
+  return names;
+}
+
+function unique(names: string[]): string[] {
+  return Array.from(new Set(names));
+}
+
+/**
+ * Every name the program declares at its top level
+ */
+export function topLevelNames(ast: acorn.Program): string[] {
+  return unique([...lexicalNames(ast.body), ...varNames(ast)]);
+}
+
+/**
+ * Add calls that report line, column and variable values before every
+ * statement of the code, and before the body of expression-bodied arrow
+ * functions. Each call passes one getter per visible variable, so values are
+ * read as they are at that moment; the sandbox catches the ReferenceError
+ * thrown for variables that are not initialized yet.
+ * @param code JavaScript source, as it will be run
+ * @param ast The program parsed from it with locations
+ */
+export function instrumentCode(code: string, ast: acorn.Program): InstrumentedCode {
+  const insertions: Insertion[] = [];
+  const steps: InstrumentedStep[] = [];
+
+  const insert = (offset: number, text: string, side: Insertion['side']) => {
+    insertions.push({ offset, text, side, order: insertions.length });
+  };
+
+  const quote = (node: any) => {
+    const text = code.slice(node.start, node.end).replace(/\s+/g, " ");
+    return text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH)}…` : text;
+  };
+
+  const enclosingFunction = (scope: Scope): string | null => {
+    let current: Scope | null = scope;
+    while (current && current.kind !== 'function') current = current.parent;
+    return current?.name ?? null;
+  };
+
+  const explain = (node: any, scope: Scope): string => {
+    switch (node.type) {
+      case "VariableDeclaration":
+        return `Declaring ${unique(node.declarations.flatMap((declaration: any) => patternNames(declaration.id))).join(", ")}`;
+      case "ExpressionStatement": {
+        const expression = node.expression;
+        if (expression.type === "CallExpression") return `Calling ${quote(expression.callee)}`;
+        if (expression.type === "AwaitExpression") return `Waiting for ${quote(expression.argument)}`;
+        if (expression.type === "AssignmentExpression") return `Assigning to ${quote(expression.left)}`;
+        if (expression.type === "UpdateExpression") return `Updating ${quote(expression.argument)}`;
+        return `Evaluating ${quote(expression)}`;
+      }
+      case "ReturnStatement": {
+        const name = enclosingFunction(scope) ?? "the function";
+        return node.argument ? `Returning ${quote(node.argument)} from ${name}` : `Returning from ${name}`;
+      }
+      case "IfStatement":
+        return `Checking whether ${quote(node.test)}`;
+      case "ForStatement":
+      case "ForInStatement":
+      case "ForOfStatement":
+      case "WhileStatement":
+      case "DoWhileStatement":
+        return "Starting a loop";
+      case "SwitchStatement":
+        return `Choosing a case for ${quote(node.discriminant)}`;
+      case "BreakStatement":
+        return "Leaving the loop or switch";
+      case "ContinueStatement":
+        return "Skipping to the next iteration";
+      case "ThrowStatement":
+        return `Throwing ${quote(node.argument)}`;
+      case "TryStatement":
+        return "Entering a try block";
+      case "BlockStatement":
+        return "Entering a block";
+      case "LabeledStatement":
+        return explain(node.body, scope);
+      case "ClassDeclaration":
+        return `Defining class ${node.id.name}`;
+      case "Program":
+        return "Reached the end of the program";
+      default:
+        // Expression bodies of arrow functions
+        return `Evaluating ${quote(node)} in ${scope.name}`;
+    }
+  };
+
+  // The call reporting a step at a node, ending with a statement separator
+  const stepCall = (node: any, scope: Scope, at: acorn.Position): string => {
+    const id = steps.length;
+    const scopes: InstrumentedScope[] = [];
+    const seen = new Set<string>();
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      const names = current.names.filter(name => !seen.has(name));
+      names.forEach(name => seen.add(name));
+      if (names.length > 0) {
+        scopes.push({ kind: current.kind, name: current.name, names });
+      }
+    }
+
+    steps.push({
+      line: at.line,
+      column: at.column + 1,
+      explanation: explain(node, scope),
+      scopes,
+      functionName: enclosingFunction(scope)
+    });
+    const getters = scopes.flatMap(entry => entry.names).map(name => `()=>${name}`).join(",");
+    return `${STEP_FUNCTION}(${id},[${getters}])`;
+  };
+
+  const instrumentStatement = (statement: any, scope: Scope) => {
+    // Function declarations are hoisted, there is nothing to step through;
+    // moving code in front of a directive would turn it into a plain string
+    const skip = statement.type === "FunctionDeclaration" ||
+      statement.type === "ImportDeclaration" ||
+      statement.type === "EmptyStatement" ||
+      statement.directive !== undefined;
+    if (!skip) {
+      insert(statement.start, `${stepCall(statement, scope, statement.loc.start)};`, 'open');
+    }
+    visit(statement, scope);
+  };
+
+  const instrumentList = (statements: any[], scope: Scope) => {
+    statements.forEach(statement => instrumentStatement(statement, scope));
+  };
+
+  // Bodies of if and loops written without braces get them, so the step call
+  // stays part of the body
+  const instrumentBody = (body: any, scope: Scope) => {
+    if (!body) return;
+    if (body.type === "BlockStatement" || body.type === "EmptyStatement" || body.type === "IfStatement") {
+      visit(body, scope);
+      return;
+    }
+    insert(body.start, "{", 'open');
+    instrumentStatement(body, scope);
+    insert(body.end, "}", 'close');
+  };
+
+  const blockScope = (names: string[], parent: Scope, name = 'Block'): Scope => ({
+    kind: 'block',
+    name,
+    names: unique(names),
+    parent
+  });
+
+  const visitFunction = (node: any, parent: Scope, nameHint: string) => {
+    const name = node.id?.name ?? nameHint;
+    const body = node.body;
+    const names = [
+      ...node.params.flatMap((param: any) => patternNames(param)),
+      ...varNames(body),
+      ...(body.type === "BlockStatement" ? lexicalNames(body.body) : [])
+    ];
+    const scope: Scope = { kind: 'function', name, names: unique(names), parent };
+
+    node.params.forEach((param: any) => visit(param, scope));
+    if (body.type === "BlockStatement") {
+      instrumentList(body.body, scope);
+    } else {
+      // (step, expression) keeps the arrow returning the expression
+      insert(body.start, `(${stepCall(body, scope, body.loc.start)},`, 'open');
+      visit(body, scope);
+      insert(body.end, ")", 'close');
+    }
+  };
+
+  // Name given to an anonymous function from where it is defined
+  const nameFor = (node: any): string => {
+    if (node.type === "VariableDeclarator" || node.type === "AssignmentPattern") {
+      return node.id?.name ?? node.left?.name ?? "(anonymous)";
+    }
+    if (node.type === "AssignmentExpression") return quote(node.left);
+    if (node.type === "Property" || node.type === "MethodDefinition" || node.type === "PropertyDefinition") {
+      return node.key.type === "Identifier" ? node.key.name : quote(node.key);
+    }
+    return "(anonymous)";
+  };
+
+  const visit = (node: any, scope: Scope, nameHint = "(anonymous)"): void => {
+    if (isFunction(node)) {
+      visitFunction(node, scope, nameHint);
+      return;
+    }
+
+    switch (node.type) {
+      case "BlockStatement":
+      case "StaticBlock":
+        instrumentList(node.body, blockScope(lexicalNames(node.body), scope));
+        return;
+      case "IfStatement":
+        visit(node.test, scope);
+        instrumentBody(node.consequent, scope);
+        instrumentBody(node.alternate, scope);
+        return;
+      case "ForStatement":
+      case "ForInStatement":
+      case "ForOfStatement": {
+        const head = node.type === "ForStatement" ? node.init : node.left;
+        const loopScope = head?.type === "VariableDeclaration" && head.kind !== "var"
+          ? blockScope(head.declarations.flatMap((declaration: any) => patternNames(declaration.id)), scope)
+          : scope;
+        children(node).filter(child => child !== node.body).forEach(child => visit(child, loopScope));
+        instrumentBody(node.body, loopScope);
+        return;
+      }
+      case "WhileStatement":
+      case "DoWhileStatement":
+        visit(node.test, scope);
+        instrumentBody(node.body, scope);
+        return;
+      case "SwitchStatement": {
+        visit(node.discriminant, scope);
+        const switchScope = blockScope(lexicalNames(node.cases.flatMap((entry: any) => entry.consequent)), scope);
+        node.cases.forEach((entry: any) => {
+          if (entry.test) visit(entry.test, switchScope);
+          instrumentList(entry.consequent, switchScope);
+        });
+        return;
+      }
+      case "CatchClause": {
+        const catchScope = blockScope([...patternNames(node.param), ...lexicalNames(node.body.body)], scope, 'Catch');
+        instrumentList(node.body.body, catchScope);
+        return;
+      }
+    }
+
+    for (const child of children(node)) {
+      visit(child, scope, nameFor(node));
+    }
+  };
+
+  const globalScope: Scope = {
+    kind: 'global',
+    name: 'Global',
+    names: topLevelNames(ast),
+    parent: null
+  };
+  instrumentList(ast.body, globalScope);
+
+  // Final state once the synchronous part of the program has run. The line
+  // break keeps a trailing line comment from swallowing the call.
+  const end = ast.loc!.end;
+  insert(code.length, `\n;${stepCall(ast, globalScope, end)};`, 'close');
+
+  const { code: output, mapColumn } = applyInsertions(code, insertions);
+  return { code: output, steps, mapColumn };
+}
+
+export interface InsertedCode {
+  code: string;
+  // Translates a 1-based column of the new code back to the original code
+  mapColumn: (line: number, column: number) => number;
+  // Translates a 1-based column of the original code to the new code. A
+  // position where text was inserted maps to the start of that text.
+  generatedColumn: (line: number, column: number) => number;
+}
+
+/**
+ * Add text to source code without changing its line numbers
+ * @param code The original source
+ * @param insertions Text to add; orders tell apart insertions at one offset
+ */
+export function applyInsertions(code: string, insertions: Insertion[]): InsertedCode {
+  // Apply insertions back to front; at one offset closing text comes first
+  // and nested constructs stay properly nested
+  const sorted = [...insertions].sort((a, b) => {
+    if (a.offset !== b.offset) return a.offset - b.offset;
+    if (a.side !== b.side) return a.side === 'close' ? -1 : 1;
+    return a.side === 'close' ? b.order - a.order : a.order - b.order;
+  });
+
+  let output = "";
+  let position = 0;
+  for (const insertion of sorted) {
+    output += code.slice(position, insertion.offset) + insertion.text;
+    position = insertion.offset;
+  }
+  output += code.slice(position);
+
+  // Insertions by line, as 0-based columns in the original code
+  const lineStarts = [0];
+  for (let index = code.indexOf("\n"); index !== -1; index = code.indexOf("\n", index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  const byLine = new Map<number, { column: number; length: number }[]>();
+  for (const insertion of sorted) {
+    let line = lineStarts.length;
+    while (lineStarts[line - 1] > insertion.offset) line--;
+    const entries = byLine.get(line) ?? [];
+    entries.push({ column: insertion.offset - lineStarts[line - 1], length: insertion.text.length });
+    byLine.set(line, entries);
+  }
+
+  const mapColumn = (line: number, column: number): number => {
+    let generated = column - 1;
+    let shift = 0;
+    for (const entry of byLine.get(line) ?? []) {
+      const start = entry.column + shift;
+      if (generated < start) break;
+      // Positions inside inserted text belong to the statement it precedes
+      if (generated < start + entry.length) return entry.column + 1;
+      shift += entry.length;
+    }
+    return generated - shift + 1;
+  };
+
+  const generatedColumn = (line: number, column: number): number => {
+    const before = (byLine.get(line) ?? []).filter(entry => entry.column < column - 1);
+    return column + before.reduce((total, entry) => total + entry.length, 0);
+  };
+
+  return { code: output, mapColumn, generatedColumn };
+}
+
+/**
+ * Combine the state reported by a step call with what instrumentation knows
+ * about that step, in terms of the code the user wrote
+ * @param record The state posted by the worker
+ * @param instrumented The instrumented code the record came from
+ * @param source The user's original code
+ * @param context Maps stack frames back to the original code
+ * @param consoleLength Console entries received before the step
+ */
+export function resolveStep(
+  record: StepRecord,
+  instrumented: InstrumentedCode,
+  source: string,
+  context: StackContext,
+  consoleLength: number
+): ExecutionStep {
+  const step = instrumented.steps[record.id];
+  const location = toOriginalLocation({ line: step.line, column: step.column }, context.sourceMap);
+  // Only the end of transpiled code lacks a mapping; it is the end of the source
+  const line = location.line ?? source.split("\n").length;
+  const column = location.column ?? 1;
+
+  let position = 0;
+  const scopes: ScopeSnapshot[] = step.scopes.map(scope => ({
+    kind: scope.kind,
+    name: scope.name,
+    variables: scope.names.map(name => {
+      const index = position++;
+      return {
+        name,
+        value: record.uninitialized.includes(index) ? null : record.values.values[index]
+      };
+    })
+  }));
+
+  // The innermost frame is the step call itself, which stands for the
+  // statement; V8 leaves anonymous functions unnamed, instrumentation knows
+  const [top, ...rest] = parseStack(record.stack, context);
+  const callStack = top
+    ? [{ ...top, functionName: step.functionName, line, column }, ...rest]
+    : [];
+
+  return {
+    line,
+    column,
+    description: source.split("\n")[line - 1]?.trim() ?? "",
+    explanation: step.explanation,
+    scopes,
+    objects: record.values.objects,
+    callStack,
+    consoleLength
+  };
+}
@@ -0,0 +1,184 @@
+import dns from "dns/promises";
+import net from "net";
+import { defaultNetworkPolicy, PLACEHOLDER_HOST, type MockResponse, type NetworkPolicy } from "@shared/network";
+import { MOCK_SESSION_HEADER, type MockApiTarget } from "./protocol";
+
+// Addresses of the server itself and the networks around it, which sandboxed
+// code must not reach whatever the policy says
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Redirects followed for a request, each checked against the policy
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`, 'i');
+}
+
+/**
+ * Tell whether a URL matches a pattern of a network policy, see
+ * shared/network.ts for the pattern syntax
+ */
+export function matchesUrlPattern(pattern: string, url: URL): boolean {
+  return pattern.includes('://')
+    ? patternToRegExp(pattern).test(url.href)
+    : patternToRegExp(pattern).test(url.hostname);
+}
+
+function findMock(mocks: MockResponse[], request: Request): MockResponse | undefined {
+  const url = new URL(request.url);
+  return mocks.find(mock =>
+    (!mock.method || mock.method.toUpperCase() === request.method) && matchesUrlPattern(mock.url, url)
+  );
+}
+
+async function respondWithMock(mock: MockResponse): Promise<Response> {
+  if (mock.latency) {
+    await new Promise(resolve => setTimeout(resolve, mock.latency));
+  }
+
+  const status = mock.status ?? 200;
+  const headers = new Headers(mock.headers);
+  let body: string | null = null;
+  // Responses to these statuses cannot have a body
+  if (status === 204 || status === 205 || status === 304 || mock.body === undefined) {
+    body = null;
+  } else if (typeof mock.body === 'string') {
+    body = mock.body;
+  } else {
+    body = JSON.stringify(mock.body);
+    if (!headers.has('content-type')) headers.set('content-type', 'application/json');
+  }
+
+  return new Response(body, { status, headers });
+}
+
+function blocked(method: string, url: string): TypeError {
+  return new TypeError(`${method} ${url} is blocked by the network policy`);
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4 addresses written as IPv6, such as ::ffff:127.0.0.1
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped, 'ipv4');
+  return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Fetch that refuses hosts resolving to a loopback, link-local or private
+ * address. Redirects are not followed, as their targets need the same check.
+ * fetch resolves the host again when it connects, so a DNS server answering
+ * differently the second time is not caught.
+ */
+const publicFetch: typeof fetch = async (input, init) => {
+  const request = new Request(input, { ...init, redirect: 'manual' });
+  const { hostname } = new URL(request.url);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  let addresses: { address: string }[];
+  try {
+    addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new TypeError(`fetch failed: ${hostname} could not be resolved`);
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new TypeError(`${request.method} ${request.url} is blocked: ${hostname} is a local or private address`);
+  }
+  return fetch(request);
+};
+
+/**
+ * Fetch sending requests for the placeholder API to the local mock API
+ * instead, tagged with the run's session. Other requests go out unchanged,
+ * unless they are for a local or private address.
+ * @param target The local mock API; without it nothing is rerouted
+ */
+export function createMockApiFetch(target: MockApiTarget | undefined): typeof fetch {
+  if (!target) return publicFetch;
+
+  return async (input, init) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    if (url.hostname !== PLACEHOLDER_HOST) return publicFetch(request);
+
+    const headers = new Headers(request.headers);
+    headers.set(MOCK_SESSION_HEADER, target.session);
+    return fetch(`${target.baseUrl}${url.pathname}${url.search}`, {
+      method: request.method,
+      headers,
+      body: request.method === 'GET' || request.method === 'HEAD' ? null : await request.arrayBuffer(),
+      redirect: request.redirect,
+      signal: request.signal
+    });
+  };
+}
+
+/**
+ * Fetch that only reaches what a network policy allows. Blocked requests
+ * fail with a TypeError, the way fetch reports a network error; mocked ones
+ * are answered without touching the network.
+ * @param policy The policy of the snippet or challenge; defaultNetworkPolicy
+ * when left out
+ * @param transport Sends the requests the policy lets through. The policy is
+ * checked against the URL the code asked for, even if the transport reroutes it.
+ */
+export function createPolicyFetch(
+  policy: NetworkPolicy = defaultNetworkPolicy,
+  transport: typeof fetch = createMockApiFetch(undefined)
+): typeof fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+
+    switch (policy.mode) {
+      case 'deny':
+        throw blocked(request.method, request.url);
+      case 'mock': {
+        const mock = findMock(policy.mocks ?? [], request);
+        if (!mock) throw blocked(request.method, request.url);
+        return respondWithMock(mock);
+      }
+      case 'open':
+      case 'allowlist': {
+        const allow = policy.mode === 'allowlist' ? policy.allow ?? [] : null;
+        const isAllowed = (url: string) => !allow || allow.some(pattern => matchesUrlPattern(pattern, new URL(url)));
+
+        // Redirects are followed here, so one cannot lead off the list or to
+        // a private address. The body is read once, so it can be sent again
+        // after a 307 or 308.
+        let url = request.url;
+        let method = request.method;
+        let body = method === 'GET' || method === 'HEAD' ? null : await request.arrayBuffer();
+        for (let redirects = 0; ; redirects++) {
+          if (!isAllowed(url)) throw blocked(method, url);
+          const response = await transport(url, { method, headers: request.headers, body, redirect: 'manual', signal: request.signal });
+          const location = response.headers.get('location');
+          if (!REDIRECT_STATUSES.has(response.status) || !location || request.redirect !== 'follow') {
+            return response;
+          }
+          if (redirects === MAX_REDIRECTS) {
+            throw new TypeError(`Too many redirects fetching ${request.url}`);
+          }
+
+          url = new URL(location, url).href;
+          // As fetch does, a 303 and a redirected POST turn into a GET without a body
+          if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === 'POST')) {
+            method = 'GET';
+            body = null;
+          }
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,257 @@
+import fs from "fs/promises";
+import path from "path";
+import { build } from "esbuild";
+import type { ExecutionError } from "@shared/execution";
+import { commonPackages } from "@shared/packages";
+import type { SandboxModule } from "./protocol";
+
+// Packages are served from a directory of pre-bundled modules so imports work
+// without network access. Each file holds one CommonJS bundle named
+// "<name>@<version>.js"; scoped names and subpaths use "+" instead of "/".
+export const PACKAGE_CACHE_DIR = process.env.PACKAGE_CACHE_DIR
+  ? path.resolve(process.env.PACKAGE_CACHE_DIR)
+  : path.resolve(process.cwd(), ".package-cache");
+
+// Installed npm packages the cache can be filled from
+const NODE_MODULES_DIR = path.resolve(process.cwd(), "node_modules");
+
+// CDN URLs accepted in import statements; the package path follows the prefix
+const CDN_PREFIXES = [
+  /^https?:\/\/esm\.sh\/(?:v\d+\/)?/,
+  /^https?:\/\/cdn\.jsdelivr\.net\/npm\//,
+  /^https?:\/\/unpkg\.com\//,
+  /^https?:\/\/cdn\.skypack\.dev\//
+];
+
+// npm package names: lowercase, URL-safe and not starting with "." or "_"
+const PACKAGE_NAME = /^(?:@[a-z0-9~-][a-z0-9._~-]*\/)?[a-z0-9~-][a-z0-9._~-]*$/;
+const MAX_PACKAGE_NAME_LENGTH = 214;
+
+// Packages bundled from node_modules on first import; anything else must
+// already be in the cache
+const OFFERED_PACKAGES = new Set(commonPackages.map(pkg => pkg.name));
+
+export interface PackageSpecifier {
+  name: string;
+  // Requested version or range, null for the latest cached version
+  version: string | null;
+  // Path inside the package such as "/fp", empty for the main entry
+  subpath: string;
+}
+
+export interface ModuleImport {
+  specifier: string;
+  line: number;
+  column: number;
+  // File of a multi-file project the import is in; the entry when left out
+  file?: string;
+}
+
+/**
+ * Work out which npm package an import specifier refers to
+ * @param specifier A bare package name or a CDN URL such as https://esm.sh/lodash@4
+ * @returns The package reference, or null for relative paths and unknown URLs
+ */
+export function parsePackageSpecifier(specifier: string): PackageSpecifier | null {
+  let packagePath = specifier;
+
+  if (/^[a-z]+:/i.test(specifier)) {
+    const prefix = CDN_PREFIXES.find(pattern => pattern.test(specifier));
+    if (!prefix) return null;
+    packagePath = specifier
+      .replace(prefix, "")
+      .replace(/[?#].*$/, "")
+      .replace(/\/\+esm$/, "");
+  } else if (specifier.startsWith(".") || specifier.startsWith("/")) {
+    return null;
+  }
+
+  const match = packagePath.match(/^((?:@[^/@]+\/)?[^/@]+)(?:@([^/]+))?(\/.*)?$/);
+  if (!match) return null;
+
+  const [, name, version, subpath = ""] = match;
+  if (name.length > MAX_PACKAGE_NAME_LENGTH || !PACKAGE_NAME.test(name)) return null;
+  // The subpath is resolved inside the package; it must not climb out of it
+  const segments = subpath.replace(/\/$/, "").split("/").slice(1);
+  if (segments.some(segment => segment === "" || segment === "." || segment === ".." || segment.includes("\\"))) {
+    return null;
+  }
+
+  return {
+    name,
+    version: version && version !== "latest" ? version : null,
+    subpath: subpath.replace(/\/$/, "")
+  };
+}
+
+function parseVersion(version: string): number[] {
+  return version.split(/[.+-]/).slice(0, 3).map(part => Number(part) || 0);
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * Check a cached version against the version written in the import. Supports
+ * exact versions, partial versions ("4", "4.17") and ^/~ ranges.
+ */
+function satisfiesVersion(version: string, requested: string | null): boolean {
+  if (!requested) return true;
+
+  const operator = requested[0] === "^" || requested[0] === "~" ? requested[0] : "";
+  const wanted = requested.slice(operator.length).split(".");
+  const actual = version.split(".");
+
+  if (!operator) {
+    return wanted.every((part, i) => part === actual[i]);
+  }
+
+  const pinned = operator === "^" ? 1 : 2;
+  return wanted.slice(0, pinned).every((part, i) => part === actual[i]) &&
+    compareVersions(version, wanted.join(".")) >= 0;
+}
+
+function cacheFileName(name: string, version: string, subpath: string): string {
+  return `${name.replace(/\//g, "+")}@${version}${subpath.replace(/\//g, "+")}.js`;
+}
+
+/**
+ * Find the newest cached bundle matching the package reference
+ * @returns The cached file name and version, or null when nothing matches
+ */
+async function findCachedBundle(pkg: PackageSpecifier): Promise<{ file: string; version: string } | null> {
+  let files: string[];
+  try {
+    files = await fs.readdir(PACKAGE_CACHE_DIR);
+  } catch {
+    return null;
+  }
+
+  const prefix = `${pkg.name.replace(/\//g, "+")}@`;
+  const suffix = `${pkg.subpath.replace(/\//g, "+")}.js`;
+  const candidates = files
+    .filter(file => file.startsWith(prefix) && file.endsWith(suffix))
+    .map(file => ({ file, version: file.slice(prefix.length, file.length - suffix.length) }))
+    // Reject entries for a deeper subpath of the same package
+    .filter(({ version }) => !version.includes("+"))
+    .filter(({ version }) => satisfiesVersion(version, pkg.version))
+    .sort((a, b) => compareVersions(b.version, a.version));
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Bundle an installed npm package into the cache. The bundle targets the
+ * browser build of the package since the sandbox has no Node built-ins.
+ * @returns The cached file name and version, or null when the package is not installed
+ */
+export async function cacheInstalledPackage(pkg: PackageSpecifier): Promise<{ file: string; version: string } | null> {
+  let version: string;
+  try {
+    const manifest = JSON.parse(
+      await fs.readFile(path.join(NODE_MODULES_DIR, pkg.name, "package.json"), "utf8")
+    );
+    version = manifest.version;
+  } catch {
+    return null;
+  }
+
+  if (!satisfiesVersion(version, pkg.version)) {
+    return null;
+  }
+
+  const output = await build({
+    stdin: {
+      contents: `module.exports = require(${JSON.stringify(pkg.name + pkg.subpath)});`,
+      resolveDir: process.cwd(),
+      loader: "js"
+    },
+    bundle: true,
+    write: false,
+    format: "cjs",
+    platform: "browser",
+    target: "es2022",
+    define: { "process.env.NODE_ENV": '"production"' },
+    logLevel: "silent"
+  });
+
+  const file = cacheFileName(pkg.name, version, pkg.subpath);
+  await fs.mkdir(PACKAGE_CACHE_DIR, { recursive: true });
+  await fs.writeFile(path.join(PACKAGE_CACHE_DIR, file), output.outputFiles[0].text);
+
+  return { file, version };
+}
+
+// Bundles already read from disk, keyed by file name
+const bundleSources = new Map<string, Promise<string>>();
+
+async function loadPackage(pkg: PackageSpecifier): Promise<SandboxModule | null> {
+  const cached = await findCachedBundle(pkg) ??
+    (OFFERED_PACKAGES.has(pkg.name) ? await cacheInstalledPackage(pkg) : null);
+  if (!cached) return null;
+
+  if (!bundleSources.has(cached.file)) {
+    const source = fs.readFile(path.join(PACKAGE_CACHE_DIR, cached.file), "utf8");
+    // Forget failed reads so the next run tries again
+    source.catch(() => bundleSources.delete(cached.file));
+    bundleSources.set(cached.file, source);
+  }
+
+  return {
+    id: `${pkg.name}@${cached.version}${pkg.subpath}`,
+    source: await bundleSources.get(cached.file)!
+  };
+}
+
+/**
+ * Look up every module imported by user code in the package cache
+ * @param imports Import specifiers found in the code, with their locations
+ * @returns The bundles keyed by specifier, or an error pointing at the first
+ * import that cannot be served offline
+ */
+export async function resolveImports(
+  imports: ModuleImport[]
+): Promise<{ ok: true; modules: Record<string, SandboxModule> } | { ok: false; error: ExecutionError }> {
+  const modules: Record<string, SandboxModule> = {};
+
+  for (const { specifier, line, column, file } of imports) {
+    if (modules[specifier]) continue;
+
+    const pkg = parsePackageSpecifier(specifier);
+    let module: SandboxModule | null = null;
+    try {
+      module = pkg ? await loadPackage(pkg) : null;
+    } catch (error: any) {
+      console.error(`Error loading package for '${specifier}':`, error);
+      return {
+        ok: false,
+        error: { name: "Error", message: `Failed to load '${specifier}': ${error?.message || "Unknown error"}`, line, column, file }
+      };
+    }
+
+    if (!module) {
+      return {
+        ok: false,
+        error: {
+          name: "Error",
+          message: pkg
+            ? `Cannot find package '${pkg.name}${pkg.version ? `@${pkg.version}` : ""}' in the offline package cache`
+            : `Cannot import '${specifier}': only npm packages and esm.sh URLs can be imported`,
+          line,
+          column,
+          file
+        }
+      };
+    }
+
+    modules[specifier] = module;
+  }
+
+  return { ok: true, modules };
+}
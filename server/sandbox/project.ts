@@ -0,0 +1,134 @@
+import path from "path";
+import { build, type Loader, type Message, type Plugin } from "esbuild";
+import { TraceMap } from "@jridgewell/trace-mapping";
+import type { ExecutionError } from "@shared/execution";
+import type { ProjectFile, SnippetProject } from "@shared/project";
+import type { Language } from "@shared/schema";
+import type { ModuleImport } from "./packages";
+import { PROJECT_BUNDLE_FILE, parseModuleCode, toOriginalFileLocation, type PreparedCode } from "./transform";
+
+// esbuild namespace of the project's files, left out of the names in the source map
+const NAMESPACE = "project";
+
+// Tried in order for imports that leave out the extension, as bundlers do
+const RESOLVE_SUFFIXES = ["", ".js", ".ts", ".mjs", ".json", "/index.js", "/index.ts"];
+
+function isRelative(specifier: string): boolean {
+  return specifier === "." || specifier === ".." || /^\.{0,2}\//.test(specifier);
+}
+
+/**
+ * Find the file of a project a relative import refers to
+ * @param files The project's files by path
+ * @param importer Path of the file the import is in
+ * @param specifier What was imported, e.g. "./utils" or "../lib/math.js"
+ * @returns The path of the file, or null when the project has none there
+ */
+export function resolveProjectImport(files: Map<string, ProjectFile>, importer: string, specifier: string): string | null {
+  const target = specifier.startsWith("/")
+    ? path.posix.normalize(specifier.slice(1))
+    : path.posix.join(path.posix.dirname(importer), specifier);
+  if (target.startsWith("..")) return null;
+
+  for (const suffix of RESOLVE_SUFFIXES) {
+    const candidate = path.posix.normalize(target + suffix);
+    if (files.has(candidate)) return candidate;
+  }
+  return null;
+}
+
+// TypeScript files are transpiled, and so is the entry of a TypeScript snippet
+function loaderFor(file: string, isEntry: boolean, language: Language): Loader {
+  if (file.endsWith(".json")) return "json";
+  if (file.endsWith(".ts") || (isEntry && language === "typescript")) return "ts";
+  return "js";
+}
+
+// Build failures come back as the error of the run, located in the file that caused them
+function toBuildError(message: Message): ExecutionError {
+  const location = message.location;
+  return {
+    // Imports that cannot be found fail like they do in Node; the rest are syntax errors
+    name: message.pluginName ? "Error" : "SyntaxError",
+    message: message.text.split(`${NAMESPACE}:`).join(""),
+    line: location?.line,
+    column: location ? location.column + 1 : undefined,
+    file: location?.file.replace(`${NAMESPACE}:`, "")
+  };
+}
+
+/**
+ * Prepare a snippet made of several files for the sandbox. The files are
+ * bundled into one ES module starting at the entry: relative imports are
+ * resolved between them, packages stay imports for the sandbox to serve. The
+ * source map names the file each part of the bundle came from, so errors
+ * point at the file the user wrote.
+ * @param code The content of the entry, which may be newer than the project's copy
+ * @param project The snippet's files
+ * @param language The language of the entry; other files go by their extension
+ */
+export async function prepareProject(code: string, project: SnippetProject, language: Language = "javascript"): Promise<PreparedCode> {
+  const files = new Map(project.files.map(file => [file.path, file]));
+  files.set(project.entry, { path: project.entry, content: code });
+
+  const plugin: Plugin = {
+    name: "snippet-project",
+    setup(build) {
+      build.onResolve({ filter: /.*/ }, (args) => {
+        if (args.kind === "entry-point") return { path: args.path, namespace: NAMESPACE };
+        if (!isRelative(args.path)) return { path: args.path, external: true };
+
+        const resolved = resolveProjectImport(files, args.importer, args.path);
+        if (!resolved) {
+          return { errors: [{ text: `Cannot find '${args.path}' imported from ${args.importer} in the project` }] };
+        }
+        return { path: resolved, namespace: NAMESPACE };
+      });
+      build.onLoad({ filter: /.*/, namespace: NAMESPACE }, (args) => ({
+        contents: files.get(args.path)!.content,
+        loader: loaderFor(args.path, args.path === project.entry, language)
+      }));
+    }
+  };
+
+  let bundle: { code: string; map: string };
+  try {
+    const result = await build({
+      entryPoints: [project.entry],
+      bundle: true,
+      write: false,
+      format: "esm",
+      platform: "neutral",
+      target: "es2022",
+      outfile: PROJECT_BUNDLE_FILE,
+      sourcemap: "external",
+      sourcesContent: false,
+      // Keep every statement the user wrote, used or not
+      treeShaking: false,
+      logLevel: "silent",
+      plugins: [plugin]
+    });
+    const output = (extension: string) => result.outputFiles.find(file => file.path.endsWith(extension))!.text;
+    bundle = { code: output(".js"), map: output(".js.map") };
+  } catch (err: any) {
+    const message = err?.errors?.[0];
+    if (!message) throw err;
+    return { ok: false, error: toBuildError(message) };
+  }
+
+  const map = JSON.parse(bundle.map);
+  map.sources = map.sources.map((source: string) => source.replace(`${NAMESPACE}:`, ""));
+  // Marks positions as named by file, see toOriginalFileLocation
+  map.file = PROJECT_BUNDLE_FILE;
+  const sourceMap = new TraceMap(map);
+
+  const parsed = parseModuleCode(bundle.code);
+  if (!parsed.ok) {
+    return { ok: false, error: toOriginalFileLocation(parsed.error, sourceMap) };
+  }
+  return {
+    ...parsed,
+    imports: parsed.imports.map(entry => toOriginalFileLocation(entry, sourceMap) as ModuleImport),
+    sourceMap
+  };
+}
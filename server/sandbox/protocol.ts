@@ -0,0 +1,166 @@
+// Messages exchanged between the host process and a sandbox worker
+import type { ConsoleMessage, EventLoopEventType, EventLoopTaskKind, ExecutionError, PendingWork } from "@shared/execution";
+import type { SerializedArguments } from "@shared/inspect";
+import type { NetworkPolicy } from "@shared/network";
+import type { DomAction } from "@shared/dom";
+import type { FunctionTest } from "@shared/challenge";
+
+export type { ConsoleMessage, ConsoleMethod, ConsoleType, PendingWork } from "@shared/execution";
+export type SandboxError = ExecutionError;
+
+// File name the worker gives the user's code in stack traces
+export const USER_CODE_FILE = 'main.js';
+
+// Global called by instrumented code to report each step of a traced run
+export const STEP_FUNCTION = '__jsrunner_step';
+
+// Global guarded code reports loop iterations and function calls to
+export const GUARD_OBJECT = '__jsrunner_guard';
+
+// Global the worker runs timer and microtask callbacks through, so they are
+// called from inside the sandbox like everything else user code does
+export const CALLBACK_FUNCTION = '__jsrunner_callback';
+
+// Header telling the local mock API which session's data a request works on
+export const MOCK_SESSION_HEADER = 'x-mock-session';
+
+// Where fetch calls to the placeholder API are sent instead
+export interface MockApiTarget {
+  // URL of the local mock API, without a trailing slash
+  baseUrl: string;
+  // Requests with the same session share their data
+  session: string;
+}
+
+// A package bundle from the offline cache, as CommonJS source
+export interface SandboxModule {
+  // "<name>@<version>", used as the file name in stack traces
+  id: string;
+  source: string;
+}
+
+// Job description passed to the worker through workerData
+export interface SandboxJob {
+  code: string;
+  // Code with import or export statements runs as an ES module
+  format: 'script' | 'module';
+  // Bundles for every import specifier found in the code
+  modules: Record<string, SandboxModule>;
+  timeout: number;
+  maxTimerDelay: number;
+  // What fetch may reach; open when left out
+  network?: NetworkPolicy;
+  // Set when the local mock API is serving; requests to the placeholder API go there
+  mockApi?: MockApiTarget;
+  // Set to give the code a virtual DOM parsed from html. The actions are
+  // performed on it once the code has settled.
+  dom?: { html: string; actions?: DomAction[] };
+  // Set for a challenge test: once the code has run, the function it names
+  // is called and what it does is judged against the test
+  call?: FunctionTest;
+  // Set when the code was instrumented to record its steps
+  trace?: { maxSteps: number };
+  // Set to report every change to the event loop's queues
+  eventLoop?: { maxEvents: number };
+  // Set when a debugger attaches; the code waits for it and runs without the vm's timeout
+  debug?: boolean;
+  // Set for a deterministic run: Math.random and crypto are seeded, Date
+  // starts at startTime and timers fire on a virtual clock
+  deterministic?: { seed: number; startTime: number };
+  // Set when loops and functions were instrumented to stop runaway code
+  guard?: GuardLimits;
+  // Set for a REPL session: the worker keeps its context and evaluates the
+  // inputs the host sends until it is terminated. code is unused.
+  repl?: boolean;
+}
+
+// What the call of a challenge test did. An error it threw is the run's
+// error, unless the test expected it.
+export interface CallOutcome {
+  pass: boolean;
+  // The value returned or the error thrown, as Node's inspect shows it
+  actual: string;
+}
+
+// Budgets for guarded code; exceeding one ends the run
+export interface GuardLimits {
+  // Iterations of one run of a loop
+  maxIterations: number;
+  // Milliseconds one run of a loop may block the event loop
+  maxLoopTime: number;
+  // Synchronous calls nested in each other
+  maxCallDepth: number;
+}
+
+// The first budget guarded code exceeded
+export interface GuardViolation {
+  kind: 'iterations' | 'time' | 'depth';
+  // Index into the sites found while guarding
+  id: number;
+  // Iterations of the loop so far, or the call depth reached
+  count: number;
+  // V8 stack where the budget was exceeded
+  stack: string;
+}
+
+// State reported by a step call in instrumented code
+export interface StepRecord {
+  // Index into the steps found while instrumenting
+  id: number;
+  // Values of the variables visible at the step
+  values: SerializedArguments;
+  // Positions in values of variables that could not be read yet
+  uninitialized: number[];
+  // V8 stack at the step call
+  stack: string;
+}
+
+// A task as the worker's event loop tracer knows it; the location is in the
+// code that ran, the host maps it back to the user's code
+export interface LoopTaskRecord {
+  id: number;
+  kind: EventLoopTaskKind;
+  label: string;
+  line?: number;
+  column?: number;
+}
+
+// State reported by the event loop tracer after each change
+export interface LoopEventRecord {
+  type: EventLoopEventType;
+  task: LoopTaskRecord | null;
+  running: LoopTaskRecord | null;
+  webApis: LoopTaskRecord[];
+  macrotasks: LoopTaskRecord[];
+  microtasks: LoopTaskRecord[];
+  // V8 stack where the event happened
+  stack: string;
+}
+
+export type WorkerMessage =
+  | { kind: 'start' }
+  | { kind: 'console'; entry: ConsoleMessage }
+  | { kind: 'step'; step: StepRecord }
+  | { kind: 'loopEvent'; event: LoopEventRecord }
+  // Sent once when a traced run reaches its step or event limit
+  | { kind: 'traceLimit' }
+  // Sent once when guarded code exceeds a budget; the run ends with it
+  | { kind: 'guard'; violation: GuardViolation }
+  // dom is the final HTML of a run with a virtual DOM; call is set for a
+  // challenge test once its function was called
+  | { kind: 'done'; result: any; error: SandboxError | null; pending: PendingWork | null; dom: string | null; call: CallOutcome | null }
+  // Answer to a REPL input, sent once its value has settled
+  | { kind: 'evaluated'; id: number; value: SerializedArguments | null; error: SandboxError | null; pending: PendingWork }
+  // Sent by a REPL session whenever a timer or request of earlier inputs settles
+  | { kind: 'pending'; pending: PendingWork }
+  // Answer to a ping, showing the REPL worker's event loop is not stuck
+  | { kind: 'pong' };
+
+export type HostMessage =
+  // Sent to a debug job once breakpoints are set, so the code can start
+  | { kind: 'attached' }
+  // A REPL input, already rewritten to run as a script; async inputs
+  // complete with a promise of their value
+  | { kind: 'evaluate'; id: number; code: string; async: boolean; modules: Record<string, SandboxModule> }
+  // Sent to a REPL worker at intervals; it answers with pong when it is free
+  | { kind: 'ping' };
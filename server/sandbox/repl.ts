@@ -0,0 +1,439 @@
+import * as acorn from "acorn";
+import * as walk from "acorn-walk";
+import type { Worker } from "worker_threads";
+import type { TraceMap } from "@jridgewell/trace-mapping";
+import type { Language } from "@shared/schema";
+import type { ExecutionError, ReplEvaluation, ReplOutput } from "@shared/execution";
+import type { SerializedArguments } from "@shared/inspect";
+import type { ConsoleMessage, MockApiTarget, PendingWork, WorkerMessage } from "./protocol";
+import { collectImports, toOriginalLocation, toSyntaxError, transpileTypeScript } from "./transform";
+import { resolveImports, type ModuleImport } from "./packages";
+import { patternNames } from "./instrument";
+import { cleanError, formatFrames, parseStack, type StackContext } from "./stack";
+import { KILL_GRACE_MS, STARTUP_TIMEOUT_MS, spawnWorker } from "./spawn";
+
+export type PreparedInput =
+  | {
+      ok: true;
+      code: string;
+      // Set when the code is wrapped in an async function for top-level await
+      async: boolean;
+      imports: ModuleImport[];
+      sourceMap: TraceMap | null;
+      // Characters added in front of the first line
+      prefixLength: number;
+    }
+  | { ok: false; error: ExecutionError };
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function applyReplacements(code: string, replacements: Replacement[]): string {
+  return replacements
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, { start, end, text }) => result.slice(0, start) + text + result.slice(end), code);
+}
+
+// True when the program awaits outside of any function, counting for await loops
+function usesTopLevelAwait(ast: acorn.Program): boolean {
+  let found = false;
+  walk.recursive(ast, null, {
+    // Awaits inside functions belong to those functions
+    Function() {},
+    AwaitExpression() {
+      found = true;
+    },
+    ForOfStatement(node: any, state, visit) {
+      if (node.await) found = true;
+      walk.base.ForOfStatement!(node, state, visit);
+    }
+  });
+  return found;
+}
+
+/**
+ * Rewrite a REPL input so its top-level declarations outlive it. Every input
+ * runs as a script in the session's context, where let, const and class
+ * would stay in the script scope and could not be declared again by a later
+ * input. They become assignments to hoisted vars instead, the way Node's REPL
+ * treats them. Inputs using await or import are wrapped in an async function
+ * that returns the value of their last expression; functions declared in it
+ * are copied to the global object. Lines keep their numbers, and everything
+ * added in front stays on the first line.
+ * @param code JavaScript or TypeScript source typed by the user
+ * @param language The language the source is written in
+ */
+export async function prepareReplInput(code: string, language: Language = 'javascript'): Promise<PreparedInput> {
+  let sourceMap: TraceMap | null = null;
+
+  if (language === 'typescript') {
+    // Imports no later line of the input uses are still meant for the next inputs
+    const transpiled = await transpileTypeScript(code, { keepImports: true });
+    if (!transpiled.ok) return transpiled;
+    code = transpiled.code;
+    sourceMap = transpiled.sourceMap;
+  }
+
+  let ast: acorn.Program;
+  try {
+    ast = acorn.parse(code, {
+      ecmaVersion: "latest",
+      sourceType: "script",
+      locations: true,
+      allowAwaitOutsideFunction: true,
+      allowImportExportEverywhere: true
+    });
+  } catch (err: any) {
+    if (!(err instanceof SyntaxError) || !("loc" in err)) {
+      throw err;
+    }
+    return { ok: false, error: toOriginalLocation(toSyntaxError(err), sourceMap) };
+  }
+
+  const isAsync = usesTopLevelAwait(ast) || ast.body.some(statement => statement.type === "ImportDeclaration");
+  const hoisted: string[] = [];
+  const functions: string[] = [];
+  const replacements: Replacement[] = [];
+  const replace = (start: number, end: number, text: string) => replacements.push({ start, end, text });
+
+  const rewriteDeclaration = (node: any) => {
+    switch (node.type) {
+      case "VariableDeclaration": {
+        // const a = 1, { b } = c;  ->  void (a = 1, { b } = c);
+        replace(node.start, node.declarations[0].start, "void (");
+        node.declarations.forEach((declaration: any, index: number) => {
+          patternNames(declaration.id, hoisted);
+          const close = index === node.declarations.length - 1 ? ")" : "";
+          if (declaration.init) {
+            if (close) replace(declaration.init.end, declaration.init.end, close);
+          } else {
+            // let x; resets x like a fresh declaration would
+            replace(declaration.id.end, declaration.id.end, ` = undefined${close}`);
+          }
+        });
+        break;
+      }
+      case "ClassDeclaration":
+        hoisted.push(node.id.name);
+        replace(node.start, node.start, `void (${node.id.name} = `);
+        replace(node.end, node.end, ");");
+        break;
+      case "FunctionDeclaration":
+        functions.push(node.id.name);
+        break;
+    }
+  };
+
+  ast.body.forEach((statement: any, index: number) => {
+    switch (statement.type) {
+      case "ImportDeclaration": {
+        // import a, { b as c } from "x";  ->  const ns = await import("x"); a = ns.default; c = ns["b"];
+        const namespace = `__replImport${index}`;
+        const assignments = statement.specifiers.map((specifier: any) => {
+          hoisted.push(specifier.local.name);
+          switch (specifier.type) {
+            case "ImportDefaultSpecifier":
+              return `${specifier.local.name} = ${namespace}.default;`;
+            case "ImportNamespaceSpecifier":
+              return `${specifier.local.name} = ${namespace};`;
+            default: {
+              const imported = specifier.imported.type === "Identifier" ? specifier.imported.name : specifier.imported.value;
+              return `${specifier.local.name} = ${namespace}[${JSON.stringify(imported)}];`;
+            }
+          }
+        });
+        const source = JSON.stringify(statement.source.value);
+        replace(statement.start, statement.end, `const ${namespace} = await import(${source}); ${assignments.join(" ")}`);
+        break;
+      }
+      case "ExportNamedDeclaration":
+        if (statement.declaration) {
+          // There is nothing to export to; the declaration is kept
+          replace(statement.start, statement.declaration.start, "");
+          rewriteDeclaration(statement.declaration);
+        } else {
+          replace(statement.start, statement.end, "");
+        }
+        break;
+      case "ExportAllDeclaration":
+        replace(statement.start, statement.end, "");
+        break;
+      case "ExportDefaultDeclaration":
+        if (statement.declaration.id) {
+          replace(statement.start, statement.declaration.start, "");
+          rewriteDeclaration(statement.declaration);
+        } else {
+          // An anonymous default export is evaluated like any expression
+          replace(statement.start, statement.declaration.start, "(");
+          replace(statement.declaration.end, statement.declaration.end, ")");
+        }
+        break;
+      default:
+        rewriteDeclaration(statement);
+    }
+  });
+
+  const last: any = ast.body[ast.body.length - 1];
+  if (isAsync && last?.type === "ExpressionStatement") {
+    replace(last.expression.start, last.expression.start, "return (");
+    replace(last.expression.end, last.expression.end, ")");
+  }
+
+  const names = Array.from(new Set(isAsync ? [...hoisted, ...functions] : hoisted));
+  let prefix = names.length > 0 ? `var ${names.join(", ")}; ` : "";
+  let suffix = "";
+  if (isAsync) {
+    prefix += `(async () => { ${functions.map(name => `globalThis.${name} = ${name}; `).join("")}`;
+    // On a line of its own in case the input ends with a line comment
+    suffix = "\n})()";
+  }
+
+  return {
+    ok: true,
+    code: prefix + applyReplacements(code, replacements) + suffix,
+    async: isAsync,
+    imports: collectImports(ast).map(entry => toOriginalLocation(entry, sourceMap) as ModuleImport),
+    sourceMap,
+    prefixLength: prefix.length
+  };
+}
+
+export interface ReplSessionOptions {
+  // Budget for each input in milliseconds. Inputs that run longer are
+  // stopped and the session starts over.
+  timeout?: number;
+  // Upper bound applied to every setTimeout delay requested by user code
+  maxTimerDelay?: number;
+  // Heap limit for the worker holding the session
+  memoryLimitMb?: number;
+  // The local mock API, which then answers requests to the placeholder API
+  mockApi?: MockApiTarget;
+}
+
+export interface ReplSession {
+  // Inputs are evaluated one at a time, in the order they are submitted
+  evaluate: (code: string, language?: Language) => Promise<ReplEvaluation>;
+  // Console output written since the last response, e.g. by timers
+  collectOutput: () => ReplOutput;
+  // Forget every declaration; the next input starts a fresh context
+  reset: () => void;
+  dispose: () => void;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_MEMORY_LIMIT_MB = 64;
+// Console entries kept until the client collects them; older ones are dropped
+const MAX_BUFFERED_OUTPUT = 500;
+// How often an idle session's worker is asked whether it is still responsive
+const HEARTBEAT_INTERVAL_MS = 1000;
+
+const NO_PENDING_WORK: PendingWork = { timers: 0, requests: 0 };
+
+type InputOutcome = { value: SerializedArguments | null; error: ExecutionError | null };
+
+/**
+ * Start a REPL session: a sandbox worker that keeps its context between
+ * inputs, so variables and functions declared by one input are available to
+ * the next. Timers and requests started by an input keep running after its
+ * value is reported. The worker is started by the first input and whenever
+ * an input had to be stopped.
+ */
+export function createReplSession(options: ReplSessionOptions = {}): ReplSession {
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+
+  let current: { worker: Worker; ready: Promise<void>; heartbeat: NodeJS.Timeout } | null = null;
+  let output: ConsoleMessage[] = [];
+  let dropped = 0;
+  let pending = NO_PENDING_WORK;
+  let nextId = 1;
+  let queue: Promise<unknown> = Promise.resolve();
+  // Settles the input the worker is evaluating
+  let settle: ((outcome: InputOutcome) => void) | null = null;
+  // Stacks printed later by timers are read against the latest input
+  let stackContext: StackContext = { sourceMap: null, fileName: 'repl', packages: new Set() };
+
+  const push = (entry: ConsoleMessage) => {
+    if (entry.stack) {
+      const frames = parseStack(entry.stack, stackContext);
+      entry = { ...entry, stack: formatFrames(frames), frames };
+    }
+    output.push(entry);
+    if (output.length > MAX_BUFFERED_OUTPUT) {
+      output.shift();
+      dropped++;
+    }
+  };
+
+  const stop = (error: ExecutionError) => {
+    if (!current) return;
+    const { worker, heartbeat } = current;
+    current = null;
+    clearInterval(heartbeat);
+    pending = NO_PENDING_WORK;
+    worker.removeAllListeners();
+    // Swallow errors raised while tearing down the worker
+    worker.on('error', () => {});
+    worker.terminate();
+    settle?.({ value: null, error });
+  };
+
+  const start = () => {
+    const worker = spawnWorker({
+      code: '',
+      format: 'script',
+      modules: {},
+      timeout,
+      maxTimerDelay: options.maxTimerDelay ?? timeout,
+      mockApi: options.mockApi,
+      repl: true
+    }, memoryLimitMb);
+    let markReady!: () => void;
+    const ready = new Promise<void>((resolve) => {
+      markReady = resolve;
+    });
+
+    // Code that never yields, such as a timer callback or promise reaction
+    // stuck in a loop, stops the worker from answering; it is then killed.
+    // An input being evaluated has its own timer.
+    let lastHeard = 0;
+    const heartbeat = setInterval(() => {
+      if (!lastHeard || settle) return;
+      if (Date.now() - lastHeard > timeout + KILL_GRACE_MS) {
+        push({ type: 'error', content: `Code running in the background did not yield within ${timeout}ms; the session was reset` });
+        stop({ name: 'TimeoutError', message: `The session did not respond within ${timeout}ms and was reset` });
+        return;
+      }
+      worker.postMessage({ kind: 'ping' });
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    worker.on('message', (message: WorkerMessage) => {
+      lastHeard = Date.now();
+      switch (message.kind) {
+        case 'start':
+          markReady();
+          break;
+        case 'console':
+          push(message.entry);
+          break;
+        case 'pending':
+          pending = message.pending;
+          break;
+        case 'evaluated':
+          pending = message.pending;
+          settle?.({ value: message.value, error: message.error });
+          break;
+      }
+    });
+
+    worker.on('error', (err: any) => {
+      stop(err?.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? { name: 'RangeError', message: `Memory limit of ${memoryLimitMb}MB exceeded; the session was reset` }
+        : { name: err?.name || 'Error', message: `${err?.message || 'Sandbox worker crashed'}; the session was reset` });
+    });
+
+    worker.on('exit', (exitCode) => {
+      stop({ name: 'Error', message: `Sandbox worker exited unexpectedly (code ${exitCode}); the session was reset` });
+    });
+
+    current = { worker, ready, heartbeat };
+    return current;
+  };
+
+  const collectOutput = (): ReplOutput => {
+    const entries = output;
+    if (dropped > 0) {
+      entries.unshift({ type: 'warn', content: `${dropped} earlier console messages were dropped` });
+    }
+    output = [];
+    dropped = 0;
+    return { console: entries, pending };
+  };
+
+  const evaluateInput = async (code: string, language?: Language): Promise<ReplEvaluation> => {
+    // Syntax errors and missing packages leave the session untouched
+    const prepared = await prepareReplInput(code, language);
+    const resolved = prepared.ok ? await resolveImports(prepared.imports) : prepared;
+    if (!prepared.ok || !resolved.ok) {
+      return { value: null, error: resolved.ok ? null : resolved.error, ...collectOutput() };
+    }
+
+    const packages = new Set(stackContext.packages);
+    Object.values(resolved.modules).forEach(module => packages.add(module.id));
+    const { prefixLength } = prepared;
+    stackContext = {
+      sourceMap: prepared.sourceMap,
+      fileName: 'repl',
+      packages,
+      // Undo the declarations and wrapper added in front of the first line
+      mapColumn: (line, column) => line === 1 ? Math.max(column - prefixLength, 1) : column
+    };
+
+    const { worker, ready } = current ?? start();
+    const outcome = await new Promise<InputOutcome>((resolve) => {
+      let timer: NodeJS.Timeout;
+      const finish = (result: InputOutcome) => {
+        clearTimeout(timer);
+        settle = null;
+        resolve(result);
+      };
+      settle = finish;
+
+      timer = setTimeout(() => {
+        finish({ value: null, error: { name: 'Error', message: 'Sandbox worker failed to start in time' } });
+        stop({ name: 'Error', message: 'Sandbox worker failed to start in time' });
+      }, STARTUP_TIMEOUT_MS);
+      ready.then(() => {
+        if (settle !== finish) return;
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          finish({
+            value: null,
+            error: { name: 'TimeoutError', message: `Evaluation timed out after ${timeout}ms; the session was reset` }
+          });
+          stop({ name: 'TimeoutError', message: 'Evaluation timed out' });
+        }, timeout + KILL_GRACE_MS);
+      });
+
+      worker.postMessage({
+        kind: 'evaluate',
+        id: nextId++,
+        code: prepared.code,
+        async: prepared.async,
+        modules: resolved.modules
+      });
+    });
+
+    let error = outcome.error;
+    if (error) {
+      // The worker reports locations in the rewritten code
+      if (error.line === 1 && error.column) {
+        error = { ...error, column: Math.max(error.column - prefixLength, 1) };
+      }
+      error = cleanError(error, stackContext);
+    }
+    return { value: outcome.value, error, ...collectOutput() };
+  };
+
+  const reset = () => {
+    stop({ name: 'Error', message: 'The session was reset' });
+    output = [];
+    dropped = 0;
+    stackContext = { sourceMap: null, fileName: 'repl', packages: new Set() };
+  };
+
+  return {
+    evaluate: (code, language) => {
+      const evaluation = queue.then(() => evaluateInput(code, language));
+      queue = evaluation.catch(() => {});
+      return evaluation;
+    },
+    collectOutput,
+    reset,
+    dispose: reset
+  };
+}
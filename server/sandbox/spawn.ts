@@ -0,0 +1,40 @@
+import { Worker } from "worker_threads";
+import type { SandboxJob } from "./protocol";
+
+// Extra time before the worker is killed, so the vm's own timeout error wins for synchronous loops
+export const KILL_GRACE_MS = 250;
+// Maximum time a worker may take to boot before user code starts running
+export const STARTUP_TIMEOUT_MS = 10000;
+
+// When running from source (tsx in development) the worker has to register
+// the TypeScript loader itself; the production bundle ships a compiled worker
+// next to dist/index.js.
+const isSourceRun = import.meta.url.endsWith(".ts");
+
+/**
+ * Start a worker for a sandbox job. The job travels as workerData; the
+ * worker sees none of the server's environment variables.
+ */
+export function spawnWorker(job: SandboxJob, memoryLimitMb: number): Worker {
+  const options = {
+    workerData: job,
+    // Do not leak server secrets such as DATABASE_URL into user code
+    env: {},
+    // ES module support in the vm is still behind a flag
+    execArgv: ['--experimental-vm-modules', '--disable-warning=ExperimentalWarning'],
+    resourceLimits: {
+      maxOldGenerationSizeMb: memoryLimitMb,
+      maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)),
+      codeRangeSizeMb: 16,
+      stackSizeMb: 4
+    }
+  };
+
+  if (isSourceRun) {
+    const entry = new URL("./worker.ts", import.meta.url).href;
+    const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`;
+    return new Worker(bootstrap, { ...options, eval: true });
+  }
+
+  return new Worker(new URL("./sandbox/worker.js", import.meta.url), options);
+}
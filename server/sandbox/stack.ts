@@ -0,0 +1,98 @@
+import { originalPositionFor, type TraceMap } from "@jridgewell/trace-mapping";
+import type { ExecutionError, StackFrame } from "@shared/execution";
+import { PROJECT_BUNDLE_FILE, toOriginalFileLocation } from "./transform";
+import { USER_CODE_FILE } from "./protocol";
+
+// "    at fn (file:line:column)" or "    at file:line:column"
+const FRAME_PATTERN = /^\s*at (?:(.+?) \()?([^\s()]+):(\d+):(\d+)\)?$/;
+
+export interface StackContext {
+  // Maps the executed code back to the original when it was transpiled
+  sourceMap: TraceMap | null;
+  // Name the user's code is shown under, e.g. "main.ts"; for a project
+  // bundled from several files, the name of its entry
+  fileName: string;
+  // Ids of the package bundles loaded for the run
+  packages: Set<string>;
+  // Undoes the column shifts of instrumented code, see instrument.ts
+  mapColumn?: (line: number, column: number) => number;
+}
+
+/**
+ * Pick the frames of a V8 stack trace that belong to the user's code or its
+ * packages. Frames of the sandbox and of Node internals are dropped, and
+ * frames in transpiled code are mapped back to the original source.
+ * @param stack The stack as reported inside the worker
+ * @param context What the run consisted of
+ */
+export function parseStack(stack: string, context: StackContext): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stack.split('\n')) {
+    const match = line.match(FRAME_PATTERN);
+    if (!match) continue;
+
+    const [, functionName = null, file, lineText, columnText] = match;
+    const position = { line: Number(lineText), column: Number(columnText) };
+
+    if (file === USER_CODE_FILE) {
+      let fileName = context.fileName;
+      if (context.mapColumn) {
+        position.column = context.mapColumn(position.line, position.column);
+      }
+      if (context.sourceMap) {
+        const original = originalPositionFor(context.sourceMap, {
+          line: position.line,
+          column: position.column - 1
+        });
+        // Code esbuild generated itself has no original position
+        if (original.line === null) continue;
+        position.line = original.line;
+        position.column = original.column + 1;
+        // A bundled project names the file each position came from
+        if (context.sourceMap.file === PROJECT_BUNDLE_FILE && original.source) fileName = original.source;
+      }
+      frames.push({ functionName, file: fileName, ...position, userCode: true });
+    } else if (context.packages.has(file)) {
+      frames.push({ functionName, file, ...position, userCode: false });
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Render frames the way V8 prints them, one "    at" line each
+ */
+export function formatFrames(frames: StackFrame[]): string {
+  return frames
+    .map(frame => {
+      const location = `${frame.file}:${frame.line}:${frame.column}`;
+      return frame.functionName ? `    at ${frame.functionName} (${location})` : `    at ${location}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Point an error raised by user code at the code the user wrote: the location
+ * is mapped through the source map and the stack keeps only user frames
+ * @param error The error reported by the worker
+ * @param context What the run consisted of
+ */
+export function cleanError(error: ExecutionError, context: StackContext): ExecutionError {
+  const unshifted = context.mapColumn && error.line && error.column
+    ? { ...error, column: context.mapColumn(error.line, error.column) }
+    : error;
+  const located = toOriginalFileLocation(unshifted, context.sourceMap);
+  if (!error.stack) {
+    return located;
+  }
+
+  const frames = parseStack(error.stack, context);
+  const header = `${error.name}: ${error.message}`;
+  return {
+    ...located,
+    stack: frames.length > 0 ? `${header}\n${formatFrames(frames)}` : header,
+    frames
+  };
+}
@@ -0,0 +1,350 @@
+import { createHook, executionAsyncId } from "async_hooks";
+import type { EventLoopEventType } from "@shared/execution";
+import type { LoopTaskRecord, WorkerMessage } from "./protocol";
+
+// A frame of the user's code: optional function name, line, column
+const USER_FRAME_PATTERN = /^\s*at (?:async )?(?:(.+?) \()?main\.js:(\d+):(\d+)\)?$/;
+
+// A built-in Promise method, e.g. "at Promise.then (<anonymous>)"
+const PROMISE_METHOD_PATTERN = /^\s*at (?:Promise|Function)\.(\w+) \(<anonymous>\)$/;
+
+// Promise statics whose internal then() calls show up as reactions
+const COMBINATORS = ['all', 'allSettled', 'any', 'race'];
+
+interface Site {
+  functionName: string | null;
+  line: number;
+  column: number;
+  // Built-in Promise method the user's code was calling, if any
+  method: string | null;
+}
+
+interface QueuedTask {
+  timerId: number;
+  task: LoopTaskRecord;
+  run: () => void;
+}
+
+interface TrackedPromise {
+  resolved: boolean;
+  // Reactions registered while the promise was pending
+  waiting: number[];
+  // Set for promises created by then() or await, whose job is a microtask
+  task: LoopTaskRecord | null;
+  // Whether that job has run
+  ran: boolean;
+}
+
+export interface LoopTracerOptions {
+  // Events reported before the rest of the run goes untraced
+  maxEvents: number;
+  post: (message: WorkerMessage) => void;
+}
+
+function captureStack(): string {
+  const stackTraceLimit = Error.stackTraceLimit;
+  Error.stackTraceLimit = 50;
+  const stack = new Error().stack ?? '';
+  Error.stackTraceLimit = stackTraceLimit;
+  return stack;
+}
+
+// The innermost frame of the user's code in a stack
+function userSite(stack: string): Site | null {
+  const frames = stack.split('\n');
+  for (let index = 0; index < frames.length; index++) {
+    const match = frames[index].match(USER_FRAME_PATTERN);
+    if (match) {
+      return {
+        functionName: match[1] ?? null,
+        line: Number(match[2]),
+        column: Number(match[3]),
+        method: frames[index - 1]?.match(PROMISE_METHOD_PATTERN)?.[1] ?? null
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Follow the event loop of a sandboxed run the way a browser's would look:
+ * timers and requests wait in the Web APIs, due timers in the macrotask
+ * queue and promise reactions in the microtask queue. Timers are reported
+ * by the worker's own timer functions; promises are followed with V8's
+ * promise hooks, which see every then() and await in the sandbox realm.
+ * Each change is posted with the full state of the queues.
+ */
+export function createLoopTracer(options: LoopTracerOptions) {
+  let nextId = 1;
+  let events = 0;
+  let running: LoopTaskRecord | null = null;
+  const webApis: LoopTaskRecord[] = [];
+  const timers = new Map<number, LoopTaskRecord>();
+  const macrotasks: QueuedTask[] = [];
+  const microtasks: LoopTaskRecord[] = [];
+  let dispatching = false;
+  // Greater than zero while the worker creates promises of its own
+  let paused = 0;
+  // An await creates two promises at the same spot; it is reported once
+  let lastAwait: LoopTaskRecord | null = null;
+
+  const createTask = (kind: LoopTaskRecord['kind'], label: string, site: Site | null): LoopTaskRecord => ({
+    id: nextId++,
+    kind,
+    label,
+    line: site?.line,
+    column: site?.column
+  });
+
+  const emit = (type: EventLoopEventType, task: LoopTaskRecord | null) => {
+    lastAwait = type === 'await' ? task : null;
+    if (events === options.maxEvents) {
+      options.post({ kind: 'traceLimit' });
+      promiseHook.disable();
+    }
+    if (events++ >= options.maxEvents) return;
+
+    options.post({
+      kind: 'loopEvent',
+      event: {
+        type,
+        task,
+        running,
+        webApis: [...webApis],
+        macrotasks: macrotasks.map(entry => entry.task),
+        microtasks: [...microtasks],
+        stack: captureStack()
+      }
+    });
+  };
+
+  const remove = (list: LoopTaskRecord[], task: LoopTaskRecord) => {
+    const index = list.indexOf(task);
+    if (index !== -1) list.splice(index, 1);
+  };
+
+  // Run due timers one per turn of the host's event loop, so microtasks
+  // they queue are drained before the next one starts
+  const dispatch = () => {
+    const next = macrotasks.shift();
+    if (next) {
+      if (next.task.kind === 'timeout') {
+        timers.delete(next.timerId);
+      }
+      running = next.task;
+      emit('taskStart', next.task);
+      next.run();
+      running = null;
+      emit('taskEnd', next.task);
+    }
+
+    if (macrotasks.length > 0) {
+      setImmediate(dispatch);
+    } else {
+      dispatching = false;
+    }
+  };
+
+  // --- Promises ---
+
+  const promises = new Map<number, TrackedPromise>();
+  let promisePrototype: object | null = null;
+
+  // Name the job of a promise created as a reaction to another one, by
+  // what the user's code was doing when it was created
+  const reactionTask = (site: Site | null): LoopTaskRecord => {
+    const method = site?.method;
+    if (method === 'then' || method === 'catch' || method === 'finally') {
+      return createTask('promise', `${method}() callback`, site);
+    }
+    if (method && COMBINATORS.includes(method)) {
+      return createTask('promise', `Promise.${method}() step`, site);
+    }
+    // Only await creates a reaction without calling into Promise
+    if (site && !method) {
+      const name = site.functionName ? `${site.functionName}()` : 'top-level code';
+      return createTask('await', `resume ${name}`, site);
+    }
+    return createTask('promise', 'promise job', site);
+  };
+
+  const enqueue = (promise: TrackedPromise) => {
+    microtasks.push(promise.task!);
+    emit('microtaskQueued', promise.task);
+  };
+
+  const promiseHook = createHook({
+    init(asyncId, type, triggerAsyncId, resource) {
+      // Promises of the worker itself live in another realm
+      if (type !== 'PROMISE' || paused > 0 || !promisePrototype?.isPrototypeOf(resource)) return;
+
+      const promise: TrackedPromise = { resolved: false, waiting: [], task: null, ran: false };
+      promises.set(asyncId, promise);
+      // A reaction is triggered by the promise it reacts to; any other
+      // promise by whatever is running at the moment
+      const parent = triggerAsyncId !== executionAsyncId() ? promises.get(triggerAsyncId) : undefined;
+      if (!parent) return;
+
+      promise.task = reactionTask(userSite(captureStack()));
+      if (promise.task.kind === 'await') {
+        const previous = lastAwait;
+        if (previous?.line !== promise.task.line || previous?.column !== promise.task.column) {
+          emit('await', promise.task);
+        }
+      }
+      if (parent.resolved) {
+        enqueue(promise);
+      } else {
+        parent.waiting.push(asyncId);
+      }
+    },
+
+    promiseResolve(asyncId) {
+      const promise = promises.get(asyncId);
+      if (!promise || promise.resolved) return;
+      promise.resolved = true;
+      // A reaction's own promise cannot settle before its job ran, so
+      // settled dependents were never reactions of this promise
+      for (const id of promise.waiting) {
+        const dependent = promises.get(id);
+        if (dependent && !dependent.resolved) enqueue(dependent);
+      }
+      promise.waiting = [];
+    },
+
+    before(asyncId) {
+      const promise = promises.get(asyncId);
+      if (!promise) return;
+      if (promise.task && !promise.ran) {
+        remove(microtasks, promise.task);
+      } else {
+        // Resolving a promise with another one, such as a then() callback
+        // returning a promise, takes a job of its own that was never queued
+        promise.task = createTask('promise', 'adopt inner promise', null);
+      }
+      promise.ran = true;
+      running = promise.task;
+      emit('microtaskStart', promise.task);
+    },
+
+    after(asyncId) {
+      const promise = promises.get(asyncId);
+      if (!promise || running !== promise.task) return;
+      running = null;
+      emit('microtaskEnd', promise.task);
+    }
+  });
+
+  return {
+    /**
+     * Start following promises. Only promises whose prototype chain
+     * contains the sandbox's Promise.prototype belong to user code.
+     */
+    watchPromises(prototype: object) {
+      promisePrototype = prototype;
+      promiseHook.enable();
+    },
+
+    // Run worker code that reacts to user promises without reporting it
+    untraced<T>(fn: () => T): T {
+      paused++;
+      try {
+        return fn();
+      } finally {
+        paused--;
+      }
+    },
+
+    scriptStart() {
+      running = createTask('script', 'main script', null);
+      emit('scriptStart', running);
+    },
+
+    scriptEnd() {
+      const script = running;
+      running = null;
+      emit('scriptEnd', script);
+    },
+
+    timerScheduled(timerId: number, kind: 'timeout' | 'interval', callback: unknown, delay: unknown) {
+      const name = (typeof callback === 'function' && callback.name) || 'anonymous';
+      const method = kind === 'timeout' ? 'setTimeout' : 'setInterval';
+      const task = createTask(kind, `${method}(${name}, ${Number(delay) || 0})`, userSite(captureStack()));
+      timers.set(timerId, task);
+      webApis.push(task);
+      emit('webApiAdded', task);
+    },
+
+    // The host timer fired: the callback waits in the macrotask queue
+    timerDue(timerId: number, run: () => void) {
+      const timer = timers.get(timerId);
+      if (!timer) {
+        run();
+        return;
+      }
+
+      // Every tick of an interval is a task of its own
+      const task = timer.kind === 'interval' ? { ...timer, id: nextId++ } : timer;
+      if (timer.kind === 'timeout') {
+        remove(webApis, timer);
+      }
+      macrotasks.push({ timerId, task, run });
+      emit('taskQueued', task);
+
+      if (!dispatching) {
+        dispatching = true;
+        setImmediate(dispatch);
+      }
+    },
+
+    timerCleared(timerId: number) {
+      const timer = timers.get(timerId);
+      if (!timer) return;
+      timers.delete(timerId);
+      remove(webApis, timer);
+      for (let index = macrotasks.length - 1; index >= 0; index--) {
+        if (macrotasks[index].timerId === timerId) macrotasks.splice(index, 1);
+      }
+      emit('webApiRemoved', timer);
+    },
+
+    requestStarted(input: unknown): LoopTaskRecord {
+      const url = typeof input === 'string' ? input : (input as any)?.url ?? String(input);
+      const task = createTask('request', `fetch(${url})`, userSite(captureStack()));
+      webApis.push(task);
+      emit('webApiAdded', task);
+      return task;
+    },
+
+    requestSettled(task: LoopTaskRecord) {
+      remove(webApis, task);
+      emit('webApiRemoved', task);
+    },
+
+    // Wrap the job of a queueMicrotask() callback so it is reported
+    microtask(callback: unknown, run: () => void): () => void {
+      const name = (typeof callback === 'function' && callback.name) || 'anonymous';
+      const task = createTask('microtask', `queueMicrotask(${name})`, userSite(captureStack()));
+      microtasks.push(task);
+      emit('microtaskQueued', task);
+
+      return () => {
+        remove(microtasks, task);
+        running = task;
+        emit('microtaskStart', task);
+        try {
+          run();
+        } finally {
+          running = null;
+          emit('microtaskEnd', task);
+        }
+      };
+    },
+
+    consoleWritten() {
+      emit('console', null);
+    }
+  };
+}
+
+export type LoopTracer = ReturnType<typeof createLoopTracer>;
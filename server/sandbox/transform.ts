@@ -0,0 +1,219 @@
+import * as acorn from "acorn";
+import * as walk from "acorn-walk";
+import { transform } from "esbuild";
+import { TraceMap, originalPositionFor } from "@jridgewell/trace-mapping";
+import type { ExecutionError } from "@shared/execution";
+import type { Language } from "@shared/schema";
+import type { ModuleImport } from "./packages";
+
+// Generated file name in the source map of a project bundled from several
+// files, whose positions are named by file
+export const PROJECT_BUNDLE_FILE = 'bundle.js';
+
+export type PreparedCode =
+  | {
+      ok: true;
+      code: string;
+      ast: acorn.Program;
+      format: 'script' | 'module';
+      // Static imports plus dynamic import() calls with a literal specifier
+      imports: ModuleImport[];
+      // Set when the code was transpiled; maps the executed code back to the original
+      sourceMap: TraceMap | null;
+    }
+  | { ok: false; error: ExecutionError };
+
+type ParsedCode = Omit<Extract<PreparedCode, { ok: true }>, 'sourceMap'> | Extract<PreparedCode, { ok: false }>;
+
+export function toSyntaxError(err: any): ExecutionError {
+  const loc = err.loc as acorn.Position;
+  return {
+    name: "SyntaxError",
+    // acorn appends "(line:column)" to the message; it is reported separately
+    message: err.message.replace(/\s*\(\d+:\d+\)$/, ""),
+    line: loc.line,
+    column: loc.column + 1
+  };
+}
+
+function parse(code: string, sourceType: 'script' | 'module'): acorn.Program {
+  return acorn.parse(code, {
+    ecmaVersion: "latest",
+    sourceType,
+    locations: true
+  });
+}
+
+function isModuleSyntax(node: acorn.Node): boolean {
+  return node.type === "ImportDeclaration" ||
+    node.type === "ExportNamedDeclaration" ||
+    node.type === "ExportDefaultDeclaration" ||
+    node.type === "ExportAllDeclaration";
+}
+
+export function collectImports(ast: acorn.Program): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+  const add = (source: acorn.Node | null | undefined) => {
+    if (source?.type === "Literal" && typeof (source as acorn.Literal).value === "string") {
+      imports.push({
+        specifier: (source as acorn.Literal).value as string,
+        line: source.loc!.start.line,
+        column: source.loc!.start.column + 1
+      });
+    }
+  };
+
+  walk.full(ast, (node: any) => {
+    if (node.type === "ImportExpression" || node.type === "ImportDeclaration" ||
+        node.type === "ExportNamedDeclaration" || node.type === "ExportAllDeclaration") {
+      add(node.source);
+    }
+  });
+
+  return imports;
+}
+
+/**
+ * Translate the location of an error in transpiled code back to the code the
+ * user wrote. Errors without a location, or from untranspiled code, are
+ * returned unchanged.
+ * @param error The error as reported for the executed code
+ * @param sourceMap The map produced when the code was transpiled
+ */
+export function toOriginalLocation<T extends { line?: number; column?: number }>(error: T, sourceMap: TraceMap | null): T {
+  const { file, ...located } = toOriginalFileLocation(error, sourceMap);
+  return located as T;
+}
+
+/**
+ * Like toOriginalLocation, also naming the file the location is in when the
+ * code was bundled from several files of a project
+ */
+export function toOriginalFileLocation<T extends { line?: number; column?: number }>(
+  error: T,
+  sourceMap: TraceMap | null
+): T & { file?: string } {
+  if (!sourceMap || !error.line) return error;
+
+  const original = originalPositionFor(sourceMap, {
+    line: error.line,
+    column: Math.max((error.column ?? 1) - 1, 0)
+  });
+  if (original.line === null) {
+    return { ...error, line: undefined, column: undefined };
+  }
+  const file = sourceMap.file === PROJECT_BUNDLE_FILE && original.source ? { file: original.source } : {};
+  return { ...error, line: original.line, column: original.column + 1, ...file };
+}
+
+/**
+ * Strip TypeScript syntax with esbuild. Types are not checked here; the
+ * editor reports type errors while the user types.
+ * @param options keepImports leaves imports that are never used in place,
+ * for code whose bindings are used by code that runs later
+ */
+export async function transpileTypeScript(
+  code: string,
+  options: { keepImports?: boolean } = {}
+): Promise<{ ok: true; code: string; sourceMap: TraceMap } | { ok: false; error: ExecutionError }> {
+  try {
+    const output = await transform(code, {
+      loader: "ts",
+      target: "es2022",
+      sourcemap: true,
+      sourcefile: "main.ts",
+      tsconfigRaw: options.keepImports ? { compilerOptions: { verbatimModuleSyntax: true } } : undefined
+    });
+    return { ok: true, code: output.code, sourceMap: new TraceMap(output.map) };
+  } catch (err: any) {
+    const message = err?.errors?.[0];
+    if (!message) throw err;
+
+    return {
+      ok: false,
+      error: {
+        name: "SyntaxError",
+        message: message.text,
+        line: message.location?.line,
+        column: message.location ? message.location.column + 1 : undefined
+      }
+    };
+  }
+}
+
+/**
+ * Parse JavaScript before it reaches the sandbox. Code is run as a classic
+ * script unless it uses import or export statements, in which case it
+ * becomes an ES module.
+ */
+function parseCode(code: string): ParsedCode {
+  let scriptError: any;
+
+  for (const format of ['script', 'module'] as const) {
+    try {
+      const ast = parse(code, format);
+      if (format === 'module' && !ast.body.some(isModuleSyntax)) {
+        break;
+      }
+      return { ok: true, code, ast, format, imports: collectImports(ast) };
+    } catch (err: any) {
+      if (!(err instanceof SyntaxError) || !("loc" in err)) {
+        throw err;
+      }
+      // Report module parse errors only for code that is clearly a module
+      if (format === 'script') {
+        scriptError = err;
+      } else if (/^\s*(import|export)\b/m.test(code)) {
+        return { ok: false, error: toSyntaxError(err) };
+      }
+    }
+  }
+
+  return { ok: false, error: toSyntaxError(scriptError) };
+}
+
+/**
+ * Parse code that always runs as an ES module, such as a bundled project
+ */
+export function parseModuleCode(code: string): ParsedCode {
+  try {
+    const ast = parse(code, 'module');
+    return { ok: true, code, ast, format: 'module', imports: collectImports(ast) };
+  } catch (err: any) {
+    if (!(err instanceof SyntaxError) || !("loc" in err)) {
+      throw err;
+    }
+    return { ok: false, error: toSyntaxError(err) };
+  }
+}
+
+/**
+ * Prepare user code for the sandbox. JavaScript is executed exactly as
+ * written; TypeScript is transpiled first. Parsing up front lets syntax
+ * errors come back with the line and column the editor needs instead of a
+ * bare V8 message.
+ * @param code The source submitted by the user
+ * @param language The language the source is written in
+ * @returns The code to run with its AST and imports, or a SyntaxError with its location
+ */
+export async function prepareCode(code: string, language: Language = 'javascript'): Promise<PreparedCode> {
+  let sourceMap: TraceMap | null = null;
+
+  if (language === 'typescript') {
+    const transpiled = await transpileTypeScript(code);
+    if (!transpiled.ok) return transpiled;
+    code = transpiled.code;
+    sourceMap = transpiled.sourceMap;
+  }
+
+  const parsed = parseCode(code);
+  if (!parsed.ok) {
+    return { ok: false, error: toOriginalLocation(parsed.error, sourceMap) };
+  }
+
+  return {
+    ...parsed,
+    imports: parsed.imports.map(entry => toOriginalLocation(entry, sourceMap) as ModuleImport),
+    sourceMap
+  };
+}
@@ -0,0 +1,742 @@
+import { parentPort, workerData } from "worker_threads";
+import vm from "vm";
+import util from "util";
+import { createSandboxConsole } from "./console";
+import { serializeArguments } from "./inspect";
+import { createLoopTracer } from "./tracer";
+import { createVirtualClock, installDeterminism } from "./determinism";
+import { createMockApiFetch, createPolicyFetch } from "./network";
+import { installDom, performDomAction, serializeDom } from "./dom";
+import { matchesExpected, matchesThrown } from "./compare";
+import { SANDBOX_FILE, createSandboxContext, toList } from "./globals";
+import type { FunctionTest } from "@shared/challenge";
+import { CALLBACK_FUNCTION, GUARD_OBJECT, STEP_FUNCTION, USER_CODE_FILE, type CallOutcome, type ConsoleType, type GuardLimits, type GuardViolation, type HostMessage, type PendingWork, type SandboxError, type SandboxJob, type SandboxModule, type WorkerMessage } from "./protocol";
+
+const job = workerData as SandboxJob;
+
+// A custom inspect function of user code would be handed the host's inspect
+// and options objects, whenever a value is logged or shown
+util.inspect.defaultOptions.customInspect = false;
+
+const tracer = job.eventLoop
+  ? createLoopTracer({ maxEvents: job.eventLoop.maxEvents, post })
+  : null;
+
+function post(message: WorkerMessage) {
+  parentPort!.postMessage(message);
+}
+
+function emit(type: ConsoleType, content: string) {
+  post({ kind: 'console', entry: { type, content } });
+}
+
+/**
+ * Convert a thrown value into a plain error object. Values thrown inside the
+ * vm context come from another realm, so instanceof checks are not reliable.
+ */
+function toSandboxError(err: any): SandboxError {
+  if (err && typeof err === 'object') {
+    // The first frame in the user's script tells where the error happened
+    const stack = typeof err.stack === 'string' ? err.stack : '';
+    const location = stack.match(/main\.js:(\d+):(\d+)/) ?? stack.match(/main\.js:(\d+)/);
+
+    return {
+      name: err.name || 'Error',
+      message: err.message || 'Unknown error',
+      stack: err.stack,
+      line: location ? Number(location[1]) : undefined,
+      column: location?.[2] ? Number(location[2]) : undefined
+    };
+  }
+  return { name: 'Error', message: String(err) };
+}
+
+/**
+ * Make the completion value safe to send back over postMessage
+ */
+function toTransferable(value: any): any {
+  if (value === undefined) return null;
+  try {
+    return JSON.parse(JSON.stringify(value)) ?? null;
+  } catch {
+    return String(value);
+  }
+}
+
+// Timers and requests started by user code that have not settled yet.
+// Timers are keyed by numeric ids, matching what browsers hand out, and
+// hold the function that cancels them.
+const activeTimers = new Map<number, () => void>();
+let nextTimerId = 1;
+let pendingRequests = 0;
+let wake: (() => void) | null = null;
+
+// Deterministic runs fire timers on a virtual clock instead of waiting; it
+// holds still while requests are pending, so their order stays the same
+const clock = job.deterministic
+  ? createVirtualClock(job.deterministic.startTime, () => pendingRequests === 0)
+  : null;
+
+function getPendingWork(): PendingWork {
+  return { timers: activeTimers.size, requests: pendingRequests };
+}
+
+// Work last reported by a REPL session, so unchanged counts are not resent
+let reportedPending = '';
+
+// Wake up waitForPendingWork whenever a piece of tracked work settles
+function notifyActivity() {
+  const resolve = wake;
+  wake = null;
+  resolve?.();
+  clock?.resume();
+
+  if (job.repl) {
+    const pending = getPendingWork();
+    if (pendingKey(pending) !== reportedPending) {
+      reportedPending = pendingKey(pending);
+      post({ kind: 'pending', pending });
+    }
+  }
+}
+
+function pendingKey(pending: PendingWork): string {
+  return `${pending.timers}/${pending.requests}`;
+}
+
+function reportUncaught(error: any) {
+  const { name, message } = toSandboxError(error);
+  emit('error', `Uncaught ${name}: ${message}`);
+}
+
+function clampDelay(delay: unknown): number {
+  return Math.min(Math.max(Number(delay) || 0, 0), job.maxTimerDelay);
+}
+
+// Runs a callback armed in the context, so it is called by the context itself
+const callbackScript = new vm.Script(`${CALLBACK_FUNCTION}()`, { filename: SANDBOX_FILE });
+
+/**
+ * Run a timer or microtask callback of user code. In a REPL session it has
+ * the same budget as an input, as nothing else bounds it.
+ * @param args Arguments from the context, or undefined for none
+ */
+function invokeCallback(callback: unknown, args: unknown) {
+  try {
+    internals.arm(callback, args);
+    callbackScript.runInContext(context, job.repl ? { timeout: job.timeout } : undefined);
+  } catch (error) {
+    reportUncaught(error);
+  } finally {
+    notifyActivity();
+  }
+}
+
+// A due timer runs right away, unless the event loop tracer queues it
+function runWhenDue(id: number, callback: () => void) {
+  if (tracer) {
+    tracer.timerDue(id, callback);
+  } else {
+    callback();
+  }
+}
+
+/**
+ * Start a timer on the virtual clock of a deterministic run, or a real one
+ * whose delay is clamped to the run's limit
+ * @returns A function cancelling the timer
+ */
+function startTimer(callback: () => void, delay: unknown, repeat: boolean): () => void {
+  if (clock) {
+    return clock.schedule(callback, Math.max(Number(delay) || 0, 0), repeat);
+  }
+  const handle = repeat ? setInterval(callback, clampDelay(delay)) : setTimeout(callback, clampDelay(delay));
+  return () => clearTimeout(handle);
+}
+
+function scheduleTimer(callback: unknown, delay: unknown, args: unknown, repeat: boolean): number {
+  const id = nextTimerId++;
+  const fire = repeat
+    ? () => runWhenDue(id, () => invokeCallback(callback, args))
+    : () => runWhenDue(id, () => {
+      activeTimers.delete(id);
+      invokeCallback(callback, args);
+    });
+  activeTimers.set(id, startTimer(fire, delay, repeat));
+  tracer?.timerScheduled(id, repeat ? 'interval' : 'timeout', callback, delay);
+  return id;
+}
+
+function clearTimer(id: unknown) {
+  if (typeof id !== 'number') return;
+  const cancel = activeTimers.get(id);
+  if (cancel) {
+    activeTimers.delete(id);
+    cancel();
+    tracer?.timerCleared(id);
+    notifyActivity();
+  }
+}
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// Fetch limited to what the snippet's or challenge's network policy allows,
+// with placeholder API requests answered by the local mock API
+const policyFetch = createPolicyFetch(job.network, createMockApiFetch(job.mockApi));
+
+// Requests in flight, by the id the context knows them by
+const fetches = new Map<number, AbortController>();
+let nextFetchId = 1;
+
+/**
+ * Make a request for the context's fetch(), keeping it counted as pending
+ * until the body has been downloaded and handed over, so chained .json()
+ * calls are not cut off. Headers and body arrive from the context as a JSON
+ * list of pairs and a binary string.
+ * @returns The id the response is settled with
+ */
+function startFetch(url: unknown, method: unknown, headers: unknown, body: unknown, redirect: unknown): number {
+  const id = nextFetchId++;
+  const controller = new AbortController();
+  const init: RequestInit = {
+    method: String(method),
+    headers: JSON.parse(String(headers)),
+    body: typeof body === 'string' ? Buffer.from(body, 'latin1') : undefined,
+    redirect: String(redirect) as RequestRedirect,
+    signal: controller.signal
+  };
+  fetches.set(id, controller);
+
+  pendingRequests++;
+  const request = tracer?.requestStarted(String(url));
+  const settle = async () => {
+    try {
+      const response = await policyFetch(String(url), init);
+      const bytes = Buffer.from(await response.arrayBuffer());
+      if (!fetches.delete(id)) return;
+      internals.settleFetch(
+        id,
+        response.status,
+        response.statusText,
+        JSON.stringify(Array.from(response.headers)),
+        response.url,
+        response.redirected,
+        // Responses such as 204 No Content must not be given a body, not even an empty one
+        NULL_BODY_STATUSES.has(response.status) ? null : bytes.toString('latin1')
+      );
+    } catch (error: any) {
+      if (!fetches.delete(id)) return;
+      internals.failFetch(id, String(error?.name ?? 'TypeError'), String(error?.message ?? 'fetch failed'));
+    } finally {
+      pendingRequests--;
+      if (request) tracer!.requestSettled(request);
+      notifyActivity();
+    }
+  };
+  settle();
+  return id;
+}
+
+function abortFetch(id: unknown) {
+  const controller = fetches.get(Number(id));
+  fetches.delete(Number(id));
+  controller?.abort();
+}
+
+// Builds the step function instrumented code calls before each statement,
+// see instrument.ts, inside the context. Variable values are handed over
+// right away, so later changes do not leak into earlier steps.
+const STEP_FACTORY = `(function (maxSteps, record, limit) {
+  'use strict';
+  const ErrorType = Error;
+  let recorded = 0;
+  Object.defineProperty(globalThis, '${STEP_FUNCTION}', {
+    value: function step(id, getters) {
+      if (recorded === maxSteps) limit();
+      if (recorded++ >= maxSteps) return;
+
+      const values = [];
+      const uninitialized = [];
+      for (let index = 0; index < getters.length; index++) {
+        try {
+          values[index] = getters[index]();
+        } catch {
+          // let and const bindings throw until their declaration has run
+          values[index] = undefined;
+          uninitialized[uninitialized.length] = index;
+        }
+      }
+
+      const stackTraceLimit = ErrorType.stackTraceLimit;
+      ErrorType.stackTraceLimit = 50;
+      const stack = new ErrorType().stack || '';
+      ErrorType.stackTraceLimit = stackTraceLimit;
+      record(id, values, uninitialized, stack);
+    }
+  });
+})`;
+
+function recordStep(id: unknown, values: unknown, uninitialized: unknown, stack: unknown) {
+  post({
+    kind: 'step',
+    step: {
+      id: Number(id),
+      values: serializeArguments(toList(values)),
+      uninitialized: toList(uninitialized).map(Number),
+      stack: String(stack)
+    }
+  });
+}
+
+// How many iterations a loop runs between checks of the time it has taken
+const LOOP_CLOCK_INTERVAL = 128;
+
+const GUARD_KINDS: GuardViolation['kind'][] = ['iterations', 'time', 'depth'];
+
+// Builds the object guarded code reports to, see guard.ts, inside the
+// context. The first budget exceeded is reported to the host and ends the
+// run. From then on the guard keeps throwing, so code that catches the error
+// cannot carry on. Loops are timed with the real Date.now, taken before a
+// deterministic run replaces it.
+const GUARD_FACTORY = `(function (maxIterations, maxLoopTime, maxCallDepth, report) {
+  'use strict';
+  const { now } = Date;
+  const ErrorType = Error;
+  const RangeErrorType = RangeError;
+  let depth = 0;
+  let stopped = null;
+
+  const stop = (kind, id, count) => {
+    if (stopped === null) {
+      stopped = kind;
+      report(kind, id, count, new ErrorType().stack || '');
+    }
+    throw new RangeErrorType('Execution was stopped for exceeding a loop or call depth budget');
+  };
+
+  Object.defineProperty(globalThis, '${GUARD_OBJECT}', {
+    value: Object.freeze({
+      // Called when a loop starts; the returned function is called once per iteration
+      loop(id, timed) {
+        const start = now();
+        let count = 0;
+        return () => {
+          if (stopped !== null) stop(stopped, id, count);
+          if (++count > maxIterations) stop('iterations', id, count - 1);
+          if (timed && count % ${LOOP_CLOCK_INTERVAL} === 0 && now() - start > maxLoopTime) {
+            stop('time', id, count);
+          }
+        };
+      },
+      // Called when a synchronous function starts
+      enter(id) {
+        if (stopped !== null) stop(stopped, id, 0);
+        if (depth >= maxCallDepth) stop('depth', id, depth);
+        depth++;
+      },
+      // Called when it returns or throws
+      exit() {
+        depth--;
+      }
+    })
+  });
+})`;
+
+function reportViolation(kind: unknown, id: unknown, count: unknown, stack: unknown) {
+  if (!GUARD_KINDS.includes(kind as GuardViolation['kind'])) return;
+  post({
+    kind: 'guard',
+    violation: { kind: kind as GuardViolation['kind'], id: Number(id), count: Number(count), stack: String(stack) }
+  });
+  // Terminating a worker while it throws can bring down the whole process,
+  // so the worker ends itself once the error has unwound
+  setImmediate(() => process.exit());
+}
+
+function installGuard(limits: GuardLimits) {
+  vm.runInContext(GUARD_FACTORY, context, { filename: SANDBOX_FILE })(
+    limits.maxIterations,
+    limits.maxLoopTime,
+    limits.maxCallDepth,
+    internals.channel('guard')
+  );
+}
+
+// Results of user promises the worker waits for, by the id internals.adopt() reports them with
+const settlements = new Map<number, { resolve: (value: unknown) => void; reject: (reason: unknown) => void }>();
+let nextSettlementId = 1;
+
+function settle(id: unknown, fulfilled: unknown, value: unknown) {
+  const settlement = settlements.get(Number(id));
+  if (!settlement) return;
+  settlements.delete(Number(id));
+  if (fulfilled) {
+    settlement.resolve(value);
+  } else {
+    settlement.reject(value);
+  }
+}
+
+const sandboxConsole: Record<string, (...args: any[]) => void> = createSandboxConsole((entry) => {
+  post({ kind: 'console', entry });
+  tracer?.consoleWritten();
+});
+
+// The context user code runs in, for a whole run or REPL session
+const { context, internals } = createSandboxContext({
+  console: (method: unknown, args: unknown) => {
+    if (typeof method === 'string' && Object.hasOwn(sandboxConsole, method)) {
+      sandboxConsole[method](...toList(args));
+    }
+  },
+  setTimer: (callback: unknown, delay: unknown, args: unknown, repeat: unknown) => scheduleTimer(callback, delay, args, Boolean(repeat)),
+  // A timer of the globals themselves, such as the one of AbortSignal.timeout(); runs do not wait for it
+  setBackgroundTimer: (callback: unknown, delay: unknown) => {
+    startTimer(() => invokeCallback(callback, undefined), delay, false);
+  },
+  clearTimer,
+  queueMicrotask: (callback: unknown) => {
+    const run = () => invokeCallback(callback, undefined);
+    queueMicrotask(tracer ? tracer.microtask(callback, run) : run);
+  },
+  reportError: reportUncaught,
+  fetch: startFetch,
+  abortFetch,
+  now: () => (clock ? clock.now() : Date.now()),
+  settle,
+  guard: reportViolation,
+  step: recordStep,
+  traceLimit: () => post({ kind: 'traceLimit' })
+});
+
+// Package modules created for this run, keyed by bundle id so the same
+// package imported through different URLs is only evaluated once
+const packageModules = new Map<string, Promise<vm.Module>>();
+
+/**
+ * Evaluate a cached CommonJS bundle inside the sandbox and wrap its exports in
+ * a module. Like Node's CommonJS interop, the default export is the whole
+ * exports object and its keys become named exports.
+ */
+async function instantiatePackage(bundle: SandboxModule): Promise<vm.Module> {
+  const factory = vm.runInContext(`(function (module, exports) {${bundle.source}\n})`, context, {
+    filename: bundle.id
+  });
+  // The module object is made in the context, as the package can reach it
+  const module = vm.runInContext('({ exports: {} })', context);
+  factory(module, module.exports);
+
+  const exported = module.exports;
+  const names = exported !== null && (typeof exported === 'object' || typeof exported === 'function')
+    ? Object.keys(exported).filter(name => name !== 'default' && name !== '__esModule')
+    : [];
+  const defaultExport = exported?.__esModule && 'default' in exported ? exported.default : exported;
+
+  const synthetic = new vm.SyntheticModule(['default', ...names], function () {
+    this.setExport('default', defaultExport);
+    names.forEach(name => this.setExport(name, exported[name]));
+  }, { context, identifier: bundle.id });
+
+  await synthetic.link(() => {
+    throw new Error(`Unexpected import from ${bundle.id}`);
+  });
+  await synthetic.evaluate();
+  return synthetic;
+}
+
+function loadPackage(specifier: string): Promise<vm.Module> {
+  const bundle = job.modules[specifier];
+  if (!bundle) {
+    // Only dynamic imports with a computed specifier can get here
+    return Promise.reject(new Error(`Cannot find package '${specifier}' in the offline package cache`));
+  }
+
+  if (!packageModules.has(bundle.id)) {
+    packageModules.set(bundle.id, instantiatePackage(bundle));
+  }
+  return packageModules.get(bundle.id)!;
+}
+
+/**
+ * Load a package for an import() of user code. A failed import() rejects
+ * with what the loader threw, so errors of the host are rebuilt in the
+ * context first.
+ */
+function importPackage(specifier: string): Promise<vm.Module> {
+  return loadPackage(specifier).catch((error) => {
+    throw error instanceof Error ? internals.createError(error.name, error.message) : error;
+  });
+}
+
+// Node accepts a promise here, but its typings only allow a module
+const importModuleDynamically: any = importPackage;
+
+// Promise rejections nobody handled would otherwise crash the worker
+process.on('unhandledRejection', (reason) => {
+  reportUncaught(reason);
+  notifyActivity();
+});
+
+function waitForActivity(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+}
+
+/**
+ * Wait until user code has no timers or requests left, or the deadline passes
+ * @param deadline Timestamp after which outstanding work is abandoned
+ * @returns true if the event loop went idle before the deadline
+ */
+async function waitForPendingWork(deadline: number): Promise<boolean> {
+  while (true) {
+    // Let queued microtasks run first; they may schedule more work
+    await new Promise((resolve) => setImmediate(resolve));
+    if (activeTimers.size === 0 && pendingRequests === 0) {
+      return true;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return false;
+    }
+    await waitForActivity(remaining);
+  }
+}
+
+/**
+ * Await a promise returned as the completion value, giving up at the deadline
+ * @param expired Returned instead of the value when the deadline passes
+ */
+async function settleResult(value: any, deadline: number, expired?: unknown): Promise<any> {
+  if (!value || typeof value.then !== 'function') {
+    return value;
+  }
+
+  // Reacting to the user's promise is not part of their event loop. The
+  // reaction is set up inside the context, so then() of user code is never
+  // handed functions of the host.
+  const settled = new Promise((resolve, reject) => {
+    const id = nextSettlementId++;
+    settlements.set(id, { resolve, reject });
+    const adopt = () => internals.adopt(value, id);
+    if (tracer) {
+      tracer.untraced(adopt);
+    } else {
+      adopt();
+    }
+  });
+
+  let timer: NodeJS.Timeout | undefined;
+  const expiry = new Promise((resolve) => {
+    timer = setTimeout(() => resolve(expired), Math.max(deadline - Date.now(), 0));
+  });
+
+  try {
+    return await Promise.race([settled, expiry]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Call the function a challenge test names with the test's arguments and
+ * judge what it does. Arguments are parsed in the sandbox's realm, so to the
+ * user's code they are ordinary arrays and objects.
+ * @param exports The code's exports, or the context for code without any,
+ * whose top-level functions are its globals
+ * @param parse JSON.parse of the context, taken before the user's code could replace it
+ */
+async function callTestFunction(
+  test: FunctionTest,
+  exports: Record<string, any>,
+  parse: (text: string) => unknown[],
+  deadline: number
+): Promise<{ outcome: CallOutcome; error: SandboxError | null }> {
+  const fn = test.call in exports ? exports[test.call] : undefined;
+  if (typeof fn !== 'function') {
+    return {
+      outcome: { pass: false, actual: fn === undefined ? 'nothing exported' : `a ${typeof fn}` },
+      error: { name: 'ReferenceError', message: `The code does not export a function named ${test.call}` }
+    };
+  }
+
+  // The predicate gets the very objects the function was called with, so it
+  // can tell whether they were changed
+  const args = parse(JSON.stringify(test.args));
+  let value: unknown;
+  try {
+    value = await settleResult(fn(...args), deadline, UNSETTLED);
+  } catch (err) {
+    const error = toSandboxError(err);
+    const pass = test.throws !== undefined && matchesThrown(err, test.throws);
+    return { outcome: { pass, actual: `threw ${error.name}: ${error.message}` }, error: pass ? null : error };
+  }
+  if (value === UNSETTLED) {
+    return {
+      outcome: { pass: false, actual: 'a promise that never settled' },
+      error: { name: 'TimeoutError', message: `The promise returned by ${test.call} did not settle within ${job.timeout}ms` }
+    };
+  }
+
+  const actual = util.inspect(value, { depth: 4, customInspect: false });
+  if (test.throws) return { outcome: { pass: false, actual }, error: null };
+  if (test.compare !== 'predicate') return { outcome: { pass: matchesExpected(value, test), actual }, error: null };
+
+  // The predicate runs like the user's code, so it can call a returned function
+  try {
+    const predicate = vm.runInContext(`(function (actual, ...args) {\n${test.predicate}\n})`, context, { filename: 'test.js' });
+    const verdict = await settleResult(predicate(value, ...args), deadline, UNSETTLED);
+    return { outcome: { pass: verdict !== UNSETTLED && Boolean(verdict), actual }, error: null };
+  } catch (err) {
+    return { outcome: { pass: false, actual }, error: toSandboxError(err) };
+  }
+}
+
+async function run() {
+  if (job.trace) {
+    vm.runInContext(STEP_FACTORY, context, { filename: SANDBOX_FILE })(
+      job.trace.maxSteps,
+      internals.channel('step'),
+      internals.channel('traceLimit')
+    );
+  }
+  // Before determinism, so loops are timed with the real clock
+  if (job.guard) {
+    installGuard(job.guard);
+  }
+  if (clock) {
+    installDeterminism(context, job.deterministic!.seed, internals);
+  }
+  const dom = job.dom ? await installDom(context, job.dom.html) : null;
+  if (tracer) {
+    tracer.watchPromises(vm.runInContext('Promise.prototype', context));
+  }
+  const deadline = Date.now() + job.timeout;
+  post({ kind: 'start' });
+
+  // The vm's watchdog would count the time spent paused in the debugger
+  const timeout = job.debug ? undefined : job.timeout;
+  const parse = job.call && vm.runInContext('JSON.parse', context);
+
+  try {
+    let result: any;
+    // Where a challenge test finds the function it calls
+    let exports: Record<string, any> = context;
+    if (job.format === 'module') {
+      const module = new vm.SourceTextModule(job.code, {
+        context,
+        identifier: USER_CODE_FILE,
+        importModuleDynamically
+      });
+      await module.link((specifier) => loadPackage(specifier));
+      tracer?.scriptStart();
+      const evaluation = module.evaluate({ timeout });
+      tracer?.scriptEnd();
+      // Resolves once top-level await has finished; modules have no completion value
+      await settleResult(evaluation, deadline);
+      exports = module.namespace;
+    } else {
+      tracer?.scriptStart();
+      result = vm.runInContext(job.code, context, {
+        filename: USER_CODE_FILE,
+        timeout,
+        importModuleDynamically
+      });
+      tracer?.scriptEnd();
+      result = await settleResult(result, deadline);
+    }
+
+    const call = job.call ? await callTestFunction(job.call, exports, parse, deadline) : null;
+
+    let idle = await waitForPendingWork(deadline);
+    // A test acts on the page like a user would, once it has settled
+    for (const action of job.dom?.actions ?? []) {
+      if (!idle) break;
+      performDomAction(dom!, action);
+      idle = await waitForPendingWork(deadline);
+    }
+    post({
+      kind: 'done',
+      result: toTransferable(result),
+      error: call?.error ?? null,
+      pending: idle ? null : getPendingWork(),
+      dom: dom && serializeDom(dom),
+      call: call?.outcome ?? null
+    });
+  } catch (err) {
+    post({ kind: 'done', result: null, error: toSandboxError(err), pending: null, dom: dom && serializeDom(dom), call: null });
+  }
+}
+
+// Stands in for the value of a REPL input whose top-level await did not settle in time
+const UNSETTLED = Symbol('unsettled');
+
+// Completion value of the previous REPL input, which the next one sees as _
+let lastValue: unknown;
+
+/**
+ * Evaluate one REPL input in the session's context. Timers and requests it
+ * starts keep running after the answer is sent; their console output follows
+ * as it happens.
+ */
+async function evaluateInput(message: Extract<HostMessage, { kind: 'evaluate' }>) {
+  Object.assign(job.modules, message.modules);
+  const deadline = Date.now() + job.timeout;
+
+  let value: any;
+  let error: SandboxError | null = null;
+  try {
+    value = vm.runInContext(message.code, context, {
+      filename: USER_CODE_FILE,
+      timeout: job.timeout,
+      importModuleDynamically
+    });
+    if (message.async) {
+      value = await settleResult(value, deadline, UNSETTLED);
+    }
+    if (value === UNSETTLED) {
+      value = undefined;
+      error = { name: 'TimeoutError', message: `Top-level await did not settle within ${job.timeout}ms` };
+    }
+  } catch (err) {
+    error = toSandboxError(err);
+  }
+
+  if (!error) {
+    // Once the user assigns _ a value of their own it is left alone
+    if (context._ === lastValue) {
+      context._ = value;
+    }
+    lastValue = value;
+  }
+
+  const pending = getPendingWork();
+  reportedPending = pendingKey(pending);
+  post({
+    kind: 'evaluated',
+    id: message.id,
+    value: error ? null : serializeArguments([value]),
+    error,
+    pending
+  });
+}
+
+if (job.repl) {
+  parentPort!.on('message', (message: HostMessage) => {
+    if (message.kind === 'evaluate') evaluateInput(message);
+    if (message.kind === 'ping') post({ kind: 'pong' });
+  });
+  post({ kind: 'start' });
+} else if (job.debug) {
+  // Breakpoints have to be in place before the first line runs
+  parentPort!.once('message', (message: HostMessage) => {
+    if (message.kind === 'attached') run();
+  });
+} else {
+  run();
+}
@@ -4,6 +4,7 @@ import {
   type InsertSnippet,
   consoleEntries,
   type ConsoleEntry,
+  type InsertConsoleEntry,
   challengeCategories,
   type ChallengeCategory,
   type InsertChallengeCategory,
@@ -14,6 +15,8 @@ import {
   type UserChallengeProgress,
   type InsertUserChallengeProgress
 } from "@shared/schema";
+import type { SnippetProject } from "@shared/project";
+import { challengeTestsSchema, parseChallengeTests } from "@shared/challenge";
 import { db } from "./db";
 import { eq, and, desc, asc } from "drizzle-orm";
 
@@ -28,7 +31,7 @@ export interface IStorage {
   
   // Console entry operations
   getConsoleEntries(snippetId: number): Promise<ConsoleEntry[]>;
-  createConsoleEntry(entry: Omit<ConsoleEntry, 'id' | 'timestamp'>): Promise<ConsoleEntry>;
+  createConsoleEntry(entry: InsertConsoleEntry): Promise<ConsoleEntry>;
   clearConsoleEntries(snippetId: number): Promise<boolean>;
   
   // Challenge category operations
@@ -54,6 +57,12 @@ export interface IStorage {
   initializeDatabase(): Promise<void>;
 }
 
+// Code of a project's entry file, which the code column mirrors so readers
+// of single-file snippets see what runs
+function entryCode(project: SnippetProject): string {
+  return project.files.find(file => file.path === project.entry)?.content ?? "";
+}
+
 export class PostgresStorage implements IStorage {
   
   constructor() {}
@@ -74,6 +83,8 @@ export class PostgresStorage implements IStorage {
     if (existingCategories.length === 0) {
       console.log('Initializing database with challenge categories and challenges...');
       await this.seedChallenges();
+    } else {
+      await this.migrateChallengeTests();
     }
   }
   
@@ -114,42 +125,77 @@ export class PostgresStorage implements IStorage {
       categoryIds.push(result.id);
     }
     
+    for (const challenge of this.challengeSeeds(categoryIds)) {
+      try {
+        console.log(`Creating challenge: ${challenge.title}`);
+        await this.createChallenge(challenge);
+      } catch (error) {
+        console.error(`Error creating challenge ${challenge.title}:`, error);
+      }
+    }
+  }
+  
+  // Challenges seeded before tests called functions compared the last line
+  // logged instead. Their code, hints and tests are replaced by the seed's.
+  private async migrateChallengeTests() {
+    const seeds = new Map(this.challengeSeeds([]).map(seed => [seed.title, seed]));
+    
+    for (const challenge of await this.getChallenges()) {
+      const seed = seeds.get(challenge.title);
+      if (!seed || parseChallengeTests(challenge.testCases)) continue;
+      
+      console.log(`Migrating the tests of challenge: ${challenge.title}`);
+      await this.updateChallenge(challenge.id, {
+        description: seed.description,
+        starterCode: seed.starterCode,
+        solutionCode: seed.solutionCode,
+        hints: seed.hints,
+        testCases: seed.testCases
+      });
+    }
+  }
+  
+  // Challenges every new database starts with. Tests call the function the
+  // code exports, or check the page of challenges with a virtual DOM.
+  private challengeSeeds(categoryIds: number[]): InsertChallenge[] {
     // Create challenges for the Fundamentals category
-    const fundamentalsChallenges = [
+    const fundamentalsChallenges: InsertChallenge[] = [
       {
         categoryId: categoryIds[0],
         title: "Variable Swap",
-        description: "Swap the values of two variables without using a temporary variable.",
+        description: "Swap the values of two variables without using a temporary variable. swap(a, b) returns the variables as { a, b } once they are swapped.",
         difficulty: "easy",
         starterCode: `// Swap the values of variables 'a' and 'b' without using a third variable
-let a = 5;
-let b = 10;
 
-// Your code here
+export function swap(a, b) {
+  // Your code here
+
 
+  // Don't modify the line below
+  return { a, b };
+}
 
-// Don't modify the code below
-console.log(a); // Should output 10
-console.log(b); // Should output 5`,
+console.log(swap(5, 10)); // Should output { a: 10, b: 5 }`,
         solutionCode: `// Swap the values of variables 'a' and 'b' without using a third variable
-let a = 5;
-let b = 10;
 
-// Solution using destructuring assignment
-[a, b] = [b, a];
+export function swap(a, b) {
+  // Solution using destructuring assignment
+  [a, b] = [b, a];
 
-// Alternative solution using arithmetic operations:
-// a = a + b;
-// b = a - b;
-// a = a - b;
+  // Alternative solution using arithmetic operations:
+  // a = a + b;
+  // b = a - b;
+  // a = a - b;
 
-// Don't modify the code below
-console.log(a); // Should output 10
-console.log(b); // Should output 5`,
+  // Don't modify the line below
+  return { a, b };
+}
+
+console.log(swap(5, 10)); // Should output { a: 10, b: 5 }`,
         hints: ["Consider using array destructuring", "You can also use arithmetic operations like addition and subtraction"],
-        testCases: JSON.stringify([
-          { input: { a: 5, b: 10 }, expected: { a: 10, b: 5 } },
-          { input: { a: -3, b: 7 }, expected: { a: 7, b: -3 } }
+        testCases: challengeTestsSchema.parse([
+          { call: "swap", args: [5, 10], expected: { a: 10, b: 5 } },
+          { call: "swap", args: [-3, 7], expected: { a: 7, b: -3 }, hidden: true }
         ]),
         order: 1
       },
@@ -164,11 +210,11 @@ console.log(b); // Should output 5`,
 // - Return "FizzBuzz" if the number is divisible by both 3 and 5
 // - Return the number as a string for all other cases
 
-function fizzBuzz(num) {
+export function fizzBuzz(num) {
   // Your code here
 }
 
-// Test cases
+// Try it out
 console.log(fizzBuzz(3));  // Should output "Fizz"
 console.log(fizzBuzz(5));  // Should output "Buzz"
 console.log(fizzBuzz(15)); // Should output "FizzBuzz"
@@ -179,7 +225,7 @@ console.log(fizzBuzz(7));  // Should output "7"`,
 // - Return "FizzBuzz" if the number is divisible by both 3 and 5
 // - Return the number as a string for all other cases
 
-function fizzBuzz(num) {
+export function fizzBuzz(num) {
   if (num % 3 === 0 && num % 5 === 0) {
     return "FizzBuzz";
   } else if (num % 3 === 0) {
@@ -191,25 +237,65 @@ function fizzBuzz(num) {
   }
 }
 
-// Test cases
+// Try it out
 console.log(fizzBuzz(3));  // Should output "Fizz"
 console.log(fizzBuzz(5));  // Should output "Buzz"
 console.log(fizzBuzz(15)); // Should output "FizzBuzz"
 console.log(fizzBuzz(7));  // Should output "7"`,
         hints: ["Use the modulo operator (%) to check if a number is divisible by another", "Check for the most specific condition first (divisible by both 3 and 5)"],
-        testCases: JSON.stringify([
-          { input: 3, expected: "Fizz" },
-          { input: 5, expected: "Buzz" },
-          { input: 15, expected: "FizzBuzz" },
-          { input: 7, expected: "7" },
-          { input: 0, expected: "FizzBuzz" }
+        testCases: challengeTestsSchema.parse([
+          { call: "fizzBuzz", args: [3], expected: "Fizz" },
+          { call: "fizzBuzz", args: [5], expected: "Buzz" },
+          { call: "fizzBuzz", args: [15], expected: "FizzBuzz", message: "Check for numbers divisible by both 3 and 5 before the other cases" },
+          { call: "fizzBuzz", args: [7], expected: "7", message: "Other numbers are returned as strings" },
+          { call: "fizzBuzz", args: [0], expected: "FizzBuzz", hidden: true }
         ]),
         order: 2
+      },
+      {
+        categoryId: categoryIds[0],
+        title: "Average of Numbers",
+        description: "Write a function that returns the average of an array of numbers, and throws a RangeError for an empty array, which has no average.",
+        difficulty: "easy",
+        starterCode: `// Return the average (the mean) of the numbers in the array.
+// An empty array has no average: throw a RangeError for it.
+
+export function average(numbers) {
+  // Your code here
+}
+
+console.log(average([2, 4, 9])); // Should output 5`,
+        solutionCode: `// Return the average (the mean) of the numbers in the array.
+// An empty array has no average: throw a RangeError for it.
+
+export function average(numbers) {
+  if (numbers.length === 0) {
+    throw new RangeError("Cannot average an empty array");
+  }
+  const total = numbers.reduce((sum, number) => sum + number, 0);
+  return total / numbers.length;
+}
+
+console.log(average([2, 4, 9])); // Should output 5`,
+        hints: ["reduce() can add up all the numbers", "throw new RangeError('...') stops the function with an error"],
+        testCases: challengeTestsSchema.parse([
+          { call: "average", args: [[2, 4, 9]], expected: 5 },
+          // Floating point sums are not exact: 0.1 + 0.2 + 0.3 is 0.6000000000000001
+          { call: "average", args: [[0.1, 0.2, 0.3]], expected: 0.2, compare: "approximate", tolerance: 1e-9 },
+          {
+            description: "An empty array has no average",
+            call: "average",
+            args: [[]],
+            throws: { name: "RangeError" },
+            message: "Throw a RangeError when there are no numbers to average"
+          }
+        ]),
+        order: 3
       }
     ];
     
     // Create challenges for the Arrays & Objects category
-    const arraysObjectsChallenges = [
+    const arraysObjectsChallenges: InsertChallenge[] = [
       {
         categoryId: categoryIds[1],
         title: "Find Maximum Value",
@@ -217,19 +303,21 @@ console.log(fizzBuzz(7));  // Should output "7"`,
         difficulty: "easy",
         starterCode: `// Implement a function to find the maximum value in an array
 // Do not use the built-in Math.max(...array) method
+// Return undefined for an empty array
 
-function findMax(numbers) {
+export function findMax(numbers) {
   // Your code here
 }
 
-// Test cases
+// Try it out
 console.log(findMax([1, 3, 2, 5, 4]));      // Should output 5
 console.log(findMax([-1, -5, -2]));         // Should output -1
 console.log(findMax([100, 0, -100, 200]));  // Should output 200`,
         solutionCode: `// Implement a function to find the maximum value in an array
 // Do not use the built-in Math.max(...array) method
+// Return undefined for an empty array
 
-function findMax(numbers) {
+export function findMax(numbers) {
   if (numbers.length === 0) {
     return undefined; // Handle edge case of empty array
   }
@@ -245,33 +333,35 @@ function findMax(numbers) {
   return max;
 }
 
-// Test cases
+// Try it out
 console.log(findMax([1, 3, 2, 5, 4]));      // Should output 5
 console.log(findMax([-1, -5, -2]));         // Should output -1
 console.log(findMax([100, 0, -100, 200]));  // Should output 200`,
         hints: ["Start by assuming the first element is the maximum", "Loop through the array and compare each value with your current maximum"],
-        testCases: JSON.stringify([
-          { input: [1, 3, 2, 5, 4], expected: 5 },
-          { input: [-1, -5, -2], expected: -1 },
-          { input: [100, 0, -100, 200], expected: 200 },
-          { input: [42], expected: 42 }
+        testCases: challengeTestsSchema.parse([
+          { call: "findMax", args: [[1, 3, 2, 5, 4]], expected: 5 },
+          { call: "findMax", args: [[-1, -5, -2]], expected: -1 },
+          { call: "findMax", args: [[100, 0, -100, 200]], expected: 200 },
+          { call: "findMax", args: [[42]], expected: 42, hidden: true },
+          // Leaving out expected expects undefined
+          { call: "findMax", args: [[]], description: "An empty array has no maximum" }
         ]),
         order: 1
       },
       {
         categoryId: categoryIds[1],
         title: "Merge Objects",
-        description: "Implement a function that merges two objects together, with the second object's properties taking precedence in case of duplicates.",
+        description: "Implement a function that merges two objects together, with the second object's properties taking precedence in case of duplicates. Neither object passed in may change.",
         difficulty: "medium",
         starterCode: `// Implement a function to merge two objects
 // The second object's properties should override the first object's properties 
-// when there are duplicate keys
+// when there are duplicate keys. Return a new object: leave both arguments unchanged.
 
-function mergeObjects(obj1, obj2) {
+export function mergeObjects(obj1, obj2) {
   // Your code here
 }
 
-// Test cases
+// Try it out
 const person1 = { name: "John", age: 30 };
 const person2 = { city: "New York", age: 32 };
 
@@ -285,9 +375,9 @@ console.log(mergeObjects(defaults, userSettings));
 // Should output: { theme: "dark", fontSize: 14, showSidebar: false }`,
         solutionCode: `// Implement a function to merge two objects
 // The second object's properties should override the first object's properties 
-// when there are duplicate keys
+// when there are duplicate keys. Return a new object: leave both arguments unchanged.
 
-function mergeObjects(obj1, obj2) {
+export function mergeObjects(obj1, obj2) {
   // Using the spread operator to merge objects
   return { ...obj1, ...obj2 };
   
@@ -295,7 +385,7 @@ function mergeObjects(obj1, obj2) {
   // return Object.assign({}, obj1, obj2);
 }
 
-// Test cases
+// Try it out
 const person1 = { name: "John", age: 30 };
 const person2 = { city: "New York", age: 32 };
 
@@ -308,28 +398,61 @@ const userSettings = { fontSize: 14, showSidebar: false };
 console.log(mergeObjects(defaults, userSettings));
 // Should output: { theme: "dark", fontSize: 14, showSidebar: false }`,
         hints: ["The spread operator (...) can be used to combine objects", "Object.assign() is another method for merging objects"],
-        testCases: JSON.stringify([
-          { 
-            input: {
-              obj1: { name: "John", age: 30 },
-              obj2: { city: "New York", age: 32 }
-            }, 
+        testCases: challengeTestsSchema.parse([
+          {
+            call: "mergeObjects",
+            args: [{ name: "John", age: 30 }, { city: "New York", age: 32 }],
             expected: { name: "John", age: 32, city: "New York" }
           },
-          { 
-            input: {
-              obj1: { theme: "dark", fontSize: 12, showSidebar: true },
-              obj2: { fontSize: 14, showSidebar: false }
-            }, 
+          {
+            call: "mergeObjects",
+            args: [{ theme: "dark", fontSize: 12, showSidebar: true }, { fontSize: 14, showSidebar: false }],
             expected: { theme: "dark", fontSize: 14, showSidebar: false }
+          },
+          {
+            description: "Leaves the first object unchanged",
+            call: "mergeObjects",
+            args: [{ name: "John", age: 30 }, { age: 32 }],
+            compare: "predicate",
+            predicate: "const [first] = args;\nreturn actual !== first && actual?.age === 32 && first.age === 30;"
           }
         ]),
         order: 2
+      },
+      {
+        categoryId: categoryIds[1],
+        title: "Unique Values",
+        description: "Write a function that returns the values of an array without duplicates. The order of the values does not matter.",
+        difficulty: "easy",
+        starterCode: `// Return an array with every value of the input exactly once.
+// The values may come in any order.
+
+export function unique(values) {
+  // Your code here
+}
+
+console.log(unique([3, 1, 3, 2, 1])); // e.g. [3, 1, 2]`,
+        solutionCode: `// Return an array with every value of the input exactly once.
+// The values may come in any order.
+
+export function unique(values) {
+  // A Set keeps only one of each value
+  return [...new Set(values)];
+}
+
+console.log(unique([3, 1, 3, 2, 1])); // e.g. [3, 1, 2]`,
+        hints: ["A Set never holds the same value twice", "Spread a Set into an array with [...set]"],
+        testCases: challengeTestsSchema.parse([
+          { call: "unique", args: [[3, 1, 3, 2, 1]], expected: [1, 2, 3], compare: "unordered" },
+          { call: "unique", args: [["b", "a", "b"]], expected: ["a", "b"], compare: "unordered" },
+          { call: "unique", args: [[]], expected: [], hidden: true }
+        ]),
+        order: 3
       }
     ];
     
     // Create challenges for the Functions category
-    const functionsChallenges = [
+    const functionsChallenges: InsertChallenge[] = [
       {
         categoryId: categoryIds[2],
         title: "Create Counter Closure",
@@ -339,11 +462,11 @@ console.log(mergeObjects(defaults, userSettings));
 // The counter function, when called, should increment and return the count
 // Each counter function should maintain its own independent count
 
-function createCounter(startValue = 0) {
+export function createCounter(startValue = 0) {
   // Your code here
 }
 
-// Test cases
+// Try it out
 const counter1 = createCounter();
 console.log(counter1()); // Should output 1
 console.log(counter1()); // Should output 2
@@ -356,7 +479,7 @@ console.log(counter1()); // Should output 3 (counter1 is not affected by counter
 // The counter function, when called, should increment and return the count
 // Each counter function should maintain its own independent count
 
-function createCounter(startValue = 0) {
+export function createCounter(startValue = 0) {
   // Using a closure to maintain the count
   let count = startValue;
   
@@ -367,7 +490,7 @@ function createCounter(startValue = 0) {
   };
 }
 
-// Test cases
+// Try it out
 const counter1 = createCounter();
 console.log(counter1()); // Should output 1
 console.log(counter1()); // Should output 2
@@ -377,33 +500,136 @@ console.log(counter2()); // Should output 11
 console.log(counter2()); // Should output 12
 console.log(counter1()); // Should output 3 (counter1 is not affected by counter2)`,
         hints: ["Use a closure to maintain state between function calls", "Each time createCounter is called, it should create a new 'count' variable in its scope"],
-        testCases: JSON.stringify([
-          { input: { calls: [[], []] }, expected: [1, 2] },
-          { input: { startValue: 5, calls: [[], [], []] }, expected: [6, 7, 8] },
-          { input: { multipleCounters: true }, expected: { counter1: [1, 2], counter2: [11, 12] } }
+        // The counter that createCounter returns is called by the predicates
+        testCases: challengeTestsSchema.parse([
+          {
+            description: "Counts 1, 2 from the default start",
+            call: "createCounter",
+            args: [],
+            compare: "predicate",
+            predicate: "return actual() === 1 && actual() === 2;"
+          },
+          {
+            description: "Counts 6, 7, 8 after starting at 5",
+            call: "createCounter",
+            args: [5],
+            compare: "predicate",
+            predicate: "return actual() === 6 && actual() === 7 && actual() === 8;"
+          },
+          {
+            description: "Counts 11, 12 after starting at 10",
+            call: "createCounter",
+            args: [10],
+            hidden: true,
+            compare: "predicate",
+            predicate: "return actual() === 11 && actual() === 12;"
+          }
         ]),
         order: 1
       }
     ];
     
-    // Create and insert all challenges
-    const allChallenges = [
+    // Create challenges for the DOM Manipulation category. They run against a
+    // virtual page built from domFixture; tests check the page afterwards.
+    const domChallenges: InsertChallenge[] = [
+      {
+        categoryId: categoryIds[4],
+        title: "Build a List",
+        description: "Add an <li> to the #fruits list for every fruit in the array, in order.",
+        difficulty: "easy",
+        starterCode: `const fruits = ["Apple", "Banana", "Cherry"];
+const list = document.querySelector("#fruits");
+
+// Add one <li> per fruit to the list
+`,
+        solutionCode: `const fruits = ["Apple", "Banana", "Cherry"];
+const list = document.querySelector("#fruits");
+
+// Add one <li> per fruit to the list
+for (const fruit of fruits) {
+  const item = document.createElement("li");
+  item.textContent = fruit;
+  list.appendChild(item);
+}`,
+        hints: ["document.createElement('li') creates a list item", "Set its textContent, then appendChild it to the list"],
+        testCases: challengeTestsSchema.parse([
+          {
+            dom: [
+              { selector: "#fruits li", count: 3 },
+              { selector: "#fruits li:first-child", text: "Apple" },
+              { selector: "#fruits li:last-child", text: "Cherry" }
+            ]
+          }
+        ]),
+        domFixture: `<h1>Fruits</h1>\n<ul id="fruits"></ul>`,
+        order: 1
+      },
+      {
+        categoryId: categoryIds[4],
+        title: "Click Counter",
+        description: "Make the + button increase the number shown in #count by one on every click, and disable the button once the count reaches 3.",
+        difficulty: "medium",
+        starterCode: `const button = document.querySelector("#increment");
+const count = document.querySelector("#count");
+
+// Listen for clicks on the button
+`,
+        solutionCode: `const button = document.querySelector("#increment");
+const count = document.querySelector("#count");
+
+// Listen for clicks on the button
+let clicks = 0;
+button.addEventListener("click", () => {
+  clicks++;
+  count.textContent = String(clicks);
+  if (clicks >= 3) {
+    button.setAttribute("disabled", "");
+  }
+});`,
+        hints: ["addEventListener('click', ...) runs a function on every click", "Keep the count in a variable and write it to textContent", "setAttribute('disabled', '') disables a button"],
+        testCases: challengeTestsSchema.parse([
+          {
+            actions: [{ selector: "#increment", event: "click" }],
+            dom: [{ selector: "#count", text: "1" }]
+          },
+          {
+            actions: [
+              { selector: "#increment", event: "click" },
+              { selector: "#increment", event: "click" },
+              { selector: "#increment", event: "click" }
+            ],
+            dom: [
+              { selector: "#count", text: "3" },
+              { selector: "#increment[disabled]", count: 1 }
+            ]
+          }
+        ]),
+        domFixture: `<button id="increment">+</button>\n<span id="count">0</span>`,
+        order: 2
+      }
+    ];
+    
+    return [
       ...fundamentalsChallenges,
       ...arraysObjectsChallenges,
-      ...functionsChallenges
+      ...functionsChallenges,
+      ...domChallenges
     ];
-    
-    for (const challenge of allChallenges) {
-      try {
-        console.log(`Creating challenge: ${challenge.title}`);
-        await this.createChallenge(challenge);
-      } catch (error) {
-        console.error(`Error creating challenge ${challenge.title}:`, error);
-      }
-    }
   }
   
   private async seedExamples() {
+    // Entry of the multi-file example, which is also its code
+    const modulesEntry = `// main.js runs first and imports the other files of the snippet.
+// Open them from the Files list in the sidebar.
+import { sum, average } from './lib/stats.js';
+import { formatReport } from './lib/format.js';
+import scores from './data/scores.json';
+
+console.log('Total:', sum(scores.values));
+console.log(formatReport(scores.name, average(scores.values)));
+
+// Errors point at the file they happen in: try calling average([])`;
+
     const examples = [
       {
         title: "Basic Console Logging",
@@ -493,6 +719,62 @@ async function fetchData() {
 fetchData();`,
         isExample: true
       },
+      {
+        title: "REST API with Fetch",
+        description: "Create, update and delete records on the built-in mock API",
+        code: `// Requests to jsonplaceholder.typicode.com are answered by JSRunner's
+// built-in mock API: it works offline, and changes last until the run ends
+const api = 'https://jsonplaceholder.typicode.com';
+
+async function request(path, options = {}) {
+  const response = await fetch(api + path, {
+    headers: { 'Content-Type': 'application/json' },
+    ...options
+  });
+  if (!response.ok) {
+    throw new Error(\`\${options.method || 'GET'} \${path} failed with \${response.status}\`);
+  }
+  return response.json();
+}
+
+async function main() {
+  // Create
+  const todo = await request('/todos', {
+    method: 'POST',
+    body: JSON.stringify({ userId: 1, title: 'Learn fetch', completed: false })
+  });
+  console.log('Created:', todo);
+
+  // Update part of it
+  const done = await request(\`/todos/\${todo.id}\`, {
+    method: 'PATCH',
+    body: JSON.stringify({ completed: true })
+  });
+  console.log('Updated:', done);
+
+  // Read a page at a time; the total count comes in a header
+  const page = await fetch(api + '/todos?_page=2&_limit=3');
+  console.log('Total todos:', page.headers.get('X-Total-Count'));
+  console.log('Page 2:', (await page.json()).map(t => t.title));
+
+  // Nested resources
+  const comments = await request('/posts/1/comments');
+  console.log('Comments on post 1:', comments.length);
+
+  // Delete
+  await request(\`/todos/\${todo.id}\`, { method: 'DELETE' });
+
+  // Simulate a slow, failing server with _delay and _error
+  try {
+    await request('/users?_delay=500&_error=503');
+  } catch (error) {
+    console.error(error.message);
+  }
+}
+
+main();`,
+        isExample: true
+      },
       {
         title: "Array Methods",
         description: "Map, filter, reduce and other array operations",
@@ -744,37 +1026,14 @@ try {
       {
         title: "DOM Manipulation",
         description: "Creating and updating DOM elements",
-        code: `// Note: DOM manipulation works in browser context,
-// but this example will run in our sandboxed environment
-
-// Creating elements
-function createDOM() {
-  // Simulate DOM operations
-  const div = { tagName: 'div', className: '', children: [], textContent: '' };
-  
-  div.className = 'container';
-  div.textContent = 'Hello World';
-  
-  const button = { tagName: 'button', className: '', textContent: '', addEventListener: () => {} };
-  button.textContent = 'Click me';
-  button.className = 'btn';
-  
-  // Simulating append
-  div.children.push(button);
-  
-  console.log('Created DOM structure:', JSON.stringify(div, null, 2));
-  
-  // Simulating event listener
-  console.log('Adding click event listener to button');
-  
-  // Simulating a click
-  console.log('Button clicked!');
-}
+        code: `// This snippet runs against a virtual page; its HTML is in the DOM
+// settings, and the Preview tab shows the page after the run
 
-createDOM();
+// Finding elements
+const app = document.querySelector('#app');
+console.log('Heading:', document.querySelector('h1').textContent);
 
-// In a real browser environment, you would use:
-/*
+// Creating elements
 const div = document.createElement('div');
 div.className = 'container';
 div.textContent = 'Hello World';
@@ -784,13 +1043,86 @@ button.textContent = 'Click me';
 button.className = 'btn';
 
 div.appendChild(button);
+app.appendChild(div);
+
+// Handling events
+let clicks = 0;
+button.addEventListener('click', (event) => {
+  clicks++;
+  console.log(\`Button clicked \${clicks} time(s)\`, event.target.className);
+  app.querySelector('.status').textContent = \`Clicked \${clicks} time(s)\`;
+});
+
+// Simulating clicks
+button.click();
+button.dispatchEvent(new Event('click'));
+
+// Changing classes and attributes
+div.classList.add('active');
+button.setAttribute('aria-pressed', 'true');
+
+console.log('Buttons on the page:', document.querySelectorAll('button').length);
+console.log(app.innerHTML);`,
+        domFixture: `<h1>DOM Playground</h1>
+<main id="app">
+  <p class="status">Not clicked yet</p>
+</main>`,
+        isExample: true
+      },
+      {
+        title: "Web Page with Chart.js",
+        description: "HTML, CSS and JavaScript rendered live in the Preview tab",
+        kind: "web",
+        html: `<main>
+  <h1>Votes per color</h1>
+  <canvas id="chart"></canvas>
+  <button id="shuffle">Shuffle votes</button>
+</main>`,
+        css: `body {
+  font-family: system-ui, sans-serif;
+  margin: 2rem;
+  color: #1f2937;
+}
 
-document.body.appendChild(div);
+main {
+  max-width: 640px;
+}
 
-button.addEventListener('click', () => {
-  console.log('Button clicked!');
+button {
+  margin-top: 1rem;
+  padding: 0.5rem 1rem;
+  border: none;
+  border-radius: 6px;
+  background: #2563eb;
+  color: white;
+  cursor: pointer;
+}`,
+        code: `// Web pages run in the browser: edit the HTML, CSS or JavaScript tab and
+// the Preview reloads. Imports from esm.sh make this a module script.
+import Chart from 'https://esm.sh/chart.js/auto';
+
+const labels = ['Red', 'Blue', 'Yellow', 'Green', 'Purple', 'Orange'];
+const votes = () => labels.map(() => Math.floor(Math.random() * 20) + 1);
+
+const chart = new Chart(document.getElementById('chart'), {
+  type: 'bar',
+  data: {
+    labels,
+    datasets: [{ label: '# of Votes', data: votes(), borderWidth: 1 }]
+  },
+  options: {
+    scales: { y: { beginAtZero: true } }
+  }
 });
-*/`,
+
+document.getElementById('shuffle').addEventListener('click', () => {
+  chart.data.datasets[0].data = votes();
+  chart.update();
+  // Console calls in the page show up in the Console tab
+  console.log('New votes:', chart.data.datasets[0].data);
+});
+
+console.log('Chart drawn with', labels.length, 'bars');`,
         isExample: true
       },
       {
@@ -883,6 +1215,96 @@ console.log(\`After withdrawal: \${account.balance}\`);
 // Attempting to access private field would cause an error
 // console.log(account.#balance); // SyntaxError`,
         isExample: true
+      },
+      {
+        title: "Modules Across Files",
+        description: "Split a program into files that import each other",
+        language: "javascript",
+        code: modulesEntry,
+        project: {
+          entry: "main.js",
+          files: [
+            {
+              path: "main.js",
+              content: modulesEntry
+            },
+            {
+              path: "lib/stats.js",
+              content: `export function sum(values) {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+export function average(values) {
+  if (values.length === 0) throw new RangeError('Cannot average an empty list');
+  return sum(values) / values.length;
+}`
+            },
+            {
+              path: "lib/format.js",
+              content: `export function formatReport(name, value) {
+  return \`\${name}: average \${value.toFixed(1)}\`;
+}`
+            },
+            {
+              path: "data/scores.json",
+              content: `{
+  "name": "Quiz scores",
+  "values": [72, 88, 95, 64, 81]
+}`
+            }
+          ]
+        },
+        isExample: true
+      },
+      {
+        title: "TypeScript Basics",
+        description: "Types, interfaces and generics in TypeScript",
+        language: "typescript",
+        code: `// Interfaces describe the shape of objects
+interface User {
+  id: number;
+  name: string;
+  email?: string; // Optional property
+}
+
+const user: User = { id: 1, name: "Ada" };
+console.log("User:", user);
+
+// Union types and type narrowing
+type Shape =
+  | { kind: "circle"; radius: number }
+  | { kind: "square"; size: number };
+
+function area(shape: Shape): number {
+  switch (shape.kind) {
+    case "circle":
+      return Math.PI * shape.radius ** 2;
+    case "square":
+      return shape.size ** 2;
+  }
+}
+
+console.log("Circle area:", area({ kind: "circle", radius: 2 }).toFixed(2));
+console.log("Square area:", area({ kind: "square", size: 3 }));
+
+// Generics keep type information through functions
+function first<T>(items: T[]): T | undefined {
+  return items[0];
+}
+
+console.log("First number:", first([10, 20, 30]));
+console.log("First word:", first(["hello", "world"]));
+
+// Enums give names to a set of values
+enum Status {
+  Active = "ACTIVE",
+  Inactive = "INACTIVE"
+}
+
+console.log("Status:", Status.Active);
+
+// Try changing user.name to a number: the editor underlines the type error`,
+        isExample: true
       }
     ];
     
@@ -892,6 +1314,12 @@ console.log(\`After withdrawal: \${account.balance}\`);
         title: example.title,
         code: example.code,
         description: example.description,
+        language: example.language,
+        domFixture: example.domFixture,
+        kind: example.kind,
+        html: example.html,
+        css: example.css,
+        project: example.project,
         isExample: true,
         // Let the default value handle the timestamp
         createdAt: new Date()
@@ -924,8 +1352,15 @@ console.log(\`After withdrawal: \${account.balance}\`);
     const result = await db.insert(snippets)
       .values({
         title: snippet.title,
-        code: snippet.code,
+        code: snippet.project ? entryCode(snippet.project) : snippet.code,
         description: snippet.description,
+        language: snippet.language,
+        networkPolicy: snippet.networkPolicy,
+        domFixture: snippet.domFixture,
+        kind: snippet.kind,
+        html: snippet.html,
+        css: snippet.css,
+        project: snippet.project,
         isExample: false,
         createdAt: new Date()
       })
@@ -945,7 +1380,8 @@ console.log(\`After withdrawal: \${account.balance}\`);
     // Update the snippet
     const result = await db.update(snippets)
       .set({
-        ...snippet
+        ...snippet,
+        ...(snippet.project ? { code: entryCode(snippet.project) } : {})
       })
       .where(eq(snippets.id, id))
       .returning();
@@ -978,12 +1414,17 @@ console.log(\`After withdrawal: \${account.balance}\`);
     });
   }
 
-  async createConsoleEntry(entry: Omit<ConsoleEntry, 'id' | 'timestamp'>): Promise<ConsoleEntry> {
+  async createConsoleEntry(entry: InsertConsoleEntry): Promise<ConsoleEntry> {
     const result = await db.insert(consoleEntries)
       .values({
         snippetId: entry.snippetId,
         type: entry.type,
-        content: entry.content
+        content: entry.content,
+        args: entry.args,
+        method: entry.method,
+        depth: entry.depth,
+        stack: entry.stack,
+        table: entry.table
       })
       .returning();
     
@@ -1103,6 +1544,10 @@ console.log(\`After withdrawal: \${account.balance}\`);
         solutionCode: challenge.solutionCode,
         hints: challenge.hints || [],
         testCases: challenge.testCases,
+        language: challenge.language,
+        networkPolicy: challenge.networkPolicy,
+        domFixture: challenge.domFixture,
+        status: challenge.status,
         order: challenge.order || 0,
         createdAt: new Date()
       })
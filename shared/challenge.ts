@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { domActionSchema, domAssertionSchema } from "./dom";
+import type { Challenge } from "./schema";
+
+// How a function test compares the value returned with the expected one:
+// - deep-equal: same structure and values, array order included
+// - approximate: like deep-equal, but numbers may be off by the tolerance
+// - unordered: like deep-equal, but array items may come in any order
+// - predicate: the test's predicate decides
+export const comparisonModes = ["deep-equal", "approximate", "unordered", "predicate"] as const;
+
+// Tolerance of approximate comparisons that do not give their own
+export const DEFAULT_TOLERANCE = 1e-9;
+
+// What every test may set about how it is shown
+const testFeedbackShape = {
+  // Shown with the result, e.g. "Counts on from the start value"
+  description: z.string().max(200).optional(),
+  // Hidden tests grade solutions without being shown: learners only see
+  // the examples, and a hidden test that fails only says so
+  hidden: z.boolean().optional(),
+  // Shown when a visible test fails, in place of working out what went wrong
+  message: z.string().max(500).optional()
+};
+
+// A call of a function the user's code exports. Arguments and the expected
+// value are JSON; every test runs the code anew, so no state carries over
+// from the one before.
+export const functionTestSchema = z.object({
+  ...testFeedbackShape,
+  // Name of the export to call; "default" calls the default export
+  call: z.string().min(1).max(100),
+  args: z.array(z.unknown()).default([]),
+  // What the function returns, or what the promise it returns resolves to
+  expected: z.unknown().optional(),
+  // Set when the call has to throw instead. The error's name must match and
+  // its message contain message, when they are given.
+  throws: z.object({
+    name: z.string().optional(),
+    message: z.string().optional()
+  }).optional(),
+  compare: z.enum(comparisonModes).default("deep-equal"),
+  tolerance: z.number().nonnegative().optional(),
+  // Body of a function of (actual, ...args) that returns whether the value is
+  // right. It runs in the sandbox, so it can call a function that was returned.
+  predicate: z.string().max(5000).optional()
+}).superRefine((test, ctx) => {
+  if (test.throws && test.expected !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["throws"], message: "A test expects either a value or an error" });
+  }
+  if ((test.compare === "predicate") !== (test.predicate !== undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["predicate"], message: "Predicate tests need a predicate, and only they take one" });
+  }
+});
+
+// Actions on the page of a challenge with a virtual DOM, then checks on it
+export const pageTestSchema = z.object({
+  ...testFeedbackShape,
+  actions: z.array(domActionSchema).optional(),
+  dom: z.array(domAssertionSchema).min(1)
+});
+
+export const challengeTestSchema = z.union([pageTestSchema, functionTestSchema]);
+
+export const challengeTestsSchema = z.array(challengeTestSchema).min(1);
+
+export type ComparisonMode = typeof comparisonModes[number];
+export type FunctionTest = z.infer<typeof functionTestSchema>;
+export type PageTest = z.infer<typeof pageTestSchema>;
+export type ChallengeTest = z.infer<typeof challengeTestSchema>;
+
+// A challenge as learners get it: without the solution, and with only the
+// tests that are shown as examples
+export type PublicChallenge = Omit<Challenge, "solutionCode" | "testCases"> & {
+  testCases: ChallengeTest[];
+  hiddenTestCount: number;
+};
+
+// Outcome of one test, as the validate endpoint reports it. Hidden tests
+// only report whether they passed.
+export interface ChallengeTestResult {
+  pass: boolean;
+  hidden?: boolean;
+  description?: string;
+  // The test's failure message, or which hidden test failed
+  message?: string;
+  // The call made, or the actions taken on the page
+  input: unknown;
+  // The value or error expected, or the checks on the page
+  expected: unknown;
+  // What the function returned or threw, or what was wrong with the page
+  actual: unknown;
+  error: { name: string; message: string } | null;
+  // Final HTML of a challenge with a virtual DOM
+  dom?: string | null;
+}
+
+export function isPageTest(test: ChallengeTest): test is PageTest {
+  return "dom" in test;
+}
+
+/**
+ * The call a function test makes, written as code, e.g. fizzBuzz(15)
+ */
+export function describeCall(test: FunctionTest): string {
+  return `${test.call}(${test.args.map(arg => JSON.stringify(arg)).join(", ")})`;
+}
+
+/**
+ * What a function test expects, for people to read
+ */
+export function describeExpectation(test: FunctionTest): string {
+  if (test.throws) {
+    const name = test.throws.name ?? "an error";
+    return test.throws.message ? `throws ${name} with "${test.throws.message}"` : `throws ${name}`;
+  }
+  if (test.compare === "predicate") return test.description ?? "passes the test's predicate";
+  if (test.compare === "approximate") return `${JSON.stringify(test.expected)} ± ${test.tolerance ?? DEFAULT_TOLERANCE}`;
+  if (test.compare === "unordered") return `${JSON.stringify(test.expected)} in any order`;
+  return test.expected === undefined ? "undefined" : JSON.stringify(test.expected);
+}
+
+/**
+ * Read the tests stored for a challenge, which older rows keep as a JSON string
+ * @returns The tests, or null when they do not follow the schema
+ */
+export function parseChallengeTests(value: unknown): ChallengeTest[] | null {
+  let tests = value;
+  if (typeof value === "string") {
+    try {
+      tests = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const parsed = challengeTestsSchema.safeParse(tests);
+  return parsed.success ? parsed.data : null;
+}
@@ -0,0 +1,67 @@
+// Types shared by the breakpoint debugger and its WebSocket channel
+import type { Language } from "./schema";
+import type { ConsoleMessage, ExecutionError } from "./execution";
+
+// A value in the paused program, as the inspector describes it
+export interface DebugValue {
+  // typeof the value, or "accessor" for getters that are not invoked
+  type: string;
+  // Narrower kind of objects, such as "array", "map" or "null"
+  subtype?: string;
+  // One-line rendering, e.g. "'hi'" or "Array(3)"
+  description: string;
+  // Set for objects, whose properties can be requested while paused
+  objectId?: string;
+}
+
+export interface DebugVariable {
+  name: string;
+  value: DebugValue;
+}
+
+export interface DebugScope {
+  // Inspector scope type: "local", "closure", "block", "script", "module", "global"...
+  type: string;
+  // Heading shown above the variables, e.g. "Closure (counter)"
+  name: string;
+  variables: DebugVariable[];
+}
+
+export interface DebugCallFrame {
+  // Identifies the frame when evaluating expressions in it
+  id: string;
+  functionName: string | null;
+  line: number;
+  column: number;
+  // Innermost scope first
+  scopes: DebugScope[];
+}
+
+// What made execution stop
+export type DebugPauseReason = 'breakpoint' | 'step' | 'pause' | 'debugger';
+
+export interface DebugPausedState {
+  reason: DebugPauseReason;
+  // Frames of the user's code only, innermost first
+  callFrames: DebugCallFrame[];
+}
+
+// Frames sent by the client over /ws/debug. Breakpoints are 1-based lines
+// of the code as the user wrote it.
+export type DebugClientFrame =
+  | { type: 'start'; code: string; language?: Language; breakpoints: number[] }
+  | { type: 'setBreakpoints'; breakpoints: number[] }
+  | { type: 'resume' | 'stepOver' | 'stepInto' | 'stepOut' | 'pause' | 'stop' }
+  | { type: 'evaluate'; requestId: number; callFrameId: string; expression: string }
+  | { type: 'properties'; requestId: number; objectId: string };
+
+// Frames pushed by the server over /ws/debug
+export type DebugServerFrame =
+  | { type: 'started' }
+  | { type: 'console'; entry: ConsoleMessage }
+  | { type: 'paused'; state: DebugPausedState }
+  | { type: 'resumed' }
+  | { type: 'evaluation'; requestId: number; value: DebugValue | null; error: string | null }
+  | { type: 'properties'; requestId: number; properties: DebugVariable[] }
+  | { type: 'finished'; error: ExecutionError | null; completed: boolean; cancelled: boolean; executionTime: number }
+  | { type: 'error'; message: string };
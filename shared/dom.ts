@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+// Longest starting HTML a snippet or challenge may have
+export const MAX_DOM_FIXTURE_LENGTH = 100_000;
+
+// Something a challenge test does to the page after the code has run, like
+// a user would: sets the value of a form field, then fires the event on it
+export const domActionSchema = z.object({
+  selector: z.string().min(1),
+  event: z.string().min(1),
+  value: z.string().optional()
+});
+
+// A check on the page once the code and the actions are done. The selector
+// has to match at least one element unless count says otherwise; text and
+// attributes are compared against the first match.
+export const domAssertionSchema = z.object({
+  selector: z.string().min(1),
+  count: z.number().int().min(0).optional(),
+  // Compared with the element's textContent, trimmed
+  text: z.string().optional(),
+  attributes: z.record(z.string()).optional()
+});
+
+export type DomAction = z.infer<typeof domActionSchema>;
+export type DomAssertion = z.infer<typeof domAssertionSchema>;
@@ -0,0 +1,258 @@
+// Types shared by the code execution API and its WebSocket channel
+import type { Language } from "./schema";
+import type { NetworkPolicy } from "./network";
+import type { SnippetProject } from "./project";
+import type { SerializedArguments, SerializedObject, SerializedTable, SerializedValue } from "./inspect";
+
+// Severity of a console entry, which decides how it is styled and filtered
+export type ConsoleType = 'log' | 'error' | 'warn' | 'info' | 'debug' | 'table';
+
+// The console method that produced an entry
+export type ConsoleMethod =
+  | 'log'
+  | 'error'
+  | 'warn'
+  | 'info'
+  | 'debug'
+  | 'table'
+  | 'dir'
+  | 'trace'
+  | 'group'
+  | 'groupCollapsed'
+  | 'time'
+  | 'timeLog'
+  | 'timeEnd'
+  | 'count'
+  | 'countReset'
+  | 'assert';
+
+export interface ConsoleMessage {
+  type: ConsoleType;
+  // Text rendering, as Node's console would print it
+  content: string;
+  // The same values in structured form for the object inspector
+  args?: SerializedArguments;
+  // Unset for messages the runner reports itself, such as uncaught errors
+  method?: ConsoleMethod;
+  // Number of console.group() calls still open, 0 at the top level.
+  // Entries following a group header with a greater depth belong to it.
+  depth?: number;
+  // Call stack printed by console.trace(), and its frames
+  stack?: string;
+  frames?: StackFrame[];
+  // Rows and columns of a console.table() call
+  table?: SerializedTable;
+}
+
+// Asynchronous work still outstanding when a run was cut off
+export interface PendingWork {
+  timers: number;
+  requests: number;
+}
+
+// Requested by a run that has to behave the same every time: Math.random
+// and crypto draw from a seeded generator, Date is frozen and timers fire in
+// order on a virtual clock without waiting
+export interface DeterministicOptions {
+  // Replays the run that reported this seed; a new one is picked when left out
+  seed?: number;
+  // What Date.now() returns when the code starts, in ms since the epoch
+  startTime?: number;
+}
+
+// A call site from a stack trace, located in the code the user wrote
+export interface StackFrame {
+  functionName: string | null;
+  // "main.js" or "main.ts" for the user's code, or the path of the file in
+  // a multi-file project; the package id otherwise
+  file: string;
+  line: number;
+  column: number;
+  // False for frames inside imported packages, which the editor cannot open
+  userCode: boolean;
+}
+
+export interface ExecutionError {
+  name: string;
+  message: string;
+  // Cleaned stack with only the frames listed in frames
+  stack?: string;
+  // 1-based location in the user's code, when known
+  line?: number;
+  column?: number;
+  // File of the location in a multi-file project; the entry when left out
+  file?: string;
+  frames?: StackFrame[];
+}
+
+/**
+ * Render an execution error the way the console shows it
+ * @param error The error reported by the sandbox
+ * @returns "Name: message" followed by the location when it is known
+ */
+export function formatExecutionError(error: ExecutionError): string {
+  if (!error.line) {
+    return `${error.name}: ${error.message}`;
+  }
+  const column = error.column ? `:${error.column}` : '';
+  const file = error.file ? ` of ${error.file}` : '';
+  return `${error.name}: ${error.message} (line ${error.line}${column}${file})`;
+}
+
+// Variables visible at a step of a traced run
+export interface ScopeSnapshot {
+  kind: 'global' | 'function' | 'block';
+  // Function name for function scopes
+  name: string;
+  // A null value marks a let or const that is not initialized yet
+  variables: { name: string; value: SerializedValue | null }[];
+}
+
+// One statement reached while tracing a run for visual execution
+export interface ExecutionStep {
+  // 1-based location of the statement in the user's code
+  line: number;
+  column: number;
+  // The source line being executed
+  description: string;
+  explanation: string;
+  // Innermost scope first
+  scopes: ScopeSnapshot[];
+  // Objects referenced by the variable values
+  objects: Record<number, SerializedObject>;
+  // Innermost call first
+  callStack: StackFrame[];
+  // Number of console entries written before this step
+  consoleLength: number;
+}
+
+// Response of /api/execute-visual
+export interface VisualExecutionResult {
+  steps: ExecutionStep[];
+  console: ConsoleMessage[];
+  error: ExecutionError | null;
+  // True when the step limit was reached and later steps were not recorded
+  truncated: boolean;
+}
+
+// Unit of work scheduled on the event loop
+export type EventLoopTaskKind =
+  | 'script'
+  | 'timeout'
+  | 'interval'
+  | 'request'
+  // Callback of then(), catch() or finally(), or a step of Promise.all() and friends
+  | 'promise'
+  // Continuation of an async function after an await
+  | 'await'
+  | 'microtask';
+
+export interface EventLoopTask {
+  // Unique within a run
+  id: number;
+  kind: EventLoopTaskKind;
+  // Short text shown in the queues, e.g. "setTimeout(greet, 100)"
+  label: string;
+  // 1-based line in the user's code where the task was scheduled
+  line: number | null;
+}
+
+export type EventLoopEventType =
+  | 'scriptStart'
+  | 'scriptEnd'
+  // A timer or request was handed to a Web API, or left it without running
+  | 'webApiAdded'
+  | 'webApiRemoved'
+  | 'taskQueued'
+  | 'taskStart'
+  | 'taskEnd'
+  // An async function gave up the call stack at an await
+  | 'await'
+  | 'microtaskQueued'
+  | 'microtaskStart'
+  | 'microtaskEnd'
+  | 'console';
+
+// State of the event loop after something changed in it
+export interface EventLoopStep {
+  type: EventLoopEventType;
+  description: string;
+  // The task the event is about
+  task: EventLoopTask | null;
+  // Line of the user's code the event happened at, if any
+  line: number | null;
+  // The task on the call stack, below the frames in callStack
+  running: EventLoopTask | null;
+  // Innermost call first
+  callStack: StackFrame[];
+  // Timers and requests in progress, in the order they were started
+  webApis: EventLoopTask[];
+  // Queues in the order the event loop takes from them
+  macrotasks: EventLoopTask[];
+  microtasks: EventLoopTask[];
+  // Number of console entries written before this step
+  consoleLength: number;
+}
+
+// Response of /api/execute-event-loop
+export interface EventLoopTraceResult {
+  steps: EventLoopStep[];
+  console: ConsoleMessage[];
+  error: ExecutionError | null;
+  // True when the step limit was reached and later events were not recorded
+  truncated: boolean;
+}
+
+// Frames sent by the client over /ws/execute
+export type ExecutionClientFrame =
+  | {
+      type: 'run';
+      runId: string;
+      code: string;
+      snippetId?: number;
+      timeout?: number;
+      language?: Language;
+      // true runs deterministically with a new seed
+      deterministic?: DeterministicOptions | boolean;
+      // Overrides the snippet's saved network policy
+      network?: NetworkPolicy | null;
+      // Overrides the snippet's starting HTML; null runs without a DOM
+      dom?: string | null;
+      // Overrides the snippet's files; code is the content of the entry
+      project?: SnippetProject | null;
+    }
+  | { type: 'cancel'; runId: string };
+
+// Frames pushed by the server over /ws/execute
+export type ExecutionServerFrame =
+  | { type: 'start'; runId: string }
+  | { type: 'console'; runId: string; entry: ConsoleMessage }
+  | { type: 'error'; runId: string | null; error: ExecutionError }
+  | {
+      type: 'finish';
+      runId: string;
+      result: any;
+      completed: boolean;
+      cancelled: boolean;
+      pending: PendingWork | null;
+      executionTime: number;
+      // Seed of a deterministic run, null otherwise
+      seed: number | null;
+      // Final HTML of a run with a virtual DOM, null otherwise
+      dom: string | null;
+    };
+
+// Response of /api/repl/:id/evaluate for one input of a REPL session
+export interface ReplEvaluation {
+  // The input's completion value for the object inspector; null after an error
+  value: SerializedArguments | null;
+  error: ExecutionError | null;
+  // Console output since the previous response, including output of timers
+  // and requests started by earlier inputs
+  console: ConsoleMessage[];
+  // Timers and requests of the session still outstanding
+  pending: PendingWork;
+}
+
+// Response of /api/repl/:id/output
+export type ReplOutput = Pick<ReplEvaluation, 'console' | 'pending'>;
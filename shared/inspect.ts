@@ -0,0 +1,88 @@
+// Structured form of the values passed to console methods. Objects are stored
+// once in a table keyed by id, so shared and circular references point at the
+// same entry and the client can expand them on demand.
+
+export type SerializedValue =
+  | { type: 'undefined' }
+  | { type: 'null' }
+  | { type: 'boolean'; value: boolean }
+  // Values JSON cannot carry are sent as their names
+  | { type: 'number'; value: number | 'NaN' | 'Infinity' | '-Infinity' | '-0' }
+  // length is set when the string was cut short
+  | { type: 'string'; value: string; length?: number }
+  | { type: 'bigint'; value: string }
+  | { type: 'symbol'; description: string }
+  | { type: 'function'; name: string; kind: 'function' | 'class' | 'async' | 'generator' }
+  | { type: 'object'; id: number };
+
+export type ObjectSubtype =
+  | 'object'
+  | 'array'
+  | 'typedarray'
+  | 'map'
+  | 'set'
+  | 'weakmap'
+  | 'weakset'
+  | 'error'
+  | 'date'
+  | 'regexp'
+  | 'promise'
+  | 'boxed'
+  | 'proxy';
+
+export interface SerializedProperty {
+  key: string;
+  value: SerializedValue;
+  symbol?: boolean;
+  // Accessors are listed without calling them, so user getters never run
+  accessor?: 'get' | 'set' | 'get/set';
+}
+
+// Map entries have a key; Set entries only a value
+export interface SerializedEntry {
+  key?: SerializedValue;
+  value: SerializedValue;
+}
+
+export interface SerializedObject {
+  // Constructor name from the prototype chain, e.g. "Object", "Array", "Person"
+  className: string;
+  subtype: ObjectSubtype;
+  // Text shown in place of contents: date, regexp source, error stack, promise state
+  description?: string;
+  // Length of arrays, size of maps and sets
+  size?: number;
+  properties: SerializedProperty[];
+  entries?: SerializedEntry[];
+  // Number of properties and entries left out of a large object
+  truncated?: number;
+  // False when the size budget ran out before the contents were read
+  expanded: boolean;
+}
+
+export interface SerializedArguments {
+  values: SerializedValue[];
+  objects: Record<number, SerializedObject>;
+}
+
+// console.table() data arranged as rows and columns. Cell values refer to the
+// object table like console arguments do.
+export interface SerializedTable {
+  // "(index)" for arrays and objects, "(iteration index)" for maps and sets
+  indexLabel: string;
+  // Property columns in display order; a "Values" column follows when
+  // some rows are primitives
+  columns: string[];
+  rows: SerializedTableRow[];
+  hasValues: boolean;
+  objects: Record<number, SerializedObject>;
+  // Number of rows left out of a large table
+  truncated?: number;
+}
+
+export interface SerializedTableRow {
+  index: string;
+  cells: Record<string, SerializedValue>;
+  // Set for rows that are primitives, or the values of maps and sets
+  value?: SerializedValue;
+}
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+// What sandboxed code may reach over fetch:
+//   open      - any public URL; local and private addresses stay out of reach
+//   deny      - nothing
+//   allowlist - only URLs matching one of allow
+//   mock      - nothing real; requests are answered from mocks
+export const networkModes = ["open", "deny", "allowlist", "mock"] as const;
+
+// URL patterns may use * for any run of characters. A pattern with a scheme
+// ("https://api.example.com/users/*") is matched against the whole URL, one
+// without ("*.example.com") against the host name only.
+export const mockResponseSchema = z.object({
+  // HTTP method to answer; any method when left out
+  method: z.string().min(1).optional(),
+  url: z.string().min(1),
+  // 200 when left out
+  status: z.number().int().min(200).max(599).optional(),
+  headers: z.record(z.string()).optional(),
+  // Strings are sent as they are, anything else as JSON
+  body: z.unknown().optional(),
+  // Milliseconds to wait before answering
+  latency: z.number().int().min(0).max(10000).optional()
+});
+
+export const networkPolicySchema = z.object({
+  mode: z.enum(networkModes),
+  allow: z.array(z.string().min(1)).optional(),
+  mocks: z.array(mockResponseSchema).optional()
+});
+
+// Host of the public placeholder API that examples use; the local mock API
+// answers for it, so they work without internet access
+export const PLACEHOLDER_HOST = "jsonplaceholder.typicode.com";
+
+export type NetworkMode = typeof networkModes[number];
+export type MockResponse = z.infer<typeof mockResponseSchema>;
+export type NetworkPolicy = z.infer<typeof networkPolicySchema>;
+
+// Code without a policy of its own reaches nothing but the placeholder API
+export const defaultNetworkPolicy: NetworkPolicy = {
+  mode: "allowlist",
+  allow: [PLACEHOLDER_HOST]
+};
@@ -0,0 +1,81 @@
+// npm packages offered in the Package Explorer. The server keeps an offline
+// copy of each of them so snippets importing them run without network access.
+
+export interface PackageInfo {
+  name: string;
+  version: string;
+  description: string;
+  importStatement: string;
+  cdnUrl: string;
+  homepage?: string;
+}
+
+/**
+ * Common npm packages for quick access
+ */
+export const commonPackages: PackageInfo[] = [
+  {
+    name: 'lodash',
+    version: 'latest',
+    description: 'A modern JavaScript utility library delivering modularity, performance & extras.',
+    importStatement: "import _ from 'https://esm.sh/lodash';",
+    cdnUrl: 'https://esm.sh/lodash',
+    homepage: 'https://lodash.com/'
+  },
+  {
+    name: 'axios',
+    version: 'latest',
+    description: 'Promise based HTTP client for the browser and node.js',
+    importStatement: "import axios from 'https://esm.sh/axios';",
+    cdnUrl: 'https://esm.sh/axios',
+    homepage: 'https://axios-http.com/'
+  },
+  {
+    name: 'date-fns',
+    version: 'latest',
+    description: 'Modern JavaScript date utility library',
+    importStatement: "import { format, addDays } from 'https://esm.sh/date-fns';",
+    cdnUrl: 'https://esm.sh/date-fns',
+    homepage: 'https://date-fns.org/'
+  },
+  {
+    name: 'uuid',
+    version: 'latest',
+    description: 'RFC-compliant UUID generator',
+    importStatement: "import { v4 as uuidv4 } from 'https://esm.sh/uuid';",
+    cdnUrl: 'https://esm.sh/uuid',
+    homepage: 'https://github.com/uuidjs/uuid'
+  },
+  {
+    name: 'zod',
+    version: 'latest',
+    description: 'TypeScript-first schema validation with static type inference',
+    importStatement: "import { z } from 'https://esm.sh/zod';", 
+    cdnUrl: 'https://esm.sh/zod',
+    homepage: 'https://zod.dev/'
+  },
+  {
+    name: 'chart.js',
+    version: 'latest',
+    description: 'Simple yet flexible JavaScript charting for designers & developers',
+    importStatement: "import Chart from 'https://esm.sh/chart.js';",
+    cdnUrl: 'https://esm.sh/chart.js',
+    homepage: 'https://www.chartjs.org/'
+  },
+  {
+    name: 'marked',
+    version: 'latest',
+    description: 'A markdown parser and compiler. Built for speed.',
+    importStatement: "import { marked } from 'https://esm.sh/marked';",
+    cdnUrl: 'https://esm.sh/marked',
+    homepage: 'https://marked.js.org/'
+  },
+  {
+    name: 'd3',
+    version: 'latest',
+    description: 'Data visualization library for web browsers',
+    importStatement: "import * as d3 from 'https://esm.sh/d3';",
+    cdnUrl: 'https://esm.sh/d3',
+    homepage: 'https://d3js.org/'
+  }
+];
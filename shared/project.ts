@@ -0,0 +1,61 @@
+import { z } from "zod";
+import type { Language } from "./schema";
+
+// Most files a snippet project may hold, entry included
+export const MAX_PROJECT_FILES = 20;
+
+// Extensions files can be imported with; .ts files are transpiled
+export const projectFileExtensions = [".js", ".mjs", ".ts", ".json"] as const;
+
+// Relative paths such as "utils/math.js": no leading slash, no "." or ".."
+// segments, no empty folders
+const PATH_PATTERN = /^(?!.*(?:^|\/)\.\.?(?:\/|$))[\w.-]+(?:\/[\w.-]+)*$/;
+
+export const projectFileSchema = z.object({
+  path: z.string()
+    .max(200)
+    .regex(PATH_PATTERN, "Must be a relative path like utils/math.js")
+    .refine(path => projectFileExtensions.some(extension => path.endsWith(extension)), {
+      message: `Must end in ${projectFileExtensions.join(", ")}`
+    }),
+  content: z.string()
+});
+
+// Files of a snippet that imports between modules. The entry is the file
+// that runs; the others are only loaded when imported.
+export const projectSchema = z.object({
+  entry: z.string(),
+  files: z.array(projectFileSchema).min(1).max(MAX_PROJECT_FILES)
+}).superRefine((project, ctx) => {
+  const seen = new Set<string>();
+  project.files.forEach((file, index) => {
+    if (seen.has(file.path)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["files", index, "path"], message: `${file.path} is listed twice` });
+    }
+    seen.add(file.path);
+  });
+  if (!seen.has(project.entry)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["entry"], message: "Must be the path of one of the files" });
+  }
+});
+
+export type ProjectFile = z.infer<typeof projectFileSchema>;
+export type SnippetProject = z.infer<typeof projectSchema>;
+
+/**
+ * Name of the only file of a snippet saved before snippets had several
+ */
+export function defaultEntry(language: Language): string {
+  return language === "typescript" ? "main.ts" : "main.js";
+}
+
+/**
+ * The files of a snippet, single-file snippets included: their code becomes
+ * the entry file
+ * @param snippet Saved code, language and project, if there is one
+ */
+export function snippetProject(snippet: { code: string; language: string; project?: SnippetProject | null }): SnippetProject {
+  if (snippet.project) return snippet.project;
+  const entry = defaultEntry(snippet.language as Language);
+  return { entry, files: [{ path: entry, content: snippet.code }] };
+}
@@ -1,12 +1,37 @@
 import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { networkPolicySchema, type NetworkPolicy } from "./network";
+import { MAX_DOM_FIXTURE_LENGTH } from "./dom";
+import { projectSchema, type SnippetProject } from "./project";
+import { challengeTestsSchema, type ChallengeTest } from "./challenge";
+
+// Languages code can be written in; TypeScript is transpiled before it runs
+export const languages = ["javascript", "typescript"] as const;
+
+// Scripts run on the server; web pages render their HTML, CSS and JavaScript
+// in a sandboxed frame in the browser
+export const snippetKinds = ["script", "web"] as const;
+
+export const challengeDifficulties = ["easy", "medium", "hard"] as const;
+
+// Drafts are only seen in the challenge studio; a challenge is published once
+// its solution passes its tests
+export const challengeStatuses = ["draft", "published"] as const;
 
 export const snippets = pgTable("snippets", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   code: text("code").notNull(),
   description: text("description"),
+  language: text("language").default("javascript").notNull(), // 'javascript', 'typescript'
+  networkPolicy: json("network_policy").$type<NetworkPolicy>(), // What fetch may reach, see shared/network.ts; defaultNetworkPolicy when null
+  domFixture: text("dom_fixture"), // Starting HTML of the virtual DOM; no DOM when null
+  kind: text("kind").default("script").notNull(), // 'script', 'web'
+  html: text("html"), // Body of a web page; code holds its JavaScript
+  css: text("css"), // Stylesheet of a web page
+  project: json("project").$type<SnippetProject>(), // Files importing each other, see shared/project.ts; code mirrors the entry. Single file when null
+
   isExample: boolean("is_example").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -14,8 +39,13 @@ export const snippets = pgTable("snippets", {
 export const consoleEntries = pgTable("console_entries", {
   id: serial("id").primaryKey(),
   snippetId: integer("snippet_id").references(() => snippets.id).notNull(),
-  type: text("type").notNull(), // 'log', 'error', 'warn', 'info'
+  type: text("type").notNull(), // 'log', 'error', 'warn', 'info', 'debug', 'table'
   content: text("content").notNull(),
+  args: json("args"), // Structured console arguments, see shared/inspect.ts
+  method: text("method"), // Console method called, e.g. 'group' or 'timeEnd'
+  depth: integer("depth").default(0).notNull(), // console.group() nesting level
+  stack: text("stack"), // Call stack recorded by console.trace()
+  table: json("table"), // Rows and columns of console.table(), see shared/inspect.ts
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
@@ -37,7 +67,11 @@ export const challenges = pgTable("challenges", {
   starterCode: text("starter_code").notNull(),
   solutionCode: text("solution_code").notNull(),
   hints: text("hints").array(),
-  testCases: json("test_cases").notNull(), // JSON of test cases
+  testCases: json("test_cases").$type<ChallengeTest[]>().notNull(), // See shared/challenge.ts
+  language: text("language").default("javascript").notNull(), // 'javascript', 'typescript'
+  networkPolicy: json("network_policy").$type<NetworkPolicy>(), // What fetch may reach, see shared/network.ts; defaultNetworkPolicy when null
+  domFixture: text("dom_fixture"), // Starting HTML of the virtual DOM; no DOM when null
+  status: text("status").default("published").notNull(), // 'draft', 'published'
   order: integer("order").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -51,7 +85,13 @@ export const userChallengeProgress = pgTable("user_challenge_progress", {
 });
 
 // Create insert schemas
-export const insertSnippetSchema = createInsertSchema(snippets).omit({
+export const insertSnippetSchema = createInsertSchema(snippets, {
+  language: z.enum(languages).optional(),
+  networkPolicy: networkPolicySchema.nullable().optional(),
+  domFixture: z.string().max(MAX_DOM_FIXTURE_LENGTH).nullable().optional(),
+  kind: z.enum(snippetKinds).optional(),
+  project: projectSchema.nullable().optional()
+}).omit({
   id: true,
   createdAt: true,
   isExample: true
@@ -67,7 +107,14 @@ export const insertChallengeCategorySchema = createInsertSchema(challengeCategor
   createdAt: true,
 });
 
-export const insertChallengeSchema = createInsertSchema(challenges).omit({
+export const insertChallengeSchema = createInsertSchema(challenges, {
+  difficulty: z.enum(challengeDifficulties),
+  status: z.enum(challengeStatuses).optional(),
+  language: z.enum(languages).optional(),
+  networkPolicy: networkPolicySchema.nullable().optional(),
+  domFixture: z.string().max(MAX_DOM_FIXTURE_LENGTH).nullable().optional(),
+  testCases: challengeTestsSchema
+}).omit({
   id: true,
   createdAt: true,
 });
@@ -78,8 +125,14 @@ export const insertUserChallengeProgressSchema = createInsertSchema(userChalleng
 });
 
 // Export types
+export type Language = typeof languages[number];
+export type SnippetKind = typeof snippetKinds[number];
+export type ChallengeDifficulty = typeof challengeDifficulties[number];
+export type ChallengeStatus = typeof challengeStatuses[number];
+
 export type InsertSnippet = z.infer<typeof insertSnippetSchema>;
 export type Snippet = typeof snippets.$inferSelect;
+export type InsertConsoleEntry = z.infer<typeof insertConsoleEntrySchema>;
 export type ConsoleEntry = typeof consoleEntries.$inferSelect;
 
 export type InsertChallengeCategory = z.infer<typeof insertChallengeCategorySchema>;